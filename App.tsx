@@ -17,15 +17,20 @@ import { getTodaysWorkout } from './services/workoutService';
 import { generateWorkout, GeneratedWorkout } from './services/aiService';
 import { findExerciseByName } from './data/exercises';
 import { getTemplates, updateLastUsed, templateToExerciseLogs } from './services/templateService';
-import { calculateTotalVolume } from './utils/workoutUtils';
+import { calculateTotalReps, calculateTotalVolume } from './utils/workoutUtils';
 import type { WorkoutTemplate } from './services/templateService';
 import type { RecoveryState } from './components/RecoveryCheckIn';
 import type { WorkoutDraft } from './components/WorkoutSession';
 import type { UserProfile } from './hooks/useUserData';
+import type { Micronutrients } from './lib/ai/types';
 import { safeJSONParse } from './utils/safeStorage';
 import { lazyWithRetry } from './utils/lazyWithRetry';
 import { queueWorkout, syncQueuedWorkouts, hasQueuedWorkouts, onOnlineWorkoutSync } from './services/workoutOfflineQueue';
 import { useCoachingAgent } from './hooks/useCoachingAgent';
+import { useHydration } from './hooks/useHydration';
+import { calculateHydrationTarget, recentHydrationPercent } from './utils/hydration';
+import { summarizeEffort, type LoggedSet } from './utils/setTypes';
+import { detectNewRecords, type PersonalRecord } from './services/personalRecords';
 import { useSubscription, PREMIUM_FEATURES } from './hooks/useSubscription';
 const PaywallModal = lazyWithRetry(() => import('./components/PaywallModal'), 'PaywallModal');
 
@@ -88,13 +93,17 @@ export interface ExerciseLog {
   restSeconds?: number;
   formCues?: string[];
   exerciseId?: string;
+  loggedSets?: LoggedSet[];  // Completed sets with type / RPE / RIR / tempo (from workout_sets when loaded)
+  setsEstimated?: boolean;   // loggedSets were reconstructed from the sets/reps strings
 }
 
 export interface CompletedWorkout {
+  id?: string;       // workouts.id (missing on optimistic entries from older clients)
   date: string;
   rawDate?: string;  // ISO timestamp for calculations
   title: string;
   log: ExerciseLog[];
+  records?: PersonalRecord[];  // PRs set in this session (personal_records)
 }
 
 export interface NutritionLog {
@@ -103,6 +112,8 @@ export interface NutritionLog {
   protein: number;
   carbs: number;
   fats: number;
+  micros?: Micronutrients; // From meals with micronutrient data only
+  microsComplete?: boolean; // Every meal that day had micronutrient data
 }
 
 // Convert AI workout to exercise log format (module-level)
@@ -149,9 +160,16 @@ const AppContent: React.FC = () => {
   const isOnline = useOnlineStatus();
 
   // Supabase Data Hook
-  const { goal, onboardingComplete, userProfile, nutritionTargets, workouts, nutritionLogs, mealEntries, favorites, updateGoal, addWorkout, saveNutrition, addMealToDaily, saveMealEntry, deleteMealEntry, addToFavorites, refetchProfile, loading: dataLoading, error: dataError, retry: retryData } = useUserData();
+  const { goal, onboardingComplete, userProfile, nutritionTargets, workouts, personalRecords, nutritionLogs, mealEntries, favorites, recipes, updateGoal, addWorkout, saveNutrition, addMealToDaily, saveMealEntry, deleteMealEntry, copyMealEntries, moveMealEntries, addToFavorites, saveRecipe, deleteRecipe, refetchProfile, loading: dataLoading, error: dataError, retry: retryData } = useUserData();
   const { user, loading } = useAuth();
   const { showToast } = useToast();
+  const { entries: hydrationEntries, todayMl: waterTodayMl, addWater, deleteEntry: deleteWaterEntry } = useHydration(user?.id);
+
+  // Water over the last 24h vs. a training-day target, for the pre-workout check-in
+  const recoveryHydrationPct = useMemo(
+    () => recentHydrationPercent(hydrationEntries, calculateHydrationTarget(userProfile?.weight_lbs ?? null, true)),
+    [hydrationEntries, userProfile?.weight_lbs]
+  );
 
   // ============================================================================
   // Subscription Gating (must be before workout/AI features)
@@ -199,6 +217,7 @@ const AppContent: React.FC = () => {
   const [workoutStatus, setWorkoutStatus] = useState<WorkoutStatus>('idle');
   const [aiWorkout, setAiWorkout] = useState<GeneratedWorkout | null>(null);
   const [completedLog, setCompletedLog] = useState<ExerciseLog[]>([]);
+  const [sessionRecords, setSessionRecords] = useState<PersonalRecord[]>([]);
   const [startTime, setStartTime] = useState<number>(0);
   const [endTime, setEndTime] = useState<number>(0);
   const [recoveryDraft, setRecoveryDraft] = useState<WorkoutDraft | null>(null);
@@ -234,6 +253,9 @@ const AppContent: React.FC = () => {
     }));
   }, [workouts]);
 
+  // Per-exercise RPE from rated sets, so generated loads follow how hard recent sessions felt
+  const exerciseEffort = useMemo(() => summarizeEffort(workouts.slice(0, 20)), [workouts]);
+
   // Check for draft workout on mount
   useEffect(() => {
     const saved = localStorage.getItem(getDraftStorageKey(user?.id));
@@ -283,12 +305,11 @@ const AppContent: React.FC = () => {
     setWorkoutStatus('completed');
 
     // Capture coaching event
-    const totalReps = exercises.reduce((sum, ex) => {
-      const repsArr = ex.reps.split(',').map(r => parseInt(r.trim()) || 0);
-      return sum + repsArr.reduce((a, b) => a + b, 0);
-    }, 0);
+    const totalReps = calculateTotalReps(exercises);
     const volume = calculateTotalVolume(exercises);
     const muscles = exercises.flatMap(ex => ex.targetMuscles || []);
+    const records = detectNewRecords(exercises, workouts, personalRecords);
+    setSessionRecords(records);
 
     captureEvent({
       type: 'workout_completed',
@@ -301,13 +322,14 @@ const AppContent: React.FC = () => {
         restSkips: meta?.restSkips || 0,
         totalRests: meta?.totalRests || 0,
         exercises: exercises.map(e => ({ name: e.name, sets: e.sets, reps: e.reps })),
+        records: records.map(r => ({ name: r.exerciseName, type: r.type, value: r.value })),
       },
     });
 
     // Generate post-workout insight
-    const insight = generatePostWorkoutInsight({ totalReps, volume, muscles, title });
+    const insight = generatePostWorkoutInsight({ totalReps, volume, muscles, title, records });
     setPostWorkoutInsight(insight);
-  }, [captureEvent, generatePostWorkoutInsight]);
+  }, [captureEvent, generatePostWorkoutInsight, workouts, personalRecords]);
 
   // Note: handleWorkoutCancel is defined after resetWorkoutState to use it
   // FIX 5.4: Also reset timing state to prevent negative duration on next workout
@@ -323,9 +345,9 @@ const AppContent: React.FC = () => {
     setEndTime(0);
   }, []);
 
-  const handleAddWorkoutToHistory = useCallback(async (log: ExerciseLog[], title: string, rating?: number): Promise<boolean> => {
+  const handleAddWorkoutToHistory = useCallback(async (log: ExerciseLog[], title: string, rating?: number, records?: PersonalRecord[]): Promise<boolean> => {
     const validLog = log.filter(ex => ex.name);
-    return await addWorkout(title, validLog, rating);
+    return await addWorkout(title, validLog, rating, records);
   }, [addWorkout]);
 
   const handleResumeDraft = useCallback(() => {
@@ -360,6 +382,7 @@ const AppContent: React.FC = () => {
         sleep: recovery.sleepHours,
         soreness: recovery.sorenessAreas,
         lastWorkoutRating: recovery.lastWorkoutRating,
+        ...(recoveryHydrationPct !== null && { hydrationPct: recoveryHydrationPct }),
       },
     });
 
@@ -381,11 +404,16 @@ const AppContent: React.FC = () => {
       trial_started_at: new Date().toISOString(),
       subscription_ends_at: null,
       supplement_preferences: null,
-      created_at: new Date().toISOString() // Fallback to now for day counter
+      created_at: new Date().toISOString(), // Fallback to now for day counter
+      adaptive_tdee: null,
+      adaptive_tdee_updated_at: null,
+      dietary_preferences: [],
+      fasting_window: null,
+      unit_system: 'imperial'
     };
 
     try {
-      const workout = await generateWorkout({ profile, recovery, recentWorkouts });
+      const workout = await generateWorkout({ profile, recovery, recentWorkouts, effort: exerciseEffort });
       if (workout) {
         setAiWorkout(workout);
         setWorkoutLog(aiWorkoutToExerciseLog(workout));
@@ -408,7 +436,7 @@ const AppContent: React.FC = () => {
     }
 
     setWorkoutStatus('preview');
-  }, [userProfile, goal, recentWorkouts, fallbackWorkout, showToast, user?.id, captureEvent]);
+  }, [userProfile, goal, recentWorkouts, exerciseEffort, fallbackWorkout, showToast, user?.id, captureEvent, recoveryHydrationPct]);
 
   // M4 FIX: Retry AI workout generation from preview screen
   const handleRetryAIWorkout = useCallback(async () => {
@@ -420,7 +448,7 @@ const AppContent: React.FC = () => {
     const recovery: RecoveryState = { energyLevel: 3, sleepHours: 7, lastWorkoutRating: 3, sorenessAreas: [] };
 
     try {
-      const workout = await generateWorkout({ profile, recovery, recentWorkouts });
+      const workout = await generateWorkout({ profile, recovery, recentWorkouts, effort: exerciseEffort });
       if (workout) {
         setAiWorkout(workout);
         setWorkoutLog(aiWorkoutToExerciseLog(workout));
@@ -434,7 +462,7 @@ const AppContent: React.FC = () => {
     } finally {
       setIsRetryingWorkout(false);
     }
-  }, [userProfile, recentWorkouts, showToast]);
+  }, [userProfile, recentWorkouts, exerciseEffort, showToast]);
 
   const handleStartFromPreview = useCallback(() => {
     setStartTime(Date.now());
@@ -470,6 +498,34 @@ const AppContent: React.FC = () => {
     markDayCompleted
   } = useWeeklyPlan();
 
+  // ============================================================================
+  // Hydration
+  // ============================================================================
+  const isTrainingDay = useMemo(() => {
+    const today = new Date().toDateString();
+    const trainedToday = workouts.some(w => w.rawDate && new Date(w.rawDate).toDateString() === today);
+    return trainedToday || (!!todaysPlan && !todaysPlan.is_rest_day);
+  }, [workouts, todaysPlan]);
+
+  const hydrationTargetMl = useMemo(
+    () => calculateHydrationTarget(userProfile?.weight_lbs ?? null, isTrainingDay),
+    [userProfile?.weight_lbs, isTrainingDay]
+  );
+
+  const handleAddWater = useCallback(async (amountMl: number) => {
+    const ok = await addWater(amountMl);
+    if (!ok) showToast("Didn't save. Try again.", 'error');
+    return ok;
+  }, [addWater, showToast]);
+
+  // Entries are newest first, so the first one dated today is the last drink logged
+  const handleUndoWater = useCallback(async () => {
+    const today = new Date();
+    const todayStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    const last = hydrationEntries.find(e => e.date === todayStr);
+    return last ? deleteWaterEntry(last.id) : false;
+  }, [hydrationEntries, deleteWaterEntry]);
+
   const gatedGenerateNewPlan = useCallback(() => {
     if (!requireSubscription(PREMIUM_FEATURES.AI_WORKOUTS)) return;
     generateNewPlan();
@@ -544,7 +600,7 @@ const AppContent: React.FC = () => {
     const nutritionSnapshot = { ...todayNutrition };
 
     try {
-      const saved = await handleAddWorkoutToHistory(completedLog, workoutTitle, rating);
+      const saved = await handleAddWorkoutToHistory(completedLog, workoutTitle, rating, sessionRecords);
       saveNutrition(nutritionSnapshot);
 
       if (saved) {
@@ -572,6 +628,7 @@ const AppContent: React.FC = () => {
           title: workoutTitle,
           exercises: completedLog,
           rating,
+          records: sessionRecords,
           completedAt: Date.now(),
         }, user?.id);
         setIsSaving(false);
@@ -597,6 +654,7 @@ const AppContent: React.FC = () => {
         title: workoutTitle,
         exercises: completedLog,
         rating,
+        records: sessionRecords,
         completedAt: Date.now(),
       }, user?.id);
       setIsSaving(false);
@@ -610,7 +668,7 @@ const AppContent: React.FC = () => {
         return false;
       }
     }
-  }, [completedLog, workoutTitle, todayNutrition, handleAddWorkoutToHistory, saveNutrition, showToast, workoutFromPlanDayIndex, markDayCompleted, user?.id]);
+  }, [completedLog, sessionRecords, workoutTitle, todayNutrition, handleAddWorkoutToHistory, saveNutrition, showToast, workoutFromPlanDayIndex, markDayCompleted, user?.id]);
 
   // Sync queued workouts when network comes back
   useEffect(() => {
@@ -899,7 +957,7 @@ const AppContent: React.FC = () => {
       return (
         <SectionErrorBoundary sectionName="Settings">
           <Suspense fallback={<LazyFallback />}>
-            <Settings onBack={showTabs} onProfileSaved={refetchProfile} onPrivacy={showPrivacy} onTerms={showTerms} />
+            <Settings onBack={showTabs} onProfileSaved={refetchProfile} onPrivacy={showPrivacy} onTerms={showTerms} userProfile={userProfile} nutritionLogs={nutritionLogs} />
           </Suspense>
         </SectionErrorBoundary>
       );
@@ -976,6 +1034,10 @@ const AppContent: React.FC = () => {
               goal={goal}
               workoutHistory={workouts}
               userProfile={userProfile}
+              mealEntries={mealEntries}
+              hydration={{ consumedMl: waterTodayMl, targetMl: hydrationTargetMl, isTrainingDay }}
+              onAddWater={handleAddWater}
+              onUndoWater={handleUndoWater}
               onStartWorkout={startNewWorkout}
               workoutStatus={workoutStatus}
               weeklyPlan={weeklyPlan}
@@ -1017,7 +1079,7 @@ const AppContent: React.FC = () => {
         return (
           <SectionErrorBoundary sectionName="Body Analysis">
           <Suspense fallback={<LazyFallback />}>
-            <BodyAnalysis onAnalysisComplete={handleGoalUpdate} goal={goal} defaultWeight={userProfile?.weight_lbs ?? null} />
+            <BodyAnalysis onAnalysisComplete={handleGoalUpdate} goal={goal} defaultWeight={userProfile?.weight_lbs ?? null} unitSystem={userProfile?.unit_system} />
           </Suspense>
           </SectionErrorBoundary>
         );
@@ -1037,10 +1099,18 @@ const AppContent: React.FC = () => {
               favorites={favorites}
               onSaveMealEntry={saveMealEntry}
               onDeleteMealEntry={deleteMealEntry}
+              onCopyMealEntries={copyMealEntries}
+              onMoveMealEntries={moveMealEntries}
               onAddToFavorites={addToFavorites}
+              recipes={recipes}
+              onSaveRecipe={saveRecipe}
+              onDeleteRecipe={deleteRecipe}
               nutritionLogs={nutritionLogs}
               goal={goal}
               supplementPreferences={userProfile.supplement_preferences}
+              dietaryPreferences={userProfile.dietary_preferences}
+              fastingWindow={userProfile.fasting_window}
+              hydration={{ consumedMl: waterTodayMl, targetMl: hydrationTargetMl }}
             />
           </Suspense>
           </SectionErrorBoundary>
@@ -1106,6 +1176,7 @@ const AppContent: React.FC = () => {
             onComplete={handleRecoveryComplete}
             onSkip={() => setWorkoutStatus('idle')}
             isLoading={false}
+            hydrationPct={recoveryHydrationPct}
           />
         </Suspense>
       )}
@@ -1153,6 +1224,8 @@ const AppContent: React.FC = () => {
               initialElapsedTime={activeDraft?.elapsedTime}
               workoutHistory={workouts}
               draftStorageKey={getDraftStorageKey(user?.id)}
+              goal={goal}
+              unitSystem={userProfile?.unit_system}
             />
           </Suspense>
         </div>
@@ -1175,6 +1248,7 @@ const AppContent: React.FC = () => {
               }}
               isSaving={isSaving}
               coachingInsight={postWorkoutInsight}
+              records={sessionRecords}
             />
           </Suspense>
         </div>
@@ -1,13 +1,15 @@
 /**
  * API Route: Delete AI Analysis History
  *
- * Deletes all body analysis records for the authenticated user.
+ * Deletes all body analysis records and food scans for the authenticated user,
+ * and drops their cached AI results so deleted analyses can't be served again.
  * Supports GDPR right-to-erasure for AI-generated data without
  * requiring full account deletion.
  */
 
 import { createClient } from '@supabase/supabase-js';
 import { requireAuth, unauthorizedResponse } from '../../lib/ai/requireAuth';
+import { invalidateUserCache } from '../../lib/ai/resultCache';
 
 const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL || '';
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
@@ -58,8 +60,11 @@ export default async function handler(req: Request): Promise<Response> {
       console.error('[delete-ai-history] Failed to delete food scans:', foodError);
     }
 
+    // Cached analyses (memory + Redis) are AI history too
+    const cacheCount = await invalidateUserCache(auth.userId);
+
     const totalDeleted = (bodyCount || 0) + (foodCount || 0);
-    console.log(`[delete-ai-history] Deleted ${totalDeleted} records for user ${auth.userId}`);
+    console.log(`[delete-ai-history] Deleted ${totalDeleted} records and ${cacheCount} cached results for user ${auth.userId}`);
 
     return new Response(
       JSON.stringify({
@@ -67,6 +72,7 @@ export default async function handler(req: Request): Promise<Response> {
         deleted: {
           body_analyses: bodyCount || 0,
           food_scans: foodCount || 0,
+          cached_results: cacheCount,
         },
       }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
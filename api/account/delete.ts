@@ -8,6 +8,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { requireAuth, unauthorizedResponse } from '../../lib/ai/requireAuth';
 import { requireEnv, getSupabaseUrl } from '../../lib/env';
+import { invalidateUserCache } from '../../lib/ai/resultCache';
 
 const supabaseUrl = getSupabaseUrl();
 const supabaseServiceKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
@@ -66,6 +67,9 @@ export async function DELETE(req: Request): Promise<Response> {
       );
     }
 
+    // Cached AI results live outside Postgres, so CASCADE doesn't reach them
+    await invalidateUserCache(userId);
+
     return new Response(
       JSON.stringify({
         success: true,
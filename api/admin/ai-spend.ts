@@ -0,0 +1,64 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSpendBudgets, getSpendRollup, type SpendRollupRow } from '../../lib/ai/costLedger';
+
+const DEFAULT_RANGE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function sumBy(rows: SpendRollupRow[], key: 'day' | 'provider' | 'operation') {
+  const totals: Record<string, { calls: number; failed_calls: number; cost_usd: number }> = {};
+  for (const row of rows) {
+    const bucket = totals[row[key]] ?? (totals[row[key]] = { calls: 0, failed_calls: 0, cost_usd: 0 });
+    bucket.calls += row.calls;
+    bucket.failed_calls += row.failed_calls;
+    bucket.cost_usd = Math.round((bucket.cost_usd + row.cost_usd) * 1e6) / 1e6;
+  }
+  return totals;
+}
+
+/**
+ * AI spend report from the cost ledger.
+ * GET /api/admin/ai-spend?from=2026-10-01&to=2026-10-08 (to is exclusive; defaults to the last 7 days)
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const adminSecret = process.env.ADMIN_SECRET;
+  const providedSecret = req.headers['x-admin-secret'] as string;
+
+  if (!adminSecret || providedSecret !== adminSecret) {
+    return res.status(403).json({ error: 'Forbidden' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const to = parseDate(req.query.to) ?? new Date();
+  const from = parseDate(req.query.from) ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (from >= to) {
+    return res.status(400).json({ error: '"from" must be before "to"' });
+  }
+
+  try {
+    const rows = await getSpendRollup(from.toISOString(), to.toISOString());
+    const totalCost = rows.reduce((sum, row) => sum + row.cost_usd, 0);
+
+    return res.status(200).json({
+      success: true,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      budgets: getSpendBudgets(),
+      totalCostUSD: Math.round(totalCost * 1e6) / 1e6,
+      byDay: sumBy(rows, 'day'),
+      byProvider: sumBy(rows, 'provider'),
+      byOperation: sumBy(rows, 'operation'),
+      rows,
+    });
+  } catch (error) {
+    return res.status(500).json({ error: 'Failed to load AI spend', details: (error as Error).message });
+  }
+}
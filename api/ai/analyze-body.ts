@@ -1,7 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
 import { withFallback } from '../../lib/ai';
 import type { AIResponse, BodyAnalysisResult } from '../../lib/ai/types';
-import { apiGateWithAuth, getErrorType, validateImageSize, hashImage, getCachedResult, setCachedResult } from '../../lib/ai/apiHelpers';
+import { apiGateWithAuth, getErrorType, validateImageSize } from '../../lib/ai/apiHelpers';
+import { resultCacheKey, getCachedResult, setCachedResult, cacheHitFields } from '../../lib/ai/resultCache';
 
 export const config = {
   runtime: 'edge',
@@ -63,38 +64,43 @@ export default async function handler(req: Request): Promise<Response> {
 
     console.log('[analyze-body] Processing image, size:', Math.round(imageBase64.length / 1024), 'KB');
 
-    // Check cache for duplicate analysis (same user + same image within 5 min)
-    const cacheKey = await hashImage(auth.userId, imageBase64);
-    const cached = getCachedResult<BodyAnalysisResult>(cacheKey);
+    // Check cache for duplicate analysis (same user + same image, see body_analysis cacheTtlSeconds)
+    const cacheKey = await resultCacheKey(auth.userId, 'body_analysis', imageBase64);
+    const cached = await getCachedResult<BodyAnalysisResult>(cacheKey);
     if (cached) {
-      console.log('[analyze-body] Cache hit — returning previous result');
+      console.log(`[analyze-body] Cache hit (${cached.layer}) — returning previous result`);
       return new Response(JSON.stringify({
         success: true,
         data: cached.data,
         provider: cached.provider,
+        model: cached.model,
         durationMs: Date.now() - startTime,
-        cached: true,
-      }), {
+        ...cacheHitFields(cached),
+      } as AIResponse<BodyAnalysisResult>), {
         status: 200,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    const { data: result, provider: usedProvider } = await withFallback(
+    const { data: result, provider: usedProvider, model, prompt } = await withFallback(
+      'body_analysis',
       p => p.analyzeBodyPhoto(imageBase64),
-      r => {
-        const isError = r.markdown.startsWith('Error:');
-        if (isError) {
-          console.error('[analyze-body] Provider returned error:', r.markdown.substring(0, 200));
-        }
-        return isError;
+      {
+        isFailure: r => {
+          const isError = r.markdown.startsWith('Error:');
+          if (isError) {
+            console.error('[analyze-body] Provider returned error:', r.markdown.substring(0, 200));
+          }
+          return isError;
+        },
+        userId: auth.userId,
       }
     );
 
     const durationMs = Date.now() - startTime;
 
-    // Cache result for dedup (same image re-upload within 5 min)
-    setCachedResult(cacheKey, result, usedProvider);
+    // Cache result for dedup (same image re-upload)
+    await setCachedResult(cacheKey, result, usedProvider, model, prompt);
 
     // Save analysis result to DB (fire-and-forget, don't block response)
     // Controlled by BODY_ANALYSIS_PERSIST env var — disable if table doesn't exist yet
@@ -117,6 +123,8 @@ export default async function handler(req: Request): Promise<Response> {
       success: true,
       data: result,
       provider: usedProvider,
+      model,
+      prompt,
       durationMs,
     } as AIResponse<BodyAnalysisResult>), {
       status: 200,
@@ -1,6 +1,9 @@
 import { withFallback } from '../../lib/ai';
 import type { AIResponse, PhotoMealAnalysis } from '../../lib/ai/types';
-import { apiGateWithAuth, getErrorType, validateImageSize, sanitizeAIInput, hashImage, getCachedResult, setCachedResult } from '../../lib/ai/apiHelpers';
+import { apiGateWithAuth, getErrorType, validateImageSize, sanitizeAIInput, wantsEventStream, createSSEResponse } from '../../lib/ai/apiHelpers';
+import { resultCacheKey, getCachedResult, setCachedResult, cacheHitFields } from '../../lib/ai/resultCache';
+import { getPortionCorrections } from '../../lib/ai/portionLearning';
+import { appendDietaryAlert, validateDietaryPreferences, type DietaryPreference } from '../../utils/dietaryPreferences';
 
 export const config = {
   runtime: 'edge',
@@ -9,6 +12,38 @@ export const config = {
 interface RequestBody {
   imageBase64: string;
   userGoal: string | null;
+  dietaryPreferences?: string[];
+}
+
+/**
+ * The two-phase flow (AI identifies → USDA lookup with the user's learned
+ * portions → deterministic math), then the dietary warning. Cached for dedup.
+ */
+async function analyzeWithUSDA(
+  userId: string,
+  imageBase64: string,
+  goal: string | null,
+  dietary: DietaryPreference[],
+  cacheKey: string,
+  onProgress?: (message: string) => void
+) {
+  // Apply the portions this user usually corrects to (learned from food_scans)
+  const portionCorrections = await getPortionCorrections(userId);
+
+  const { data: analysis, provider, model, prompt } = await withFallback(
+    'meal_photo',
+    p => p.analyzeMealPhoto(imageBase64, goal, portionCorrections, dietary, onProgress),
+    { isFailure: r => r.markdown.startsWith('Error:'), userId }
+  );
+
+  // The USDA flow builds its own warning; the legacy fallback's markdown gets one here
+  const result: PhotoMealAnalysis = {
+    ...analysis,
+    markdown: appendDietaryAlert(analysis.markdown, analysis.foods ?? [], dietary),
+  };
+
+  await setCachedResult(cacheKey, result, provider, model, prompt);
+  return { result, provider, model, prompt };
 }
 
 export default async function handler(req: Request): Promise<Response> {
@@ -42,38 +77,59 @@ export default async function handler(req: Request): Promise<Response> {
     const tooLarge = validateImageSize(imageBase64);
     if (tooLarge) return tooLarge;
 
-    // Check cache for duplicate analysis (same user + same image within 5 min)
-    const cacheKey = await hashImage(auth.userId, imageBase64);
-    const cached = getCachedResult<PhotoMealAnalysis>(cacheKey);
+    // FIX 8.1: Sanitize user inputs before passing to AI
+    const safeGoal = userGoal ? sanitizeAIInput(userGoal, 'userGoal') : null;
+    // Known ids only, so nothing free-form reaches the prompt
+    const dietary = validateDietaryPreferences(body.dietaryPreferences);
+
+    // Check cache for duplicate analysis (same user + same image + goal + diet).
+    // Hits are returned as plain JSON even to streaming clients — there is nothing to stream.
+    const cacheKey = await resultCacheKey(auth.userId, 'meal_photo', `${safeGoal ?? ''}|${dietary.join(',')}|${imageBase64}`);
+    const cached = await getCachedResult<PhotoMealAnalysis>(cacheKey);
     if (cached) {
-      console.log('[analyze-meal-photo] Cache hit — returning previous result');
+      console.log(`[analyze-meal-photo] Cache hit (${cached.layer}) — returning previous result`);
       return new Response(JSON.stringify({
         success: true,
         data: cached.data,
         provider: cached.provider,
+        model: cached.model,
         durationMs: Date.now() - startTime,
-        cached: true,
-      }), {
+        ...cacheHitFields(cached),
+      } as AIResponse<PhotoMealAnalysis>), {
         status: 200,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    // FIX 8.1: Sanitize user inputs before passing to AI
-    const safeGoal = userGoal ? sanitizeAIInput(userGoal, 'userGoal') : null;
-
-    const { data: result, provider: usedProvider } = await withFallback(
-      p => p.analyzeMealPhoto(imageBase64, safeGoal),
-      r => r.markdown.startsWith('Error:')
-    );
+    if (wantsEventStream(req)) {
+      // Each step of the two-phase flow is reported as it starts, then the result
+      return createSSEResponse<PhotoMealAnalysis>(async (emit) => {
+        const { result, provider, model, prompt } = await analyzeWithUSDA(
+          auth.userId, imageBase64, safeGoal, dietary, cacheKey,
+          message => emit({ type: 'progress', message })
+        );
+        emit({
+          type: 'result',
+          response: {
+            success: true,
+            data: result,
+            provider,
+            model,
+            prompt,
+            durationMs: Date.now() - startTime,
+          },
+        });
+      });
+    }
 
-    // Cache result for dedup
-    setCachedResult(cacheKey, result, usedProvider);
+    const { result, provider: usedProvider, model, prompt } = await analyzeWithUSDA(auth.userId, imageBase64, safeGoal, dietary, cacheKey);
 
     return new Response(JSON.stringify({
       success: true,
       data: result,
       provider: usedProvider,
+      model,
+      prompt,
       durationMs: Date.now() - startTime,
     } as AIResponse<PhotoMealAnalysis>), {
       status: 200,
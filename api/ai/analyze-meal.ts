@@ -1,6 +1,8 @@
 import { withFallback } from '../../lib/ai';
 import type { AIResponse, TextMealAnalysis } from '../../lib/ai/types';
-import { apiGate, getErrorType, sanitizeAIInput } from '../../lib/ai/apiHelpers';
+import { apiGateWithAuth, getErrorType, sanitizeAIInput } from '../../lib/ai/apiHelpers';
+import { resultCacheKey, getCachedResult, setCachedResult, cacheHitFields, normalizeMealDescription } from '../../lib/ai/resultCache';
+import { appendDietaryAlert, validateDietaryPreferences } from '../../utils/dietaryPreferences';
 
 export const config = {
   runtime: 'edge',
@@ -9,6 +11,7 @@ export const config = {
 interface RequestBody {
   description: string;
   userGoal: string | null;
+  dietaryPreferences?: string[];
 }
 
 export default async function handler(req: Request): Promise<Response> {
@@ -19,8 +22,10 @@ export default async function handler(req: Request): Promise<Response> {
     });
   }
 
-  const blocked = await apiGate(req);
-  if (blocked) return blocked;
+  const gate = await apiGateWithAuth(req);
+  if (gate.blocked) return gate.blocked;
+
+  const auth = (gate as { blocked: null; auth: { userId: string } }).auth;
 
   const startTime = Date.now();
 
@@ -41,15 +46,47 @@ export default async function handler(req: Request): Promise<Response> {
     // FIX 8.1: Sanitize user inputs before passing to AI
     const safeDescription = sanitizeAIInput(description, 'description');
     const safeGoal = userGoal ? sanitizeAIInput(userGoal, 'userGoal') : null;
+    // Known ids only, so nothing free-form reaches the prompt
+    const dietary = validateDietaryPreferences(body.dietaryPreferences);
+
+    // Users log the same meals over and over — key on the normalized text + goal + diet
+    const cacheKey = await resultCacheKey(auth.userId, 'meal_text', `${safeGoal ?? ''}|${dietary.join(',')}|${normalizeMealDescription(safeDescription)}`);
+    const cached = await getCachedResult<TextMealAnalysis>(cacheKey);
+    if (cached) {
+      console.log(`[analyze-meal] Cache hit (${cached.layer}) — returning previous result`);
+      return new Response(JSON.stringify({
+        success: true,
+        data: cached.data,
+        provider: cached.provider,
+        model: cached.model,
+        durationMs: Date.now() - startTime,
+        ...cacheHitFields(cached),
+      } as AIResponse<TextMealAnalysis>), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-    const { data: result, provider: usedProvider } = await withFallback(
-      p => p.analyzeTextMeal(safeDescription, safeGoal)
+    const { data: analysis, provider: usedProvider, model, prompt } = await withFallback(
+      'meal_text',
+      p => p.analyzeTextMeal(safeDescription, safeGoal, dietary),
+      { userId: auth.userId }
     );
 
+    // The model is asked to mention conflicts; this guarantees the warning
+    const result = analysis && {
+      ...analysis,
+      markdown: appendDietaryAlert(analysis.markdown, analysis.foods.map(f => f.name), dietary),
+    };
+
+    await setCachedResult(cacheKey, result, usedProvider, model, prompt);
+
     return new Response(JSON.stringify({
       success: true,
       data: result,
       provider: usedProvider,
+      model,
+      prompt,
       durationMs: Date.now() - startTime,
     } as AIResponse<TextMealAnalysis>), {
       status: 200,
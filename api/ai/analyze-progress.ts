@@ -1,6 +1,6 @@
 import { withFallback } from '../../lib/ai';
 import type { AIResponse, ProgressAnalysisResult } from '../../lib/ai/types';
-import { apiGate, getErrorType, validateImageSize, sanitizeAIInput } from '../../lib/ai/apiHelpers';
+import { apiGateWithAuth, getErrorType, validateImageSize, sanitizeAIInput } from '../../lib/ai/apiHelpers';
 
 export const config = {
   runtime: 'edge',
@@ -19,8 +19,10 @@ export default async function handler(req: Request): Promise<Response> {
     });
   }
 
-  const blocked = await apiGate(req);
-  if (blocked) return blocked;
+  const gate = await apiGateWithAuth(req);
+  if (gate.blocked) return gate.blocked;
+
+  const auth = (gate as { blocked: null; auth: { userId: string } }).auth;
 
   const startTime = Date.now();
 
@@ -57,15 +59,18 @@ export default async function handler(req: Request): Promise<Response> {
     // FIX 8.1: Sanitize user metrics text before passing to AI
     const safeMetrics = sanitizeAIInput(metrics, 'metrics');
 
-    const { data: result, provider: usedProvider } = await withFallback(
+    const { data: result, provider: usedProvider, model, prompt } = await withFallback(
+      'progress',
       p => p.analyzeProgress(images, safeMetrics),
-      r => r.markdown.startsWith('Error:')
+      { isFailure: r => r.markdown.startsWith('Error:'), userId: auth.userId }
     );
 
     return new Response(JSON.stringify({
       success: true,
       data: result,
       provider: usedProvider,
+      model,
+      prompt,
       durationMs: Date.now() - startTime,
     } as AIResponse<ProgressAnalysisResult>), {
       status: 200,
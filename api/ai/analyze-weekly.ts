@@ -1,11 +1,28 @@
 import { withFallback } from '../../lib/ai';
 import type { AIResponse, WeeklyNutritionInput, WeeklyNutritionInsights } from '../../lib/ai/types';
-import { apiGate, getErrorType } from '../../lib/ai/apiHelpers';
+import { apiGateWithAuth, getErrorType } from '../../lib/ai/apiHelpers';
+import { validateFastingWindow, type FastingAdherence } from '../../utils/fasting';
 
 export const config = {
   runtime: 'edge',
 };
 
+// Only a valid window and bounded counts reach the prompt
+function validateFastingAdherence(raw: unknown): FastingAdherence | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const r = raw as Record<string, unknown>;
+  const count = (v: unknown, max: number) => Math.max(0, Math.min(max, Math.round(Number(v) || 0)));
+  const eatingWindow = validateFastingWindow(r.window);
+  const daysLogged = count(r.daysLogged, 7);
+  if (!eatingWindow || daysLogged === 0) return undefined;
+  return {
+    window: eatingWindow,
+    daysLogged,
+    daysInWindow: count(r.daysInWindow, daysLogged),
+    mealsOutsideWindow: count(r.mealsOutsideWindow, 100),
+  };
+}
+
 export default async function handler(req: Request): Promise<Response> {
   if (req.method !== 'POST') {
     return new Response(JSON.stringify({ error: 'Method not allowed' }), {
@@ -14,8 +31,10 @@ export default async function handler(req: Request): Promise<Response> {
     });
   }
 
-  const blocked = await apiGate(req);
-  if (blocked) return blocked;
+  const gate = await apiGateWithAuth(req);
+  if (gate.blocked) return gate.blocked;
+
+  const auth = (gate as { blocked: null; auth: { userId: string } }).auth;
 
   const startTime = Date.now();
 
@@ -33,14 +52,26 @@ export default async function handler(req: Request): Promise<Response> {
       );
     }
 
-    const { data: result, provider: usedProvider } = await withFallback(
-      p => p.analyzeWeeklyNutrition(body)
+    const fasting = validateFastingAdherence(body.fasting);
+    const input: WeeklyNutritionInput = {
+      logs: body.logs,
+      targets: body.targets,
+      goal: body.goal,
+      ...(fasting && { fasting }),
+    };
+
+    const { data: result, provider: usedProvider, model, prompt } = await withFallback(
+      'weekly_nutrition',
+      p => p.analyzeWeeklyNutrition(input),
+      { userId: auth.userId }
     );
 
     return new Response(JSON.stringify({
       success: true,
       data: result,
       provider: usedProvider,
+      model,
+      prompt,
       durationMs: Date.now() - startTime,
     } as AIResponse<WeeklyNutritionInsights>), {
       status: 200,
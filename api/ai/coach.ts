@@ -6,9 +6,10 @@
  */
 
 import { withFallback } from '../../lib/ai';
-import type { AIResponse } from '../../lib/ai/types';
-import { apiGate, getErrorType } from '../../lib/ai/apiHelpers';
-import { buildCoachingPrompt, type CoachingPromptInput } from '../../prompts/coachingPrompts';
+import type { AIResponse, ChatMessage } from '../../lib/ai/types';
+import { apiGateWithAuth, getErrorType } from '../../lib/ai/apiHelpers';
+import type { CoachingPromptInput } from '../../prompts/coachingPrompts';
+import { createPromptSet, primaryPromptStamp } from '../../lib/ai/promptRegistry';
 
 export const config = {
   runtime: 'edge',
@@ -29,6 +30,20 @@ interface CoachingResponse {
   productKey?: string;
 }
 
+function parseCoachingResponse(text: string): CoachingResponse {
+  try {
+    // Extract JSON from response (handle markdown code blocks)
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0]) as CoachingResponse;
+    }
+  } catch {
+    // If JSON parse fails, use the raw text as message
+  }
+
+  return { message: text.slice(0, 200) };
+}
+
 export default async function handler(req: Request): Promise<Response> {
   if (req.method !== 'POST') {
     return new Response(JSON.stringify({ error: 'Method not allowed' }), {
@@ -37,8 +52,10 @@ export default async function handler(req: Request): Promise<Response> {
     });
   }
 
-  const blocked = await apiGate(req);
-  if (blocked) return blocked;
+  const gate = await apiGateWithAuth(req);
+  if (gate.blocked) return gate.blocked;
+
+  const auth = (gate as { blocked: null; auth: { userId: string } }).auth;
 
   const startTime = Date.now();
 
@@ -61,32 +78,24 @@ export default async function handler(req: Request): Promise<Response> {
       userContext: body.userContext || {},
     };
 
-    const prompt = buildCoachingPrompt(promptInput);
-
-    const { data: result, provider: usedProvider } = await withFallback(
-      async (provider) => {
-        const text = await provider.chat(
-          [{ role: 'user', content: prompt }],
-          { maxTokens: 200, temperature: 0.7 },
-        );
-        try {
-          // Extract JSON from response (handle markdown code blocks)
-          const jsonMatch = text.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]) as CoachingResponse;
-          }
-        } catch {
-          // If JSON parse fails, use the raw text as message
-        }
-
-        return { message: text.slice(0, 200) } as CoachingResponse;
-      }
+    // Coaching prompts are built here rather than in a provider, so stamp them here too
+    const prompts = createPromptSet(auth.userId);
+    const messages: ChatMessage[] = [{ role: 'user', content: prompts.get('coaching')(promptInput) }];
+    const prompt = primaryPromptStamp(prompts.stamps());
+    const chatOptions = { maxTokens: 200, temperature: 0.7 };
+
+    const { data: result, provider: usedProvider, model } = await withFallback(
+      'coach',
+      async (provider) => parseCoachingResponse(await provider.chat(messages, chatOptions)),
+      { userId: auth.userId }
     );
 
     return new Response(JSON.stringify({
       success: true,
       data: result,
       provider: usedProvider,
+      model,
+      prompt,
       durationMs: Date.now() - startTime,
     } as AIResponse<CoachingResponse>), {
       status: 200,
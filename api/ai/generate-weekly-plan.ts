@@ -1,6 +1,7 @@
 import { withFallback } from '../../lib/ai';
 import type { AIResponse, WeeklyPlan, WeeklyPlanGenerationInput } from '../../lib/ai/types';
-import { apiGate, getErrorType, sanitizeAIObject } from '../../lib/ai/apiHelpers';
+import { apiGateWithAuth, getErrorType, sanitizeAIObject } from '../../lib/ai/apiHelpers';
+import { validateDietaryPreferences } from '../../utils/dietaryPreferences';
 
 export const config = {
   runtime: 'edge',
@@ -14,8 +15,10 @@ export default async function handler(req: Request): Promise<Response> {
     });
   }
 
-  const blocked = await apiGate(req);
-  if (blocked) return blocked;
+  const gate = await apiGateWithAuth(req);
+  if (gate.blocked) return gate.blocked;
+
+  const auth = (gate as { blocked: null; auth: { userId: string } }).auth;
 
   const startTime = Date.now();
 
@@ -44,19 +47,26 @@ export default async function handler(req: Request): Promise<Response> {
     // FIX 8.1: Sanitize string fields in profile before passing to AI
     const sanitizedBody = {
       ...body,
-      profile: sanitizeAIObject(body.profile as unknown as Record<string, unknown>),
+      profile: {
+        ...sanitizeAIObject(body.profile as unknown as Record<string, unknown>),
+        dietary_preferences: validateDietaryPreferences(body.profile.dietary_preferences),
+      },
       recentWorkouts: body.recentWorkouts?.map(w => sanitizeAIObject(w as unknown as Record<string, unknown>)) || [],
       recoveryPatterns: body.recoveryPatterns?.map(r => sanitizeAIObject(r as unknown as Record<string, unknown>)) || [],
     } as unknown as WeeklyPlanGenerationInput;
 
-    const { data: result, provider: usedProvider } = await withFallback(
-      p => p.planWeek(sanitizedBody)
+    const { data: result, provider: usedProvider, model, prompt } = await withFallback(
+      'weekly_plan',
+      p => p.planWeek(sanitizedBody),
+      { userId: auth.userId }
     );
 
     const response: AIResponse<WeeklyPlan> = {
       success: result !== null,
       data: result ?? undefined,
       provider: usedProvider,
+      model,
+      prompt,
       durationMs: Date.now() - startTime,
     };
 
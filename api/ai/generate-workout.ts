@@ -1,11 +1,28 @@
 import { withFallback } from '../../lib/ai';
 import type { AIResponse, GeneratedWorkout, WorkoutGenerationInput } from '../../lib/ai/types';
-import { apiGate, getErrorType, sanitizeAIObject } from '../../lib/ai/apiHelpers';
+import { apiGateWithAuth, getErrorType, sanitizeAIInput, sanitizeAIObject } from '../../lib/ai/apiHelpers';
+import { parseRpe, type ExerciseEffort } from '../../utils/setTypes';
 
 export const config = {
   runtime: 'edge',
 };
 
+// Only named exercises with in-range RPEs reach the prompt
+function validateEffort(raw: unknown): ExerciseEffort[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const effort = raw.slice(0, 8).flatMap((e): ExerciseEffort[] => {
+    if (!e || typeof e !== 'object') return [];
+    const r = e as Record<string, unknown>;
+    const name = typeof r.name === 'string' ? sanitizeAIInput(r.name, 'title') : '';
+    const avgRpe = parseRpe(r.avgRpe);
+    const lastRpe = parseRpe(r.lastRpe);
+    const sessions = Math.max(1, Math.min(10, Math.round(Number(r.sessions) || 1)));
+    if (!name || avgRpe === undefined || lastRpe === undefined) return [];
+    return [{ name, sessions, avgRpe, lastRpe }];
+  });
+  return effort.length > 0 ? effort : undefined;
+}
+
 export default async function handler(req: Request): Promise<Response> {
   if (req.method !== 'POST') {
     return new Response(JSON.stringify({ error: 'Method not allowed' }), {
@@ -14,8 +31,10 @@ export default async function handler(req: Request): Promise<Response> {
     });
   }
 
-  const blocked = await apiGate(req);
-  if (blocked) return blocked;
+  const gate = await apiGateWithAuth(req);
+  if (gate.blocked) return gate.blocked;
+
+  const auth = (gate as { blocked: null; auth: { userId: string } }).auth;
 
   const startTime = Date.now();
 
@@ -34,21 +53,27 @@ export default async function handler(req: Request): Promise<Response> {
     }
 
     // FIX 8.1: Sanitize string fields in profile/recovery before passing to AI
+    const effort = validateEffort(body.effort);
     const sanitizedBody = {
       ...body,
       profile: sanitizeAIObject(body.profile as unknown as Record<string, unknown>),
       recovery: sanitizeAIObject(body.recovery as unknown as Record<string, unknown>),
       recentWorkouts: body.recentWorkouts?.map(w => sanitizeAIObject(w as unknown as Record<string, unknown>)) || [],
+      effort,
     } as unknown as WorkoutGenerationInput;
 
-    const { data: result, provider: usedProvider } = await withFallback(
-      p => p.generateWorkout(sanitizedBody)
+    const { data: result, provider: usedProvider, model, prompt } = await withFallback(
+      'workout',
+      p => p.generateWorkout(sanitizedBody),
+      { userId: auth.userId }
     );
 
     return new Response(JSON.stringify({
       success: true,
       data: result,
       provider: usedProvider,
+      model,
+      prompt,
       durationMs: Date.now() - startTime,
     } as AIResponse<GeneratedWorkout>), {
       status: 200,
@@ -0,0 +1,111 @@
+/**
+ * API Route: Look Up Recipe Ingredient
+ *
+ * Nutrition per 100 g for one recipe ingredient (USDA, then fallback
+ * estimates). Runs server-side so the USDA key never ships to the browser.
+ * The per-minute rate limit applies; the daily AI limit and spend budget
+ * don't, since no model is called.
+ *
+ * The answer is the same for every user, so it's cached by normalized food
+ * name (Upstash Redis when configured, else in-memory per instance).
+ */
+
+import { requireAuth, unauthorizedResponse } from '../../lib/ai/requireAuth';
+import { checkRateLimit, getRedisClient } from '../../lib/ai/rateLimit';
+import { lookupSingleFood, normalizeFoodName } from '../../lib/ai/usdaIntegration';
+import type { IngredientNutrition } from '../../services/recipeService';
+
+export const config = {
+  runtime: 'edge',
+};
+
+const MAX_NAME_LENGTH = 100;
+const USDA_CACHE_SECONDS = 7 * 24 * 60 * 60;
+// Misses fall back to estimates; retry USDA sooner in case it was just down
+const ESTIMATE_CACHE_SECONDS = 60 * 60;
+const MAX_MEMORY_ENTRIES = 500;
+const REDIS_PREFIX = 'sloefit:ingredient';
+
+const memoryCache = new Map<string, { data: IngredientNutrition; expiresAt: number }>();
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function readCached(key: string): Promise<IngredientNutrition | null> {
+  const cached = memoryCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.data;
+
+  const redis = getRedisClient();
+  if (!redis) return null;
+  try {
+    return await redis.get<IngredientNutrition>(key);
+  } catch (error) {
+    console.error('[lookup-ingredient] Redis read failed:', (error as Error).message);
+    return null;
+  }
+}
+
+async function writeCached(key: string, data: IngredientNutrition): Promise<void> {
+  const ttlSeconds = data.source === 'usda' ? USDA_CACHE_SECONDS : ESTIMATE_CACHE_SECONDS;
+  // Oldest first in insertion order
+  if (memoryCache.size >= MAX_MEMORY_ENTRIES) {
+    memoryCache.delete(memoryCache.keys().next().value!);
+  }
+  memoryCache.set(key, { data, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+  const redis = getRedisClient();
+  if (!redis) return;
+  try {
+    await redis.set(key, data, { ex: ttlSeconds });
+  } catch (error) {
+    console.error('[lookup-ingredient] Redis write failed:', (error as Error).message);
+  }
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const auth = await requireAuth(req);
+  if (!auth) return unauthorizedResponse();
+
+  const rateLimited = await checkRateLimit(req, auth.userId);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const body: { name?: unknown } = await req.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return json({
+        success: false,
+        error: { type: 'invalid_request', message: `Ingredient name is required (max ${MAX_NAME_LENGTH} characters)`, retryable: false },
+      }, 400);
+    }
+
+    const key = `${REDIS_PREFIX}:${normalizeFoodName(name)}`;
+    const cached = await readCached(key);
+    if (cached) return json({ success: true, data: cached, cached: true }, 200);
+
+    const food = await lookupSingleFood({ name, portion: '100g', portionGrams: 100, confidence: 1 });
+    const data: IngredientNutrition = {
+      per100g: { calories: food.calories, protein: food.protein, carbs: food.carbs, fats: food.fats },
+      microsPer100g: food.micros ?? null,
+      source: food.source,
+      fdcId: food.fdcId,
+    };
+    await writeCached(key, data);
+
+    return json({ success: true, data }, 200);
+  } catch (error) {
+    console.error('[lookup-ingredient] Error:', error);
+    return json({
+      success: false,
+      error: { type: 'server_error', message: 'Could not look up that ingredient.', retryable: true },
+    }, 500);
+  }
+}
@@ -0,0 +1,122 @@
+import { withFallback } from '../../lib/ai';
+import type { AIResponse, MacroTotals, MealPlan, MealPlanInput } from '../../lib/ai/types';
+import { apiGateWithAuth, getErrorType, sanitizeAIObject } from '../../lib/ai/apiHelpers';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// Keep the prompt small: the most-logged favorites and today's meals are plenty
+const MAX_FAVORITES = 20;
+const MAX_MEALS_EATEN = 10;
+const MAX_RESTRICTIONS = 20;
+
+function badRequest(message: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: { type: 'invalid_request', message, retryable: false },
+    } as AIResponse<MealPlan>),
+    { status: 400, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+function isMacroTotals(value: unknown): value is MacroTotals {
+  if (!value || typeof value !== 'object') return false;
+  const m = value as Record<string, unknown>;
+  return ['calories', 'protein', 'carbs', 'fats'].every(k => typeof m[k] === 'number' && Number.isFinite(m[k]));
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const gate = await apiGateWithAuth(req);
+  if (gate.blocked) return gate.blocked;
+
+  const auth = (gate as { blocked: null; auth: { userId: string } }).auth;
+
+  const startTime = Date.now();
+
+  try {
+    const body: MealPlanInput = await req.json();
+
+    // Validate required fields
+    if (body.horizon !== 'day' && body.horizon !== 'week') {
+      return badRequest("Horizon must be 'day' or 'week'");
+    }
+    if (!isMacroTotals(body.remaining)) {
+      return badRequest('Remaining calories and macros are required');
+    }
+    if (body.horizon === 'day' && body.remaining.calories <= 0) {
+      return badRequest("Today's calories are already used up");
+    }
+
+    // Over-target macros plan as zero, not as a negative amount to "eat"
+    const remaining: MacroTotals = {
+      calories: Math.max(0, Math.round(body.remaining.calories)),
+      protein: Math.max(0, Math.round(body.remaining.protein)),
+      carbs: Math.max(0, Math.round(body.remaining.carbs)),
+      fats: Math.max(0, Math.round(body.remaining.fats)),
+    };
+
+    // Favorites, meal descriptions and restrictions are free text — sanitize before the prompt
+    const sanitizedBody = sanitizeAIObject({
+      horizon: body.horizon,
+      remaining,
+      goal: body.goal ?? null,
+      mealsEaten: (Array.isArray(body.mealsEaten) ? body.mealsEaten : []).slice(0, MAX_MEALS_EATEN),
+      favorites: (Array.isArray(body.favorites) ? body.favorites : []).slice(0, MAX_FAVORITES),
+      restrictions: (Array.isArray(body.restrictions) ? body.restrictions : []).slice(0, MAX_RESTRICTIONS),
+    } as unknown as Record<string, unknown>) as unknown as MealPlanInput;
+
+    const { data: result, provider: usedProvider, model, prompt } = await withFallback(
+      'meal_plan',
+      p => p.planMeals(sanitizedBody),
+      { userId: auth.userId }
+    );
+
+    const response: AIResponse<MealPlan> = {
+      success: result !== null,
+      data: result ?? undefined,
+      provider: usedProvider,
+      model,
+      prompt,
+      durationMs: Date.now() - startTime,
+    };
+
+    if (!result) {
+      response.error = {
+        type: 'unknown',
+        message: 'Failed to generate meal plan',
+        retryable: true,
+      };
+    }
+
+    return new Response(JSON.stringify(response), {
+      status: result ? 200 : 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const aiError = error as { message?: string; retryable?: boolean };
+
+    const response: AIResponse<MealPlan> = {
+      success: false,
+      error: {
+        type: getErrorType(error),
+        message: aiError.message || 'An error occurred',
+        retryable: aiError.retryable ?? false,
+      },
+      durationMs: Date.now() - startTime,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -1,6 +1,6 @@
 import { withFallback } from '../../lib/ai';
 import type { AIResponse } from '../../lib/ai/types';
-import { apiGate, getErrorType, MAX_BASE64_LENGTH } from '../../lib/ai/apiHelpers';
+import { apiGateWithAuth, getErrorType, MAX_BASE64_LENGTH } from '../../lib/ai/apiHelpers';
 
 export const config = {
   runtime: 'edge',
@@ -19,8 +19,10 @@ export default async function handler(req: Request): Promise<Response> {
     });
   }
 
-  const blocked = await apiGate(req);
-  if (blocked) return blocked;
+  const gate = await apiGateWithAuth(req);
+  if (gate.blocked) return gate.blocked;
+
+  const auth = (gate as { blocked: null; auth: { userId: string } }).auth;
 
   const startTime = Date.now();
 
@@ -56,17 +58,18 @@ export default async function handler(req: Request): Promise<Response> {
     }
     const audioBlob = new Blob([bytes], { type: mimeType || 'audio/webm' });
 
-    const { data: result, provider: usedProvider } = await withFallback(p => {
+    const { data: result, provider: usedProvider, model } = await withFallback('transcribe', p => {
       if (!p.transcribeAudio) {
         throw new Error(`Provider ${p.name} does not support audio transcription`);
       }
       return p.transcribeAudio(audioBlob);
-    });
+    }, { userId: auth.userId });
 
     return new Response(JSON.stringify({
       success: true,
       data: result,
       provider: usedProvider,
+      model,
       durationMs: Date.now() - startTime,
     } as AIResponse<string>), {
       status: 200,
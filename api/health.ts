@@ -1,8 +1,10 @@
+import { getProviderHealth, type CircuitSnapshot } from '../lib/ai';
+
 export const config = {
   runtime: 'edge',
 };
 
-export default function handler(req: Request): Response {
+export default async function handler(req: Request): Promise<Response> {
   const checks = {
     SUPABASE_URL: Boolean(process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL),
     SUPABASE_SERVICE_ROLE_KEY: Boolean(process.env.SUPABASE_SERVICE_ROLE_KEY),
@@ -16,12 +18,22 @@ export default function handler(req: Request): Response {
 
   const allPresent = Object.values(checks).every(Boolean);
 
+  // Circuit breaker state per configured AI provider (Redis-backed when Upstash is set)
+  let aiProviders: CircuitSnapshot[] = [];
+  try {
+    aiProviders = await getProviderHealth();
+  } catch (error) {
+    console.error('[health] Failed to read AI circuit state:', (error as Error).message);
+  }
+  const anyCircuitOpen = aiProviders.some(p => p.state !== 'closed');
+
   return new Response(
     JSON.stringify({
-      status: allPresent ? 'healthy' : 'degraded',
+      status: allPresent && !anyCircuitOpen ? 'healthy' : 'degraded',
       timestamp: new Date().toISOString(),
       version: process.env.VERCEL_GIT_COMMIT_SHA?.slice(0, 7) || 'local',
       checks,
+      aiProviders,
     }),
     {
       status: 200,
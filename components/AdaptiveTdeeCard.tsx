@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { supabaseUpdate } from '@/services/supabaseRawFetch';
+import { useBodyCheckins } from '../hooks/useBodyCheckins';
+import { calculateNutritionTargets, estimateTdee, type UserProfile } from '../hooks/useUserData';
+import { estimateAdaptiveTdee, proposeTdeeUpdate, type TdeeConfidence } from '../utils/adaptiveTdee';
+import type { NutritionLog } from '../App';
+
+interface AdaptiveTdeeCardProps {
+    profile: UserProfile;
+    nutritionLogs: NutritionLog[];
+    onAccepted?: (savedData: Partial<UserProfile>) => void;
+}
+
+const CONFIDENCE_STYLES: Record<TdeeConfidence, string> = {
+    high: 'bg-green-500/20 text-green-400',
+    medium: 'bg-yellow-500/20 text-yellow-400',
+    low: 'bg-gray-700 text-gray-400',
+};
+
+// Local calendar date, matching how meals and nutrition logs are dated
+const toLocalDate = (iso: string): string => {
+    const d = new Date(iso);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const AdaptiveTdeeCard: React.FC<AdaptiveTdeeCardProps> = ({ profile, nutritionLogs, onAccepted }) => {
+    const { user } = useAuth();
+    const { showToast } = useToast();
+    const { checkins } = useBodyCheckins(user?.id);
+    const [saving, setSaving] = useState(false);
+
+    const estimate = useMemo(() => estimateAdaptiveTdee(
+        nutritionLogs.map(log => ({ date: log.date, calories: log.calories })),
+        checkins
+            .filter(c => c.weight_lbs != null)
+            .map(c => ({ date: toLocalDate(c.created_at), weightLbs: c.weight_lbs as number })),
+        { endDate: toLocalDate(new Date().toISOString()) }
+    ), [nutritionLogs, checkins]);
+
+    const currentTdee = estimateTdee(profile);
+    const proposal = estimate ? proposeTdeeUpdate(estimate, currentTdee) : null;
+    const currentCalories = calculateNutritionTargets(profile).calories;
+    const proposedCalories = proposal
+        ? calculateNutritionTargets({ ...profile, adaptive_tdee: proposal.proposedTdee }).calories
+        : null;
+
+    const saveTdee = async (adaptiveTdee: number | null) => {
+        if (!user) return;
+        setSaving(true);
+        const savedData = { adaptive_tdee: adaptiveTdee, adaptive_tdee_updated_at: new Date().toISOString() };
+        try {
+            const { error } = await supabaseUpdate(`profiles?id=eq.${user.id}`, savedData);
+            if (error) {
+                showToast("Didn't save. Try again.", 'error');
+                return;
+            }
+            showToast(adaptiveTdee ? 'Targets updated.' : 'Back to the standard estimate.', 'success');
+            onAccepted?.(savedData);
+        } catch {
+            showToast("Didn't save. Try again.", 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="card space-y-4">
+            <div>
+                <h3 className="text-lg font-bold text-white">Adaptive Targets</h3>
+                <p className="text-gray-400 text-sm mt-1">
+                    Calibrates your calories from what you log and how your weight trends.
+                </p>
+            </div>
+
+            {!estimate ? (
+                <p className="text-sm text-gray-500">
+                    Log meals on at least 7 days and weigh in a few times over 2 weeks to calibrate.
+                </p>
+            ) : (
+                <div className="p-3 bg-black/30 rounded-xl space-y-1">
+                    <div className="flex items-center justify-between">
+                        <span className="text-white font-bold">{estimate.tdee} cal/day burned</span>
+                        <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${CONFIDENCE_STYLES[estimate.confidence]}`}>
+                            {estimate.confidence} confidence
+                        </span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Last {estimate.windowDays} days: ate {estimate.avgIntake} cal/day on {estimate.loggedDays} logged days,
+                        trend {estimate.weeklyChangeLbs > 0 ? '+' : ''}{estimate.weeklyChangeLbs} lbs/week over {estimate.weighIns} weigh-ins.
+                    </p>
+                </div>
+            )}
+
+            {proposal && proposedCalories !== null ? (
+                <div className="space-y-3">
+                    <p className="text-sm text-gray-300">
+                        Daily calories: <span className="text-gray-500 line-through">{currentCalories}</span>{' '}
+                        <span className="text-white font-bold">{proposedCalories}</span>
+                        {proposal.currentTdee !== null && proposal.estimate.confidence !== 'high' && (
+                            <span className="block text-xs text-gray-500 mt-1">
+                                A partial step toward the estimate — it firms up as you keep logging.
+                            </span>
+                        )}
+                    </p>
+                    <button
+                        onClick={() => saveTdee(proposal.proposedTdee)}
+                        disabled={saving}
+                        className="btn-primary w-full disabled:opacity-50"
+                    >
+                        {saving ? 'Saving...' : 'Accept New Targets'}
+                    </button>
+                </div>
+            ) : estimate && (
+                <p className="text-sm text-gray-400">Your current targets match your results.</p>
+            )}
+
+            {profile.adaptive_tdee && (
+                <button
+                    onClick={() => saveTdee(null)}
+                    disabled={saving}
+                    className="w-full py-2 text-sm text-gray-500 hover:text-white disabled:opacity-50"
+                >
+                    Reset to standard estimate
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default AdaptiveTdeeCard;
@@ -0,0 +1,295 @@
+import React, { useState, useRef, useEffect, useCallback, ChangeEvent } from 'react';
+import { lookupProduct, calculateProductMacros, normalizeBarcode, Product } from '../services/productService';
+import { createBarcodeDecoder, decodeBarcodeFromFile, isBarcodeDetectionSupported } from '../utils/barcodeDecoder';
+import type { MacroTotals } from '../lib/ai/types';
+import CameraIcon from './icons/CameraIcon';
+import LoaderIcon from './icons/LoaderIcon';
+
+export interface BarcodeSelection {
+    product: Product;
+    portion: string;
+    grams: number;
+    macros: MacroTotals;
+    description: string;
+    markdown: string;
+}
+
+interface BarcodeMealInputProps {
+    onProductSelected: (selection: BarcodeSelection) => void;
+}
+
+const SCAN_INTERVAL_MS = 300;
+
+const formatPer100 = (n: number) => (Number.isInteger(n) ? `${n}` : n.toFixed(1));
+
+const BarcodeMealInput: React.FC<BarcodeMealInputProps> = ({ onProductSelected }) => {
+    const [code, setCode] = useState('');
+    const [product, setProduct] = useState<Product | null>(null);
+    const [portion, setPortion] = useState('1 serving');
+    const [isLooking, setIsLooking] = useState(false);
+    const [isScanning, setIsScanning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [scanSupported] = useState(isBarcodeDetectionSupported);
+
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const scanTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+    const stopCamera = useCallback(() => {
+        if (scanTimerRef.current) {
+            clearInterval(scanTimerRef.current);
+            scanTimerRef.current = null;
+        }
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        setIsScanning(false);
+    }, []);
+
+    // Release the camera if the user switches tabs mid-scan
+    useEffect(() => stopCamera, [stopCamera]);
+
+    // The <video> only mounts once scanning starts
+    useEffect(() => {
+        if (isScanning && videoRef.current && streamRef.current) {
+            videoRef.current.srcObject = streamRef.current;
+        }
+    }, [isScanning]);
+
+    const handleLookup = useCallback(async (rawCode: string) => {
+        const barcode = normalizeBarcode(rawCode);
+        setCode(rawCode);
+        setError(null);
+        setProduct(null);
+        if (!barcode) {
+            setError('That doesn\'t look like a valid EAN or UPC barcode.');
+            return;
+        }
+
+        setIsLooking(true);
+        try {
+            const found = await lookupProduct(barcode);
+            if (found) {
+                setProduct(found);
+                setPortion(found.servingGrams ? '1 serving' : '100 g');
+            } else {
+                setError('Product not found. Try the Text tab and describe it instead.');
+            }
+        } finally {
+            setIsLooking(false);
+        }
+    }, []);
+
+    const startCamera = async () => {
+        const decoder = createBarcodeDecoder();
+        if (!decoder) return;
+        setError(null);
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({
+                video: { facingMode: { ideal: 'environment' } }
+            });
+            streamRef.current = stream;
+            setIsScanning(true);
+
+            scanTimerRef.current = setInterval(async () => {
+                const video = videoRef.current;
+                if (!video || video.readyState < 2) return;
+                const detected = await decoder.detect(video);
+                if (detected && streamRef.current) {
+                    stopCamera();
+                    handleLookup(detected);
+                }
+            }, SCAN_INTERVAL_MS);
+        } catch {
+            stopCamera();
+            setError('Could not access camera. Upload a photo of the barcode or type it in.');
+        }
+    };
+
+    const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Reset input so re-selecting the same file triggers onChange
+        e.target.value = '';
+        if (!file) return;
+
+        setError(null);
+        setIsLooking(true);
+        try {
+            const detected = await decodeBarcodeFromFile(file);
+            if (detected) {
+                await handleLookup(detected);
+            } else {
+                setError('No barcode found in that photo. Try a closer, sharper shot or type the number.');
+            }
+        } catch {
+            setError('Could not read that image. Try another photo or type the number.');
+        } finally {
+            setIsLooking(false);
+        }
+    };
+
+    const preview = product && portion.trim() ? calculateProductMacros(product, portion) : null;
+
+    const handleUse = () => {
+        if (!product || !preview) return;
+        const { grams, ...macros } = preview;
+        const name = product.brand ? `${product.brand} ${product.name}` : product.name;
+        const markdown = [
+            `## ${name}`,
+            '',
+            `**${portion}** (${grams} g)`,
+            '',
+            `- **Calories:** ${macros.calories}`,
+            `- **Protein:** ${macros.protein}g`,
+            `- **Carbs:** ${macros.carbs}g`,
+            `- **Fats:** ${macros.fats}g`,
+            '',
+            `*Per 100 g: ${formatPer100(product.per100g.calories)} cal · ${formatPer100(product.per100g.protein)}g P · ${formatPer100(product.per100g.carbs)}g C · ${formatPer100(product.per100g.fats)}g F*`,
+        ].join('\n');
+
+        onProductSelected({
+            product,
+            portion,
+            grams,
+            macros,
+            description: `${name} (${portion})`,
+            markdown,
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Hidden input for decoding a photo of the barcode */}
+            <input
+                type="file"
+                id="barcode-photo-upload"
+                className="hidden"
+                accept="image/png, image/jpeg, image/webp"
+                onChange={handleFileChange}
+            />
+
+            {isScanning ? (
+                <div className="relative w-full aspect-[4/3] overflow-hidden rounded-2xl border-2 border-white/20 bg-black">
+                    <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+                    {/* Aiming guide */}
+                    <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-24 border-2 border-[var(--color-primary)] rounded-lg pointer-events-none" />
+                    <button
+                        onClick={stopCamera}
+                        className="absolute bottom-3 inset-x-3 py-2 bg-gray-800/80 hover:bg-gray-700 text-white text-sm rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            ) : scanSupported ? (
+                <div className="flex gap-2">
+                    <button
+                        onClick={startCamera}
+                        disabled={isLooking}
+                        className="flex-1 py-4 border-2 border-dashed border-white/20 rounded-2xl flex flex-col items-center justify-center hover:border-[var(--color-primary)] hover:bg-white/5 transition-all"
+                    >
+                        <CameraIcon className="w-6 h-6 text-[var(--color-primary)] mb-1" />
+                        <span className="font-bold uppercase tracking-wide text-white text-sm">Scan Barcode</span>
+                    </button>
+                    <label
+                        htmlFor="barcode-photo-upload"
+                        className="flex-1 py-4 cursor-pointer border border-gray-700 rounded-2xl flex flex-col items-center justify-center hover:border-[var(--color-primary)] hover:bg-white/5 transition-all"
+                    >
+                        <svg className="w-6 h-6 text-gray-400 mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                        </svg>
+                        <span className="text-gray-400 text-sm font-medium">From Photo</span>
+                    </label>
+                </div>
+            ) : (
+                <p className="text-xs text-gray-500">
+                    Camera scanning isn't supported in this browser. Type the number under the barcode instead.
+                </p>
+            )}
+
+            {/* Manual entry */}
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    handleLookup(code);
+                }}
+                className="flex gap-2"
+            >
+                <input
+                    type="text"
+                    inputMode="numeric"
+                    value={code}
+                    onChange={(e) => {
+                        setCode(e.target.value);
+                        setError(null);
+                    }}
+                    placeholder="Barcode number, e.g. 3017620422003"
+                    className="input-field flex-1"
+                    disabled={isLooking}
+                />
+                <button
+                    type="submit"
+                    disabled={isLooking || !code.trim()}
+                    className="px-4 bg-gray-800 hover:bg-gray-700 text-white rounded-xl text-sm font-bold disabled:opacity-50"
+                >
+                    {isLooking ? <LoaderIcon className="w-4 h-4 animate-spin" /> : 'Look Up'}
+                </button>
+            </form>
+
+            {error && (
+                <div className="px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-xl">
+                    <p className="text-red-400 text-sm">{error}</p>
+                </div>
+            )}
+
+            {product && (
+                <div className="space-y-3 p-4 bg-gray-800/50 rounded-xl">
+                    <div>
+                        <p className="font-bold text-white">{product.name}</p>
+                        {product.brand && <p className="text-xs text-gray-400">{product.brand}</p>}
+                        {product.servingSize && (
+                            <p className="text-xs text-gray-500 mt-1">Serving: {product.servingSize}</p>
+                        )}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                        {(product.servingGrams ? ['1 serving', '2 servings', '100 g'] : ['50 g', '100 g', '200 g']).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setPortion(option)}
+                                className={`px-3 py-1.5 text-xs rounded-full transition-all active:scale-95 ${
+                                    portion === option
+                                        ? 'bg-[var(--color-primary)] text-black font-bold'
+                                        : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-white'
+                                }`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                    <input
+                        type="text"
+                        value={portion}
+                        onChange={(e) => setPortion(e.target.value)}
+                        placeholder="Portion, e.g. 40 g or 2 tbsp"
+                        className="input-field w-full"
+                    />
+
+                    {preview && (
+                        <p className="text-sm text-gray-300">
+                            {preview.grams} g · {preview.calories} cal | {preview.protein}g P | {preview.carbs}g C | {preview.fats}g F
+                        </p>
+                    )}
+
+                    <button
+                        onClick={handleUse}
+                        disabled={!preview}
+                        className="btn-primary w-full active:scale-[0.98] transition-transform disabled:opacity-50"
+                    >
+                        Use This Product
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BarcodeMealInput;
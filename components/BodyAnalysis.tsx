@@ -7,11 +7,13 @@ import AnalyticsTab from './body/AnalyticsTab';
 import ProgressPhotos from './ProgressPhotos';
 import ResultDisplay from './ResultDisplay';
 import Skeleton from './ui/Skeleton';
+import type { UnitSystem } from '../utils/units';
 
 interface BodyAnalysisProps {
   onAnalysisComplete: (result: string) => void;
   goal?: string | null;
   defaultWeight?: number | null;
+  unitSystem?: UnitSystem;
 }
 
 type TabMode = 'overview' | 'photos' | 'analytics' | 'history';
@@ -30,7 +32,7 @@ const TABS: { key: TabMode; label: string; icon: string }[] = [
   { key: 'history', label: 'History', icon: 'history' },
 ];
 
-const BodyAnalysis: React.FC<BodyAnalysisProps> = ({ onAnalysisComplete, goal = null, defaultWeight = null }) => {
+const BodyAnalysis: React.FC<BodyAnalysisProps> = ({ onAnalysisComplete, goal = null, defaultWeight = null, unitSystem = 'imperial' }) => {
   const { user } = useAuth();
   const [tabMode, setTabMode] = useState<TabMode>('overview');
   const { checkins, loading, addCheckin, deleteCheckin, latestCheckin } = useBodyCheckins(user?.id);
@@ -101,6 +103,7 @@ const BodyAnalysis: React.FC<BodyAnalysisProps> = ({ onAnalysisComplete, goal =
           defaultWeight={latestCheckin?.weight_lbs ?? defaultWeight}
           goal={goal}
           onAnalysisComplete={onAnalysisComplete}
+          unitSystem={unitSystem}
         />
       )}
 
@@ -111,7 +114,7 @@ const BodyAnalysis: React.FC<BodyAnalysisProps> = ({ onAnalysisComplete, goal =
 
       {/* Analytics Tab */}
       {tabMode === 'analytics' && (
-        <AnalyticsTab checkins={checkins} goal={goal} />
+        <AnalyticsTab checkins={checkins} goal={goal} unitSystem={unitSystem} />
       )}
 
       {/* History Tab */}
@@ -18,6 +18,7 @@ const ICON_MAP: Record<string, string> = {
   rest_skipper: 'timer',
   recovery_checkin: 'bedtime',
   good_session: 'trending_up',
+  personal_record: 'emoji_events',
 };
 
 const CoachInsightCard: React.FC<CoachInsightCardProps> = ({
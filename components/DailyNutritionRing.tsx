@@ -1,4 +1,5 @@
 import React from 'react';
+import { formatWater, mlToOz } from '../utils/hydration';
 
 interface DailyNutritionRingProps {
     consumed: number;
@@ -9,6 +10,7 @@ interface DailyNutritionRingProps {
     protein?: { consumed: number; target: number };
     carbs?: { consumed: number; target: number };
     fats?: { consumed: number; target: number };
+    water?: { consumed: number; target: number }; // ml
 }
 
 const DailyNutritionRing: React.FC<DailyNutritionRingProps> = ({
@@ -19,7 +21,8 @@ const DailyNutritionRing: React.FC<DailyNutritionRingProps> = ({
     showMacros = false,
     protein,
     carbs,
-    fats
+    fats,
+    water
 }) => {
     const radius = (size - strokeWidth) / 2;
     const circumference = 2 * Math.PI * radius;
@@ -111,6 +114,22 @@ const DailyNutritionRing: React.FC<DailyNutritionRingProps> = ({
                     </div>
                 </div>
             )}
+
+            {/* Water */}
+            {water && water.target > 0 && (
+                <div className="w-full max-w-[240px] mt-4">
+                    <div className="flex justify-between text-xs mb-1">
+                        <span className="text-gray-500">💧 Water</span>
+                        <span className="font-bold text-white">{mlToOz(water.consumed)} / {formatWater(water.target)}</span>
+                    </div>
+                    <div className="h-1 bg-gray-700 rounded-full overflow-hidden">
+                        <div
+                            className="h-full bg-blue-400 rounded-full transition-all"
+                            style={{ width: `${Math.min((water.consumed / water.target) * 100, 100)}%` }}
+                        />
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -10,6 +10,8 @@ import Skeleton from './ui/Skeleton';
 import SupplementRecommendationCard from './SupplementRecommendationCard';
 import AddToHomeScreenButton from './AddToHomeScreenButton';
 import WeeklyPlanCard from './WeeklyPlanCard';
+import FastingTimerCard from './FastingTimerCard';
+import HydrationCard from './HydrationCard';
 import { getRecommendations } from '../services/supplementService';
 import CoachInsightCard from './CoachInsightCard';
 import SectionErrorBoundary from './SectionErrorBoundary';
@@ -17,7 +19,7 @@ import { useSubscriptionContext } from '../contexts/SubscriptionContext';
 import { getTrialDaysRemaining } from '../services/paymentService';
 import type { CoachInsight } from '../hooks/useCoachingAgent';
 import type { NutritionLog, CompletedWorkout } from '../App';
-import type { NutritionTargets, UserProfile } from '../hooks/useUserData';
+import type { MealEntry, NutritionTargets, UserProfile } from '../hooks/useUserData';
 import type { WeeklyPlan, DayPlan, GeneratedWorkout } from '../services/aiService';
 
 type Tab = 'dashboard' | 'train' | 'body' | 'meal' | 'mindset';
@@ -32,6 +34,11 @@ interface DashboardProps {
     goal: string | null;
     workoutHistory: CompletedWorkout[];
     userProfile?: UserProfile;
+    mealEntries?: MealEntry[];
+    // Hydration (today's water in ml)
+    hydration?: { consumedMl: number; targetMl: number; isTrainingDay: boolean };
+    onAddWater?: (amountMl: number) => Promise<boolean>;
+    onUndoWater?: () => Promise<boolean>;
     onStartWorkout: () => void;
     workoutStatus: WorkoutStatus;
     // Weekly Plan props
@@ -55,6 +62,10 @@ const Dashboard: React.FC<DashboardProps> = ({
     goal,
     workoutHistory,
     userProfile,
+    mealEntries = [],
+    hydration,
+    onAddWater,
+    onUndoWater,
     onStartWorkout,
     workoutStatus,
     weeklyPlan,
@@ -346,6 +357,22 @@ const Dashboard: React.FC<DashboardProps> = ({
                 )}
             </div>
 
+            {/* Fasting Timer (only when an eating window is set) */}
+            {userProfile?.fasting_window && (
+                <FastingTimerCard fastingWindow={userProfile.fasting_window} mealEntries={mealEntries} />
+            )}
+
+            {/* Hydration */}
+            {hydration && onAddWater && (
+                <HydrationCard
+                    consumedMl={hydration.consumedMl}
+                    targetMl={hydration.targetMl}
+                    isTrainingDay={hydration.isTrainingDay}
+                    onAddWater={onAddWater}
+                    onUndo={onUndoWater}
+                />
+            )}
+
             {/* Unified Workout CTA - Context-Aware */}
             <div className="card">
                 {workoutStatus === 'generating' || isGeneratingPlan ? (
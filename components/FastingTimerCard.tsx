@@ -0,0 +1,72 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatFastingWindow, getFastingStatus, type FastingWindow } from '../utils/fasting';
+import type { MealEntry } from '../hooks/useUserData';
+
+interface FastingTimerCardProps {
+    fastingWindow: FastingWindow;
+    mealEntries: MealEntry[];
+}
+
+const formatDuration = (ms: number): string => {
+    const totalMinutes = Math.max(0, Math.floor(ms / 60_000));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatClock = (date: Date): string =>
+    date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const FastingTimerCard: React.FC<FastingTimerCardProps> = ({ fastingWindow, mealEntries }) => {
+    const [now, setNow] = useState(() => new Date());
+
+    // Minute resolution is enough for a fast measured in hours
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 60_000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const lastMealAt = useMemo(() => {
+        const latest = mealEntries.reduce<number>((max, m) => Math.max(max, Date.parse(m.created_at) || 0), 0);
+        return latest ? new Date(latest) : null;
+    }, [mealEntries]);
+
+    const status = getFastingStatus(now, fastingWindow, lastMealAt);
+    const fasting = status.state === 'fasting';
+
+    return (
+        <div className="card">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                    <span aria-hidden="true">{fasting ? '⏳' : '🍽️'}</span> {fasting ? 'FASTING' : 'EATING WINDOW'}
+                </h3>
+                <span className="text-xs text-gray-400">{formatFastingWindow(fastingWindow)}</span>
+            </div>
+            <div role="timer" aria-live="off">
+                <p className="text-3xl font-black text-white">
+                    {fasting && status.fastingSince
+                        ? formatDuration(now.getTime() - status.fastingSince.getTime())
+                        : formatDuration(status.changesAt.getTime() - now.getTime())}
+                </p>
+                <p className="text-sm text-gray-400 mt-1">
+                    {fasting
+                        ? `Fasted so far · window opens at ${formatClock(status.changesAt)} (${formatDuration(status.changesAt.getTime() - now.getTime())})`
+                        : `Left to eat · window closes at ${formatClock(status.changesAt)}`}
+                </p>
+            </div>
+            <div className="w-full bg-gray-800 rounded-full h-2.5 mt-4">
+                <div
+                    className="bg-[var(--color-primary)] h-2.5 rounded-full transition-all duration-500"
+                    style={{ width: `${Math.round(Math.min(1, status.progress) * 100)}%` }}
+                    role="progressbar"
+                    aria-valuenow={Math.round(Math.min(1, status.progress) * 100)}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-label={fasting ? 'Fast progress' : 'Eating window progress'}
+                ></div>
+            </div>
+        </div>
+    );
+};
+
+export default FastingTimerCard;
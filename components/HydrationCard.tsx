@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { HYDRATION_QUICK_ADD_OZ, formatWater, mlToOz, ozToMl } from '../utils/hydration';
+
+interface HydrationCardProps {
+    consumedMl: number;
+    targetMl: number;
+    isTrainingDay: boolean;
+    onAddWater: (amountMl: number) => Promise<boolean>;
+    onUndo?: () => Promise<boolean>;
+}
+
+const HydrationCard: React.FC<HydrationCardProps> = ({ consumedMl, targetMl, isTrainingDay, onAddWater, onUndo }) => {
+    const [busy, setBusy] = useState(false);
+    const percentage = targetMl > 0 ? Math.min((consumedMl / targetMl) * 100, 100) : 0;
+    const remainingMl = Math.max(targetMl - consumedMl, 0);
+
+    const run = async (action: () => Promise<boolean>) => {
+        if (busy) return;
+        setBusy(true);
+        try {
+            await action();
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="card">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                    <span aria-hidden="true">💧</span> HYDRATION
+                </h3>
+                {isTrainingDay && (
+                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-blue-500/20 text-blue-400">
+                        Training day
+                    </span>
+                )}
+            </div>
+
+            <div className="flex justify-between items-baseline mb-1">
+                <span className="text-2xl font-black text-white">
+                    {mlToOz(consumedMl)} <span className="text-sm font-semibold text-gray-400">/ {formatWater(targetMl)}</span>
+                </span>
+                <span className="text-xs text-gray-500">
+                    {remainingMl > 0 ? `${formatWater(remainingMl)} to go` : 'Goal reached!'}
+                </span>
+            </div>
+            <div className="w-full bg-gray-800 rounded-full h-2.5">
+                <div
+                    className="bg-blue-400 h-2.5 rounded-full transition-all duration-500"
+                    style={{ width: `${percentage}%` }}
+                    role="progressbar"
+                    aria-valuenow={mlToOz(consumedMl)}
+                    aria-valuemin={0}
+                    aria-valuemax={mlToOz(targetMl)}
+                    aria-label="Water progress"
+                ></div>
+            </div>
+
+            <div className="flex gap-2 mt-4">
+                {HYDRATION_QUICK_ADD_OZ.map(oz => (
+                    <button
+                        key={oz}
+                        onClick={() => run(() => onAddWater(ozToMl(oz)))}
+                        disabled={busy}
+                        className="flex-1 min-h-[44px] py-2 rounded-xl bg-gray-800 text-white text-sm font-bold hover:bg-gray-700 transition-colors disabled:opacity-50"
+                        aria-label={`Add ${oz} ounces of water`}
+                    >
+                        +{oz} oz
+                    </button>
+                ))}
+            </div>
+            {onUndo && consumedMl > 0 && (
+                <button
+                    onClick={() => run(onUndo)}
+                    disabled={busy}
+                    className="mt-2 w-full text-xs text-gray-500 hover:text-gray-300 transition-colors disabled:opacity-50"
+                >
+                    Undo last
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default HydrationCard;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useToast } from '../contexts/ToastContext';
+import { MAX_MEAL_COPIES, MAX_REPEAT_WEEKS, repeatDates, type RepeatPattern } from '../utils/mealRepeat';
+
+interface MealDayActionsProps {
+    date: string;               // Day the meals are on (YYYY-MM-DD)
+    entryIds: string[];         // Selected meals, or the whole day when nothing is selected
+    wholeDay: boolean;
+    defaultTargetDate: string;
+    onCopy: (entryIds: string[], dates: string[]) => Promise<number>;
+    onMove: (entryIds: string[], toDate: string) => Promise<boolean>;
+    onDone?: () => void;
+}
+
+const formatShortDate = (date: string) =>
+    new Date(date + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const MealDayActions: React.FC<MealDayActionsProps> = ({ date, entryIds, wholeDay, defaultTargetDate, onCopy, onMove, onDone }) => {
+    const { showToast } = useToast();
+    const [targetDate, setTargetDate] = useState(defaultTargetDate);
+    const [pattern, setPattern] = useState<RepeatPattern>('weekly');
+    const [weeks, setWeeks] = useState(4);
+    const [busy, setBusy] = useState(false);
+
+    const count = entryIds.length;
+    const subject = wholeDay ? 'day' : `${count} meal${count !== 1 ? 's' : ''}`;
+    const weekday = new Date(date + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'long' });
+
+    const run = async (action: () => Promise<void>) => {
+        if (busy || count === 0) return;
+        setBusy(true);
+        try {
+            await action();
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const copyTo = (dates: string[], label: string) => run(async () => {
+        if (dates.length === 0) return;
+        if (count * dates.length > MAX_MEAL_COPIES) {
+            showToast(`That's ${count * dates.length} meals. Max ${MAX_MEAL_COPIES} at once.`, 'error');
+            return;
+        }
+        const created = await onCopy(entryIds, dates);
+        if (created > 0) {
+            showToast(`Copied ${created} meal${created !== 1 ? 's' : ''} ${label}.`, 'success');
+            onDone?.();
+        } else {
+            showToast("Didn't copy. Try again.", 'error');
+        }
+    });
+
+    const handleMove = () => run(async () => {
+        if (!targetDate || targetDate === date) return;
+        if (await onMove(entryIds, targetDate)) {
+            showToast(`Moved to ${formatShortDate(targetDate)}.`, 'success');
+            onDone?.();
+        } else {
+            showToast("Didn't move. Try again.", 'error');
+        }
+    });
+
+    const handleRepeat = () => {
+        const dates = repeatDates(date, pattern, weeks);
+        copyTo(dates, pattern === 'weekly'
+            ? `to the next ${dates.length} ${weekday}s`
+            : `to ${dates.length} weekdays`);
+    };
+
+    const inputClass = 'bg-gray-800 border border-gray-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-[var(--color-primary)]';
+    const buttonClass = 'min-h-[40px] px-3 rounded-xl bg-gray-800 text-white text-sm font-bold hover:bg-gray-700 transition-colors disabled:opacity-50';
+
+    return (
+        <div className="px-4 py-3 space-y-3 bg-black/20">
+            <p className="text-xs text-gray-400 uppercase font-bold tracking-wider">
+                {wholeDay ? `Whole day · ${count} meal${count !== 1 ? 's' : ''}` : `${count} selected`}
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="date"
+                    value={targetDate}
+                    onChange={(e) => setTargetDate(e.target.value)}
+                    className={inputClass}
+                    aria-label="Target date"
+                />
+                <button
+                    onClick={() => copyTo([targetDate], `to ${formatShortDate(targetDate)}`)}
+                    disabled={busy || count === 0 || !targetDate}
+                    className={buttonClass}
+                >
+                    Copy
+                </button>
+                <button
+                    onClick={handleMove}
+                    disabled={busy || count === 0 || !targetDate || targetDate === date}
+                    className={buttonClass}
+                >
+                    Move
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-gray-400">Repeat {subject}</span>
+                <select
+                    value={pattern}
+                    onChange={(e) => setPattern(e.target.value as RepeatPattern)}
+                    className={inputClass}
+                    aria-label="Repeat pattern"
+                >
+                    <option value="weekly">every {weekday}</option>
+                    <option value="weekdays">every weekday</option>
+                </select>
+                <span className="text-sm text-gray-400">for</span>
+                <input
+                    type="number"
+                    min={1}
+                    max={MAX_REPEAT_WEEKS}
+                    value={weeks}
+                    onChange={(e) => setWeeks(Math.max(1, Math.min(MAX_REPEAT_WEEKS, Number(e.target.value) || 1)))}
+                    className={`${inputClass} w-16`}
+                    aria-label="Weeks"
+                />
+                <span className="text-sm text-gray-400">weeks</span>
+                <button
+                    onClick={handleRepeat}
+                    disabled={busy || count === 0}
+                    className={buttonClass}
+                >
+                    Repeat
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default MealDayActions;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { planMeals } from '../services/aiService';
+import type { MacroTotals, MealPlan, MealPlanInput, PlannedMeal } from '../lib/ai/types';
+import LoaderIcon from './icons/LoaderIcon';
+import CheckIcon from './icons/CheckIcon';
+
+interface MealPlannerProps {
+    remaining: MacroTotals;
+    targets: MacroTotals;
+    goal: string | null;
+    mealsEaten: MealPlanInput['mealsEaten'];
+    favorites: MealPlanInput['favorites'];
+    restrictions?: string[];
+    onLogMeal: (meal: PlannedMeal) => Promise<boolean>;
+}
+
+const DAY_LABELS = ['Today', 'Tomorrow'];
+
+function dayLabel(day: number): string {
+    if (day < DAY_LABELS.length) return DAY_LABELS[day];
+    const date = new Date();
+    date.setDate(date.getDate() + day);
+    return date.toLocaleDateString('en-US', { weekday: 'long' });
+}
+
+const MealPlanner: React.FC<MealPlannerProps> = ({ remaining, targets, goal, mealsEaten, favorites, restrictions = [], onLogMeal }) => {
+    const [horizon, setHorizon] = useState<MealPlan['horizon']>('day');
+    const [plan, setPlan] = useState<MealPlan | null>(null);
+    const [isPlanning, setIsPlanning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Meals logged from this plan, by index
+    const [logged, setLogged] = useState<Set<number>>(new Set());
+    const [loggingIndex, setLoggingIndex] = useState<number | null>(null);
+
+    const nothingLeft = horizon === 'day' && remaining.calories <= 0;
+
+    const handlePlan = async () => {
+        setError(null);
+        setIsPlanning(true);
+        try {
+            const result = await planMeals({
+                horizon,
+                remaining: horizon === 'day' ? remaining : targets,
+                goal,
+                mealsEaten,
+                favorites,
+                restrictions,
+            });
+            if (result) {
+                setPlan(result);
+                setLogged(new Set());
+            } else {
+                setError("Couldn't plan meals right now. Try again.");
+            }
+        } finally {
+            setIsPlanning(false);
+        }
+    };
+
+    const handleLog = async (meal: PlannedMeal, index: number) => {
+        setLoggingIndex(index);
+        try {
+            if (await onLogMeal(meal)) {
+                setLogged(prev => new Set(prev).add(index));
+            }
+        } finally {
+            setLoggingIndex(null);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                {(['day', 'week'] as const).map(h => (
+                    <button
+                        key={h}
+                        onClick={() => setHorizon(h)}
+                        className={`flex-1 py-2 rounded-xl text-sm font-bold transition-colors ${
+                            horizon === h ? 'bg-[var(--color-primary)] text-black' : 'bg-gray-800 text-gray-400 hover:text-white'
+                        }`}
+                    >
+                        {h === 'day' ? 'Rest of today' : '7 days'}
+                    </button>
+                ))}
+            </div>
+
+            <p className="text-xs text-gray-500 text-center">
+                {horizon === 'day'
+                    ? `${Math.max(0, remaining.calories)} cal · ${Math.max(0, remaining.protein)}g protein left today`
+                    : `${targets.calories} cal · ${targets.protein}g protein per day`}
+            </p>
+
+            <button
+                onClick={handlePlan}
+                disabled={isPlanning || nothingLeft}
+                className="btn-primary w-full flex items-center justify-center gap-2 active:scale-[0.98] transition-transform disabled:opacity-50"
+            >
+                {isPlanning && <LoaderIcon className="w-4 h-4 animate-spin" />}
+                {isPlanning ? 'Planning...' : nothingLeft ? "You've hit today's calories" : plan ? 'Plan Again' : 'Suggest Meals'}
+            </button>
+
+            {error && (
+                <div className="px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-xl">
+                    <p className="text-red-400 text-sm">{error}</p>
+                </div>
+            )}
+
+            {plan && (
+                <div className="space-y-3">
+                    {plan.notes && <p className="text-sm text-gray-400">{plan.notes}</p>}
+                    {plan.meals.map((meal, index) => {
+                        const showDay = plan.horizon === 'week' && (index === 0 || plan.meals[index - 1].day !== meal.day);
+                        return (
+                            <React.Fragment key={`${meal.day}-${meal.meal_type}-${index}`}>
+                                {showDay && (
+                                    <p className="text-xs font-bold uppercase tracking-wide text-gray-500 pt-2">{dayLabel(meal.day)}</p>
+                                )}
+                                <div className="p-3 bg-gray-800/50 rounded-xl space-y-2">
+                                    <div className="flex justify-between items-start gap-2">
+                                        <div className="min-w-0">
+                                            <p className="text-[10px] uppercase tracking-wide text-gray-500">{meal.meal_type}</p>
+                                            <p className="font-bold text-white truncate">{meal.name}</p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleLog(meal, index)}
+                                            disabled={logged.has(index) || loggingIndex !== null}
+                                            className="shrink-0 px-3 py-1.5 bg-[var(--color-primary)] text-black rounded-lg text-xs font-bold disabled:opacity-50 flex items-center gap-1"
+                                            aria-label={`Log ${meal.name}`}
+                                        >
+                                            {loggingIndex === index ? (
+                                                <LoaderIcon className="w-3 h-3 animate-spin" />
+                                            ) : logged.has(index) ? (
+                                                <><CheckIcon className="w-3 h-3" /> Logged</>
+                                            ) : (
+                                                'Log'
+                                            )}
+                                        </button>
+                                    </div>
+                                    <ul className="space-y-0.5">
+                                        {meal.foods.map((food, i) => (
+                                            <li key={`${food.name}-${i}`} className="text-xs text-gray-400 flex gap-1.5">
+                                                <span className={food.source === 'usda' ? 'text-green-400' : 'text-gray-500'}>
+                                                    {food.source === 'usda' ? '✓' : '~'}
+                                                </span>
+                                                <span className="truncate">{food.name} ({food.portion})</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    <p className="text-sm text-gray-300">
+                                        {meal.totals.calories} cal | {meal.totals.protein}g P | {meal.totals.carbs}g C | {meal.totals.fats}g F
+                                    </p>
+                                </div>
+                            </React.Fragment>
+                        );
+                    })}
+                    <p className="text-[10px] text-gray-600 text-center">✓ checked against USDA · ~ estimated</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MealPlanner;
@@ -1,6 +1,6 @@
 import React, { useState, useCallback, ChangeEvent, memo, useMemo, useRef, useEffect } from 'react';
 import { analyzeMealPhoto, MealAnalysisResult, TextMealAnalysisResult } from '../services/aiService';
-import type { FoodWithNutrition } from '../lib/ai/types';
+import type { FoodWithNutrition, Micronutrients, PlannedMeal, PromptStamp } from '../lib/ai/types';
 import { validateImage } from '../services/storageService';
 import { useToast } from '../contexts/ToastContext';
 import CameraIcon from './icons/CameraIcon';
@@ -10,23 +10,31 @@ import ResultDisplay from './ResultDisplay';
 import SupplementRecommendationCard from './SupplementRecommendationCard';
 import DailyNutritionRing from './DailyNutritionRing';
 import TextMealInput from './TextMealInput';
+import BarcodeMealInput, { BarcodeSelection } from './BarcodeMealInput';
 import QuickAddMeal, { SavedMeal } from './QuickAddMeal';
+import RecipeBuilder from './RecipeBuilder';
+import MealPlanner from './MealPlanner';
+import { recipeServingNutrition, formatServings, type Recipe, type RecipeDraft } from '../services/recipeService';
 import { getSmartRecommendations, type SupplementPreferences } from '../services/supplementService';
 import { MealEntry, FavoriteFood } from '../hooks/useUserData';
+import { scaleMicronutrients, sumMicronutrients } from '../utils/micronutrients';
+import { dietaryRestrictionLabels, type DietaryPreference } from '../utils/dietaryPreferences';
+import { isInEatingWindow, type FastingWindow } from '../utils/fasting';
 import type { NutritionLog } from '../App';
 import WeeklyNutritionSummary from './WeeklyNutritionSummary';
+import MealDayActions from './MealDayActions';
 import ProgressChart from './ProgressChart';
 import { useSubscriptionContext } from '../contexts/SubscriptionContext';
 import { PREMIUM_FEATURES } from '../hooks/useSubscription';
 
-type InputMode = 'text' | 'photo' | 'quick';
+type InputMode = 'text' | 'photo' | 'barcode' | 'recipe' | 'plan' | 'quick';
 type TabMode = 'log' | 'history';
 
 interface MealTrackerProps {
   userGoal: string | null;
   onLogMeal: (macros: { calories: number; protein: number; carbs: number; fats: number }) => Promise<void>;
   todayNutrition?: { calories: number; protein: number; carbs: number; fats: number };
-  nutritionTargets?: { calories: number; protein: number; carbs: number; fats: number };
+  nutritionTargets?: { calories: number; protein: number; carbs: number; fats: number; micros?: Micronutrients };
   // New props for meal persistence
   mealEntries?: MealEntry[];
   favorites?: FavoriteFood[];
@@ -36,8 +44,9 @@ interface MealTrackerProps {
     protein: number;
     carbs: number;
     fats: number;
+    micros?: Micronutrients;
     mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-    inputMethod?: 'photo' | 'text' | 'quick_add';
+    inputMethod?: 'photo' | 'text' | 'barcode' | 'recipe' | 'meal_plan' | 'quick_add';
     photoUrl?: string;
     date?: string;
     // USDA Integration: Scan data for learning
@@ -47,15 +56,29 @@ interface MealTrackerProps {
       hasUSDAData: boolean;
       userEdited: boolean;
       portionMultipliers: Record<number, number>;
+      prompt?: PromptStamp;                // Prompt version behind the detection
     };
   }) => Promise<MealEntry | null>;
   onDeleteMealEntry?: (entryId: string) => Promise<boolean>;
+  // Copy / move / repeat meals across days (history mode)
+  onCopyMealEntries?: (entryIds: string[], dates: string[]) => Promise<number>;
+  onMoveMealEntries?: (entryIds: string[], toDate: string) => Promise<boolean>;
   onAddToFavorites?: (meal: { name: string; calories: number; protein: number; carbs: number; fats: number }) => Promise<boolean>;
+  // Recipes
+  recipes?: Recipe[];
+  onSaveRecipe?: (draft: RecipeDraft) => Promise<Recipe | null>;
+  onDeleteRecipe?: (recipeId: string) => Promise<boolean>;
   // History mode props
   nutritionLogs?: NutritionLog[];
   goal?: string | null;
   // Supplement preferences for conditional display
   supplementPreferences?: SupplementPreferences | null;
+  // Diets and allergens, passed to meal analysis and planning
+  dietaryPreferences?: DietaryPreference[];
+  // Intermittent fasting eating window; meals logged outside it are flagged
+  fastingWindow?: FastingWindow | null;
+  // Today's water and target (ml), shown under the calorie ring
+  hydration?: { consumedMl: number; targetMl: number };
 }
 
 import Skeleton from './ui/Skeleton';
@@ -92,10 +115,18 @@ const MealTracker: React.FC<MealTrackerProps> = ({
   favorites: favoritesProp = [],
   onSaveMealEntry,
   onDeleteMealEntry,
+  onCopyMealEntries,
+  onMoveMealEntries,
   onAddToFavorites,
+  recipes = [],
+  onSaveRecipe,
+  onDeleteRecipe,
   nutritionLogs = [],
   goal,
-  supplementPreferences = null
+  supplementPreferences = null,
+  dietaryPreferences = [],
+  fastingWindow = null,
+  hydration
 }) => {
   const { showToast } = useToast();
   const { requireSubscription } = useSubscriptionContext();
@@ -126,6 +157,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
   const [preview, setPreview] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<string | null>(null);
+  // Markdown streamed from the photo analysis while it is still in progress
   const [macros, setMacros] = useState<MealAnalysisResult['macros']>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLogged, setIsLogged] = useState(false);
@@ -148,6 +180,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
   const [originalFoodsDetailed, setOriginalFoodsDetailed] = useState<FoodWithNutrition[]>([]); // Before user edits
   const [hasUSDAData, setHasUSDAData] = useState(false);
   const [portionMultipliers, setPortionMultipliers] = useState<Record<number, number>>({});
+  const [analysisPrompt, setAnalysisPrompt] = useState<PromptStamp | undefined>(undefined);
   const [editingFoodIndex, setEditingFoodIndex] = useState<number | null>(null);
 
   // Race condition protection - useRef for immediate lock (not subject to React batching)
@@ -165,14 +198,15 @@ const MealTracker: React.FC<MealTrackerProps> = ({
         carbs: m.carbs,
         fats: m.fats,
         time: new Date(m.created_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }),
-        mealType: m.meal_type
+        mealType: m.meal_type,
+        outsideWindow: !!fastingWindow && !isInEatingWindow(new Date(m.created_at), fastingWindow)
       }));
-  }, [mealEntries, currentDate]);
+  }, [mealEntries, currentDate, fastingWindow]);
 
   // Memoize supplement recommendations - only show if user has enabled supplements
   const supplementRecs = useMemo(
-    () => getSmartRecommendations(userGoal, supplementPreferences),
-    [userGoal, supplementPreferences]
+    () => getSmartRecommendations(userGoal, supplementPreferences, dietaryPreferences),
+    [userGoal, supplementPreferences, dietaryPreferences]
   );
 
   // Convert favorites to SavedMeal format for QuickAddMeal component
@@ -245,26 +279,14 @@ const MealTracker: React.FC<MealTrackerProps> = ({
   );
 
   const [selectedMealDate, setSelectedMealDate] = useState<string | null>(null);
+  // Meals picked for copy/move within the expanded history day (empty = whole day)
+  const [selectedMealIds, setSelectedMealIds] = useState<string[]>([]);
+  const canCopyOrMove = !!onCopyMealEntries && !!onMoveMealEntries;
 
-  useEffect(() => {
-    if (!isLoading) {
-      setLoadingPhase('Scanning meal...');
-      return;
-    }
-
-    const phases = [
-      { delay: 0, text: 'Scanning meal...' },
-      { delay: 3000, text: 'Identifying ingredients...' },
-      { delay: 8000, text: 'Calculating macros...' },
-      { delay: 15000, text: 'Finalizing analysis...' },
-    ];
+  const toggleMealSelected = useCallback((id: string) => {
+    setSelectedMealIds(prev => prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]);
+  }, []);
 
-    const timers = phases.map(({ delay, text }) =>
-      setTimeout(() => setLoadingPhase(text), delay)
-    );
-
-    return () => timers.forEach(clearTimeout);
-  }, [isLoading]);
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -304,6 +326,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
       return;
     }
     setIsLoading(true);
+    setLoadingPhase('Scanning meal...');
     setError(null);
     setResult(null);
     setMacros(null);
@@ -315,7 +338,10 @@ const MealTracker: React.FC<MealTrackerProps> = ({
     setLoggedAtDate(`${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`);
 
     try {
-      const analysisResult = await analyzeMealPhoto(file, userGoal);
+      const analysisResult = await analyzeMealPhoto(file, userGoal, {
+        onProgress: setLoadingPhase,
+        dietaryPreferences,
+      });
       if (analysisResult.markdown.startsWith('An error occurred') || analysisResult.markdown.startsWith('Error:')) {
         setError(analysisResult.markdown);
         setAnalyzeRetry(() => handlePhotoAnalyze);
@@ -331,6 +357,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
           setOriginalFoodsDetailed(analysisResult.foodsDetailed); // Store original for comparison
           setHasUSDAData(analysisResult.hasUSDAData ?? false);
           setPortionMultipliers({}); // Reset multipliers for new analysis
+          setAnalysisPrompt(analysisResult.prompt);
         } else {
           setFoodsDetailed([]);
           setOriginalFoodsDetailed([]);
@@ -367,7 +394,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
       showToast("Couldn't read photo. Try a clearer shot.", 'error');
     }
     setIsLoading(false);
-  }, [file, userGoal]);
+  }, [file, userGoal, dietaryPreferences]);
 
   const handleTextAnalysisComplete = (analysisResult: TextMealAnalysisResult) => {
     setMacros(analysisResult.totals);
@@ -383,6 +410,65 @@ const MealTracker: React.FC<MealTrackerProps> = ({
     setResult(analysisResult.markdown);
   };
 
+  const handleBarcodeProduct = (selection: BarcodeSelection) => {
+    setMacros(selection.macros);
+    // Store original values for reset functionality
+    setOriginalMacros(selection.macros);
+    // Capture date now for midnight edge case
+    const now = new Date();
+    setLoggedAtDate(`${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`);
+    setMealDescription(selection.description);
+    setOriginalDescription(selection.description);
+    setResult(selection.markdown);
+  };
+
+  const handleLogRecipe = async (recipe: Recipe, servings: number) => {
+    if (!onSaveMealEntry) {
+      showToast('Log in to save meals.', 'error');
+      return;
+    }
+    const nutrition = recipeServingNutrition(recipe, servings);
+    try {
+      const result = await onSaveMealEntry({
+        description: `${recipe.name} (${formatServings(servings)})`,
+        ...nutrition,
+        inputMethod: 'recipe'
+      });
+      if (!result) {
+        showToast('Log in to save meals.', 'error');
+        return;
+      }
+      showToast(`${recipe.name} logged.`, 'success');
+    } catch {
+      showToast("Didn't save. Try again.", 'error');
+    }
+  };
+
+  const handleLogPlannedMeal = async (meal: PlannedMeal): Promise<boolean> => {
+    if (!onSaveMealEntry) {
+      showToast('Log in to save meals.', 'error');
+      return false;
+    }
+    try {
+      const result = await onSaveMealEntry({
+        description: meal.name,
+        ...meal.totals,
+        micros: meal.micros,
+        mealType: meal.meal_type,
+        inputMethod: 'meal_plan'
+      });
+      if (!result) {
+        showToast('Log in to save meals.', 'error');
+        return false;
+      }
+      showToast(`${meal.name} logged.`, 'success');
+      return true;
+    } catch {
+      showToast("Didn't save. Try again.", 'error');
+      return false;
+    }
+  };
+
   const handleQuickAdd = async (meal: SavedMeal) => {
     try {
       // Use saveMealEntry if available, otherwise fall back to onLogMeal
@@ -454,6 +540,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
             protein: Math.round(food.protein * mult),
             carbs: Math.round(food.carbs * mult),
             fats: Math.round(food.fats * mult),
+            micros: food.micros && scaleMicronutrients(food.micros, mult),
             portion: mult !== 1.0 ? `${food.portion} × ${mult.toFixed(1)}` : food.portion,
           };
         });
@@ -466,7 +553,8 @@ const MealTracker: React.FC<MealTrackerProps> = ({
           protein: macros.protein,
           carbs: macros.carbs,
           fats: macros.fats,
-          inputMethod: inputMode === 'photo' ? 'photo' : 'text',
+          micros: sumMicronutrients(finalFoods.map(f => f.micros)),
+          inputMethod: inputMode === 'photo' || inputMode === 'barcode' ? inputMode : 'text',
           date: loggedAtDate || undefined,
           // USDA Integration: Pass scan data for learning/analytics
           scanData: originalFoodsDetailed.length > 0 ? {
@@ -475,6 +563,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
             hasUSDAData,
             userEdited,
             portionMultipliers,
+            prompt: analysisPrompt,
           } : undefined,
         });
         clearTimeout(warningTimer);
@@ -501,7 +590,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
       setIsLogging(false);
       isLoggingRef.current = false;
     }
-  }, [macros, onLogMeal, onSaveMealEntry, mealDescription, inputMode, showToast, loggedAtDate, foodsDetailed, originalFoodsDetailed, portionMultipliers, hasUSDAData, originalMacros, originalDescription]);
+  }, [macros, onLogMeal, onSaveMealEntry, mealDescription, inputMode, showToast, loggedAtDate, foodsDetailed, originalFoodsDetailed, portionMultipliers, hasUSDAData, analysisPrompt, originalMacros, originalDescription]);
 
   const resetForNextMeal = () => {
     setFile(null);
@@ -524,6 +613,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
     setOriginalFoodsDetailed([]);
     setHasUSDAData(false);
     setPortionMultipliers({});
+    setAnalysisPrompt(undefined);
     setEditingFoodIndex(null);
   };
 
@@ -636,6 +726,8 @@ const MealTracker: React.FC<MealTrackerProps> = ({
             nutritionLogs={nutritionLogs}
             targets={nutritionTargets}
             goal={goal || null}
+            mealEntries={mealEntries}
+            fastingWindow={fastingWindow}
           />
           <ProgressChart
             data={chartData}
@@ -655,7 +747,10 @@ const MealTracker: React.FC<MealTrackerProps> = ({
             mealsByDate.map(({ date, displayDate, meals, totalCalories, totalProtein }) => (
               <div key={date} className="bg-[#1C1C1E] rounded-xl overflow-hidden border border-white/5">
                 <button
-                  onClick={() => setSelectedMealDate(selectedMealDate === date ? null : date)}
+                  onClick={() => {
+                    setSelectedMealDate(selectedMealDate === date ? null : date);
+                    setSelectedMealIds([]);
+                  }}
                   className="w-full flex items-center justify-between p-4 hover:bg-white/5 transition-colors"
                 >
                   <div className="flex items-center gap-3">
@@ -681,13 +776,25 @@ const MealTracker: React.FC<MealTrackerProps> = ({
                   <div className="border-t border-white/5">
                     {meals.map((meal) => (
                       <div key={meal.id} className="px-4 py-3 border-b border-white/5 last:border-b-0">
-                        <div className="flex items-start justify-between">
+                        <div className="flex items-start justify-between gap-3">
+                          {canCopyOrMove && (
+                            <input
+                              type="checkbox"
+                              checked={selectedMealIds.includes(meal.id)}
+                              onChange={() => toggleMealSelected(meal.id)}
+                              className="mt-1 size-4 accent-[var(--color-primary)]"
+                              aria-label={`Select ${meal.description || 'meal'}`}
+                            />
+                          )}
                           <div className="flex-1">
                             <p className="font-medium text-white">{meal.description || 'Meal'}</p>
                             <p className="text-gray-500 text-xs mt-1">
                               {new Date(meal.created_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
                               {meal.meal_type && ` · ${meal.meal_type}`}
                               {meal.input_method && ` · ${meal.input_method.replace('_', ' ')}`}
+                              {fastingWindow && !isInEatingWindow(new Date(meal.created_at), fastingWindow) && (
+                                <span className="text-orange-400"> · outside eating window</span>
+                              )}
                             </p>
                           </div>
                           <div className="text-right">
@@ -699,6 +806,18 @@ const MealTracker: React.FC<MealTrackerProps> = ({
                         </div>
                       </div>
                     ))}
+                    {canCopyOrMove && (
+                      <MealDayActions
+                        key={date}
+                        date={date}
+                        entryIds={selectedMealIds.length > 0 ? selectedMealIds : meals.map(m => m.id)}
+                        wholeDay={selectedMealIds.length === 0}
+                        defaultTargetDate={currentDate}
+                        onCopy={onCopyMealEntries!}
+                        onMove={onMoveMealEntries!}
+                        onDone={() => setSelectedMealIds([])}
+                      />
+                    )}
                   </div>
                 )}
               </div>
@@ -719,6 +838,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
           protein={{ consumed: todayNutrition.protein, target: nutritionTargets.protein }}
           carbs={{ consumed: todayNutrition.carbs, target: nutritionTargets.carbs }}
           fats={{ consumed: todayNutrition.fats, target: nutritionTargets.fats }}
+          water={hydration && { consumed: hydration.consumedMl, target: hydration.targetMl }}
         />
       </div>
 
@@ -738,6 +858,33 @@ const MealTracker: React.FC<MealTrackerProps> = ({
           label="Photo"
           icon={<CameraIcon className="w-4 h-4" />}
         />
+        <InputModeTab
+          mode="barcode"
+          label="Barcode"
+          icon={
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6v12M7 6v12M10 6v12M14 6v12M17 6v12M20 6v12" />
+            </svg>
+          }
+        />
+        <InputModeTab
+          mode="recipe"
+          label="Recipes"
+          icon={
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+            </svg>
+          }
+        />
+        <InputModeTab
+          mode="plan"
+          label="Plan"
+          icon={
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+            </svg>
+          }
+        />
         <InputModeTab
           mode="quick"
           label="Quick"
@@ -755,6 +902,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
           {inputMode === 'text' && (
             <TextMealInput
               userGoal={userGoal}
+              dietaryPreferences={dietaryPreferences}
               onAnalysisComplete={handleTextAnalysisComplete}
             />
           )}
@@ -845,6 +993,38 @@ const MealTracker: React.FC<MealTrackerProps> = ({
             </div>
           )}
 
+          {inputMode === 'barcode' && (
+            <BarcodeMealInput onProductSelected={handleBarcodeProduct} />
+          )}
+
+          {inputMode === 'recipe' && onSaveRecipe && onDeleteRecipe && (
+            <RecipeBuilder
+              recipes={recipes}
+              onSaveRecipe={onSaveRecipe}
+              onDeleteRecipe={onDeleteRecipe}
+              onLogRecipe={handleLogRecipe}
+            />
+          )}
+
+          {inputMode === 'plan' && (
+            <MealPlanner
+              remaining={{
+                calories: nutritionTargets.calories - todayNutrition.calories,
+                protein: nutritionTargets.protein - todayNutrition.protein,
+                carbs: nutritionTargets.carbs - todayNutrition.carbs,
+                fats: nutritionTargets.fats - todayNutrition.fats,
+              }}
+              targets={nutritionTargets}
+              goal={userGoal}
+              mealsEaten={todaysMeals.map(m => ({ description: m.name, mealType: m.mealType, calories: m.calories, protein: m.protein }))}
+              favorites={[...favoritesProp]
+                .sort((a, b) => b.times_logged - a.times_logged)
+                .map(({ name, calories, protein, carbs, fats }) => ({ name, calories, protein, carbs, fats }))}
+              restrictions={dietaryRestrictionLabels(dietaryPreferences)}
+              onLogMeal={handleLogPlannedMeal}
+            />
+          )}
+
           {inputMode === 'quick' && (
             <QuickAddMeal
               recentMeals={recentMeals}
@@ -855,7 +1035,7 @@ const MealTracker: React.FC<MealTrackerProps> = ({
         </div>
       )}
 
-      {/* Loading State with Skeleton */}
+      {/* Loading State with Skeleton: the phase is reported by the route as it runs */}
       {isLoading && (
         <div className="space-y-4">
           <div className="card flex flex-col items-center justify-center text-center p-8">
@@ -1379,6 +1559,11 @@ const MealTracker: React.FC<MealTrackerProps> = ({
                   <div className="text-left">
                     <span className="text-white font-medium">{meal.name}</span>
                     <span className="text-gray-500 text-xs ml-2">{meal.time}</span>
+                    {meal.outsideWindow && (
+                      <span className="ml-2 text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-400">
+                        Outside window
+                      </span>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
@@ -5,6 +5,8 @@ import { useToast } from '../contexts/ToastContext';
 import LoaderIcon from './icons/LoaderIcon';
 import CheckIcon from './icons/CheckIcon';
 import { getAllSupplements, type SupplementPreferences } from '../services/supplementService';
+import { ALLERGEN_OPTIONS, DIET_OPTIONS, validateDietaryPreferences, type DietaryPreference } from '../utils/dietaryPreferences';
+import { UNIT_SYSTEMS, cmToInches, fromDisplayWeight, inchesToCm, toDisplayWeight, weightUnit, type UnitSystem } from '../utils/units';
 
 interface OnboardingProps {
     onComplete: () => void;
@@ -62,9 +64,9 @@ const ACTIVITY_OPTIONS = [
     { id: 'extremely_active', label: 'Extremely Active', desc: 'Intense daily exercise', emoji: '🔥' },
 ];
 
-type Step = 'welcome' | 'goal' | 'stats' | 'activity' | 'experience' | 'equipment' | 'schedule' | 'supplements';
+type Step = 'welcome' | 'goal' | 'stats' | 'activity' | 'experience' | 'equipment' | 'schedule' | 'diet' | 'supplements';
 
-const STEPS: Step[] = ['welcome', 'goal', 'stats', 'activity', 'experience', 'equipment', 'schedule', 'supplements'];
+const STEPS: Step[] = ['welcome', 'goal', 'stats', 'activity', 'experience', 'equipment', 'schedule', 'diet', 'supplements'];
 
 type SupplementMode = 'not_interested' | 'using' | 'open_to_recommendations';
 
@@ -74,17 +76,26 @@ const SUPPLEMENT_MODE_OPTIONS = [
     { id: 'not_interested', label: 'No thanks', description: "I'll pass on supplements for now", emoji: '✋' },
 ] as const;
 
+// Accepted body stats, in storage units (lbs / inches)
+const MIN_WEIGHT_LBS = 80;
+const MAX_WEIGHT_LBS = 500;
+const MIN_HEIGHT_CM = 91;   // 3 ft
+const MAX_HEIGHT_CM = 244;  // 8 ft
+
 interface ProfileData {
     goal: string | null;
     gender: string | null;
+    unit_system: UnitSystem;
     height_ft: string;
     height_in: string;
-    weight_lbs: string;
+    height_cm: string;  // Metric only
+    weight: string;     // In the chosen unit
     age: string;
     activity_level: string | null;
     training_experience: string | null;
     equipment_access: string | null;
     days_per_week: number;
+    dietary_preferences: DietaryPreference[];
 }
 
 interface ValidationErrors {
@@ -106,14 +117,17 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
     const [profile, setProfile] = useState<ProfileData>({
         goal: null,
         gender: null,
+        unit_system: 'imperial',
         height_ft: '',
         height_in: '',
-        weight_lbs: '',
+        height_cm: '',
+        weight: '',
         age: '',
         activity_level: null,
         training_experience: null,
         equipment_access: null,
-        days_per_week: 4
+        days_per_week: 4,
+        dietary_preferences: []
     });
 
     // Supplement preferences state
@@ -123,11 +137,22 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
 
     const userName = user?.user_metadata?.full_name?.split(' ')[0] || 'Champion';
 
-    const updateProfile = (field: keyof ProfileData, value: string | number | null) => {
+    const toggleDietaryPreference = (id: DietaryPreference) => {
+        setProfile(prev => ({
+            ...prev,
+            dietary_preferences: validateDietaryPreferences(
+                prev.dietary_preferences.includes(id)
+                    ? prev.dietary_preferences.filter(p => p !== id)
+                    : [...prev.dietary_preferences, id]
+            ),
+        }));
+    };
+
+    const updateProfile = (field: Exclude<keyof ProfileData, 'dietary_preferences' | 'unit_system'>, value: string | number | null) => {
         setProfile(prev => ({ ...prev, [field]: value }));
-        if (field === 'height_ft' || field === 'height_in') {
+        if (field === 'height_ft' || field === 'height_in' || field === 'height_cm') {
             setValidationErrors(prev => ({ ...prev, height: undefined }));
-        } else if (field === 'weight_lbs') {
+        } else if (field === 'weight') {
             setValidationErrors(prev => ({ ...prev, weight: undefined }));
         } else if (field === 'age') {
             setValidationErrors(prev => ({ ...prev, age: undefined }));
@@ -135,13 +160,42 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
         setError(null);
     };
 
+    // Switching units converts whatever was already typed
+    const changeUnitSystem = (unitSystem: UnitSystem) => {
+        setProfile(prev => {
+            if (prev.unit_system === unitSystem) return prev;
+            const weight = parseFloat(prev.weight);
+            const lbs = fromDisplayWeight(weight, prev.unit_system);
+            const inches = prev.unit_system === 'metric'
+                ? cmToInches(parseInt(prev.height_cm) || 0)
+                : (parseInt(prev.height_ft) || 0) * 12 + (parseInt(prev.height_in) || 0);
+            return {
+                ...prev,
+                unit_system: unitSystem,
+                weight: prev.weight && !isNaN(weight) ? String(Math.round(toDisplayWeight(lbs, unitSystem))) : prev.weight,
+                height_ft: inches ? String(Math.floor(inches / 12)) : '',
+                height_in: inches ? String(inches % 12) : '',
+                height_cm: inches ? String(inchesToCm(inches)) : '',
+            };
+        });
+        setValidationErrors({});
+    };
+
+    const weightLbs = (value: string) => fromDisplayWeight(parseFloat(value), profile.unit_system);
+
     const validateStats = useCallback((): boolean => {
         const errors: ValidationErrors = {};
         let isValid = true;
 
         const heightFt = parseInt(profile.height_ft);
         const heightIn = parseInt(profile.height_in);
-        if (profile.height_ft || profile.height_in) {
+        const heightCm = parseInt(profile.height_cm);
+        if (profile.unit_system === 'metric') {
+            if (profile.height_cm && (heightCm < MIN_HEIGHT_CM || heightCm > MAX_HEIGHT_CM)) {
+                errors.height = `Height must be between ${MIN_HEIGHT_CM}-${MAX_HEIGHT_CM} cm`;
+                isValid = false;
+            }
+        } else if (profile.height_ft || profile.height_in) {
             if (profile.height_ft && (heightFt < 3 || heightFt > 8)) {
                 errors.height = 'Height must be between 3-8 feet';
                 isValid = false;
@@ -152,12 +206,14 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
             }
         }
 
-        const weight = parseInt(profile.weight_lbs);
-        if (!profile.weight_lbs) {
+        const weight = fromDisplayWeight(parseFloat(profile.weight), profile.unit_system);
+        if (!profile.weight) {
             errors.weight = 'Weight is required';
             isValid = false;
-        } else if (weight < 80 || weight > 500) {
-            errors.weight = 'Weight must be between 80-500 lbs';
+        } else if (!(weight >= MIN_WEIGHT_LBS && weight <= MAX_WEIGHT_LBS)) {
+            const min = Math.ceil(toDisplayWeight(MIN_WEIGHT_LBS, profile.unit_system));
+            const max = Math.floor(toDisplayWeight(MAX_WEIGHT_LBS, profile.unit_system));
+            errors.weight = `Weight must be between ${min}-${max} ${weightUnit(profile.unit_system)}`;
             isValid = false;
         }
 
@@ -171,7 +227,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
 
         setValidationErrors(errors);
         return isValid;
-    }, [profile.height_ft, profile.height_in, profile.weight_lbs, profile.age]);
+    }, [profile.unit_system, profile.height_ft, profile.height_in, profile.height_cm, profile.weight, profile.age]);
 
     const isSavingRef = useRef(false);
 
@@ -188,7 +244,10 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
         setError(null);
 
         try {
-            const heightInches = (parseInt(profile.height_ft) || 0) * 12 + (parseInt(profile.height_in) || 0);
+            // Stored in lbs / inches whichever unit they were entered in
+            const heightInches = profile.unit_system === 'metric'
+                ? cmToInches(parseInt(profile.height_cm) || 0)
+                : (parseInt(profile.height_ft) || 0) * 12 + (parseInt(profile.height_in) || 0);
 
             // Build supplement preferences object
             const supplementPreferences: SupplementPreferences = {
@@ -204,13 +263,15 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                     goal: profile.goal,
                     gender: profile.gender,
                     height_inches: heightInches || null,
-                    weight_lbs: parseInt(profile.weight_lbs) || null,
+                    weight_lbs: Math.round(weightLbs(profile.weight)) || null,
                     age: parseInt(profile.age) || null,
                     activity_level: profile.activity_level || 'moderately_active',
                     training_experience: profile.training_experience,
                     equipment_access: profile.equipment_access,
                     days_per_week: profile.days_per_week,
+                    dietary_preferences: profile.dietary_preferences,
                     supplement_preferences: supplementPreferences,
+                    unit_system: profile.unit_system,
                     onboarding_complete: true
                 },
                 'id'
@@ -278,8 +339,8 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
             case 'goal':
                 return !!profile.goal;
             case 'stats': {
-                const w = parseInt(profile.weight_lbs);
-                return !!profile.weight_lbs && w >= 80 && w <= 500;
+                const w = weightLbs(profile.weight);
+                return !!profile.weight && w >= MIN_WEIGHT_LBS && w <= MAX_WEIGHT_LBS;
             }
             case 'activity':
                 return !!profile.activity_level;
@@ -288,6 +349,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
             case 'equipment':
                 return !!profile.equipment_access;
             case 'schedule':
+            case 'diet':
                 return true;
             case 'supplements':
                 // Must select a mode, and if "using" mode, must select at least one supplement
@@ -538,37 +600,74 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                                         </div>
                                     </div>
 
+                                    {/* Units */}
+                                    <div>
+                                        <label className="block text-sm font-bold text-gray-400 mb-2">Units</label>
+                                        <div className="flex gap-3" role="radiogroup" aria-label="Units">
+                                            {UNIT_SYSTEMS.map((u) => (
+                                                <button
+                                                    key={u.value}
+                                                    onClick={() => changeUnitSystem(u.value)}
+                                                    role="radio"
+                                                    aria-checked={profile.unit_system === u.value}
+                                                    className={`flex-1 py-3 rounded-xl text-center font-bold transition-all duration-200 active:scale-[0.98] ${
+                                                        profile.unit_system === u.value
+                                                            ? 'bg-[var(--color-primary)]/20 border-2 border-[var(--color-primary)] text-white'
+                                                            : 'bg-gray-800 border-2 border-transparent text-gray-400 hover:border-gray-700'
+                                                    }`}
+                                                >
+                                                    {u.label} <span className="text-xs font-normal text-gray-500">{u.detail}</span>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
                                     {/* Height */}
                                     <div>
                                         <label className="block text-sm font-bold text-gray-400 mb-2">
                                             Height <span className="text-gray-600">(optional)</span>
                                         </label>
-                                        <div className="flex gap-3">
-                                            <div className="flex-1">
+                                        {profile.unit_system === 'metric' ? (
+                                            <div>
                                                 <input
                                                     type="number"
-                                                    value={profile.height_ft}
-                                                    onChange={(e) => updateProfile('height_ft', e.target.value)}
+                                                    value={profile.height_cm}
+                                                    onChange={(e) => updateProfile('height_cm', e.target.value)}
                                                     className={`input-field w-full ${validationErrors.height ? 'border-red-500' : ''}`}
-                                                    placeholder="5"
-                                                    min="3"
-                                                    max="8"
+                                                    placeholder="178"
+                                                    min={MIN_HEIGHT_CM}
+                                                    max={MAX_HEIGHT_CM}
                                                 />
-                                                <span className="text-gray-500 text-xs mt-1 block text-center">feet</span>
+                                                <span className="text-gray-500 text-xs mt-1 block text-center">cm</span>
                                             </div>
-                                            <div className="flex-1">
-                                                <input
-                                                    type="number"
-                                                    value={profile.height_in}
-                                                    onChange={(e) => updateProfile('height_in', e.target.value)}
-                                                    className={`input-field w-full ${validationErrors.height ? 'border-red-500' : ''}`}
-                                                    placeholder="10"
-                                                    min="0"
-                                                    max="11"
-                                                />
-                                                <span className="text-gray-500 text-xs mt-1 block text-center">inches</span>
+                                        ) : (
+                                            <div className="flex gap-3">
+                                                <div className="flex-1">
+                                                    <input
+                                                        type="number"
+                                                        value={profile.height_ft}
+                                                        onChange={(e) => updateProfile('height_ft', e.target.value)}
+                                                        className={`input-field w-full ${validationErrors.height ? 'border-red-500' : ''}`}
+                                                        placeholder="5"
+                                                        min="3"
+                                                        max="8"
+                                                    />
+                                                    <span className="text-gray-500 text-xs mt-1 block text-center">feet</span>
+                                                </div>
+                                                <div className="flex-1">
+                                                    <input
+                                                        type="number"
+                                                        value={profile.height_in}
+                                                        onChange={(e) => updateProfile('height_in', e.target.value)}
+                                                        className={`input-field w-full ${validationErrors.height ? 'border-red-500' : ''}`}
+                                                        placeholder="10"
+                                                        min="0"
+                                                        max="11"
+                                                    />
+                                                    <span className="text-gray-500 text-xs mt-1 block text-center">inches</span>
+                                                </div>
                                             </div>
-                                        </div>
+                                        )}
                                         {validationErrors.height && (
                                             <p className="text-red-400 text-xs mt-1">{validationErrors.height}</p>
                                         )}
@@ -577,16 +676,16 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                                     {/* Weight */}
                                     <div>
                                         <label className="block text-sm font-bold text-gray-400 mb-2">
-                                            Weight (lbs) <span className="text-red-400">*</span>
+                                            Weight ({weightUnit(profile.unit_system)}) <span className="text-red-400">*</span>
                                         </label>
                                         <input
                                             type="number"
-                                            value={profile.weight_lbs}
-                                            onChange={(e) => updateProfile('weight_lbs', e.target.value)}
+                                            value={profile.weight}
+                                            onChange={(e) => updateProfile('weight', e.target.value)}
                                             className={`input-field w-full ${validationErrors.weight ? 'border-red-500' : ''}`}
-                                            placeholder="180"
-                                            min="80"
-                                            max="500"
+                                            placeholder={profile.unit_system === 'metric' ? '82' : '180'}
+                                            min={Math.ceil(toDisplayWeight(MIN_WEIGHT_LBS, profile.unit_system))}
+                                            max={Math.floor(toDisplayWeight(MAX_WEIGHT_LBS, profile.unit_system))}
                                         />
                                         {validationErrors.weight && (
                                             <p className="text-red-400 text-xs mt-1">{validationErrors.weight}</p>
@@ -832,9 +931,9 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                                                 {profile.gender === 'male' ? '♂' : '♀'} {profile.gender.charAt(0).toUpperCase() + profile.gender.slice(1)}
                                             </span>
                                         )}
-                                        {profile.weight_lbs && (
+                                        {profile.weight && (
                                             <span className="px-3 py-1 bg-gray-800 rounded-full text-sm text-gray-300">
-                                                {profile.weight_lbs} lbs
+                                                {profile.weight} {weightUnit(profile.unit_system)}
                                             </span>
                                         )}
                                         {profile.activity_level && (
@@ -857,6 +956,47 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
                             </div>
                         )}
 
+                        {/* ============================================================ */}
+                        {/* STEP: Diet & Allergies (optional)                            */}
+                        {/* ============================================================ */}
+                        {step === 'diet' && (
+                            <div className="space-y-6">
+                                <div className="text-center space-y-2">
+                                    <h2 className="text-3xl font-black text-white">Diet & Allergies</h2>
+                                    <p className="text-gray-400">We'll flag meals that conflict and plan around them. Skip if none apply.</p>
+                                </div>
+
+                                {[
+                                    { title: 'Diet', options: DIET_OPTIONS },
+                                    { title: 'Allergies', options: ALLERGEN_OPTIONS },
+                                ].map(({ title, options }) => (
+                                    <div key={title} className="space-y-3">
+                                        <h4 className="text-sm font-bold text-gray-400 uppercase">{title}</h4>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {options.map((option) => {
+                                                const selected = profile.dietary_preferences.includes(option.id);
+                                                return (
+                                                    <button
+                                                        key={option.id}
+                                                        onClick={() => toggleDietaryPreference(option.id)}
+                                                        className={`p-3 rounded-xl border text-left transition-all flex items-center gap-2 ${
+                                                            selected
+                                                                ? 'border-[var(--color-primary)] bg-[var(--color-primary)]/10'
+                                                                : 'border-gray-700 bg-gray-800/30 hover:border-gray-600'
+                                                        }`}
+                                                    >
+                                                        <span className="text-xl">{option.emoji}</span>
+                                                        <span className="flex-1 font-medium text-white text-sm">{option.label}</span>
+                                                        {selected && <CheckIcon className="w-4 h-4 text-[var(--color-primary)]" />}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         {/* SUPPLEMENTS STEP */}
                         {step === 'supplements' && (
                             <div className="space-y-6">
@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLocalStorage, STORAGE_KEYS } from '../hooks/useLocalStorage';
+import {
+    addPlate,
+    calculatePlates,
+    formatPlates,
+    parsePlateWeight,
+    removePlate,
+    validatePlateInventory,
+    type PlateInventory,
+} from '../utils/plateCalculator';
+import type { WeightUnit } from '../utils/units';
+
+interface PlateCalculatorProps {
+    target: number | null; // In `unit`
+    unit: WeightUnit;
+}
+
+const PlateCalculator: React.FC<PlateCalculatorProps> = ({ target, unit }) => {
+    const [storedInventory, setStoredInventory] = useLocalStorage<PlateInventory | null>(STORAGE_KEYS.PLATE_INVENTORY, null);
+    const [editing, setEditing] = useState(false);
+
+    // Inventory set up in the other unit (or never set up) falls back to the defaults for this one
+    const inventory = useMemo(() => validatePlateInventory(storedInventory, unit), [storedInventory, unit]);
+    const load = target ? calculatePlates(target, inventory) : null;
+
+    // Typed text is kept as-is and only saved on blur / Enter, so "2" on the way to "25" doesn't stick
+    const [barInput, setBarInput] = useState(String(inventory.bar));
+    const [newPlate, setNewPlate] = useState('');
+    useEffect(() => setBarInput(String(inventory.bar)), [inventory.bar]);
+
+    const commitBar = () => {
+        const bar = parsePlateWeight(barInput);
+        if (bar) setStoredInventory({ ...inventory, bar });
+        else setBarInput(String(inventory.bar));
+    };
+
+    const commitNewPlate = () => {
+        const weight = parsePlateWeight(newPlate);
+        if (weight) setStoredInventory(addPlate(inventory, weight));
+        setNewPlate('');
+    };
+
+    const setPairs = (weight: number, pairs: number) => {
+        setStoredInventory({
+            ...inventory,
+            plates: inventory.plates.map(p => (p.weight === weight ? { ...p, pairs: Math.max(0, pairs) } : p)),
+        });
+    };
+
+    return (
+        <div className="bg-white/5 rounded-xl p-3 mb-4">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-[10px] text-slate-500 uppercase tracking-wider font-bold">
+                    Per side · {inventory.bar} {unit} bar
+                </span>
+                <button
+                    onClick={() => setEditing(!editing)}
+                    className="text-[10px] font-bold text-[var(--color-primary)] hover:opacity-80 transition-opacity"
+                    aria-expanded={editing}
+                >
+                    {editing ? 'Done' : 'Edit plates'}
+                </button>
+            </div>
+
+            {!target ? (
+                <p className="text-xs text-slate-400 mt-1">Enter a weight to see the plates.</p>
+            ) : !load ? (
+                <p className="text-xs text-slate-400 mt-1">Lighter than the {inventory.bar} {unit} bar.</p>
+            ) : (
+                <>
+                    <p className="text-sm font-bold text-white mt-1">{formatPlates(load.perSide)}</p>
+                    {load.remainder > 0 && (
+                        <p className="text-xs text-amber-400 mt-0.5">
+                            Closest is {load.loaded} {unit} ({load.remainder} {unit} short with your plates)
+                        </p>
+                    )}
+                </>
+            )}
+
+            {editing && (
+                <div className="mt-3 space-y-2">
+                    <label className="flex items-center justify-between text-xs text-slate-400">
+                        Bar ({unit})
+                        <input
+                            className="glass-input w-20 h-9"
+                            value={barInput}
+                            onChange={(e) => setBarInput(e.target.value)}
+                            onBlur={commitBar}
+                            onKeyDown={(e) => e.key === 'Enter' && commitBar()}
+                            type="text"
+                            inputMode="decimal"
+                        />
+                    </label>
+                    {inventory.plates.map(plate => (
+                        <div key={plate.weight} className="flex items-center justify-between text-xs text-slate-400">
+                            <span>{plate.weight} {unit}</span>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => setPairs(plate.weight, plate.pairs - 1)}
+                                    className="size-7 rounded-full bg-white/5 text-slate-300 hover:text-white"
+                                    aria-label={`Fewer ${plate.weight} ${unit} plates`}
+                                >
+                                    −
+                                </button>
+                                <span className="w-14 text-center text-white font-bold">{plate.pairs} pr</span>
+                                <button
+                                    onClick={() => setPairs(plate.weight, plate.pairs + 1)}
+                                    className="size-7 rounded-full bg-white/5 text-slate-300 hover:text-white"
+                                    aria-label={`More ${plate.weight} ${unit} plates`}
+                                >
+                                    +
+                                </button>
+                                <button
+                                    onClick={() => setStoredInventory(removePlate(inventory, plate.weight))}
+                                    className="size-7 rounded-full text-slate-500 hover:text-red-400"
+                                    aria-label={`Remove ${plate.weight} ${unit} plates`}
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+                        <input
+                            className="glass-input flex-1 h-9"
+                            value={newPlate}
+                            onChange={(e) => setNewPlate(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && commitNewPlate()}
+                            placeholder={`Plate size (${unit})`}
+                            type="text"
+                            inputMode="decimal"
+                        />
+                        <button
+                            onClick={commitNewPlate}
+                            disabled={!parsePlateWeight(newPlate)}
+                            className="h-9 px-3 rounded-lg bg-white/5 font-bold text-[var(--color-primary)] hover:bg-white/10 disabled:opacity-40 transition-colors"
+                        >
+                            Add
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PlateCalculator;
@@ -0,0 +1,307 @@
+import React, { useState, useMemo } from 'react';
+import {
+    lookupIngredient,
+    calculateRecipeNutrition,
+    formatServings,
+    Recipe,
+    RecipeDraft,
+    RecipeIngredient,
+} from '../services/recipeService';
+import LoaderIcon from './icons/LoaderIcon';
+import PlusIcon from './icons/PlusIcon';
+
+interface RecipeBuilderProps {
+    recipes: Recipe[];
+    onSaveRecipe: (draft: RecipeDraft) => Promise<Recipe | null>;
+    onDeleteRecipe: (recipeId: string) => Promise<boolean>;
+    onLogRecipe: (recipe: Recipe, servings: number) => Promise<void>;
+}
+
+const EMPTY_DRAFT: RecipeDraft = { name: '', servings: 1, ingredients: [] };
+
+const MacroLine: React.FC<{ label: string; macros: { calories: number; protein: number; carbs: number; fats: number } }> = ({ label, macros }) => (
+    <p className="text-sm text-gray-300">
+        <span className="text-gray-500">{label}</span> {macros.calories} cal | {macros.protein}g P | {macros.carbs}g C | {macros.fats}g F
+    </p>
+);
+
+const RecipeBuilder: React.FC<RecipeBuilderProps> = ({ recipes, onSaveRecipe, onDeleteRecipe, onLogRecipe }) => {
+    const [draft, setDraft] = useState<RecipeDraft | null>(null);
+    const [ingredientName, setIngredientName] = useState('');
+    const [ingredientGrams, setIngredientGrams] = useState('100');
+    const [isLookingUp, setIsLookingUp] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Servings to log, per recipe
+    const [logServings, setLogServings] = useState<Record<string, string>>({});
+
+    const draftNutrition = useMemo(
+        () => draft ? calculateRecipeNutrition(draft.ingredients, draft.servings) : null,
+        [draft]
+    );
+
+    const updateIngredient = (index: number, changes: Partial<RecipeIngredient>) => {
+        if (!draft) return;
+        setDraft({
+            ...draft,
+            ingredients: draft.ingredients.map((ing, i) => i === index ? { ...ing, ...changes } : ing),
+        });
+    };
+
+    const handleAddIngredient = async () => {
+        if (!draft) return;
+        const name = ingredientName.trim();
+        const grams = parseFloat(ingredientGrams);
+        if (!name || !(grams > 0)) {
+            setError('Enter an ingredient and an amount in grams.');
+            return;
+        }
+
+        setError(null);
+        setIsLookingUp(true);
+        try {
+            const ingredient = await lookupIngredient(name, grams);
+            setDraft(prev => prev && { ...prev, ingredients: [...prev.ingredients, ingredient] });
+            setIngredientName('');
+            setIngredientGrams('100');
+        } catch {
+            setError('Could not look up that ingredient. Try a simpler name.');
+        } finally {
+            setIsLookingUp(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.name.trim()) {
+            setError('Give the recipe a name.');
+            return;
+        }
+        if (draft.ingredients.length === 0) {
+            setError('Add at least one ingredient.');
+            return;
+        }
+
+        setError(null);
+        setIsSaving(true);
+        try {
+            const saved = await onSaveRecipe(draft);
+            if (saved) {
+                setDraft(null);
+            } else {
+                setError("Didn't save. Try again.");
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // ========================================================================
+    // Builder
+    // ========================================================================
+
+    if (draft) {
+        return (
+            <div className="space-y-4">
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="Recipe name, e.g. Overnight oats"
+                        className="input-field flex-1"
+                    />
+                    <div className="w-28">
+                        <input
+                            type="number"
+                            min={0.5}
+                            step={0.5}
+                            value={draft.servings}
+                            onChange={(e) => setDraft({ ...draft, servings: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="input-field w-full"
+                            aria-label="Servings the recipe makes"
+                        />
+                        <p className="text-[10px] text-gray-500 mt-1 text-center">servings made</p>
+                    </div>
+                </div>
+
+                {/* Ingredients */}
+                {draft.ingredients.length > 0 && (
+                    <ul className="space-y-2">
+                        {draft.ingredients.map((ing, index) => (
+                            <li key={`${ing.name}-${index}`} className="flex items-center gap-2 p-2 bg-gray-800/50 rounded-lg">
+                                <span className={`text-xs ${ing.source === 'usda' ? 'text-green-400' : 'text-gray-500'}`}>
+                                    {ing.source === 'usda' ? '✓' : '~'}
+                                </span>
+                                <span className="flex-1 text-sm text-white truncate">{ing.name}</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={ing.grams}
+                                    onChange={(e) => updateIngredient(index, { grams: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                    className="input-field w-20 text-right"
+                                    aria-label={`Grams of ${ing.name}`}
+                                />
+                                <span className="text-xs text-gray-500">g</span>
+                                <button
+                                    onClick={() => setDraft({ ...draft, ingredients: draft.ingredients.filter((_, i) => i !== index) })}
+                                    className="px-2 text-gray-500 hover:text-red-400"
+                                    aria-label={`Remove ${ing.name}`}
+                                >
+                                    ✕
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {/* Add ingredient */}
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        handleAddIngredient();
+                    }}
+                    className="flex gap-2"
+                >
+                    <input
+                        type="text"
+                        value={ingredientName}
+                        onChange={(e) => setIngredientName(e.target.value)}
+                        placeholder="Ingredient, e.g. rolled oats"
+                        className="input-field flex-1"
+                        disabled={isLookingUp}
+                    />
+                    <input
+                        type="number"
+                        min={1}
+                        value={ingredientGrams}
+                        onChange={(e) => setIngredientGrams(e.target.value)}
+                        className="input-field w-20 text-right"
+                        aria-label="Grams"
+                        disabled={isLookingUp}
+                    />
+                    <button
+                        type="submit"
+                        disabled={isLookingUp || !ingredientName.trim()}
+                        className="px-3 bg-gray-800 hover:bg-gray-700 text-white rounded-xl disabled:opacity-50"
+                        aria-label="Add ingredient"
+                    >
+                        {isLookingUp ? <LoaderIcon className="w-4 h-4 animate-spin" /> : <PlusIcon className="w-4 h-4" />}
+                    </button>
+                </form>
+
+                {draftNutrition && draft.ingredients.length > 0 && (
+                    <div className="p-3 bg-black/30 rounded-xl space-y-1">
+                        <MacroLine label="Per serving:" macros={draftNutrition.perServing} />
+                        <MacroLine label="Whole recipe:" macros={draftNutrition.totals} />
+                    </div>
+                )}
+
+                {error && (
+                    <div className="px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-xl">
+                        <p className="text-red-400 text-sm">{error}</p>
+                    </div>
+                )}
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => {
+                            setDraft(null);
+                            setError(null);
+                        }}
+                        className="flex-1 py-3 bg-gray-800 hover:bg-gray-700 text-white rounded-xl text-sm font-bold"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || !(draft.servings > 0)}
+                        className="flex-1 btn-primary active:scale-[0.98] transition-transform disabled:opacity-50"
+                    >
+                        {isSaving ? 'Saving...' : 'Save Recipe'}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    // ========================================================================
+    // Recipe list
+    // ========================================================================
+
+    return (
+        <div className="space-y-4">
+            {recipes.length === 0 ? (
+                <div className="text-center py-6 text-gray-500 text-sm">
+                    <p>No recipes yet.</p>
+                    <p className="text-xs mt-1">Build one from its ingredients and log it by the serving.</p>
+                </div>
+            ) : (
+                <ul className="space-y-3">
+                    {recipes.map(recipe => {
+                        const { perServing } = calculateRecipeNutrition(recipe.ingredients, recipe.servings);
+                        const servings = logServings[recipe.id] ?? '1';
+                        const count = parseFloat(servings);
+                        return (
+                            <li key={recipe.id} className="p-3 bg-gray-800/50 rounded-xl space-y-2">
+                                <div className="flex justify-between items-start gap-2">
+                                    <div className="min-w-0">
+                                        <p className="font-bold text-white truncate">{recipe.name}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {recipe.ingredients.length} ingredient{recipe.ingredients.length === 1 ? '' : 's'} · makes {formatServings(recipe.servings)}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-3 text-xs">
+                                        <button
+                                            onClick={() => setDraft({ id: recipe.id, name: recipe.name, servings: recipe.servings, ingredients: recipe.ingredients })}
+                                            className="text-gray-400 hover:text-white"
+                                        >
+                                            Edit
+                                        </button>
+                                        <button
+                                            onClick={() => onDeleteRecipe(recipe.id)}
+                                            className="text-gray-500 hover:text-red-400"
+                                        >
+                                            Delete
+                                        </button>
+                                    </div>
+                                </div>
+                                <MacroLine label="Per serving:" macros={perServing} />
+                                <div className="flex gap-2">
+                                    <input
+                                        type="number"
+                                        min={0.25}
+                                        step={0.25}
+                                        value={servings}
+                                        onChange={(e) => setLogServings(prev => ({ ...prev, [recipe.id]: e.target.value }))}
+                                        className="input-field w-20 text-right"
+                                        aria-label={`Servings of ${recipe.name} to log`}
+                                    />
+                                    <button
+                                        onClick={() => onLogRecipe(recipe, count)}
+                                        disabled={!(count > 0)}
+                                        className="flex-1 py-2 bg-[var(--color-primary)] text-black rounded-xl text-sm font-bold disabled:opacity-50"
+                                    >
+                                        Log {count > 0 ? formatServings(count) : ''}
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <button
+                onClick={() => {
+                    setDraft(EMPTY_DRAFT);
+                    setError(null);
+                }}
+                className="w-full py-3 border border-dashed border-gray-700 hover:border-[var(--color-primary)] text-gray-400 hover:text-white rounded-xl text-sm font-bold transition-colors"
+            >
+                + New Recipe
+            </button>
+        </div>
+    );
+};
+
+export default RecipeBuilder;
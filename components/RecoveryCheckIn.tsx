@@ -12,6 +12,8 @@ interface RecoveryCheckInProps {
     onComplete: (recovery: RecoveryState) => void;
     onSkip?: () => void;
     isLoading?: boolean;
+    // Last-24h water as % of target; null when the user doesn't track water
+    hydrationPct?: number | null;
 }
 
 const SORENESS_AREAS = [
@@ -23,7 +25,7 @@ const SORENESS_AREAS = [
     { id: 'core', label: 'Core', emoji: '' }
 ];
 
-const RecoveryCheckIn: React.FC<RecoveryCheckInProps> = ({ onComplete, onSkip, isLoading }) => {
+const RecoveryCheckIn: React.FC<RecoveryCheckInProps> = ({ onComplete, onSkip, isLoading, hydrationPct = null }) => {
     const [step, setStep] = useState<'energy' | 'soreness' | 'sleep'>('energy');
     const [recovery, setRecovery] = useState<RecoveryState>({
         lastWorkoutRating: 3,
@@ -121,6 +123,12 @@ const RecoveryCheckIn: React.FC<RecoveryCheckInProps> = ({ onComplete, onSkip, i
                                     renderEnergyLevel(level, recovery.energyLevel === level)
                                 )}
                             </div>
+
+                            {recovery.energyLevel <= 2 && hydrationPct !== null && hydrationPct < 50 && (
+                                <p className="mt-4 p-3 rounded-lg bg-blue-500/10 border border-blue-500/20 text-xs text-blue-300 text-center" role="status">
+                                    💧 You've had {hydrationPct}% of your water in the last 24 hours. Low water often shows up as low energy.
+                                </p>
+                            )}
                         </div>
                     )}
 
@@ -1,15 +1,17 @@
 import React, { useEffect, useState, useRef } from 'react';
+import type { WeightUnit } from '../utils/units';
 
 interface RestTimerProps {
     initialTime: number; // seconds
     onComplete: () => void;
     onSkip: (timeRemaining: number) => void;
     exerciseName?: string;
-    lastSetWeight?: string;
+    lastSetWeight?: string;     // In weightUnit
     lastSetReps?: string;
     completedSets?: number;
     totalSets?: number;
-    sessionVolume?: number;
+    sessionVolume?: number;     // In weightUnit
+    weightUnit?: WeightUnit;
 }
 
 const RestTimer: React.FC<RestTimerProps> = ({
@@ -21,7 +23,8 @@ const RestTimer: React.FC<RestTimerProps> = ({
     lastSetReps,
     completedSets,
     totalSets,
-    sessionVolume
+    sessionVolume,
+    weightUnit = 'lbs'
 }) => {
     const [timeLeft, setTimeLeft] = useState(initialTime);
     const [totalTime, setTotalTime] = useState(initialTime);
@@ -128,7 +131,7 @@ const RestTimer: React.FC<RestTimerProps> = ({
                                 {lastSetWeight}
                             </span>
                             <span className="stencil-text text-2xl sm:text-3xl uppercase tracking-[0.3em] -mt-2">
-                                lbs
+                                {weightUnit}
                             </span>
                         </>
                     )}
@@ -217,7 +220,7 @@ const RestTimer: React.FC<RestTimerProps> = ({
                 <div className="flex items-center justify-between px-1 mb-4">
                     {formattedVolume != null && (
                         <span className="text-xs text-slate-400">
-                            Session Volume: <span className="text-white font-bold">{formattedVolume} lbs</span>
+                            Session Volume: <span className="text-white font-bold">{formattedVolume} {weightUnit}</span>
                         </span>
                     )}
                     {completedSets != null && totalSets != null && (
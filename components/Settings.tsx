@@ -8,6 +8,12 @@ import LoaderIcon from './icons/LoaderIcon';
 import Skeleton from './ui/Skeleton';
 import { getAllSupplements, type SupplementPreferences } from '@/services/supplementService';
 import { useSubscriptionContext } from '../contexts/SubscriptionContext';
+import AdaptiveTdeeCard from './AdaptiveTdeeCard';
+import { ALLERGEN_OPTIONS, DIET_OPTIONS, validateDietaryPreferences, type DietaryPreference } from '@/utils/dietaryPreferences';
+import { FASTING_PRESETS, formatFastingWindow, validateFastingWindow, type FastingWindow } from '@/utils/fasting';
+import { UNIT_SYSTEMS, cmToInches, fromDisplayWeight, inchesToCm, toDisplayWeight, validateUnitSystem, weightUnit, type UnitSystem } from '@/utils/units';
+import type { UserProfile } from '../hooks/useUserData';
+import type { NutritionLog } from '../App';
 
 // Settings loading skeleton
 const SettingsSkeleton = () => (
@@ -76,6 +82,9 @@ interface SettingsProps {
     // GDPR: Navigation to legal pages
     onPrivacy?: () => void;
     onTerms?: () => void;
+    // Saved profile and daily logs for adaptive targets
+    userProfile?: UserProfile | null;
+    nutritionLogs?: NutritionLog[];
 }
 
 interface ProfileData {
@@ -95,6 +104,9 @@ interface ProfileData {
     trial_started_at: string | null;
     // Supplement preferences
     supplement_preferences: SupplementPreferences | null;
+    dietary_preferences: DietaryPreference[];
+    fasting_window: FastingWindow | null;
+    unit_system: UnitSystem;
 }
 
 type SupplementMode = 'not_interested' | 'using' | 'open_to_recommendations';
@@ -105,7 +117,7 @@ const SUPPLEMENT_MODE_OPTIONS = [
     { id: 'not_interested', label: 'No thanks', description: "Don't show supplement recommendations", emoji: '✋' },
 ] as const;
 
-const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy, onTerms }) => {
+const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy, onTerms, userProfile, nutritionLogs = [] }) => {
     const { user, signOut } = useAuth();
     const { permission, requestPermission, sendLocalNotification } = useNotifications();
     const { showToast } = useToast();
@@ -125,7 +137,10 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
         role: null,
         subscription_status: 'trial',
         trial_started_at: null,
-        supplement_preferences: null
+        supplement_preferences: null,
+        dietary_preferences: [],
+        fasting_window: null,
+        unit_system: 'imperial'
     });
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
@@ -164,7 +179,7 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
 
         try {
             const { data, error } = await supabaseGetSingle<any>(
-                `profiles?id=eq.${user.id}&select=full_name,goal,height_inches,weight_lbs,age,gender,activity_level,training_experience,equipment_access,days_per_week,role,subscription_status,trial_started_at,supplement_preferences`
+                `profiles?id=eq.${user.id}&select=full_name,goal,height_inches,weight_lbs,age,gender,activity_level,training_experience,equipment_access,days_per_week,role,subscription_status,trial_started_at,supplement_preferences,dietary_preferences,fasting_window,unit_system`
             );
 
             if (error) {
@@ -185,7 +200,10 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
                     role: data.role,
                     subscription_status: data.subscription_status || 'trial',
                     trial_started_at: data.trial_started_at || null,
-                    supplement_preferences: data.supplement_preferences || null
+                    supplement_preferences: data.supplement_preferences || null,
+                    dietary_preferences: validateDietaryPreferences(data.dietary_preferences),
+                    fasting_window: validateFastingWindow(data.fasting_window),
+                    unit_system: validateUnitSystem(data.unit_system)
                 });
 
                 // Initialize supplement state from fetched data
@@ -217,6 +235,8 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
     const handleSave = async () => {
         if (!user) return;
         setSaving(true);
+        // Half-edited custom times (e.g. start === end) save as "off" rather than a broken window
+        const fastingWindow = validateFastingWindow(profile.fasting_window);
 
         try {
             const { error } = await supabaseUpdate(`profiles?id=eq.${user.id}`, {
@@ -229,7 +249,10 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
                 activity_level: profile.activity_level,
                 training_experience: profile.training_experience,
                 equipment_access: profile.equipment_access,
-                days_per_week: profile.days_per_week
+                days_per_week: profile.days_per_week,
+                dietary_preferences: profile.dietary_preferences,
+                fasting_window: fastingWindow,
+                unit_system: profile.unit_system
             });
 
             if (error) {
@@ -250,6 +273,9 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
                     equipment_access: profile.equipment_access,
                     days_per_week: profile.days_per_week,
                     full_name: profile.full_name,
+                    dietary_preferences: profile.dietary_preferences,
+                    fasting_window: fastingWindow,
+                    unit_system: profile.unit_system,
                 });
             }
         } catch {
@@ -259,6 +285,17 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
         }
     };
 
+    const toggleDietaryPreference = (id: DietaryPreference) => {
+        setProfile(prev => ({
+            ...prev,
+            dietary_preferences: validateDietaryPreferences(
+                prev.dietary_preferences.includes(id)
+                    ? prev.dietary_preferences.filter(p => p !== id)
+                    : [...prev.dietary_preferences, id]
+            ),
+        }));
+    };
+
     const handleSignOut = async () => {
         if (confirm('Are you sure you want to sign out?')) {
             await signOut();
@@ -464,11 +501,14 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
                         />
                     </div>
                     <div>
-                        <label className="block text-gray-400 text-sm mb-2">Weight (lbs)</label>
+                        <label className="block text-gray-400 text-sm mb-2">Weight ({weightUnit(profile.unit_system)})</label>
                         <input
                             type="number"
-                            value={profile.weight_lbs || ''}
-                            onChange={(e) => setProfile({ ...profile, weight_lbs: e.target.value ? parseInt(e.target.value) : null })}
+                            value={profile.weight_lbs ? Math.round(toDisplayWeight(profile.weight_lbs, profile.unit_system)) : ''}
+                            onChange={(e) => setProfile({
+                                ...profile,
+                                weight_lbs: e.target.value ? Math.round(fromDisplayWeight(parseInt(e.target.value), profile.unit_system)) : null
+                            })}
                             className="w-full bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white focus:border-[var(--color-primary)] focus:outline-none transition-colors"
                             placeholder="Weight"
                         />
@@ -477,29 +517,62 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
 
                 <div>
                     <label className="block text-gray-400 text-sm mb-2">Height</label>
-                    <div className="grid grid-cols-2 gap-4">
-                        <input
-                            type="number"
-                            value={profile.height_inches ? Math.floor(profile.height_inches / 12) : ''}
-                            onChange={(e) => {
-                                const feet = parseInt(e.target.value) || 0;
-                                const inches = (profile.height_inches || 0) % 12;
-                                setProfile({ ...profile, height_inches: feet * 12 + inches });
-                            }}
-                            className="w-full bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white focus:border-[var(--color-primary)] focus:outline-none transition-colors"
-                            placeholder="Feet"
-                        />
+                    {profile.unit_system === 'metric' ? (
                         <input
                             type="number"
-                            value={profile.height_inches ? profile.height_inches % 12 : ''}
-                            onChange={(e) => {
-                                const feet = Math.floor((profile.height_inches || 0) / 12);
-                                const inches = parseInt(e.target.value) || 0;
-                                setProfile({ ...profile, height_inches: feet * 12 + inches });
-                            }}
+                            value={profile.height_inches ? inchesToCm(profile.height_inches) : ''}
+                            onChange={(e) => setProfile({ ...profile, height_inches: e.target.value ? cmToInches(parseInt(e.target.value) || 0) : null })}
                             className="w-full bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white focus:border-[var(--color-primary)] focus:outline-none transition-colors"
-                            placeholder="Inches"
+                            placeholder="cm"
                         />
+                    ) : (
+                        <div className="grid grid-cols-2 gap-4">
+                            <input
+                                type="number"
+                                value={profile.height_inches ? Math.floor(profile.height_inches / 12) : ''}
+                                onChange={(e) => {
+                                    const feet = parseInt(e.target.value) || 0;
+                                    const inches = (profile.height_inches || 0) % 12;
+                                    setProfile({ ...profile, height_inches: feet * 12 + inches });
+                                }}
+                                className="w-full bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white focus:border-[var(--color-primary)] focus:outline-none transition-colors"
+                                placeholder="Feet"
+                            />
+                            <input
+                                type="number"
+                                value={profile.height_inches ? profile.height_inches % 12 : ''}
+                                onChange={(e) => {
+                                    const feet = Math.floor((profile.height_inches || 0) / 12);
+                                    const inches = parseInt(e.target.value) || 0;
+                                    setProfile({ ...profile, height_inches: feet * 12 + inches });
+                                }}
+                                className="w-full bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white focus:border-[var(--color-primary)] focus:outline-none transition-colors"
+                                placeholder="Inches"
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div>
+                    <label className="block text-gray-400 text-sm mb-2">Units</label>
+                    <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Units">
+                        {UNIT_SYSTEMS.map((option) => {
+                            const selected = profile.unit_system === option.value;
+                            return (
+                                <button
+                                    key={option.value}
+                                    onClick={() => setProfile({ ...profile, unit_system: option.value })}
+                                    role="radio"
+                                    aria-checked={selected}
+                                    className={`min-h-[44px] py-3 px-3 rounded-xl font-bold text-sm transition-all ${selected
+                                        ? 'bg-[var(--color-primary)] text-black'
+                                        : 'bg-gray-800 text-gray-400 hover:text-white'
+                                        }`}
+                                >
+                                    {option.label} <span className="font-normal opacity-70">({option.detail})</span>
+                                </button>
+                            );
+                        })}
                     </div>
                 </div>
             </div>
@@ -629,6 +702,115 @@ const Settings: React.FC<SettingsProps> = ({ onBack, onProfileSaved, onPrivacy,
                 </div>
             </div>
 
+            {/* Diet & Allergies */}
+            <div className="card space-y-4">
+                <div>
+                    <h3 className="text-lg font-bold text-white">Diet & Allergies</h3>
+                    <p className="text-gray-400 text-sm mt-1">
+                        Meal analysis warns you about conflicts, and meal plans and suggestions avoid them.
+                    </p>
+                </div>
+
+                {[
+                    { title: 'Diet', options: DIET_OPTIONS },
+                    { title: 'Allergies', options: ALLERGEN_OPTIONS },
+                ].map(({ title, options }) => (
+                    <div key={title}>
+                        <label className="block text-gray-400 text-sm mb-2">{title}</label>
+                        <div className="flex flex-wrap gap-2" role="group" aria-label={title}>
+                            {options.map((option) => {
+                                const selected = profile.dietary_preferences.includes(option.id);
+                                return (
+                                    <button
+                                        key={option.id}
+                                        onClick={() => toggleDietaryPreference(option.id)}
+                                        role="checkbox"
+                                        aria-checked={selected}
+                                        className={`px-3 py-2 min-h-[44px] rounded-xl font-bold text-sm transition-all ${selected
+                                            ? 'bg-[var(--color-primary)] text-black'
+                                            : 'bg-gray-800 text-gray-400 hover:text-white'
+                                            }`}
+                                    >
+                                        <span aria-hidden="true">{option.emoji}</span> {option.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Intermittent Fasting */}
+            <div className="card space-y-4">
+                <div>
+                    <h3 className="text-lg font-bold text-white">Intermittent Fasting</h3>
+                    <p className="text-gray-400 text-sm mt-1">
+                        Set your eating window to get a fasting timer on the Dashboard and flag meals logged outside it.
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Fasting schedule">
+                    {[{ id: 'off', label: 'Off', window: null }, ...FASTING_PRESETS].map((preset) => {
+                        const selected = preset.window
+                            ? profile.fasting_window?.start === preset.window.start && profile.fasting_window?.end === preset.window.end
+                            : !profile.fasting_window;
+                        return (
+                            <button
+                                key={preset.id}
+                                onClick={() => setProfile({ ...profile, fasting_window: preset.window })}
+                                role="radio"
+                                aria-checked={selected}
+                                className={`flex-1 min-w-[64px] min-h-[44px] py-3 px-3 rounded-xl font-bold text-sm transition-all ${selected
+                                    ? 'bg-[var(--color-primary)] text-black'
+                                    : 'bg-gray-800 text-gray-400 hover:text-white'
+                                    }`}
+                            >
+                                {preset.label}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {profile.fasting_window && (
+                    <>
+                        <div className="grid grid-cols-2 gap-4">
+                            {(['start', 'end'] as const).map((edge) => (
+                                <div key={edge}>
+                                    <label className="block text-gray-400 text-sm mb-2">
+                                        {edge === 'start' ? 'Eating starts' : 'Eating ends'}
+                                    </label>
+                                    <input
+                                        type="time"
+                                        value={profile.fasting_window?.[edge] ?? ''}
+                                        onChange={(e) => setProfile({
+                                            ...profile,
+                                            fasting_window: { ...profile.fasting_window!, [edge]: e.target.value },
+                                        })}
+                                        className="w-full bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 text-white focus:border-[var(--color-primary)] focus:outline-none transition-colors"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        {validateFastingWindow(profile.fasting_window) ? (
+                            <p className="text-gray-500 text-xs">
+                                Fasting:eating hours {formatFastingWindow(profile.fasting_window)}
+                            </p>
+                        ) : (
+                            <p className="text-red-400 text-xs">Start and end must be different times.</p>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {/* Adaptive Targets */}
+            {userProfile && (
+                <AdaptiveTdeeCard
+                    profile={userProfile}
+                    nutritionLogs={nutritionLogs}
+                    onAccepted={onProfileSaved}
+                />
+            )}
+
             {/* Supplement Preferences */}
             <div className="card space-y-4">
                 <h3 className="text-lg font-bold text-white mb-4">Supplement Preferences</h3>
@@ -5,9 +5,11 @@ import LoaderIcon from './icons/LoaderIcon';
 import MicrophoneIcon from './icons/MicrophoneIcon';
 import { useSubscriptionContext } from '../contexts/SubscriptionContext';
 import { PREMIUM_FEATURES } from '../hooks/useSubscription';
+import type { DietaryPreference } from '../utils/dietaryPreferences';
 
 interface TextMealInputProps {
     userGoal: string | null;
+    dietaryPreferences?: DietaryPreference[];
     onAnalysisComplete: (result: TextMealAnalysisResult) => void;
 }
 
@@ -18,7 +20,7 @@ const QUICK_EXAMPLES = [
     '2 eggs with toast'
 ];
 
-const TextMealInput: React.FC<TextMealInputProps> = ({ userGoal, onAnalysisComplete }) => {
+const TextMealInput: React.FC<TextMealInputProps> = ({ userGoal, dietaryPreferences = [], onAnalysisComplete }) => {
     const { showToast } = useToast();
     const { requireSubscription } = useSubscriptionContext();
     const [description, setDescription] = useState('');
@@ -186,7 +188,7 @@ const TextMealInput: React.FC<TextMealInputProps> = ({ userGoal, onAnalysisCompl
         setRetryAction(null);
 
         try {
-            const result = await analyzeTextMeal(description, userGoal);
+            const result = await analyzeTextMeal(description, userGoal, dietaryPreferences);
             if (result) {
                 onAnalysisComplete(result);
                 setDescription('');
@@ -4,11 +4,18 @@ import { useToast } from '../contexts/ToastContext';
 import LoaderIcon from './icons/LoaderIcon';
 import Skeleton from './ui/Skeleton';
 import { analyzeWeeklyNutrition, WeeklyNutritionInsights } from '../services/aiService';
+import { averageCompleteDays, findMicronutrientFlags } from '../utils/micronutrients';
+import { formatFastingWindow, summarizeFastingAdherence, type FastingWindow } from '../utils/fasting';
+import type { Micronutrients } from '../lib/ai/types';
+import type { MealEntry } from '../hooks/useUserData';
 
 interface WeeklyNutritionSummaryProps {
     nutritionLogs: NutritionLog[];
-    targets: { calories: number; protein: number; carbs: number; fats: number };
+    targets: { calories: number; protein: number; carbs: number; fats: number; micros?: Micronutrients };
     goal: string | null;
+    // Meal times and the eating window, for fasting adherence
+    mealEntries?: MealEntry[];
+    fastingWindow?: FastingWindow | null;
 }
 
 interface AIInsights {
@@ -23,6 +30,9 @@ interface AIInsights {
 const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const DAY_LABELS_SHORT = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
+// Fewer fully scanned days than this is too thin to flag shortfalls
+const MIN_MICRO_DAYS = 3;
+
 // Helper functions outside component to prevent recreation
 const getAdherenceColor = (adherence: number) => {
     if (adherence >= 90) return 'text-green-400';
@@ -39,7 +49,9 @@ const getAdherenceBg = (adherence: number) => {
 const WeeklyNutritionSummary: React.FC<WeeklyNutritionSummaryProps> = ({
     nutritionLogs,
     targets,
-    goal
+    goal,
+    mealEntries = [],
+    fastingWindow = null
 }) => {
     const { showToast } = useToast();
     const [showDetails, setShowDetails] = useState(false);
@@ -162,6 +174,24 @@ const WeeklyNutritionSummary: React.FC<WeeklyNutritionSummaryProps> = ({
         };
     }, [weekData, targets]);
 
+    // Weekly micronutrient averages over days where every meal was scanned (USDA-matched)
+    const microStats = useMemo(() => {
+        const { average, completeDays, partialDays } = averageCompleteDays(weekData.map(d => d.log ?? {}));
+        if (completeDays + partialDays === 0 || !targets.micros) return null;
+        return {
+            days: completeDays,
+            scannedDays: completeDays + partialDays,
+            flags: average && completeDays >= MIN_MICRO_DAYS ? findMicronutrientFlags(average, targets.micros) : [],
+        };
+    }, [weekData, targets.micros]);
+
+    // Days this week where every logged meal fell inside the eating window
+    const fastingStats = useMemo(() => {
+        if (!fastingWindow) return null;
+        const adherence = summarizeFastingAdherence(mealEntries, fastingWindow, weekData.map(d => d.date));
+        return adherence.daysLogged > 0 ? adherence : null;
+    }, [mealEntries, fastingWindow, weekData]);
+
     // Generate local insights (fallback when AI not available)
     const localInsights = useMemo((): AIInsights => {
         const wins: string[] = [];
@@ -182,6 +212,9 @@ const WeeklyNutritionSummary: React.FC<WeeklyNutritionSummaryProps> = ({
         if (stats.daysOnTarget >= 4) {
             wins.push('Stayed on target most days');
         }
+        if (fastingStats && fastingStats.daysLogged >= 3 && fastingStats.mealsOutsideWindow === 0) {
+            wins.push('Every meal inside your eating window');
+        }
         if (wins.length === 0) {
             wins.push('Started tracking - great first step!');
         }
@@ -220,7 +253,7 @@ const WeeklyNutritionSummary: React.FC<WeeklyNutritionSummaryProps> = ({
             focus_area: focusArea,
             tip
         };
-    }, [stats, goal]);
+    }, [stats, goal, fastingStats]);
 
     // Fetch AI insights when data is available
     const fetchAiInsights = useCallback(async () => {
@@ -243,8 +276,9 @@ const WeeklyNutritionSummary: React.FC<WeeklyNutritionSummaryProps> = ({
 
             const insights = await analyzeWeeklyNutrition({
                 logs: logsForAI,
-                targets,
-                goal
+                targets: { calories: targets.calories, protein: targets.protein, carbs: targets.carbs, fats: targets.fats },
+                goal,
+                ...(fastingStats && { fasting: fastingStats })
             });
 
             if (insights) {
@@ -259,7 +293,7 @@ const WeeklyNutritionSummary: React.FC<WeeklyNutritionSummaryProps> = ({
         } finally {
             setLoadingInsights(false);
         }
-    }, [weekData, targets, goal, stats.daysTracked, localInsights]);
+    }, [weekData, targets, goal, stats.daysTracked, localInsights, fastingStats]);
 
     // Use local insights by default, fetch AI insights on demand
     useEffect(() => {
@@ -423,6 +457,49 @@ const WeeklyNutritionSummary: React.FC<WeeklyNutritionSummaryProps> = ({
                 ))}
             </div>
 
+            {/* Micronutrients */}
+            {microStats && (
+                <div className="bg-black/30 rounded-xl p-3">
+                    <div className="flex justify-between items-center mb-2">
+                        <div className="text-xs text-gray-500 uppercase">Micronutrients</div>
+                        <div className="text-[10px] text-gray-600">
+                            {microStats.days} of {microStats.scannedDays} day{microStats.scannedDays === 1 ? '' : 's'} fully scanned
+                        </div>
+                    </div>
+                    {microStats.days < MIN_MICRO_DAYS ? (
+                        <p className="text-xs text-gray-500">Scan every meal on {MIN_MICRO_DAYS}+ days to check fiber, vitamins and minerals.</p>
+                    ) : microStats.flags.length === 0 ? (
+                        <p className="text-xs text-green-400">✓ No shortfalls in fiber, vitamins or minerals</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {microStats.flags.map(flag => (
+                                <li key={flag.key} className="flex justify-between text-xs">
+                                    <span className={flag.kind === 'excess' ? 'text-yellow-400' : 'text-red-400'}>
+                                        {flag.kind === 'excess' ? '↑' : '↓'} {flag.label}
+                                    </span>
+                                    <span className="text-gray-400">
+                                        {Math.round(flag.intake).toLocaleString()} / {flag.target.toLocaleString()} {flag.unit} ({flag.percent}%)
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            {fastingStats && (
+                <div className="bg-black/30 rounded-xl p-3">
+                    <div className="flex justify-between items-center mb-2">
+                        <div className="text-xs text-gray-500 uppercase">Fasting Window</div>
+                        <div className="text-[10px] text-gray-600">{formatFastingWindow(fastingStats.window)}</div>
+                    </div>
+                    <p className={`text-xs ${fastingStats.mealsOutsideWindow === 0 ? 'text-green-400' : 'text-gray-400'}`}>
+                        {fastingStats.daysInWindow}/{fastingStats.daysLogged} days inside the window
+                        {fastingStats.mealsOutsideWindow > 0 && ` · ${fastingStats.mealsOutsideWindow} meal${fastingStats.mealsOutsideWindow === 1 ? '' : 's'} outside`}
+                    </p>
+                </div>
+            )}
+
             {/* AI Insights Card */}
             {aiInsights && (
                 <div className="space-y-3">
@@ -3,7 +3,9 @@ import type { CompletedWorkout, NutritionLog } from '../App';
 import type { NutritionTargets, MealEntry } from '../hooks/useUserData';
 import ProgressChart from './ProgressChart';
 import WeeklyNutritionSummary from './WeeklyNutritionSummary';
-import { calculateTotalVolume } from '../utils/workoutUtils';
+import { calculateTotalSets, calculateTotalVolume } from '../utils/workoutUtils';
+import { formatLoggedSet, setTypeLabel } from '../utils/setTypes';
+import { e1rmTrend, exerciseKey, formatRecord, trackedExercises } from '../services/personalRecords';
 
 // -- Interfaces --
 
@@ -29,6 +31,7 @@ const WorkoutHistory: React.FC<WorkoutHistoryProps> = ({ history, nutritionLogs,
     const [showAllWorkouts, setShowAllWorkouts] = useState(false);
     const [selectedWorkout, setSelectedWorkout] = useState<CompletedWorkout | null>(null);
     const [selectedMealDate, setSelectedMealDate] = useState<string | null>(null);
+    const [selectedLift, setSelectedLift] = useState<string | null>(null);
 
     // Lock scroll on the actual scroll container when modal is open
     useEffect(() => {
@@ -135,6 +138,21 @@ const WorkoutHistory: React.FC<WorkoutHistoryProps> = ({ history, nutritionLogs,
         [nutritionLogs, nutritionTargets.calories]
     );
 
+    // Lifts with enough sessions to chart; defaults to the most trained
+    const liftOptions = useMemo(() => trackedExercises(history), [history]);
+    const activeLift = liftOptions.find(l => l.key === selectedLift) ?? liftOptions[0] ?? null;
+
+    const e1rmData = useMemo(() =>
+        activeLift ? e1rmTrend(history, activeLift.key).slice(-20) : [],
+        [history, activeLift]
+    );
+
+    // Newest first, like history
+    const recentRecords = useMemo(() =>
+        history.flatMap(w => w.records ?? []).slice(0, 5),
+        [history]
+    );
+
     // Group meal entries by date for display - Bug #5 fix
     const mealsByDate = useMemo(() => {
         const grouped: { [date: string]: MealEntry[] } = {};
@@ -183,7 +201,7 @@ const WorkoutHistory: React.FC<WorkoutHistoryProps> = ({ history, nutritionLogs,
                         <span className="material-symbols-outlined text-2xl">arrow_back_ios</span>
                     </button>
                     <h1 className="text-lg font-bold leading-tight tracking-tight flex-1 text-center">
-                        {viewMode === 'workouts' ? 'Training History' : viewMode === 'meals' ? 'Meal History' : 'Nutrition Charts'}
+                        {viewMode === 'workouts' ? 'Training History' : viewMode === 'meals' ? 'Meal History' : 'Progress Charts'}
                     </h1>
                     <button
                         onClick={cycleViewMode}
@@ -223,7 +241,7 @@ const WorkoutHistory: React.FC<WorkoutHistoryProps> = ({ history, nutritionLogs,
                             </div>
                             <div className="text-center">
                                 <p className="text-2xl font-bold text-white">
-                                    {selectedWorkout.log.reduce((acc, ex) => acc + (parseInt(ex.sets) || 0), 0)}
+                                    {calculateTotalSets(selectedWorkout.log)}
                                 </p>
                                 <p className="text-xs text-gray-500">Total Sets</p>
                             </div>
@@ -243,19 +261,38 @@ const WorkoutHistory: React.FC<WorkoutHistoryProps> = ({ history, nutritionLogs,
                                     <div className="flex items-start justify-between">
                                         <div className="flex-1">
                                             <p className="font-bold text-white">{exercise.name}</p>
-                                            <div className="flex gap-4 mt-2 text-sm">
-                                                <span className="text-gray-400">
-                                                    <span className="text-white font-medium">{exercise.sets}</span> sets
-                                                </span>
-                                                <span className="text-gray-400">
-                                                    <span className="text-white font-medium">{exercise.reps}</span> reps
+                                            {selectedWorkout.records?.filter(r => r.exerciseKey === exerciseKey(exercise)).map(record => (
+                                                <span key={record.type} className="inline-flex items-center gap-1 mt-1 mr-2 text-xs font-bold text-[var(--color-primary)]">
+                                                    <span className="material-symbols-outlined text-sm">emoji_events</span>
+                                                    {formatRecord(record)}
                                                 </span>
-                                                {exercise.weight && (
+                                            ))}
+                                            {exercise.loggedSets && exercise.loggedSets.length > 0 && !exercise.setsEstimated ? (
+                                                <ol className="mt-2 space-y-1 text-sm">
+                                                    {exercise.loggedSets.map((set, i) => (
+                                                        <li key={i} className="flex gap-3 text-gray-400">
+                                                            <span className="w-5 text-gray-600">{i + 1}</span>
+                                                            <span className="text-white font-medium">{formatLoggedSet(set)}</span>
+                                                            {set.type !== 'working' && <span className="text-[var(--color-primary)]">{setTypeLabel(set.type)}</span>}
+                                                            {set.tempo && <span>{set.tempo}</span>}
+                                                        </li>
+                                                    ))}
+                                                </ol>
+                                            ) : (
+                                                <div className="flex gap-4 mt-2 text-sm">
                                                     <span className="text-gray-400">
-                                                        <span className="text-[var(--color-primary)] font-medium">{exercise.weight}</span> lbs
+                                                        <span className="text-white font-medium">{exercise.sets}</span> sets
                                                     </span>
-                                                )}
-                                            </div>
+                                                    <span className="text-gray-400">
+                                                        <span className="text-white font-medium">{exercise.reps}</span> reps
+                                                    </span>
+                                                    {exercise.weight && (
+                                                        <span className="text-gray-400">
+                                                            <span className="text-[var(--color-primary)] font-medium">{exercise.weight}</span> lbs
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            )}
                                         </div>
                                         <div className="text-right text-xs text-gray-500">
                                             #{idx + 1}
@@ -468,6 +505,53 @@ const WorkoutHistory: React.FC<WorkoutHistoryProps> = ({ history, nutritionLogs,
                                 chartType="bar"
                             />
                         </div>
+
+                        {/* Strength: estimated 1RM trend */}
+                        {activeLift ? (
+                            <div className="space-y-3">
+                                {liftOptions.length > 1 && (
+                                    <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+                                        {liftOptions.slice(0, 8).map(lift => (
+                                            <button
+                                                key={lift.key}
+                                                onClick={() => setSelectedLift(lift.key)}
+                                                className={`flex h-9 shrink-0 items-center rounded-full px-4 text-xs font-medium transition-colors ${lift.key === activeLift.key
+                                                        ? 'bg-[var(--color-primary)] text-black'
+                                                        : 'bg-[#223649] text-white'
+                                                    }`}
+                                            >
+                                                {lift.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                <ProgressChart
+                                    data={e1rmData}
+                                    title={`${activeLift.name} · Est. 1RM`}
+                                    color="#D4FF00"
+                                    unit=" lbs"
+                                    chartType="line"
+                                />
+                            </div>
+                        ) : (
+                            <div className="bg-[#1C1C1E] rounded-xl p-5 border border-white/5 text-center text-sm text-gray-500">
+                                Log a lift in two sessions to see your estimated 1RM trend.
+                            </div>
+                        )}
+
+                        {recentRecords.length > 0 && (
+                            <div className="bg-[#1C1C1E] rounded-xl p-5 border border-white/5">
+                                <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Recent PRs</h3>
+                                <ul className="space-y-2">
+                                    {recentRecords.map((record, i) => (
+                                        <li key={`${record.achievedAt}-${record.exerciseKey}-${record.type}-${i}`} className="flex items-baseline justify-between gap-3 text-sm">
+                                            <span className="font-bold text-white truncate">{record.exerciseName}</span>
+                                            <span className="text-[var(--color-primary)] font-medium shrink-0">{formatRecord(record)}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
                     </div>
                 )}
             </main>
@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useMemo, memo, useCallback } from 'react';
 import type { ExerciseLog, CompletedWorkout } from '../App';
 import RestTimer from './RestTimer';
-import WorkoutSetsLogger from './WorkoutSetsLogger';
+import WorkoutSetsLogger, { type SetField } from './WorkoutSetsLogger';
 import { safeLocalStorageSet } from '../utils/safeStorage';
+import { countsTowardVolume, isSetType, validateLoggedSet, type LoggedSet, type SetType } from '../utils/setTypes';
+import { suggestProgression, type ProgressionScheme } from '../services/progressionEngine';
+import { useLocalStorage, STORAGE_KEYS } from '../hooks/useLocalStorage';
+import { toDisplayWeight, weightUnit, type UnitSystem } from '../utils/units';
 
 // -- Constants --
 
@@ -16,6 +20,10 @@ interface SetData {
   weight: string;
   completed: boolean;
   restStartTime?: number;
+  type?: SetType;   // Optional so drafts saved before set types still load
+  rpe?: string;
+  rir?: string;
+  tempo?: string;
 }
 
 interface TrackedExercise {
@@ -50,6 +58,8 @@ interface WorkoutSessionProps {
   initialElapsedTime?: number;
   workoutHistory?: CompletedWorkout[];
   draftStorageKey?: string;
+  goal?: string | null;
+  unitSystem?: UnitSystem;
 }
 
 // -- Main Component --
@@ -65,6 +75,8 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
   initialElapsedTime,
   workoutHistory = [],
   draftStorageKey = 'sloefit_workout_draft_anon',
+  goal,
+  unitSystem = 'imperial',
 }) => {
   // Helper to convert initial data
   const convertToTracked = (exercises: ExerciseLog[]): TrackedExercise[] => {
@@ -74,7 +86,8 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
         id: j + 1,
         reps: '',
         weight: ex.weight || '',
-        completed: false
+        completed: false,
+        type: 'working' as const
       }));
       return {
         id: ex.id || i + 1, // Fallback ID if missing
@@ -110,6 +123,8 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
   const [restSkipCount, setRestSkipCount] = useState(0);
   const [totalRestCount, setTotalRestCount] = useState(0);
 
+  const [progressionScheme, setProgressionScheme] = useLocalStorage<ProgressionScheme>(STORAGE_KEYS.PROGRESSION_SCHEME, 'double');
+
   // Memoized callbacks for RestTimer to prevent re-renders triggering setState during render
   const handleRestComplete = useCallback(() => {
     setTotalRestCount(prev => prev + 1);
@@ -228,6 +243,18 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
     return null;
   }, [activeExercise?.name, workoutHistory]);
 
+  // Today's progressive-overload target for the active exercise
+  const suggestion = useMemo(() => {
+    if (!activeExercise) return null;
+    return suggestProgression({
+      exercise: { name: activeExercise.name, exerciseId: activeExercise.exerciseId, targetReps: activeExercise.targetReps },
+      history: workoutHistory,
+      scheme: progressionScheme,
+      goal,
+      unitSystem,
+    });
+  }, [activeExercise?.name, activeExercise?.exerciseId, activeExercise?.targetReps, workoutHistory, progressionScheme, goal, unitSystem]);
+
   // Guard: if exercises is somehow empty, bail out
   if (exercises.length === 0) {
     return (
@@ -249,10 +276,10 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
     return totalSets > 0 ? Math.round((completedSets / totalSets) * 100) : 0;
   }, [exercises]);
 
-  // Session volume (total weight × reps across all completed sets)
+  // Session volume (total weight × reps across all completed sets, excluding warm-ups)
   const sessionVolume = useMemo(() => {
     return exercises.reduce((total, ex) => {
-      return total + ex.sets.filter(s => s.completed)
+      return total + ex.sets.filter(s => s.completed && countsTowardVolume({ type: s.type ?? 'working' }))
         .reduce((acc, s) => acc + (parseFloat(s.weight) || 0) * (parseInt(s.reps) || 0), 0);
     }, 0);
   }, [exercises]);
@@ -270,7 +297,8 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
 
   // -- Handlers --
 
-  const handleUpdateSet = (setId: number, field: 'weight' | 'reps', value: string) => {
+  const handleUpdateSet = (setId: number, field: SetField, value: string) => {
+    if (field === 'type' && !isSetType(value)) return;
     setExercises(prev => {
       const newExercises = [...prev];
       const oldExercise = newExercises[activeExerciseIndex];
@@ -284,6 +312,27 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
     });
   };
 
+  // One tap fills a set with the suggested load and reps (bodyweight keeps its weight field)
+  const handleAcceptSuggestion = (setId: number) => {
+    if (!suggestion) return;
+    setExercises(prev => {
+      const newExercises = [...prev];
+      const oldExercise = newExercises[activeExerciseIndex];
+      const setIndex = oldExercise.sets.findIndex(s => s.id === setId);
+      if (setIndex !== -1) {
+        const set = oldExercise.sets[setIndex];
+        const newSets = [...oldExercise.sets];
+        newSets[setIndex] = {
+          ...set,
+          weight: suggestion.weight > 0 ? String(suggestion.weight) : set.weight,
+          reps: String(suggestion.reps),
+        };
+        newExercises[activeExerciseIndex] = { ...oldExercise, sets: newSets };
+      }
+      return newExercises;
+    });
+  };
+
   const handleToggleSet = (setId: number) => {
     const currentSet = exercises[activeExerciseIndex]?.sets.find(s => s.id === setId);
     const willComplete = currentSet && !currentSet.completed;
@@ -322,7 +371,8 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
           id: newId,
           reps: '',
           weight: lastSet?.weight || '',
-          completed: false
+          completed: false,
+          type: 'working'
         }],
         targetSets: exercise.targetSets + 1
       };
@@ -344,7 +394,12 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
     const finalLogs = exercises.map(ex => {
       const s = ex.sets.filter(xs => xs.completed);
       const actualReps = s.map(set => set.reps).filter(Boolean);
-      const setsWithWeight = s.filter(set => parseFloat(set.weight) > 0);
+      const loggedSets = s
+        .map(set => validateLoggedSet({ ...set, type: set.type ?? 'working' }))
+        .filter((set): set is LoggedSet => set !== null);
+      // Average load over working sets; warm-ups only count if that's all there was
+      const workingSets = s.filter(set => countsTowardVolume({ type: set.type ?? 'working' }));
+      const setsWithWeight = (workingSets.length > 0 ? workingSets : s).filter(set => parseFloat(set.weight) > 0);
       const avgWeight = setsWithWeight.length > 0
         ? Math.round(setsWithWeight.reduce((acc, set) => acc + parseFloat(set.weight), 0) / setsWithWeight.length)
         : 0;
@@ -359,6 +414,7 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
         restSeconds: ex.restSeconds,
         formCues: ex.formCues,
         exerciseId: ex.exerciseId,
+        ...(loggedSets.length > 0 && { loggedSets }),
       };
     });
 
@@ -405,11 +461,12 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
           onComplete={handleRestComplete}
           onSkip={handleRestSkip}
           exerciseName={activeExercise?.name}
-          lastSetWeight={lastCompletedSet?.weight}
+          lastSetWeight={lastCompletedSet?.weight && String(toDisplayWeight(parseFloat(lastCompletedSet.weight) || 0, unitSystem))}
           lastSetReps={lastCompletedSet?.reps}
           completedSets={activeExerciseCompletedCount}
           totalSets={activeExercise?.sets.length}
-          sessionVolume={sessionVolume}
+          sessionVolume={Math.round(toDisplayWeight(sessionVolume, unitSystem))}
+          weightUnit={weightUnit(unitSystem)}
         />
       )}
 
@@ -490,6 +547,11 @@ const WorkoutSession: React.FC<WorkoutSessionProps> = ({
               targetMuscles={activeExercise.targetMuscles}
               formCues={activeExercise.formCues}
               lastWeight={lastWeight}
+              suggestion={suggestion}
+              progressionScheme={progressionScheme}
+              onProgressionSchemeChange={setProgressionScheme}
+              onAcceptSuggestion={handleAcceptSuggestion}
+              unitSystem={unitSystem}
             />
           </div>
 
@@ -1,4 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { SET_TYPES, setTypeLabel, type SetType } from '../utils/setTypes';
+import { PROGRESSION_SCHEMES, type ProgressionScheme, type ProgressionSuggestion } from '../services/progressionEngine';
+import { fromDisplayWeight, toDisplayWeight, weightUnit, type UnitSystem } from '../utils/units';
+import PlateCalculator from './PlateCalculator';
 
 interface SetData {
     id: number;
@@ -6,12 +10,18 @@ interface SetData {
     weight: string;
     completed: boolean;
     previous?: string;
+    type?: SetType;     // Missing on drafts saved before set types; treated as working
+    rpe?: string;
+    rir?: string;
+    tempo?: string;
 }
 
+export type SetField = 'weight' | 'reps' | 'type' | 'rpe' | 'rir' | 'tempo';
+
 interface WorkoutSetsLoggerProps {
     exerciseName: string;
     sets: SetData[];
-    onUpdateSet: (setId: number, field: 'weight' | 'reps', value: string) => void;
+    onUpdateSet: (setId: number, field: SetField, value: string) => void;
     onToggleSet: (setId: number) => void;
     onAddSet: () => void;
     targetReps?: string;
@@ -19,8 +29,33 @@ interface WorkoutSetsLoggerProps {
     targetMuscles?: string[];
     formCues?: string[];
     lastWeight?: string | null;
+    suggestion?: ProgressionSuggestion | null;
+    progressionScheme?: ProgressionScheme;
+    onProgressionSchemeChange?: (scheme: ProgressionScheme) => void;
+    onAcceptSuggestion?: (setId: number) => void;
+    unitSystem?: UnitSystem;
 }
 
+// Set weights stay in lbs (as stored); these convert at the input and on screen
+
+/** Stored lbs string to the user's unit; non-numeric text passes through */
+const displayWeight = (lbs: string | null | undefined, units: UnitSystem): string => {
+    const n = parseFloat(lbs ?? '');
+    return Number.isNaN(n) ? lbs ?? '' : String(toDisplayWeight(n, units));
+};
+
+/** Typed weight in the user's unit to the stored lbs string */
+const storedWeight = (input: string, units: UnitSystem): string => {
+    const n = parseFloat(input);
+    return units === 'imperial' || Number.isNaN(n) ? input : String(fromDisplayWeight(n, units));
+};
+
+/** "140 × 8" / "12 reps" (bodyweight) */
+const formatTarget = (suggestion: ProgressionSuggestion, units: UnitSystem): string =>
+    suggestion.weight > 0
+        ? `${toDisplayWeight(suggestion.weight, units)} × ${suggestion.reps}`
+        : `${suggestion.reps} reps`;
+
 const WorkoutSetsLogger: React.FC<WorkoutSetsLoggerProps> = ({
     exerciseName,
     sets,
@@ -31,7 +66,12 @@ const WorkoutSetsLogger: React.FC<WorkoutSetsLoggerProps> = ({
     notes,
     targetMuscles,
     formCues,
-    lastWeight
+    lastWeight,
+    suggestion,
+    progressionScheme,
+    onProgressionSchemeChange,
+    onAcceptSuggestion,
+    unitSystem = 'imperial'
 }) => {
     const completedSets = sets.filter(s => s.completed).length;
     const [showFormTips, setShowFormTips] = useState(false);
@@ -50,6 +90,37 @@ const WorkoutSetsLogger: React.FC<WorkoutSetsLoggerProps> = ({
                 </p>
             </div>
 
+            {/* Progressive Overload Suggestion */}
+            {suggestion && (
+                <div className="mx-4 mt-2 mb-1 bg-[#1a2e20] border border-[var(--color-primary)]/20 rounded-xl p-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-1.5">
+                            <span className="material-symbols-outlined text-[var(--color-primary)] text-base">trending_up</span>
+                            <span className="text-sm font-bold text-white">Today: {formatTarget(suggestion, unitSystem)}</span>
+                        </div>
+                        {onProgressionSchemeChange && (
+                            <div className="flex gap-1" role="radiogroup" aria-label="Progression scheme">
+                                {PROGRESSION_SCHEMES.map(s => (
+                                    <button
+                                        key={s.value}
+                                        onClick={() => onProgressionSchemeChange(s.value)}
+                                        role="radio"
+                                        aria-checked={progressionScheme === s.value}
+                                        className={`px-2 py-0.5 rounded-full text-[10px] font-bold transition-colors ${progressionScheme === s.value
+                                            ? 'bg-[var(--color-primary)] text-black'
+                                            : 'bg-white/5 text-slate-400 hover:text-white'
+                                            }`}
+                                    >
+                                        {s.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <p className="text-xs text-slate-400 mt-1">{suggestion.reason}</p>
+                </div>
+            )}
+
             {/* Form Tips Toggle */}
             {hasTips && (
                 <div className="px-4 pb-1">
@@ -118,6 +189,7 @@ const WorkoutSetsLogger: React.FC<WorkoutSetsLoggerProps> = ({
                                     index={index}
                                     set={set}
                                     onToggleSet={onToggleSet}
+                                    units={unitSystem}
                                 />
                             );
                         }
@@ -131,6 +203,9 @@ const WorkoutSetsLogger: React.FC<WorkoutSetsLoggerProps> = ({
                                     onUpdateSet={onUpdateSet}
                                     onToggleSet={onToggleSet}
                                     lastWeight={lastWeight}
+                                    suggestion={set.type === 'warmup' ? null : suggestion}
+                                    onAcceptSuggestion={onAcceptSuggestion}
+                                    units={unitSystem}
                                 />
                             );
                         }
@@ -139,7 +214,9 @@ const WorkoutSetsLogger: React.FC<WorkoutSetsLoggerProps> = ({
                             <UpcomingSetNode
                                 key={set.id}
                                 index={index}
+                                type={set.type}
                                 targetReps={targetReps}
+                                target={suggestion && set.type !== 'warmup' ? formatTarget(suggestion, unitSystem) : undefined}
                             />
                         );
                     })}
@@ -169,11 +246,15 @@ const WorkoutSetsLogger: React.FC<WorkoutSetsLoggerProps> = ({
 };
 
 /* ── Completed Set Node ── */
-function CompletedSetNode({ index, set, onToggleSet }: {
+function CompletedSetNode({ index, set, onToggleSet, units }: {
     index: number;
-    set: { id: number; weight: string; reps: string };
+    set: SetData;
     onToggleSet: (id: number) => void;
+    units: UnitSystem;
 }) {
+    const type = set.type ?? 'working';
+    const weight = displayWeight(set.weight, units);
+    const effort = set.rpe ? `@ RPE ${set.rpe}` : set.rir ? `· ${set.rir} RIR` : '';
     return (
         <div className="flex items-center gap-3 sm:gap-4 opacity-60">
             <button
@@ -185,15 +266,19 @@ function CompletedSetNode({ index, set, onToggleSet }: {
             </button>
             <div className="glass-panel px-4 py-3 flex-1">
                 <div className="flex items-center justify-between">
-                    <span className="text-xs text-slate-400 font-medium">Set {index + 1}</span>
+                    <span className="text-xs text-slate-400 font-medium">
+                        Set {index + 1}
+                        {type !== 'working' && <span className="ml-1.5 text-[var(--color-primary)]">{setTypeLabel(type)}</span>}
+                    </span>
                     <span className="text-sm font-bold text-slate-300">
-                        {set.weight && set.reps
-                            ? `${set.weight} × ${set.reps}`
-                            : set.weight
-                                ? `${set.weight} lbs`
+                        {weight && set.reps
+                            ? `${weight} × ${set.reps}`
+                            : weight
+                                ? `${weight} ${weightUnit(units)}`
                                 : set.reps
                                     ? `${set.reps} reps`
                                     : 'Completed'}
+                        {effort && <span className="ml-1 text-xs font-medium text-slate-400">{effort}</span>}
                     </span>
                 </div>
             </div>
@@ -202,13 +287,34 @@ function CompletedSetNode({ index, set, onToggleSet }: {
 }
 
 /* ── Active Set Node ── */
-function ActiveSetNode({ index, set, onUpdateSet, onToggleSet, lastWeight }: {
+function ActiveSetNode({ index, set, onUpdateSet, onToggleSet, lastWeight, suggestion, onAcceptSuggestion, units }: {
     index: number;
-    set: { id: number; weight: string; reps: string };
-    onUpdateSet: (id: number, field: 'weight' | 'reps', value: string) => void;
+    set: SetData;
+    onUpdateSet: (id: number, field: SetField, value: string) => void;
     onToggleSet: (id: number) => void;
     lastWeight?: string | null;
+    suggestion?: ProgressionSuggestion | null;
+    onAcceptSuggestion?: (id: number) => void;
+    units: UnitSystem;
 }) {
+    const type = set.type ?? 'working';
+    const unit = weightUnit(units);
+    const accepted = !!suggestion
+        && set.reps === String(suggestion.reps)
+        && (suggestion.weight === 0 || set.weight === String(suggestion.weight));
+    const suggestedWeight = suggestion && suggestion.weight > 0 ? String(toDisplayWeight(suggestion.weight, units)) : null;
+    const last = lastWeight ? displayWeight(lastWeight, units) : null;
+
+    // Typed text in the user's unit. Kept as typed (e.g. "82.") unless the stored
+    // weight changed underneath it (one-tap target, undo).
+    const [weightInput, setWeightInput] = useState(() => displayWeight(set.weight, units));
+    useEffect(() => {
+        setWeightInput(prev => (storedWeight(prev, units) === set.weight ? prev : displayWeight(set.weight, units)));
+    }, [set.weight, units]);
+
+    const [showPlates, setShowPlates] = useState(false);
+    const plateTarget = parseFloat(weightInput || suggestedWeight || last || '') || null;
+
     return (
         <div className="flex items-start gap-3 sm:gap-4 animate-fade-in-up">
             <div className="size-11 sm:size-14 shrink-0 rounded-full border-2 border-[var(--color-primary)] bg-[var(--color-primary)]/10 flex items-center justify-center timeline-dot-active animate-pulse-glow mt-1">
@@ -216,25 +322,46 @@ function ActiveSetNode({ index, set, onUpdateSet, onToggleSet, lastWeight }: {
             </div>
             <div className="glass-panel-active flex-1 p-4">
                 {/* Header */}
-                <div className="flex items-center justify-between mb-4">
-                    <span className="text-sm font-bold text-white">Working Set</span>
+                <div className="flex items-center justify-between mb-3">
+                    <span className="text-sm font-bold text-white">{type === 'working' ? 'Working Set' : setTypeLabel(type)}</span>
                     <span className="text-[10px] font-bold uppercase tracking-wider bg-[var(--color-primary)]/15 text-[var(--color-primary)] px-2.5 py-1 rounded-full">
                         Current Focus
                     </span>
                 </div>
 
+                {/* Set Type */}
+                <div className="flex gap-1.5 mb-4 overflow-x-auto" role="radiogroup" aria-label="Set type">
+                    {SET_TYPES.map(t => (
+                        <button
+                            key={t.value}
+                            onClick={() => onUpdateSet(set.id, 'type', t.value)}
+                            role="radio"
+                            aria-checked={type === t.value}
+                            className={`shrink-0 px-2.5 py-1 rounded-full text-[11px] font-bold transition-colors ${type === t.value
+                                ? 'bg-[var(--color-primary)] text-black'
+                                : 'bg-white/5 text-slate-400 hover:text-white'
+                                }`}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+
                 {/* Inputs */}
                 <div className="flex gap-3 mb-4">
                     <div className="flex-1">
                         <label className="text-[10px] text-slate-500 uppercase tracking-wider font-bold mb-1.5 block">
-                            Weight (lbs)
-                            {lastWeight && <span className="text-[var(--color-primary)] ml-1 normal-case">Last: {lastWeight}lbs</span>}
+                            Weight ({unit})
+                            {last && <span className="text-[var(--color-primary)] ml-1 normal-case">Last: {last}{unit}</span>}
                         </label>
                         <input
                             className="glass-input w-full h-14"
-                            value={set.weight}
-                            onChange={(e) => onUpdateSet(set.id, 'weight', e.target.value)}
-                            placeholder={lastWeight || "0"}
+                            value={weightInput}
+                            onChange={(e) => {
+                                setWeightInput(e.target.value);
+                                onUpdateSet(set.id, 'weight', storedWeight(e.target.value, units));
+                            }}
+                            placeholder={suggestedWeight || last || "0"}
                             type="number"
                             inputMode="decimal"
                         />
@@ -245,13 +372,78 @@ function ActiveSetNode({ index, set, onUpdateSet, onToggleSet, lastWeight }: {
                             className="glass-input w-full h-14"
                             value={set.reps}
                             onChange={(e) => onUpdateSet(set.id, 'reps', e.target.value)}
-                            placeholder="0"
+                            placeholder={suggestion ? String(suggestion.reps) : "0"}
                             type="number"
                             inputMode="numeric"
                         />
                     </div>
                 </div>
 
+                {/* One-tap accept of today's target */}
+                {suggestion && onAcceptSuggestion && !accepted && (
+                    <button
+                        onClick={() => onAcceptSuggestion(set.id)}
+                        className="w-full mb-4 py-2 rounded-xl border border-[var(--color-primary)]/40 text-[var(--color-primary)] text-xs font-bold flex items-center justify-center gap-1.5 hover:bg-[var(--color-primary)]/10 transition-colors"
+                        aria-label={`Use suggested ${formatTarget(suggestion, units)}`}
+                    >
+                        <span className="material-symbols-outlined text-sm">bolt</span>
+                        Use {formatTarget(suggestion, units)}
+                    </button>
+                )}
+
+                {/* Plate Calculator */}
+                <button
+                    onClick={() => setShowPlates(!showPlates)}
+                    className="flex items-center gap-1.5 text-[var(--color-primary)] text-xs font-bold mb-2 hover:opacity-80 transition-opacity"
+                    aria-expanded={showPlates}
+                >
+                    <span className="material-symbols-outlined text-sm">fitness_center</span>
+                    {showPlates ? 'Hide plates' : 'Plate calculator'}
+                </button>
+                {showPlates && <PlateCalculator target={plateTarget} unit={unit} />}
+
+                {/* Effort & Tempo (optional) */}
+                <div className="flex gap-3 mb-4">
+                    <div className="flex-1">
+                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-bold mb-1.5 block">RPE</label>
+                        <input
+                            className="glass-input w-full h-11"
+                            value={set.rpe ?? ''}
+                            onChange={(e) => onUpdateSet(set.id, 'rpe', e.target.value)}
+                            placeholder="1-10"
+                            type="number"
+                            inputMode="decimal"
+                            min={1}
+                            max={10}
+                            step={0.5}
+                        />
+                    </div>
+                    <div className="flex-1">
+                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-bold mb-1.5 block">RIR</label>
+                        <input
+                            className="glass-input w-full h-11"
+                            value={set.rir ?? ''}
+                            onChange={(e) => onUpdateSet(set.id, 'rir', e.target.value)}
+                            placeholder="0-10"
+                            type="number"
+                            inputMode="numeric"
+                            min={0}
+                            max={10}
+                        />
+                    </div>
+                    <div className="flex-1">
+                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-bold mb-1.5 block">Tempo</label>
+                        <input
+                            className="glass-input w-full h-11"
+                            value={set.tempo ?? ''}
+                            onChange={(e) => onUpdateSet(set.id, 'tempo', e.target.value)}
+                            placeholder="3-1-1-0"
+                            type="text"
+                            maxLength={7}
+                        />
+                    </div>
+                </div>
+
                 {/* Log Set Button */}
                 <button
                     onClick={() => onToggleSet(set.id)}
@@ -267,9 +459,11 @@ function ActiveSetNode({ index, set, onUpdateSet, onToggleSet, lastWeight }: {
 }
 
 /* ── Upcoming Set Node ── */
-function UpcomingSetNode({ index, targetReps }: {
+function UpcomingSetNode({ index, type, targetReps, target }: {
     index: number;
+    type?: SetType;
     targetReps?: string;
+    target?: string;
 }) {
     return (
         <div className="flex items-center gap-3 sm:gap-4 opacity-40">
@@ -278,7 +472,12 @@ function UpcomingSetNode({ index, targetReps }: {
             </div>
             <div className="py-2">
                 <span className="text-sm text-slate-500 font-medium">Set {index + 1}</span>
-                {targetReps && (
+                {type && type !== 'working' && (
+                    <span className="text-xs text-slate-500 ml-2">{setTypeLabel(type)}</span>
+                )}
+                {target ? (
+                    <span className="text-xs text-slate-600 ml-2">Target {target}</span>
+                ) : targetReps && (
                     <span className="text-xs text-slate-600 ml-2">Target {targetReps} reps</span>
                 )}
             </div>
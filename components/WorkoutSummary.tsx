@@ -1,6 +1,7 @@
 import React, { memo } from 'react';
 import PostWorkoutCoaching from './PostWorkoutCoaching';
 import type { CoachInsight } from '../hooks/useCoachingAgent';
+import { formatRecord, type PersonalRecord } from '../services/personalRecords';
 
 interface WorkoutSummaryProps {
     duration: string;
@@ -12,6 +13,7 @@ interface WorkoutSummaryProps {
     onViewHistory?: () => void;
     isSaving?: boolean;
     coachingInsight?: CoachInsight | null;
+    records?: PersonalRecord[];
 }
 
 const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
@@ -23,7 +25,8 @@ const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
     onRate,
     onViewHistory,
     isSaving = false,
-    coachingInsight
+    coachingInsight,
+    records = []
 }) => {
     return (
         <div className="relative flex h-auto min-h-screen w-full max-w-md sm:max-w-lg mx-auto flex-col overflow-x-hidden pb-10 bg-background-dark font-display text-white transition-colors duration-300">
@@ -48,7 +51,9 @@ const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
                         <span className="material-symbols-outlined text-[var(--color-primary)] text-3xl sm:text-4xl">celebration</span>
                     </div>
                     <h1 className="tracking-light text-2xl sm:text-[32px] font-bold leading-tight text-center pb-1">Session Crushed!</h1>
-                    <p className="text-[var(--color-primary)]/80 text-xs sm:text-sm font-medium">Great work today.</p>
+                    <p className="text-[var(--color-primary)]/80 text-xs sm:text-sm font-medium">
+                        {records.length > 0 ? `${records.length} new personal record${records.length > 1 ? 's' : ''}.` : 'Great work today.'}
+                    </p>
                 </div>
 
                 {/* Stats Grid */}
@@ -77,6 +82,31 @@ const WorkoutSummary: React.FC<WorkoutSummaryProps> = ({
                 </div>
             </div>
 
+            {/* Personal Records */}
+            {records.length > 0 && (
+                <div className="mx-3 sm:mx-4 mt-2 p-4 rounded-xl sm:rounded-2xl bg-[#1a2e20] border border-[var(--color-primary)]/30 shadow-sm">
+                    <div className="flex items-center gap-2 mb-3">
+                        <span className="material-symbols-outlined text-[var(--color-primary)] text-lg">emoji_events</span>
+                        <h3 className="text-sm font-bold uppercase tracking-wider">Personal Records</h3>
+                    </div>
+                    <ul className="space-y-2">
+                        {records.map(record => (
+                            <li key={`${record.exerciseKey}-${record.type}`} className="flex items-baseline justify-between gap-3 text-sm">
+                                <span className="font-bold text-white truncate">{record.exerciseName}</span>
+                                <span className="text-right shrink-0">
+                                    <span className="text-[var(--color-primary)] font-medium">{formatRecord(record)}</span>
+                                    {record.previous != null && (
+                                        <span className="block text-[10px] text-slate-400">
+                                            was {record.type === 'reps' ? `${record.previous} reps` : `${record.previous.toLocaleString()} lbs`}
+                                        </span>
+                                    )}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {/* Feedback Section */}
             <div className="mx-3 sm:mx-4 mt-6 sm:mt-8 p-4 sm:p-6 rounded-xl sm:rounded-2xl bg-[#1a2e20] border border-white/5 shadow-sm relative">
                 {isSaving && (
@@ -2,6 +2,7 @@ import React, { useState, memo } from 'react';
 import BodyCompositionChart from './BodyCompositionChart';
 import MetricBreakdownTable from './MetricBreakdownTable';
 import { generateBodyInsight, type BodyCheckin } from '../../utils/bodyInsights';
+import type { UnitSystem } from '../../utils/units';
 
 type TimeRange = '7d' | '30d' | '3m' | '1y';
 
@@ -15,9 +16,10 @@ const TIME_RANGES: { key: TimeRange; label: string }[] = [
 interface AnalyticsTabProps {
   checkins: BodyCheckin[];
   goal: string | null;
+  unitSystem?: UnitSystem;
 }
 
-const AnalyticsTab: React.FC<AnalyticsTabProps> = ({ checkins, goal }) => {
+const AnalyticsTab: React.FC<AnalyticsTabProps> = ({ checkins, goal, unitSystem = 'imperial' }) => {
   const [timeRange, setTimeRange] = useState<TimeRange>('30d');
   const insight = generateBodyInsight(checkins, goal);
 
@@ -53,7 +55,7 @@ const AnalyticsTab: React.FC<AnalyticsTabProps> = ({ checkins, goal }) => {
       {/* Composition Trends Chart */}
       <div className="card">
         <h4 className="text-sm font-bold text-white mb-3">Body Composition Trends</h4>
-        <BodyCompositionChart checkins={checkins} timeRange={timeRange} />
+        <BodyCompositionChart checkins={checkins} timeRange={timeRange} unitSystem={unitSystem} />
         {/* Legend */}
         <div className="flex items-center justify-center gap-4 mt-3 text-[10px] text-gray-400">
           <span className="flex items-center gap-1">
@@ -9,12 +9,14 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import type { BodyCheckin } from '../../utils/bodyInsights';
+import { toDisplayWeight, weightUnit, type UnitSystem } from '../../utils/units';
 
 type TimeRange = '7d' | '30d' | '3m' | '1y';
 
 interface BodyCompositionChartProps {
   checkins: BodyCheckin[];
   timeRange: TimeRange;
+  unitSystem?: UnitSystem;
 }
 
 interface ChartPoint {
@@ -44,7 +46,7 @@ const formatDate = (dateStr: string) => {
 };
 
 // Custom multi-metric tooltip
-const ChartTooltip = memo(({ active, payload, label }: any) => {
+const ChartTooltip = memo(({ active, payload, label, unit }: any) => {
   if (!active || !payload?.length) return null;
   return (
     <div className="bg-[#2C2C2E] border border-white/10 rounded-lg p-3 shadow-lg">
@@ -52,7 +54,7 @@ const ChartTooltip = memo(({ active, payload, label }: any) => {
       {payload.map((entry: any) => (
         <p key={entry.dataKey} className="text-sm font-bold" style={{ color: entry.color }}>
           {entry.name}: {entry.value != null ? entry.value : '—'}
-          {entry.dataKey === 'bodyFat' ? '%' : entry.dataKey === 'weight' || entry.dataKey === 'muscleMass' ? ' lbs' : ''}
+          {entry.dataKey === 'bodyFat' ? '%' : entry.dataKey === 'weight' || entry.dataKey === 'muscleMass' ? ` ${unit}` : ''}
         </p>
       ))}
     </div>
@@ -60,7 +62,7 @@ const ChartTooltip = memo(({ active, payload, label }: any) => {
 });
 ChartTooltip.displayName = 'ChartTooltip';
 
-const BodyCompositionChart: React.FC<BodyCompositionChartProps> = ({ checkins, timeRange }) => {
+const BodyCompositionChart: React.FC<BodyCompositionChartProps> = ({ checkins, timeRange, unitSystem = 'imperial' }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isReady, setIsReady] = useState(false);
 
@@ -93,8 +95,9 @@ const BodyCompositionChart: React.FC<BodyCompositionChartProps> = ({ checkins, t
     };
   }, []);
 
-  // Filter by time range and transform to chart data
+  // Filter by time range and transform to chart data (weights in the user's units)
   const chartData = useMemo(() => {
+    const weight = (lbs: number | null) => (lbs != null ? toDisplayWeight(lbs, unitSystem) : null);
     const cutoff = Date.now() - RANGE_DAYS[timeRange] * 86_400_000;
     const filtered = checkins
       .filter(c => new Date(c.created_at).getTime() >= cutoff)
@@ -103,11 +106,11 @@ const BodyCompositionChart: React.FC<BodyCompositionChartProps> = ({ checkins, t
     return filtered.map((c): ChartPoint => ({
       date: c.created_at,
       formattedDate: formatDate(c.created_at),
-      weight: c.weight_lbs,
+      weight: weight(c.weight_lbs),
       bodyFat: c.body_fat_pct,
-      muscleMass: c.muscle_mass_lbs,
+      muscleMass: weight(c.muscle_mass_lbs),
     }));
-  }, [checkins, timeRange]);
+  }, [checkins, timeRange, unitSystem]);
 
   // Detect which metrics have data
   const hasWeight = chartData.some(d => d.weight != null);
@@ -115,7 +118,8 @@ const BodyCompositionChart: React.FC<BodyCompositionChartProps> = ({ checkins, t
   const hasMuscleMass = chartData.some(d => d.muscleMass != null);
   const hasPctData = hasBodyFat; // for right Y-axis
 
-  const renderTooltip = useCallback((props: any) => <ChartTooltip {...props} />, []);
+  const unit = weightUnit(unitSystem);
+  const renderTooltip = useCallback((props: any) => <ChartTooltip {...props} unit={unit} />, [unit]);
 
   if (chartData.length === 0) {
     return (
@@ -137,7 +141,7 @@ const BodyCompositionChart: React.FC<BodyCompositionChartProps> = ({ checkins, t
               axisLine={{ stroke: 'rgba(255,255,255,0.1)' }}
               tickLine={false}
             />
-            {/* Left Y-axis for weight (lbs) */}
+            {/* Left Y-axis for weight (lbs / kg) */}
             <YAxis
               yAxisId="left"
               tick={{ fill: '#6B7280', fontSize: 10 }}
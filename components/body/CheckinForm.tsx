@@ -1,13 +1,20 @@
 import React, { useState } from 'react';
+import { fromDisplayWeight, toDisplayWeight, weightUnit, type UnitSystem } from '../../utils/units';
 
 interface CheckinFormProps {
   onSubmit: (data: { weight_lbs: number; body_fat_pct: number | null; notes: string | null }) => Promise<boolean>;
   defaultWeight?: number | null;
   isSubmitting: boolean;
+  unitSystem?: UnitSystem;
 }
 
-const CheckinForm: React.FC<CheckinFormProps> = ({ onSubmit, defaultWeight, isSubmitting }) => {
-  const [weight, setWeight] = useState(defaultWeight?.toString() || '');
+// Accepted range in lbs, whatever unit it's typed in
+const MIN_WEIGHT_LBS = 50;
+const MAX_WEIGHT_LBS = 600;
+
+const CheckinForm: React.FC<CheckinFormProps> = ({ onSubmit, defaultWeight, isSubmitting, unitSystem = 'imperial' }) => {
+  const unit = weightUnit(unitSystem);
+  const [weight, setWeight] = useState(defaultWeight ? String(toDisplayWeight(defaultWeight, unitSystem)) : '');
   const [bodyFat, setBodyFat] = useState('');
   const [notes, setNotes] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -21,8 +28,11 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ onSubmit, defaultWeight, isSu
       setError('Enter your weight');
       return;
     }
-    if (w < 50 || w > 600) {
-      setError('Weight must be between 50-600 lbs');
+    const weightLbs = fromDisplayWeight(w, unitSystem);
+    if (weightLbs < MIN_WEIGHT_LBS || weightLbs > MAX_WEIGHT_LBS) {
+      const min = Math.ceil(toDisplayWeight(MIN_WEIGHT_LBS, unitSystem));
+      const max = Math.floor(toDisplayWeight(MAX_WEIGHT_LBS, unitSystem));
+      setError(`Weight must be between ${min}-${max} ${unit}`);
       return;
     }
 
@@ -33,7 +43,7 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ onSubmit, defaultWeight, isSu
     }
 
     const success = await onSubmit({
-      weight_lbs: w,
+      weight_lbs: weightLbs,
       body_fat_pct: bf,
       notes: notes.trim() || null,
     });
@@ -50,7 +60,7 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ onSubmit, defaultWeight, isSu
       <div className="grid grid-cols-2 gap-3">
         <div>
           <label className="text-[10px] uppercase text-gray-500 font-bold mb-1 block">
-            Weight (lbs) *
+            Weight ({unit}) *
           </label>
           <input
             type="number"
@@ -58,7 +68,7 @@ const CheckinForm: React.FC<CheckinFormProps> = ({ onSubmit, defaultWeight, isSu
             step="0.1"
             value={weight}
             onChange={e => setWeight(e.target.value)}
-            placeholder="175.0"
+            placeholder={unitSystem === 'metric' ? '80.0' : '175.0'}
             className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2.5 text-white text-sm focus:border-[var(--color-primary)] focus:outline-none transition-colors"
           />
         </div>
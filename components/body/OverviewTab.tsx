@@ -10,6 +10,7 @@ import { PREMIUM_FEATURES } from '../../hooks/useSubscription';
 import { supabaseGet, supabaseInsert } from '../../services/supabaseRawFetch';
 import { safeJSONParse, safeLocalStorageSet } from '../../utils/safeStorage';
 import { reportError } from '../../utils/sentryHelpers';
+import { toDisplayWeight, weightUnit, type UnitSystem } from '../../utils/units';
 import ResultDisplay from '../ResultDisplay';
 import ProductCard from '../ProductCard';
 import { PRODUCT_IDS } from '../../services/shopifyService';
@@ -38,6 +39,7 @@ interface OverviewTabProps {
   defaultWeight: number | null;
   goal: string | null;
   onAnalysisComplete: (result: string) => void;
+  unitSystem?: UnitSystem;
 }
 
 const OverviewTab: React.FC<OverviewTabProps> = ({
@@ -46,6 +48,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
   defaultWeight,
   goal,
   onAnalysisComplete,
+  unitSystem = 'imperial',
 }) => {
   const { user } = useAuth();
   const { showToast } = useToast();
@@ -64,11 +67,15 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
   const analysisCancelledRef = useRef(false);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Latest metrics for summary cards
+  // Latest metrics for summary cards (weights shown in the user's units)
   const latest = checkins[0] || null;
-  const delta7Weight = calculateDelta(checkins, 'weight_lbs', 7, goal);
+  const unit = weightUnit(unitSystem);
+  const displayWeight = (lbs: number | null) => (lbs != null ? `${toDisplayWeight(lbs, unitSystem)}` : '—');
+  const displayDelta = (delta: ReturnType<typeof calculateDelta>) =>
+    delta && { ...delta, value: toDisplayWeight(delta.value, unitSystem) };
+  const delta7Weight = displayDelta(calculateDelta(checkins, 'weight_lbs', 7, goal));
   const delta7Bf = calculateDelta(checkins, 'body_fat_pct', 7, goal);
-  const delta7Muscle = calculateDelta(checkins, 'muscle_mass_lbs', 7, goal);
+  const delta7Muscle = displayDelta(calculateDelta(checkins, 'muscle_mass_lbs', 7, goal));
   const insight = generateBodyInsight(checkins, goal);
 
   // Loading phases for AI analysis
@@ -213,8 +220,8 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
           <MetricCard
             icon="monitor_weight"
             label="Weight"
-            value={latest.weight_lbs != null ? `${latest.weight_lbs}` : '—'}
-            unit="lbs"
+            value={displayWeight(latest.weight_lbs)}
+            unit={unit}
             delta={delta7Weight}
           />
           <MetricCard
@@ -227,8 +234,8 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
           <MetricCard
             icon="fitness_center"
             label="Muscle"
-            value={latest.muscle_mass_lbs != null ? `${latest.muscle_mass_lbs}` : '—'}
-            unit="lbs"
+            value={displayWeight(latest.muscle_mass_lbs)}
+            unit={unit}
             delta={delta7Muscle}
           />
         </div>
@@ -244,6 +251,7 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
           onSubmit={handleCheckin}
           defaultWeight={latest?.weight_lbs ?? defaultWeight}
           isSubmitting={isSubmitting}
+          unitSystem={unitSystem}
         />
       </div>
 
@@ -0,0 +1,70 @@
+/**
+ * Offline Product Seed
+ *
+ * A small snapshot of packaged products (values from Open Food Facts) bundled
+ * with the app so barcode logging works without a network connection and in
+ * tests. services/productService.ts checks it before the online backend.
+ *
+ * Barcodes are stored normalized (see normalizeBarcode): UPC-A codes are
+ * zero-padded to EAN-13. Nutrition is per 100 g, or per 100 ml for drinks.
+ * Add regional staples here rather than special-casing them in the service.
+ */
+
+import type { Product } from '../services/productService';
+
+export const PRODUCT_SEED: Product[] = [
+  {
+    barcode: '3017620422003',
+    name: 'Nutella',
+    brand: 'Ferrero',
+    servingSize: '15 g',
+    servingGrams: 15,
+    per100g: { calories: 539, protein: 6.3, carbs: 57.5, fats: 30.9 },
+    source: 'seed',
+  },
+  {
+    barcode: '5449000000996',
+    name: 'Coca-Cola',
+    brand: 'Coca-Cola',
+    servingSize: '1 can (330 ml)',
+    servingGrams: 330,
+    per100g: { calories: 42, protein: 0, carbs: 10.6, fats: 0 },
+    source: 'seed',
+  },
+  {
+    barcode: '5449000131805',
+    name: 'Coca-Cola Zero Sugar',
+    brand: 'Coca-Cola',
+    servingSize: '1 can (330 ml)',
+    servingGrams: 330,
+    per100g: { calories: 0.2, protein: 0, carbs: 0, fats: 0 },
+    source: 'seed',
+  },
+  {
+    barcode: '3274080005003',
+    name: 'Eau de source',
+    brand: 'Cristaline',
+    servingSize: '250 ml',
+    servingGrams: 250,
+    per100g: { calories: 0, protein: 0, carbs: 0, fats: 0 },
+    source: 'seed',
+  },
+  {
+    barcode: '7622210449283',
+    name: 'Prince chocolate biscuits',
+    brand: 'LU',
+    servingSize: '2 biscuits (26 g)',
+    servingGrams: 26,
+    per100g: { calories: 467, protein: 6.3, carbs: 69, fats: 17 },
+    source: 'seed',
+  },
+  {
+    barcode: '0737628064502',
+    name: 'Thai peanut noodle kit',
+    brand: 'Simply Asia',
+    servingSize: '52 g',
+    servingGrams: 52,
+    per100g: { calories: 385, protein: 9.6, carbs: 71.2, fats: 7.7 },
+    source: 'seed',
+  },
+];
@@ -15,6 +15,7 @@ import {
   type AutoAdjustment,
 } from '../services/coachingEngine';
 import { getProductRecommendation, type ProductRecommendation } from '../data/productRecommendations';
+import { formatRecord, type PersonalRecord } from '../services/personalRecords';
 
 // ============================================================================
 // Types
@@ -258,6 +259,7 @@ export function useCoachingAgent(programDay?: number, userId?: string): UseCoach
     const totalReps = workoutData.totalReps as number | undefined;
     const volume = workoutData.volume as number | undefined;
     const muscles = workoutData.muscles as string[] | undefined;
+    const records = workoutData.records as PersonalRecord[] | undefined;
 
     let message = 'Session done. Recovery time.';
     let productKey: string | undefined;
@@ -283,6 +285,15 @@ export function useCoachingAgent(programDay?: number, userId?: string): UseCoach
       message = `${totalReps} reps logged. Recovery time.`;
     }
 
+    // Records lead the message; the session line follows
+    if (records && records.length > 0) {
+      const top = records.find(r => r.type === 'e1rm') ?? records[0];
+      const headline = records.length > 1
+        ? `${records.length} PRs. ${top.exerciseName}: ${formatRecord(top)}.`
+        : `New PR. ${top.exerciseName}: ${formatRecord(top)}.`;
+      message = `${headline} ${message}`;
+    }
+
     const product = productKey ? getProductRecommendation(productKey) : null;
 
     return {
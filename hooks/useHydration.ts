@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabaseGet, supabaseInsert, supabaseDelete } from '../services/supabaseRawFetch';
+import { getQueuedHydration, queueHydration, removeFromQueue, syncQueuedHydration, type QueuedHydration } from '../services/hydrationOfflineQueue';
+import { totalForDate, type HydrationEntry } from '../utils/hydration';
+
+export type { HydrationEntry } from '../utils/hydration';
+
+interface UseHydrationReturn {
+  entries: HydrationEntry[];
+  todayMl: number;
+  loading: boolean;
+  error: string | null;
+  addWater: (amountMl: number) => Promise<boolean>;
+  deleteEntry: (id: string) => Promise<boolean>;
+  refetch: () => void;
+}
+
+// Two weeks covers today's total, the rolling 24h window and the "still tracking?" lookback
+const HISTORY_DAYS = 14;
+
+const toLocalDate = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Queued (unsynced) logs still count toward today's total
+const queuedToEntry = (q: QueuedHydration, userId: string): HydrationEntry => ({
+  id: q.id,
+  user_id: userId,
+  ...q.payload,
+});
+
+export function useHydration(userId: string | undefined): UseHydrationReturn {
+  const [entries, setEntries] = useState<HydrationEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fetchKey, setFetchKey] = useState(0);
+
+  const refetch = useCallback(() => setFetchKey(k => k + 1), []);
+
+  const saveToServer = useCallback(async (payload: QueuedHydration['payload']): Promise<HydrationEntry | null> => {
+    if (!userId) return null;
+    const { data, error: insertError } = await supabaseInsert<HydrationEntry>(
+      'hydration_logs',
+      { user_id: userId, ...payload },
+    );
+    if (insertError) return null;
+    return data ?? { id: crypto.randomUUID(), user_id: userId, ...payload };
+  }, [userId]);
+
+  // Fetch recent logs (after flushing anything queued offline)
+  useEffect(() => {
+    if (!userId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    async function load() {
+      await syncQueuedHydration(async payload => !!(await saveToServer(payload)), userId);
+
+      const since = new Date();
+      since.setDate(since.getDate() - HISTORY_DAYS);
+      const { data, error: fetchError } = await supabaseGet<HydrationEntry[]>(
+        `hydration_logs?user_id=eq.${userId}&date=gte.${toLocalDate(since)}&order=created_at.desc`
+      );
+
+      if (cancelled) return;
+
+      const queued = getQueuedHydration()
+        .filter(q => q.userId === userId)
+        .map(q => queuedToEntry(q, userId!));
+
+      if (fetchError) {
+        setError(fetchError.message);
+        setEntries(queued);
+      } else {
+        setEntries([...queued, ...(data || [])]);
+      }
+      setLoading(false);
+    }
+
+    load();
+    return () => { cancelled = true; };
+  }, [userId, fetchKey, saveToServer]);
+
+  // Flush the queue when the connection comes back
+  useEffect(() => {
+    if (!userId) return;
+    const handleOnline = () => {
+      if (getQueuedHydration().some(q => q.userId === userId)) refetch();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [userId, refetch]);
+
+  // Log water; falls back to the offline queue so a tap is never lost
+  const addWater = useCallback(async (amountMl: number): Promise<boolean> => {
+    if (!userId || !(amountMl > 0)) return false;
+
+    const now = new Date();
+    const payload = { date: toLocalDate(now), amount_ml: Math.round(amountMl), created_at: now.toISOString() };
+
+    const saved = navigator.onLine ? await saveToServer(payload) : null;
+    if (saved) {
+      setEntries(prev => [saved, ...prev]);
+      return true;
+    }
+
+    const { queued, entry } = queueHydration(payload, userId);
+    if (!queued) {
+      setError('Could not save water log');
+      return false;
+    }
+    setEntries(prev => [queuedToEntry(entry, userId), ...prev]);
+    return true;
+  }, [userId, saveToServer]);
+
+  // Delete a log (queued logs are just dropped from the queue)
+  const deleteEntry = useCallback(async (id: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    if (getQueuedHydration().some(q => q.id === id)) {
+      removeFromQueue(id);
+    } else {
+      const { error: deleteError } = await supabaseDelete(
+        `hydration_logs?id=eq.${id}&user_id=eq.${userId}`
+      );
+      if (deleteError) {
+        setError(deleteError.message);
+        return false;
+      }
+    }
+
+    setEntries(prev => prev.filter(e => e.id !== id));
+    return true;
+  }, [userId]);
+
+  const today = toLocalDate(new Date());
+  const todayMl = useMemo(() => totalForDate(entries, today), [entries, today]);
+
+  return {
+    entries,
+    todayMl,
+    loading,
+    error,
+    addWater,
+    deleteEntry,
+    refetch,
+  };
+}
@@ -76,4 +76,6 @@ export const STORAGE_KEYS = {
   NUTRITION_LOG: 'sloefit_nutrition_log',
   USER_GOAL: 'sloefit_user_goal',
   CURRENT_DAY: 'sloefit_current_day',
+  PROGRESSION_SCHEME: 'sloefit_progression_scheme',
+  PLATE_INVENTORY: 'sloefit_plate_inventory',
 } as const;
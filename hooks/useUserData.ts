@@ -4,7 +4,16 @@ import { useAuth } from '../contexts/AuthContext';
 import { reportError, createScopedReporter } from '../utils/sentryHelpers';
 import { CompletedWorkout, NutritionLog } from '../App';
 import type { SupplementPreferences } from '../services/supplementService';
+import type { Micronutrients, PromptStamp } from '../lib/ai/types';
 import { validateSupplementPreferences } from '../services/supplementService';
+import { validateDietaryPreferences, type DietaryPreference } from '../utils/dietaryPreferences';
+import { validateFastingWindow, type FastingWindow } from '../utils/fasting';
+import { validateUnitSystem, type UnitSystem } from '../utils/units';
+import { calculateMicronutrientTargets, microsFromRow, microsToRow, sumMicronutrients } from '../utils/micronutrients';
+import { recipeFromRow, ingredientsToRows, type Recipe, type RecipeDraft, type RecipeRow } from '../services/recipeService';
+import { attachSetRows, setsToRows } from '../services/workoutSetService';
+import { recordsToRows, rowToRecord, type PersonalRecord } from '../services/personalRecords';
+import { MAX_MEAL_COPIES, withDate } from '../utils/mealRepeat';
 import {
     queueMeal,
     getQueuedMeals,
@@ -14,6 +23,10 @@ import {
     hasQueuedMeals,
     getQueuedCount,
     migrateQueueUserId,
+    queueMealMove,
+    moveQueuedMeal,
+    hasQueuedMoves,
+    syncQueuedMoves,
     type QueuedMeal
 } from '../services/offlineQueue';
 import { migrateWorkoutQueueUserId } from '../services/workoutOfflineQueue';
@@ -27,6 +40,8 @@ export interface NutritionTargets {
     protein: number;
     carbs: number;
     fats: number;
+    // Daily minimums, except sugar and sodium which are ceilings
+    micros: Micronutrients;
 }
 
 export type Gender = 'male' | 'female';
@@ -54,6 +69,15 @@ export interface UserProfile {
     supplement_preferences: SupplementPreferences | null;
     // When user signed up (for day counter)
     created_at: string | null;
+    // Accepted adaptive TDEE (see utils/adaptiveTdee.ts); replaces the formula estimate
+    adaptive_tdee: number | null;
+    adaptive_tdee_updated_at: string | null;
+    // Diets and allergens (see utils/dietaryPreferences.ts); [] when none declared
+    dietary_preferences: DietaryPreference[];
+    // Intermittent fasting eating window (see utils/fasting.ts); null when off
+    fasting_window: FastingWindow | null;
+    // Display units (see utils/units.ts); stored weights and heights stay lbs / inches
+    unit_system: UnitSystem;
 }
 
 // Meal entry type matching database schema
@@ -62,13 +86,14 @@ export interface MealEntry {
     user_id: string;
     date: string;
     meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack' | null;
-    input_method: 'photo' | 'text' | 'quick_add' | null;
+    input_method: 'photo' | 'text' | 'barcode' | 'recipe' | 'meal_plan' | 'quick_add' | null;
     description: string | null;
     photo_url: string | null;
     calories: number;
     protein: number;
     carbs: number;
     fats: number;
+    micros: Micronutrients | null; // Null when the meal had no USDA-matched foods
     created_at: string;
 }
 
@@ -91,9 +116,12 @@ interface DataState {
     goal: string | null;
     onboardingComplete: boolean | null;
     workouts: CompletedWorkout[];
+    // Stored PRs, including ones from workouts older than the loaded window
+    personalRecords: PersonalRecord[];
     nutritionLogs: NutritionLog[];
     mealEntries: MealEntry[];
     favorites: FavoriteFood[];
+    recipes: Recipe[];
 }
 
 type LoadingState = 'idle' | 'loading' | 'success' | 'error';
@@ -125,7 +153,12 @@ const DEFAULT_PROFILE: UserProfile = {
     trial_started_at: new Date().toISOString(),
     subscription_ends_at: null,
     supplement_preferences: null,
-    created_at: null
+    created_at: null,
+    adaptive_tdee: null,
+    adaptive_tdee_updated_at: null,
+    dietary_preferences: [],
+    fasting_window: null,
+    unit_system: 'imperial'
 };
 
 const INITIAL_STATE: DataState = {
@@ -133,9 +166,11 @@ const INITIAL_STATE: DataState = {
     goal: null,
     onboardingComplete: null,
     workouts: [],
+    personalRecords: [],
     nutritionLogs: [],
     mealEntries: [],
-    favorites: []
+    favorites: [],
+    recipes: []
 };
 
 // Activity multiplier lookup for TDEE calculation (Harris-Benedict scale)
@@ -163,7 +198,7 @@ const calculateBMR = (weightLbs: number, heightInches: number, age: number, gend
     return Math.round(10 * weightKg + 6.25 * heightCm - 5 * age + genderOffset);
 };
 
-const getDefaultTargets = (goal: string | null): NutritionTargets => {
+const getDefaultTargets = (goal: string | null): Omit<NutritionTargets, 'micros'> => {
     switch (goal) {
         case 'CUT':
             return { calories: 1800, protein: 200, carbs: 150, fats: 60 };
@@ -175,14 +210,28 @@ const getDefaultTargets = (goal: string | null): NutritionTargets => {
     }
 };
 
-export const calculateNutritionTargets = (profile: UserProfile): NutritionTargets => {
+type TdeeProfile = Pick<UserProfile, 'weight_lbs' | 'height_inches' | 'age' | 'gender' | 'activity_level' | 'adaptive_tdee'>;
+
+/**
+ * Daily expenditure behind the targets: the accepted adaptive estimate when
+ * there is one, else Mifflin-St Jeor × activity. Null without enough profile data.
+ */
+export const estimateTdee = (profile: TdeeProfile): number | null => {
+    if (profile.adaptive_tdee) return profile.adaptive_tdee;
     // FIX 19: Require gender to be set for personalized BMR — prevents biased defaults
     // Without gender, Mifflin-St Jeor would silently use male offset (+5), giving female users
     // targets that are 166 calories too high. Fall back to generic defaults instead.
     if (profile.weight_lbs && profile.height_inches && profile.age && profile.gender) {
         const bmr = calculateBMR(profile.weight_lbs, profile.height_inches, profile.age, profile.gender);
         const multiplier = ACTIVITY_MULTIPLIERS[profile.activity_level || 'moderately_active'];
-        const tdee = Math.round(bmr * multiplier);
+        return Math.round(bmr * multiplier);
+    }
+    return null;
+};
+
+export const calculateNutritionTargets = (profile: UserProfile): NutritionTargets => {
+    const tdee = estimateTdee(profile);
+    if (tdee !== null && profile.weight_lbs) {
         const goalAdjustment = { CUT: -500, BULK: 300, RECOMP: 0 }[profile.goal || 'RECOMP'] || 0;
         // FIX 3.3: Enforce minimum calorie floor for safety
         const calories = Math.max(MIN_CALORIE_FLOOR, tdee + goalAdjustment);
@@ -193,9 +242,10 @@ export const calculateNutritionTargets = (profile: UserProfile): NutritionTarget
         // FIX 22: Prevent negative carbs when calorie floor + high protein
         const carbs = Math.max(0, carbsRaw);
 
-        return { calories, protein, carbs, fats };
+        return { calories, protein, carbs, fats, micros: calculateMicronutrientTargets(profile, calories) };
     }
-    return getDefaultTargets(profile.goal);
+    const defaults = getDefaultTargets(profile.goal);
+    return { ...defaults, micros: calculateMicronutrientTargets(profile, defaults.calories) };
 };
 
 // Format date consistently for storage (local timezone, not UTC)
@@ -212,6 +262,39 @@ const formatDateForDisplay = (date: Date | string): string => {
     return d.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
 };
 
+/**
+ * Recompute a day's nutrition_logs row from its meal_entries in the DB (source
+ * of truth) and upsert it. Returns the new totals, or null if either request
+ * failed (e.g. offline; the queue sync recomputes later).
+ */
+const rollupNutritionLog = async (userId: string, date: string): Promise<NutritionLog | null> => {
+    // Uses supabaseGet for retry, timeout, and fresh token per request
+    const { data: meals, error: fetchError } = await supabaseGet<{ calories: number; protein: number; carbs: number; fats: number }[]>(
+        `meal_entries?select=calories,protein,carbs,fats&user_id=eq.${userId}&date=eq.${date}`,
+        { dedupe: false }
+    );
+    if (fetchError || !Array.isArray(meals)) return null;
+
+    const totals = meals.reduce(
+        (acc, m) => ({
+            calories: acc.calories + (m.calories || 0),
+            protein: acc.protein + (m.protein || 0),
+            carbs: acc.carbs + (m.carbs || 0),
+            fats: acc.fats + (m.fats || 0),
+        }),
+        { calories: 0, protein: 0, carbs: 0, fats: 0 }
+    );
+
+    const { error: upsertError } = await supabaseUpsert('nutrition_logs', {
+        user_id: userId,
+        date,
+        ...totals
+    }, 'user_id,date');
+    if (upsertError) return null;
+
+    return { date, ...totals };
+};
+
 // ============================================================================
 // Hook
 // ============================================================================
@@ -258,7 +341,7 @@ export const useUserData = () => {
         try {
             // Fetch all data in parallel using supabaseGet (retry, timeout, dedup built-in)
             const profileFetch = supabaseGet<any[]>(
-                `profiles?select=goal,onboarding_complete,height_inches,weight_lbs,age,gender,activity_level,training_experience,equipment_access,days_per_week,full_name,role,trainer_id,supplement_preferences,created_at,subscription_status,trial_started_at,subscription_ends_at,subscription_provider,subscription_plan,stripe_customer_id&id=eq.${userId}`
+                `profiles?select=goal,onboarding_complete,height_inches,weight_lbs,age,gender,activity_level,training_experience,equipment_access,days_per_week,full_name,role,trainer_id,supplement_preferences,created_at,adaptive_tdee,adaptive_tdee_updated_at,dietary_preferences,fasting_window,unit_system,subscription_status,trial_started_at,subscription_ends_at,subscription_provider,subscription_plan,stripe_customer_id&id=eq.${userId}`
             ).then(r => {
                 if (r.data && Array.isArray(r.data) && r.data.length > 0) {
                     return { data: r.data[0], error: null };
@@ -268,7 +351,15 @@ export const useUserData = () => {
                 return r;
             });
 
-            const workoutsFetch = supabaseGet<any[]>(`workouts?select=*&user_id=eq.${userId}&order=date.desc&limit=50`);
+            // Set rows and PRs are embedded. If either migration is missing the embed fails,
+            // so fall back to the bare workouts; their exercises JSON still has the sets.
+            const workoutsFetch = supabaseGet<any[]>(`workouts?select=*,workout_sets(*),personal_records(*)&user_id=eq.${userId}&order=date.desc&limit=50`)
+                .then(r => r.error
+                    ? supabaseGet<any[]>(`workouts?select=*&user_id=eq.${userId}&order=date.desc&limit=50`)
+                    : r);
+
+            // Every PR beats the one before it, so the newest rows hold each exercise's bests
+            const recordsFetch = supabaseGet<any[]>(`personal_records?select=exercise_key,exercise_id,exercise_name,record_type,value,previous_value,weight_lbs,reps,achieved_at&user_id=eq.${userId}&order=achieved_at.desc&limit=500`);
 
             const nutritionFetch = supabaseGet<any[]>(`nutrition_logs?select=*&user_id=eq.${userId}&order=date.desc&limit=30`);
 
@@ -276,9 +367,11 @@ export const useUserData = () => {
 
             const favoritesFetch = supabaseGet<any[]>(`favorite_foods?select=*&user_id=eq.${userId}&order=times_logged.desc&limit=20`);
 
-            const [profileResult, workoutsResult, nutritionResult, mealEntriesResult, favoritesResult] = await Promise.all([
-                profileFetch, workoutsFetch, nutritionFetch, mealEntriesFetch, favoritesFetch
-            ]) as [any, any, any, any, any];
+            const recipesFetch = supabaseGet<RecipeRow[]>(`recipes?select=*,recipe_ingredients(*)&user_id=eq.${userId}&order=updated_at.desc&limit=50`);
+
+            const [profileResult, workoutsResult, recordsResult, nutritionResult, mealEntriesResult, favoritesResult, recipesResult] = await Promise.all([
+                profileFetch, workoutsFetch, recordsFetch, nutritionFetch, mealEntriesFetch, favoritesFetch, recipesFetch
+            ]) as [any, any, any, any, any, any, any];
 
             // Check if request was aborted or user changed
             if (signal.aborted || currentUserIdRef.current !== userId) {
@@ -309,7 +402,12 @@ export const useUserData = () => {
                     trial_started_at: p.trial_started_at || null,
                     subscription_ends_at: p.subscription_ends_at || null,
                     supplement_preferences: validateSupplementPreferences(p.supplement_preferences),
-                    created_at: p.created_at || null
+                    created_at: p.created_at || null,
+                    adaptive_tdee: p.adaptive_tdee ?? null,
+                    adaptive_tdee_updated_at: p.adaptive_tdee_updated_at ?? null,
+                    dietary_preferences: validateDietaryPreferences(p.dietary_preferences),
+                    fasting_window: validateFastingWindow(p.fasting_window),
+                    unit_system: validateUnitSystem(p.unit_system)
                 };
                 goal = p.goal;
                 onboardingComplete = p.onboarding_complete ?? false;
@@ -343,13 +441,25 @@ export const useUserData = () => {
             let workouts: CompletedWorkout[] = [];
             if (workoutsResult.data && !workoutsResult.error) {
                 workouts = workoutsResult.data.map((w: any) => ({
+                    id: w.id,
                     date: formatDateForDisplay(w.date),
                     rawDate: w.date,
                     title: w.title || 'Workout',
-                    log: Array.isArray(w.exercises) ? w.exercises : []
+                    log: attachSetRows(Array.isArray(w.exercises) ? w.exercises : [], w.workout_sets),
+                    records: (w.personal_records || [])
+                        .map(rowToRecord)
+                        .filter((r: PersonalRecord | null): r is PersonalRecord => r !== null)
                 }));
             }
 
+            // Process stored PRs (the baseline for detecting new ones)
+            let personalRecords: PersonalRecord[] = [];
+            if (recordsResult.data && !recordsResult.error) {
+                personalRecords = recordsResult.data
+                    .map(rowToRecord)
+                    .filter((r: PersonalRecord | null): r is PersonalRecord => r !== null);
+            }
+
             // Process nutrition logs
             let nutritionLogs: NutritionLog[] = [];
             if (nutritionResult.data && !nutritionResult.error) {
@@ -377,6 +487,7 @@ export const useUserData = () => {
                     protein: m.protein || 0,
                     carbs: m.carbs || 0,
                     fats: m.fats || 0,
+                    micros: microsFromRow(m),
                     created_at: m.created_at
                 }));
             }
@@ -398,6 +509,12 @@ export const useUserData = () => {
                 }));
             }
 
+            // Process recipes (ingredients embedded via the recipe_id foreign key)
+            let recipes: Recipe[] = [];
+            if (recipesResult.data && !recipesResult.error) {
+                recipes = recipesResult.data.map(recipeFromRow);
+            }
+
             // Update state atomically
             if (isMountedRef.current && currentUserIdRef.current === userId) {
                 setData({
@@ -405,9 +522,11 @@ export const useUserData = () => {
                     goal,
                     onboardingComplete,
                     workouts,
+                    personalRecords,
                     nutritionLogs,
                     mealEntries,
-                    favorites
+                    favorites,
+                    recipes
                 });
                 setLoadingState('success');
                 hasFetchedRef.current = true;
@@ -483,7 +602,7 @@ export const useUserData = () => {
 
         const syncQueued = async () => {
             const queue = getQueuedMeals().filter(m => !m.userId || m.userId === user.id);
-            if (queue.length === 0) return;
+            if (queue.length === 0 && !hasQueuedMoves()) return;
 
             console.log(`[useUserData] Back online - syncing ${queue.length} queued meals`);
             const affectedDates = new Set<string>();
@@ -499,6 +618,9 @@ export const useUserData = () => {
                     // Use the stored date from when the meal was originally logged, or fall back to today
                     const mealDate = meal.payload.date || formatDateForDB();
                     const { data: savedData, error } = await supabaseInsert('meal_entries', {
+                        // Same id and time as the local entry, so later moves and edits find the row
+                        ...(meal.payload.entryId && { id: meal.payload.entryId }),
+                        ...(meal.payload.createdAt && { created_at: meal.payload.createdAt }),
                         user_id: user.id,
                         date: mealDate,
                         meal_type: meal.payload.mealType || null,
@@ -508,7 +630,8 @@ export const useUserData = () => {
                         calories: meal.payload.calories,
                         protein: meal.payload.protein,
                         carbs: meal.payload.carbs,
-                        fats: meal.payload.fats
+                        fats: meal.payload.fats,
+                        ...microsToRow(meal.payload.micros)
                     });
 
                     if (!error) {
@@ -516,13 +639,14 @@ export const useUserData = () => {
                         affectedDates.add(mealDate);
 
                         // Update local state with the synced entry's real ID
+                        const localId = meal.payload.entryId ?? meal.id;
                         const realId = savedData && Array.isArray(savedData) && savedData[0]?.id
                             ? savedData[0].id
-                            : meal.id;
+                            : localId;
                         setData(prev => ({
                             ...prev,
                             mealEntries: prev.mealEntries.map(m =>
-                                m.id === meal.id ? { ...m, id: realId } : m
+                                m.id === localId ? { ...m, id: realId } : m
                             )
                         }));
 
@@ -537,6 +661,8 @@ export const useUserData = () => {
                                     has_usda_data: meal.payload.scanData.hasUSDAData,
                                     user_edited: meal.payload.scanData.userEdited,
                                     portion_multipliers: meal.payload.scanData.portionMultipliers,
+                                    prompt_id: meal.payload.scanData.prompt?.id ?? null,
+                                    prompt_version: meal.payload.scanData.prompt?.version ?? null,
                                 });
                                 console.log(`[useUserData] Synced scan data for meal: ${meal.payload.description}`);
                             } catch (scanErr) {
@@ -563,44 +689,33 @@ export const useUserData = () => {
 
             setOfflineQueueCount(getQueuedCount());
 
-            // Persist nutrition_logs for dates that had meals synced
+            // Meals moved to another date while offline
+            const moves = await syncQueuedMoves(async move => {
+                const { error } = await supabaseUpdate(
+                    `meal_entries?id=eq.${move.entryId}&user_id=eq.${user.id}`,
+                    { date: move.toDate }
+                );
+                return !error;
+            }, user.id);
+            for (const move of moves) {
+                affectedDates.add(move.fromDate);
+                affectedDates.add(move.toDate);
+            }
+
+            // Persist nutrition_logs for dates that had meals synced or moved
             // These were updated optimistically during offline save but the Supabase upsert failed
-            // We fetch meal_entries from the DB directly to get authoritative totals
             if (affectedDates.size > 0) {
                 console.log(`[useUserData] Persisting nutrition_logs for ${affectedDates.size} date(s)`);
 
                 for (const date of affectedDates) {
                     try {
-                        // Fetch all meal_entries for this date from DB (source of truth)
-                        // Uses supabaseGet for retry, timeout, and fresh token per request
-                        const { data: meals, error: fetchError } = await supabaseGet<{ calories: number; protein: number; carbs: number; fats: number }[]>(
-                            `meal_entries?select=calories,protein,carbs,fats&user_id=eq.${user.id}&date=eq.${date}`,
-                            { dedupe: false }
-                        );
-
-                        if (!fetchError && Array.isArray(meals)) {
-                            const totals = meals.reduce(
-                                (acc, m) => ({
-                                    calories: acc.calories + (m.calories || 0),
-                                    protein: acc.protein + (m.protein || 0),
-                                    carbs: acc.carbs + (m.carbs || 0),
-                                    fats: acc.fats + (m.fats || 0),
-                                }),
-                                { calories: 0, protein: 0, carbs: 0, fats: 0 }
-                            );
-
-                            await supabaseUpsert('nutrition_logs', {
-                                user_id: user.id,
-                                date,
-                                ...totals
-                            }, 'user_id,date');
-
+                        const updatedLog = await rollupNutritionLog(user.id, date);
+                        if (updatedLog) {
                             // Also update local state to match
                             setData(prev => {
                                 const existingIdx = prev.nutritionLogs.findIndex(l =>
                                     l.date === date || l.date.split('T')[0] === date
                                 );
-                                const updatedLog = { date, ...totals };
                                 const newLogs = [...prev.nutritionLogs];
                                 if (existingIdx >= 0) {
                                     newLogs[existingIdx] = updatedLog;
@@ -610,7 +725,7 @@ export const useUserData = () => {
                                 return { ...prev, nutritionLogs: newLogs };
                             });
 
-                            console.log(`[useUserData] Persisted nutrition_logs for ${date}:`, totals);
+                            console.log(`[useUserData] Persisted nutrition_logs for ${date}:`, updatedLog);
                         }
                     } catch (err) {
                         console.error(`[useUserData] Failed to persist nutrition_logs for ${date}:`, err);
@@ -625,7 +740,7 @@ export const useUserData = () => {
         });
 
         // Also try to sync on mount if online and there are queued meals
-        if (navigator.onLine && hasQueuedMeals()) {
+        if (navigator.onLine && (hasQueuedMeals() || hasQueuedMoves())) {
             syncQueued();
         }
 
@@ -700,14 +815,18 @@ export const useUserData = () => {
     }, [user, data.goal, data.profile.supplement_preferences]);
 
     // Add workout - returns true if saved successfully, false otherwise
-    const addWorkout = useCallback(async (title: string, exercises: any[], recoveryRating?: number): Promise<boolean> => {
+    const addWorkout = useCallback(async (title: string, exercises: any[], recoveryRating?: number, records: PersonalRecord[] = []): Promise<boolean> => {
         if (!user) return false;
 
+        const workoutId = crypto.randomUUID();
+        const performedAt = new Date().toISOString();
         const newWorkout: CompletedWorkout = {
+            id: workoutId,
             date: formatDateForDisplay(new Date()),
-            rawDate: new Date().toISOString(),
+            rawDate: performedAt,
             title,
-            log: exercises
+            log: attachSetRows(exercises, null),
+            records
         };
 
         // Optimistic update
@@ -718,9 +837,10 @@ export const useUserData = () => {
 
         try {
             const { error } = await supabaseInsert('workouts', {
+                id: workoutId,
                 user_id: user.id,
                 title,
-                date: new Date().toISOString(),
+                date: performedAt,
                 exercises,
                 recovery_rating: recoveryRating
             });
@@ -733,6 +853,40 @@ export const useUserData = () => {
                 }));
                 return false;
             }
+
+            // One row per set. Best-effort like the fetch: the exercises JSON already
+            // holds every set, so a workout without rows (e.g. the migration hasn't
+            // run) still reads back in full.
+            const setRows = setsToRows(workoutId, user.id, performedAt, exercises);
+            if (setRows.length > 0) {
+                const { error: setsError } = await supabaseInsert('workout_sets', setRows);
+                if (setsError) {
+                    reportError(setsError, {
+                        category: 'data_save',
+                        operation: 'saveWorkoutSets',
+                        userId: user.id,
+                        severity: 'warning',
+                        context: { workoutId, sets: setRows.length },
+                    });
+                }
+            }
+
+            // PR history. The workout is saved, so failure is only a warning.
+            if (records.length > 0) {
+                const { error: recordsError } = await supabaseInsert(
+                    'personal_records',
+                    recordsToRows(workoutId, user.id, performedAt, records)
+                );
+                if (recordsError) {
+                    reportError(recordsError, {
+                        category: 'data_save',
+                        operation: 'savePersonalRecords',
+                        userId: user.id,
+                        severity: 'warning',
+                        context: { workoutId, records: records.length },
+                    });
+                }
+            }
             return true;
         } catch {
             // Revert on error
@@ -872,8 +1026,9 @@ export const useUserData = () => {
         protein: number;
         carbs: number;
         fats: number;
+        micros?: Micronutrients;
         mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-        inputMethod?: 'photo' | 'text' | 'quick_add';
+        inputMethod?: 'photo' | 'text' | 'barcode' | 'recipe' | 'meal_plan' | 'quick_add';
         photoUrl?: string;
         date?: string; // Override date (for midnight edge case)
         scanData?: {
@@ -882,6 +1037,7 @@ export const useUserData = () => {
             hasUSDAData: boolean;
             userEdited: boolean;
             portionMultipliers: Record<number, number>;
+            prompt?: PromptStamp;
         };
     }): Promise<MealEntry | null> => {
         console.log('[saveMealEntry] Called with:', entry);
@@ -908,6 +1064,7 @@ export const useUserData = () => {
             protein: entry.protein,
             carbs: entry.carbs,
             fats: entry.fats,
+            micros: entry.micros ?? null,
             created_at: now
         };
 
@@ -921,11 +1078,14 @@ export const useUserData = () => {
         if (!navigator.onLine) {
             console.log('[saveMealEntry] Offline - queuing meal for later sync');
             queueMeal({
+                entryId: optimisticEntry.id,
+                createdAt: now,
                 description: entry.description,
                 calories: entry.calories,
                 protein: entry.protein,
                 carbs: entry.carbs,
                 fats: entry.fats,
+                micros: entry.micros,
                 mealType: entry.mealType,
                 inputMethod: entry.inputMethod,
                 photoUrl: entry.photoUrl,
@@ -955,7 +1115,8 @@ export const useUserData = () => {
                 calories: entry.calories,
                 protein: entry.protein,
                 carbs: entry.carbs,
-                fats: entry.fats
+                fats: entry.fats,
+                ...microsToRow(entry.micros)
             });
 
             console.log('[saveMealEntry] Supabase response:', { savedData, error });
@@ -966,11 +1127,14 @@ export const useUserData = () => {
                 if (!navigator.onLine) {
                     console.log('[saveMealEntry] Network error - queuing meal');
                     queueMeal({
+                        entryId: optimisticEntry.id,
+                        createdAt: now,
                         description: entry.description,
                         calories: entry.calories,
                         protein: entry.protein,
                         carbs: entry.carbs,
                         fats: entry.fats,
+                        micros: entry.micros,
                         mealType: entry.mealType,
                         inputMethod: entry.inputMethod,
                         photoUrl: entry.photoUrl,
@@ -1018,6 +1182,8 @@ export const useUserData = () => {
                             has_usda_data: entry.scanData.hasUSDAData,
                             user_edited: entry.scanData.userEdited,
                             portion_multipliers: entry.scanData.portionMultipliers,
+                            prompt_id: entry.scanData.prompt?.id ?? null,
+                            prompt_version: entry.scanData.prompt?.version ?? null,
                         });
                         console.log('[saveMealEntry] Scan data saved for analytics');
                     } catch (scanErr) {
@@ -1047,11 +1213,14 @@ export const useUserData = () => {
             if (!navigator.onLine) {
                 console.log('[saveMealEntry] Caught error while offline - queuing meal');
                 queueMeal({
+                    entryId: optimisticEntry.id,
+                    createdAt: now,
                     description: entry.description,
                     calories: entry.calories,
                     protein: entry.protein,
                     carbs: entry.carbs,
                     fats: entry.fats,
+                    micros: entry.micros,
                     mealType: entry.mealType,
                     inputMethod: entry.inputMethod,
                     photoUrl: entry.photoUrl,
@@ -1161,6 +1330,206 @@ export const useUserData = () => {
         }
     }, [user]);
 
+    // Recompute daily totals for every date touched by a copy or move. Local state first,
+    // so a day emptied by a move drops to zero; then the DB rollup (fire-and-forget) when
+    // online. Offline changes are rolled up by the queue sync instead.
+    const refreshDailyTotals = useCallback((dates: string[]) => {
+        if (!user) return;
+
+        setData(prev => {
+            const newLogs = [...prev.nutritionLogs];
+            for (const date of dates) {
+                const totals = prev.mealEntries.filter(m => m.date === date).reduce(
+                    (acc, m) => ({
+                        calories: acc.calories + (m.calories || 0),
+                        protein: acc.protein + (m.protein || 0),
+                        carbs: acc.carbs + (m.carbs || 0),
+                        fats: acc.fats + (m.fats || 0),
+                    }),
+                    { calories: 0, protein: 0, carbs: 0, fats: 0 }
+                );
+                const updatedLog: NutritionLog = {
+                    date,
+                    calories: Math.round(totals.calories),
+                    protein: Math.round(totals.protein),
+                    carbs: Math.round(totals.carbs),
+                    fats: Math.round(totals.fats)
+                };
+                const existingIdx = newLogs.findIndex(l => l.date === date || l.date.split('T')[0] === date);
+                if (existingIdx >= 0) {
+                    newLogs[existingIdx] = updatedLog;
+                } else {
+                    newLogs.unshift(updatedLog);
+                }
+            }
+            return { ...prev, nutritionLogs: newLogs };
+        });
+
+        if (!navigator.onLine) return;
+        (async () => {
+            for (const date of dates) {
+                try {
+                    await rollupNutritionLog(user.id, date);
+                } catch (err) {
+                    console.error(`[refreshDailyTotals] Failed to persist nutrition_logs for ${date}:`, err);
+                }
+            }
+        })();
+    }, [user]);
+
+    // Copy meal entries onto one or more dates (copy to a day, repeat a day, repeat weekly).
+    // Copies keep their time of day. Returns how many entries were created (0 on failure).
+    const copyMealEntries = useCallback(async (entryIds: string[], dates: string[]): Promise<number> => {
+        if (!user) return 0;
+
+        const sources = data.mealEntries.filter(m => entryIds.includes(m.id));
+        if (sources.length === 0 || dates.length === 0) return 0;
+        if (sources.length * dates.length > MAX_MEAL_COPIES) {
+            console.warn(`[copyMealEntries] ${sources.length * dates.length} copies exceeds the ${MAX_MEAL_COPIES} limit`);
+            return 0;
+        }
+
+        // Client-generated ids so a single bulk insert needs no id mapping afterwards
+        const copies: MealEntry[] = dates.flatMap(date => sources.map(m => ({
+            ...m,
+            id: crypto.randomUUID(),
+            date,
+            created_at: withDate(m.created_at, date),
+        })));
+        const copyIds = new Set(copies.map(c => c.id));
+
+        setData(prev => ({
+            ...prev,
+            mealEntries: [...copies, ...prev.mealEntries]
+        }));
+
+        const queueCopies = () => {
+            for (const copy of copies) {
+                queueMeal({
+                    entryId: copy.id,
+                    createdAt: copy.created_at,
+                    description: copy.description || 'Meal',
+                    calories: copy.calories,
+                    protein: copy.protein,
+                    carbs: copy.carbs,
+                    fats: copy.fats,
+                    micros: copy.micros ?? undefined,
+                    mealType: copy.meal_type ?? undefined,
+                    inputMethod: copy.input_method ?? undefined,
+                    photoUrl: copy.photo_url ?? undefined,
+                    date: copy.date,
+                }, user.id);
+            }
+            setOfflineQueueCount(getQueuedCount());
+            refreshDailyTotals(dates);
+            return copies.length;
+        };
+
+        if (!navigator.onLine) return queueCopies();
+
+        try {
+            const { error } = await supabaseInsert('meal_entries', copies.map(copy => ({
+                id: copy.id,
+                user_id: user.id,
+                date: copy.date,
+                meal_type: copy.meal_type,
+                input_method: copy.input_method,
+                description: copy.description,
+                photo_url: copy.photo_url,
+                calories: copy.calories,
+                protein: copy.protein,
+                carbs: copy.carbs,
+                fats: copy.fats,
+                created_at: copy.created_at,
+                ...microsToRow(copy.micros ?? undefined)
+            })));
+
+            if (error) {
+                if (!navigator.onLine) return queueCopies();
+                throw error;
+            }
+
+            refreshDailyTotals(dates);
+            return copies.length;
+        } catch (err) {
+            reportError(err, {
+                category: 'data_save',
+                operation: 'copyMealEntries',
+                userId: user.id,
+                context: { entries: sources.length, dates: dates.length },
+            });
+            if (!navigator.onLine) return queueCopies();
+            setData(prev => ({
+                ...prev,
+                mealEntries: prev.mealEntries.filter(m => !copyIds.has(m.id))
+            }));
+            return 0;
+        }
+    }, [user, data.mealEntries, refreshDailyTotals]);
+
+    // Move meal entries to another date. Both the old and new dates get their totals recomputed.
+    const moveMealEntries = useCallback(async (entryIds: string[], toDate: string): Promise<boolean> => {
+        if (!user) return false;
+
+        const moving = data.mealEntries.filter(m => entryIds.includes(m.id) && m.date !== toDate);
+        if (moving.length === 0) return false;
+
+        const originalDates = new Map(moving.map(m => [m.id, m.date]));
+        const affectedDates = [...new Set([...originalDates.values(), toDate])];
+
+        setData(prev => ({
+            ...prev,
+            mealEntries: prev.mealEntries.map(m => originalDates.has(m.id) ? { ...m, date: toDate } : m)
+        }));
+
+        // Meals still waiting in the offline queue have no row yet: change the date they'll be inserted with
+        const saved = moving.filter(m => !moveQueuedMeal(m.id, toDate));
+        if (saved.length === 0) {
+            refreshDailyTotals(affectedDates);
+            return true;
+        }
+
+        const queueMoves = () => {
+            for (const m of saved) {
+                queueMealMove({ entryId: m.id, fromDate: m.date, toDate }, user.id);
+            }
+            refreshDailyTotals(affectedDates);
+            return true;
+        };
+
+        if (!navigator.onLine) return queueMoves();
+
+        try {
+            const { error } = await supabaseUpdate(
+                `meal_entries?id=in.(${saved.map(m => m.id).join(',')})&user_id=eq.${user.id}`,
+                { date: toDate }
+            );
+
+            if (error) {
+                if (!navigator.onLine) return queueMoves();
+                throw error;
+            }
+
+            refreshDailyTotals(affectedDates);
+            return true;
+        } catch (err) {
+            reportError(err, {
+                category: 'data_save',
+                operation: 'moveMealEntries',
+                userId: user.id,
+                context: { entries: moving.length, toDate },
+            });
+            if (!navigator.onLine) return queueMoves();
+            // Queued meals were already moved in the queue; only the failed update is undone
+            const failed = new Set(saved.map(m => m.id));
+            setData(prev => ({
+                ...prev,
+                mealEntries: prev.mealEntries.map(m => failed.has(m.id) ? { ...m, date: originalDates.get(m.id)! } : m)
+            }));
+            return false;
+        }
+    }, [user, data.mealEntries, refreshDailyTotals]);
+
     // Add to favorites - Bug #7 fix
     const addToFavorites = useCallback(async (meal: {
         name: string;
@@ -1281,6 +1650,111 @@ export const useUserData = () => {
         }
     }, [user, data.favorites]);
 
+    // Create or update a recipe. Ingredients are replaced wholesale on edit.
+    // Not optimistic: the builder waits for the save so a failed save keeps the draft open.
+    const saveRecipe = useCallback(async (draft: RecipeDraft): Promise<Recipe | null> => {
+        if (!user) return null;
+
+        const now = new Date().toISOString();
+        const existing = draft.id ? data.recipes.find(r => r.id === draft.id) : undefined;
+        const recipe: Recipe = {
+            id: existing?.id ?? crypto.randomUUID(),
+            user_id: user.id,
+            name: draft.name.trim(),
+            servings: draft.servings,
+            ingredients: draft.ingredients,
+            created_at: existing?.created_at ?? now,
+            updated_at: now
+        };
+
+        try {
+            if (existing) {
+                const { error: updateError } = await supabaseUpdate(`recipes?id=eq.${recipe.id}`, {
+                    name: recipe.name,
+                    servings: recipe.servings,
+                    updated_at: now
+                });
+                if (updateError) return null;
+
+                const { error: clearError } = await supabaseDelete(`recipe_ingredients?recipe_id=eq.${recipe.id}`);
+                if (clearError) return null;
+            } else {
+                const { error: insertError } = await supabaseInsert('recipes', {
+                    id: recipe.id,
+                    user_id: user.id,
+                    name: recipe.name,
+                    servings: recipe.servings
+                });
+                if (insertError) return null;
+            }
+
+            if (recipe.ingredients.length > 0) {
+                const { error: ingredientsError } = await supabaseInsert(
+                    'recipe_ingredients',
+                    ingredientsToRows(recipe.id, user.id, recipe.ingredients)
+                );
+                if (ingredientsError) {
+                    reportError(ingredientsError, {
+                        category: 'data_save',
+                        operation: 'saveRecipe',
+                        userId: user.id,
+                        context: { recipeId: recipe.id },
+                    });
+                    // Don't leave an empty new recipe behind
+                    if (!existing) await supabaseDelete(`recipes?id=eq.${recipe.id}`);
+                    return null;
+                }
+            }
+
+            setData(prev => ({
+                ...prev,
+                recipes: [recipe, ...prev.recipes.filter(r => r.id !== recipe.id)]
+            }));
+            return recipe;
+        } catch (err) {
+            reportError(err, {
+                category: 'data_save',
+                operation: 'saveRecipe',
+                userId: user.id,
+                context: { recipeId: recipe.id },
+            });
+            return null;
+        }
+    }, [user, data.recipes]);
+
+    // Delete a recipe (ingredients cascade)
+    const deleteRecipe = useCallback(async (recipeId: string): Promise<boolean> => {
+        if (!user) return false;
+
+        const recipeToDelete = data.recipes.find(r => r.id === recipeId);
+        if (!recipeToDelete) return false;
+
+        setData(prev => ({
+            ...prev,
+            recipes: prev.recipes.filter(r => r.id !== recipeId)
+        }));
+
+        try {
+            const { error: deleteError } = await supabaseDelete(`recipes?id=eq.${recipeId}`);
+
+            if (deleteError) {
+                setData(prev => ({
+                    ...prev,
+                    recipes: [recipeToDelete, ...prev.recipes]
+                }));
+                return false;
+            }
+
+            return true;
+        } catch {
+            setData(prev => ({
+                ...prev,
+                recipes: [recipeToDelete, ...prev.recipes]
+            }));
+            return false;
+        }
+    }, [user, data.recipes]);
+
     // Update supplement preferences
     // RALPH LOOP 10: Added error feedback (was silent failure)
     // RALPH LOOP 17: Validates supplement IDs exist in catalog
@@ -1371,7 +1845,7 @@ export const useUserData = () => {
         // This bypasses the hasFetchedRef guard that was preventing legitimate refetches
         try {
             const { data: profile, error } = await supabaseGetSingle<any>(
-                `profiles?id=eq.${user.id}&select=goal,onboarding_complete,height_inches,weight_lbs,age,gender,activity_level,training_experience,equipment_access,days_per_week,full_name,role,trainer_id,supplement_preferences,created_at,subscription_status,trial_started_at,subscription_ends_at`
+                `profiles?id=eq.${user.id}&select=goal,onboarding_complete,height_inches,weight_lbs,age,gender,activity_level,training_experience,equipment_access,days_per_week,full_name,role,trainer_id,supplement_preferences,created_at,adaptive_tdee,adaptive_tdee_updated_at,dietary_preferences,fasting_window,unit_system,subscription_status,trial_started_at,subscription_ends_at`
             );
 
             if (error) {
@@ -1402,7 +1876,12 @@ export const useUserData = () => {
                         trial_started_at: profile.trial_started_at || null,
                         subscription_ends_at: profile.subscription_ends_at || null,
                         supplement_preferences: profile.supplement_preferences || null,
-                        created_at: profile.created_at || null
+                        created_at: profile.created_at || null,
+                        adaptive_tdee: profile.adaptive_tdee ?? null,
+                        adaptive_tdee_updated_at: profile.adaptive_tdee_updated_at ?? null,
+                        dietary_preferences: validateDietaryPreferences(profile.dietary_preferences),
+                        fasting_window: validateFastingWindow(profile.fasting_window),
+                        unit_system: validateUnitSystem(profile.unit_system)
                     }
                 }));
             }
@@ -1416,7 +1895,7 @@ export const useUserData = () => {
     // Computed values - memoize to prevent recalculation
     const nutritionTargets = useMemo(
         () => calculateNutritionTargets(data.profile),
-        [data.profile.weight_lbs, data.profile.height_inches, data.profile.age, data.profile.goal, data.profile.gender, data.profile.activity_level]
+        [data.profile.weight_lbs, data.profile.height_inches, data.profile.age, data.profile.goal, data.profile.gender, data.profile.activity_level, data.profile.adaptive_tdee]
     );
 
     // Single source of truth: compute daily nutrition totals from mealEntries.
@@ -1425,6 +1904,7 @@ export const useUserData = () => {
     const computedNutritionLogs = useMemo<NutritionLog[]>(() => {
         // Group mealEntries by date and sum macros
         const mealTotalsByDate = new Map<string, NutritionLog>();
+        const microsByDate = new Map<string, (Micronutrients | null)[]>();
         for (const meal of data.mealEntries) {
             const date = meal.date.includes('T') ? meal.date.split('T')[0] : meal.date;
             const existing = mealTotalsByDate.get(date);
@@ -1442,6 +1922,7 @@ export const useUserData = () => {
                     fats: meal.fats || 0
                 });
             }
+            microsByDate.set(date, [...(microsByDate.get(date) ?? []), meal.micros]);
         }
 
         // Round computed values
@@ -1450,6 +1931,9 @@ export const useUserData = () => {
             log.protein = Math.round(log.protein);
             log.carbs = Math.round(log.carbs);
             log.fats = Math.round(log.fats);
+            const dayMicros = microsByDate.get(log.date) ?? [];
+            log.micros = sumMicronutrients(dayMicros);
+            log.microsComplete = dayMicros.every(m => !!m);
         }
 
         // Merge: computed values override DB values for dates with meal entries;
@@ -1480,9 +1964,11 @@ export const useUserData = () => {
         userProfile: data.profile,
         nutritionTargets,
         workouts: data.workouts,
+        personalRecords: data.personalRecords,
         nutritionLogs: computedNutritionLogs,
         mealEntries: data.mealEntries,
         favorites: data.favorites,
+        recipes: data.recipes,
 
         // State
         loading,
@@ -1496,8 +1982,12 @@ export const useUserData = () => {
         addMealToDaily,
         saveMealEntry,
         deleteMealEntry,
+        copyMealEntries,
+        moveMealEntries,
         addToFavorites,
         removeFromFavorites,
+        saveRecipe,
+        deleteRecipe,
         refetchProfile,
         updateSupplementPreferences,
         retry
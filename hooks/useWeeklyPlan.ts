@@ -374,6 +374,8 @@ export function useWeeklyPlan(): UseWeeklyPlanResult {
             reasoning: result.reasoning,
             progressive_overload_notes: result.progressive_overload_notes,
             completed_days: [], // Fresh plan has no completed days
+            prompt_id: result.prompt?.id ?? null,
+            prompt_version: result.prompt?.version ?? null,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
           }, 'user_id,week_start');
@@ -5,7 +5,8 @@
 
 import { requireAuth, unauthorizedResponse, type AuthResult } from './requireAuth';
 import { checkRateLimit, checkDailyLimit } from './rateLimit';
-import type { AIErrorType } from './types';
+import { checkSpendBudget } from './costLedger';
+import type { AIErrorType, AIStreamEvent } from './types';
 
 // ============================================================================
 // FIX 3.1: Subscription / Trial System
@@ -36,12 +37,13 @@ export function getTrialDaysRemaining(trialStartedAt: string | null): number {
 }
 
 /**
- * Run auth + subscription + rate limit + daily cap checks.
+ * Run auth + subscription + rate limit + daily cap + spend budget checks.
  * Returns a Response to send if blocked, or null to proceed.
  *
  * FIX 2.1: Daily AI call limit per user (50/day)
  * FIX 2.2: Per-user rate limiting using userId from auth
  * FIX 3.1: Subscription/trial check for AI features
+ * Spend budgets: see checkSpendBudget in ./costLedger
  */
 /**
  * Check subscription status. Returns a 402 Response if blocked, or null to proceed.
@@ -101,6 +103,10 @@ export async function apiGateWithAuth(req: Request): Promise<{ blocked: Response
   const dailyLimited = await checkDailyLimit(auth.userId);
   if (dailyLimited) return { blocked: dailyLimited };
 
+  // Per-user and global daily spend budgets from the AI cost ledger
+  const overBudget = await checkSpendBudget(auth.userId);
+  if (overBudget) return { blocked: overBudget };
+
   return { blocked: null, auth };
 }
 
@@ -202,54 +208,62 @@ export function sanitizeAIObject<T extends Record<string, unknown>>(obj: T, dept
 }
 
 // ============================================================================
-// Image Result Cache (same-instance dedup for Edge Runtime)
+// Server-Sent Events (streaming responses)
 // ============================================================================
 
-interface CachedResult {
-  data: unknown;
-  provider: string;
-  cachedAt: number;
-}
-
-const IMAGE_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
-const IMAGE_CACHE_MAX_ENTRIES = 50;
-const imageResultCache = new Map<string, CachedResult>();
-
 /**
- * Hash an image payload using SHA-256 (Web Crypto API, available on Edge Runtime).
- * Combines userId + image data so different users don't share cache entries.
+ * True if the client asked for a streamed response (Accept: text/event-stream).
+ * Routes that support streaming fall back to plain JSON otherwise.
  */
-export async function hashImage(userId: string, imageBase64: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(userId + imageBase64.slice(0, 50000)); // hash first 50KB for speed
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.get('accept') || '').includes('text/event-stream');
 }
 
 /**
- * Check cache for a previous analysis of the same image.
+ * Build an SSE Response. `produce` emits events as they become available and
+ * should finish with a single `result` event; if it throws, a failure result
+ * is emitted so the client never sees a stream end without a result.
  */
-export function getCachedResult<T>(cacheKey: string): { data: T; provider: string } | null {
-  const entry = imageResultCache.get(cacheKey);
-  if (!entry) return null;
-  if (Date.now() - entry.cachedAt > IMAGE_CACHE_TTL_MS) {
-    imageResultCache.delete(cacheKey);
-    return null;
-  }
-  return { data: entry.data as T, provider: entry.provider };
-}
+export function createSSEResponse<T>(
+  produce: (emit: (event: AIStreamEvent<T>) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
 
-/**
- * Store a result in the image cache.
- */
-export function setCachedResult(cacheKey: string, data: unknown, provider: string): void {
-  // Evict oldest entries if at capacity
-  if (imageResultCache.size >= IMAGE_CACHE_MAX_ENTRIES) {
-    const oldest = imageResultCache.keys().next().value;
-    if (oldest !== undefined) imageResultCache.delete(oldest);
-  }
-  imageResultCache.set(cacheKey, { data, provider, cachedAt: Date.now() });
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: AIStreamEvent<T>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        await produce(emit);
+      } catch (error) {
+        const aiError = error as { message?: string; retryable?: boolean };
+        emit({
+          type: 'result',
+          response: {
+            success: false,
+            error: {
+              type: getErrorType(error),
+              message: aiError.message || 'Stream interrupted',
+              retryable: aiError.retryable ?? false,
+            },
+          },
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
 }
 
 /**
@@ -0,0 +1,236 @@
+/**
+ * Per-provider circuit breaker for the AI fallback chain.
+ *
+ * Tracks a rolling window of call outcomes (errors and latency) per provider.
+ * When the failure rate crosses the threshold the circuit opens and
+ * withFallback skips that provider instead of paying its full timeout on every
+ * request. After a cooldown one request is let through as a half-open probe:
+ * success closes the circuit, failure re-opens it.
+ *
+ * State lives in Upstash Redis (shared by all Edge instances) when configured,
+ * and falls back to in-memory per instance otherwise. Redis errors never block
+ * an AI call — the breaker degrades to in-memory state.
+ */
+
+import { getRedisClient } from './rateLimit';
+import type { AIProviderType } from './types';
+
+const WINDOW_SIZE = 20;                 // Max outcomes kept per provider
+const WINDOW_MS = 5 * 60_000;           // Outcomes older than this are dropped
+const MIN_CALLS = 5;                    // Don't judge a provider on fewer calls
+const FAILURE_RATE_THRESHOLD = 0.5;     // Open at >= 50% failed or slow calls
+const SLOW_CALL_MS = 20_000;            // Successes slower than this count against the provider
+const OPEN_COOLDOWN_MS = 30_000;        // Time before a half-open probe is allowed
+const PROBE_LOCK_MS = 60_000;           // Only one probe in flight per provider
+const STATE_TTL_SECONDS = 3600;
+
+const REDIS_PREFIX = 'sloefit:circuit';
+
+// Error types that say something about the provider's health. Bad requests,
+// content filters and quota errors are the caller's problem, not an outage.
+const TRIPPING_ERROR_TYPES = new Set(['network', 'timeout', 'server_error', 'rate_limit', 'unknown']);
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface CallSample {
+  ok: boolean;
+  ms: number;
+  at: number;
+}
+
+interface CircuitRecord {
+  state: CircuitState;
+  openedAt: number | null;
+  samples: CallSample[];
+}
+
+export interface CircuitSnapshot {
+  provider: AIProviderType;
+  state: CircuitState;
+  failureRate: number;                 // 0-1 over the rolling window
+  avgLatencyMs: number | null;
+  calls: number;
+  openedAt: string | null;
+}
+
+// In-memory fallback (also used when a Redis call fails)
+const memoryCircuits = new Map<AIProviderType, CircuitRecord>();
+const memoryProbes = new Map<AIProviderType, number>();
+
+function emptyRecord(): CircuitRecord {
+  return { state: 'closed', openedAt: null, samples: [] };
+}
+
+function circuitKey(provider: AIProviderType): string {
+  return `${REDIS_PREFIX}:${provider}`;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+async function loadRecord(provider: AIProviderType): Promise<CircuitRecord> {
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      return (await redis.get<CircuitRecord>(circuitKey(provider))) ?? emptyRecord();
+    } catch (error) {
+      console.error('[circuit] Redis read failed, using in-memory state:', (error as Error).message);
+    }
+  }
+  return memoryCircuits.get(provider) ?? emptyRecord();
+}
+
+async function saveRecord(provider: AIProviderType, record: CircuitRecord): Promise<void> {
+  memoryCircuits.set(provider, record);
+  const redis = getRedisClient();
+  if (!redis) return;
+  try {
+    await redis.set(circuitKey(provider), record, { ex: STATE_TTL_SECONDS });
+  } catch (error) {
+    console.error('[circuit] Redis write failed:', (error as Error).message);
+  }
+}
+
+/**
+ * Claim the half-open probe slot. Returns false if another request holds it.
+ */
+async function acquireProbe(provider: AIProviderType): Promise<boolean> {
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      const claimed = await redis.set(`${circuitKey(provider)}:probe`, Date.now(), { nx: true, px: PROBE_LOCK_MS });
+      return claimed === 'OK';
+    } catch (error) {
+      console.error('[circuit] Redis probe lock failed, using in-memory lock:', (error as Error).message);
+    }
+  }
+  const heldSince = memoryProbes.get(provider);
+  if (heldSince && Date.now() - heldSince < PROBE_LOCK_MS) return false;
+  memoryProbes.set(provider, Date.now());
+  return true;
+}
+
+async function releaseProbe(provider: AIProviderType): Promise<void> {
+  memoryProbes.delete(provider);
+  const redis = getRedisClient();
+  if (!redis) return;
+  try {
+    await redis.del(`${circuitKey(provider)}:probe`);
+  } catch { /* lock expires on its own */ }
+}
+
+// ============================================================================
+// Window Math
+// ============================================================================
+
+function pruneSamples(samples: CallSample[], now: number): CallSample[] {
+  return samples.filter(s => now - s.at < WINDOW_MS).slice(-WINDOW_SIZE);
+}
+
+function isBadSample(sample: CallSample): boolean {
+  return !sample.ok || sample.ms > SLOW_CALL_MS;
+}
+
+function failureRate(samples: CallSample[]): number {
+  if (samples.length === 0) return 0;
+  return samples.filter(isBadSample).length / samples.length;
+}
+
+function averageLatency(samples: CallSample[]): number | null {
+  const ok = samples.filter(s => s.ok);
+  if (ok.length === 0) return null;
+  return Math.round(ok.reduce((sum, s) => sum + s.ms, 0) / ok.length);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * True if the error reflects provider health (outage, timeout, throttling)
+ * rather than a problem with this particular request.
+ */
+export function isCircuitFailure(error: unknown): boolean {
+  if (error && typeof error === 'object' && 'type' in error) {
+    return TRIPPING_ERROR_TYPES.has(String((error as { type: unknown }).type));
+  }
+  return true; // Plain exceptions (fetch TypeError, SDK crashes) count
+}
+
+/**
+ * Decide whether a provider may be called now.
+ * Closed → yes. Open → no, until the cooldown passes and this request wins the
+ * half-open probe slot.
+ */
+export async function canAttempt(provider: AIProviderType): Promise<boolean> {
+  const record = await loadRecord(provider);
+  if (record.state === 'closed') return true;
+
+  const openedAt = record.openedAt ?? 0;
+  if (Date.now() - openedAt < OPEN_COOLDOWN_MS) return false;
+
+  if (!(await acquireProbe(provider))) return false;
+  if (record.state !== 'half_open') {
+    await saveRecord(provider, { ...record, state: 'half_open' });
+    console.log(`[circuit] ${provider} half-open — sending probe`);
+  }
+  return true;
+}
+
+/**
+ * Record the outcome of a call. Opens the circuit when the rolling failure
+ * rate crosses the threshold; a half-open probe decides on its own.
+ */
+export async function recordOutcome(provider: AIProviderType, ok: boolean, latencyMs: number): Promise<void> {
+  const now = Date.now();
+  const record = await loadRecord(provider);
+  const samples = pruneSamples([...record.samples, { ok, ms: latencyMs, at: now }], now);
+
+  if (record.state === 'half_open') {
+    await releaseProbe(provider);
+    if (ok && latencyMs <= SLOW_CALL_MS) {
+      console.log(`[circuit] ${provider} probe succeeded — closing circuit`);
+      await saveRecord(provider, emptyRecord());
+    } else {
+      console.error(`[circuit] ${provider} probe failed — re-opening circuit`);
+      await saveRecord(provider, { state: 'open', openedAt: now, samples });
+    }
+    return;
+  }
+
+  if (record.state === 'closed' && samples.length >= MIN_CALLS && failureRate(samples) >= FAILURE_RATE_THRESHOLD) {
+    console.error(`[circuit] ${provider} opened — ${Math.round(failureRate(samples) * 100)}% of last ${samples.length} calls failed or were slow`);
+    await saveRecord(provider, { state: 'open', openedAt: now, samples });
+    return;
+  }
+
+  await saveRecord(provider, { ...record, samples });
+}
+
+/**
+ * Current circuit state per provider, for /api/health.
+ */
+export async function getCircuitSnapshots(providers: AIProviderType[]): Promise<CircuitSnapshot[]> {
+  const now = Date.now();
+  return Promise.all(providers.map(async provider => {
+    const record = await loadRecord(provider);
+    const samples = pruneSamples(record.samples, now);
+    return {
+      provider,
+      state: record.state,
+      failureRate: Math.round(failureRate(samples) * 100) / 100,
+      avgLatencyMs: averageLatency(samples),
+      calls: samples.length,
+      openedAt: record.openedAt ? new Date(record.openedAt).toISOString() : null,
+    };
+  }));
+}
+
+/**
+ * Reset all in-memory circuits (tests / local debugging). Redis state expires on its own.
+ */
+export function resetCircuitBreakers(): void {
+  memoryCircuits.clear();
+  memoryProbes.clear();
+}
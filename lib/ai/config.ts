@@ -3,8 +3,13 @@
  *
  * Reads GEMINI_3_MODEL env var so the model can be changed via Vercel dashboard
  * without redeploying. Falls back to gemini-2.5-flash.
+ *
+ * Per-task routing (provider order, model, timeout, max cost, cache TTL) is read from the
+ * AI_TASK_ROUTES env var (JSON) — see getTaskRoute().
  */
 
+import type { AIProviderType, TokenUsage } from './types';
+
 export const AI_CONFIG = {
   model: process.env.GEMINI_3_MODEL || 'gemini-2.5-flash',
   visionTimeoutMs: 30000,
@@ -19,16 +24,228 @@ export const COST_PER_VISION_CALL: Record<string, number> = {
   google: 0.015,   // Gemini 2.5 Flash vision
   openai: 0.03,    // GPT-4o-mini vision
   anthropic: 0.05, // Claude vision
+  mistral: 0.01,   // Pixtral 12B vision
+  local: 0,        // Self-hosted (Ollama / llama.cpp)
+};
+
+/**
+ * Estimated cost per text-only call by provider (USD). No image tokens, so
+ * well below the vision estimate.
+ */
+export const COST_PER_TEXT_CALL: Record<string, number> = {
+  google: 0.004,   // Gemini 2.5 Flash
+  openai: 0.002,   // GPT-4o-mini
+  anthropic: 0.02, // Claude Sonnet 4
+  mistral: 0.001,  // Mistral Small
+  local: 0,
+};
+
+/** Estimated cost of one Whisper transcription (a short voice note). */
+const COST_PER_TRANSCRIPTION = 0.006;
+
+/** Fallback estimate for providers missing from the tables above. */
+const DEFAULT_COST_PER_CALL = 0.02;
+
+/**
+ * List price per 1M tokens (USD) for each provider's default model.
+ * Used for the cost ledger — estimates, not billing.
+ */
+export const TOKEN_PRICE_PER_MILLION: Record<AIProviderType, { input: number; output: number }> = {
+  google: { input: 0.30, output: 2.50 },    // Gemini 2.5 Flash
+  openai: { input: 0.15, output: 0.60 },    // GPT-4o-mini
+  anthropic: { input: 3.00, output: 15.00 }, // Claude Sonnet 4
+  mistral: { input: 0.10, output: 0.30 },   // Mistral Small / Pixtral 12B
+  local: { input: 0, output: 0 },           // Self-hosted
 };
 
+/**
+ * List price per 1M tokens (USD) for models a route can pick, matched by
+ * prefix (longest first) so dated snapshots like claude-3-5-haiku-20241022 resolve.
+ */
+export const MODEL_TOKEN_PRICE_PER_MILLION: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1-nano': { input: 0.10, output: 0.40 },
+  'gpt-4.1': { input: 2.00, output: 8.00 },
+  'claude-3-5-haiku': { input: 0.80, output: 4.00 },
+  'claude-3-5-sonnet': { input: 3.00, output: 15.00 },
+  'claude-sonnet-4': { input: 3.00, output: 15.00 },
+  'claude-opus-4': { input: 15.00, output: 75.00 },
+  'mistral-small': { input: 0.10, output: 0.30 },
+  'mistral-medium': { input: 0.40, output: 2.00 },
+  'mistral-large': { input: 2.00, output: 6.00 },
+  'pixtral-12b': { input: 0.15, output: 0.15 },
+  'pixtral-large': { input: 2.00, output: 6.00 },
+};
+
+/** Tasks that send images; everything else is text, except Whisper audio. */
+const VISION_TASKS: AITask[] = ['meal_photo', 'body_analysis', 'progress'];
+
+/**
+ * Token price for a provider's routed model. Unknown or omitted models use
+ * the provider's default-model price.
+ */
+function tokenPrice(provider: AIProviderType, model?: string): { input: number; output: number } {
+  const fallback = TOKEN_PRICE_PER_MILLION[provider] ?? { input: 0, output: 0 };
+  if (!model || provider === 'local') return fallback;
+  const match = Object.keys(MODEL_TOKEN_PRICE_PER_MILLION)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_TOKEN_PRICE_PER_MILLION[match] : fallback;
+}
+
+/**
+ * Estimated cost of one call to a provider (USD): the flat estimate for the
+ * task's kind (vision, text or transcription), scaled by how the routed model
+ * is priced against the provider's default. Without a task, the vision
+ * estimate is used.
+ */
+export function estimateCallCost(provider: AIProviderType, task?: AITask, model?: string): number {
+  if (task === 'transcribe') return provider === 'openai' ? COST_PER_TRANSCRIPTION : DEFAULT_COST_PER_CALL;
+
+  const flat = !task || VISION_TASKS.includes(task) ? COST_PER_VISION_CALL : COST_PER_TEXT_CALL;
+  const base = flat[provider] ?? DEFAULT_COST_PER_CALL;
+  const standard = TOKEN_PRICE_PER_MILLION[provider];
+  const routed = tokenPrice(provider, model);
+  const standardTotal = standard ? standard.input + standard.output : 0;
+  return standardTotal > 0 ? base * ((routed.input + routed.output) / standardTotal) : base;
+}
+
+/**
+ * Estimate the cost of an operation from reported token usage, at the routed
+ * model's price. Falls back to the flat per-call estimate when the provider
+ * reported no tokens (e.g. Whisper).
+ */
+export function estimateCost(provider: AIProviderType, usage?: TokenUsage, task?: AITask, model?: string): number {
+  const tokens = usage ? usage.inputTokens + usage.outputTokens : 0;
+  if (!usage || tokens === 0) return estimateCallCost(provider, task, model);
+  const price = tokenPrice(provider, model);
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
 /** Daily spend warning threshold (USD). Log warning if exceeded. */
 export const DAILY_SPEND_WARN_USD = parseFloat(process.env.AI_DAILY_SPEND_WARN || '5');
 
+// ============================================================================
+// Per-Task Routing
+// ============================================================================
+
+/** Operations that can be routed independently. One per API route. */
+export type AITask =
+  | 'meal_photo'
+  | 'meal_text'
+  | 'body_analysis'
+  | 'progress'
+  | 'workout'
+  | 'weekly_nutrition'
+  | 'weekly_plan'
+  | 'meal_plan'
+  | 'coach'
+  | 'transcribe';
+
+const AI_TASKS: AITask[] = [
+  'meal_photo', 'meal_text', 'body_analysis', 'progress', 'workout',
+  'weekly_nutrition', 'weekly_plan', 'meal_plan', 'coach', 'transcribe',
+];
+
+const AI_PROVIDER_TYPES: AIProviderType[] = ['openai', 'anthropic', 'google', 'mistral', 'local'];
+
+export interface TaskRoute {
+  /** Providers to try, in order. Omitted = default chain (AI_PROVIDER first). */
+  providers?: AIProviderType[];
+  /** Model per provider. Omitted = the provider's own default. */
+  models?: Partial<Record<AIProviderType, string>>;
+  /** Time budget per provider attempt; a slower provider is abandoned for the next. */
+  timeoutMs?: number;
+  /** Skip providers whose estimated cost per call for this task and routed model exceeds this (USD). */
+  maxCostUSD?: number;
+  /** Keep results in the shared result cache this long. 0 or omitted = not cached. */
+  cacheTtlSeconds?: number;
+}
+
+/**
+ * Built-in routes. Anything not set here follows the default chain with each
+ * provider's own model and timeouts.
+ */
+const DEFAULT_TASK_ROUTES: Record<AITask, TaskRoute> = {
+  meal_photo: { cacheTtlSeconds: 3600 },      // Same photo re-uploaded / retried
+  meal_text: { cacheTtlSeconds: 7 * 86400 },  // Regular meals ("2 eggs and toast") repeat for days
+  body_analysis: { cacheTtlSeconds: 3600 },
+  progress: {},
+  workout: {},
+  weekly_nutrition: {},
+  weekly_plan: {},
+  meal_plan: {},
+  coach: {},
+  transcribe: { providers: ['openai'] }, // Whisper is the only transcription backend
+};
+
+/**
+ * Validate one route from AI_TASK_ROUTES, dropping unknown providers and
+ * non-positive numbers rather than failing the request.
+ */
+function parseTaskRoute(raw: unknown): TaskRoute {
+  if (!raw || typeof raw !== 'object') return {};
+  const r = raw as Record<string, unknown>;
+  const route: TaskRoute = {};
+
+  if (Array.isArray(r.providers)) {
+    route.providers = r.providers.filter((p): p is AIProviderType => AI_PROVIDER_TYPES.includes(p as AIProviderType));
+  }
+  if (r.models && typeof r.models === 'object') {
+    route.models = {};
+    for (const [provider, model] of Object.entries(r.models as Record<string, unknown>)) {
+      if (AI_PROVIDER_TYPES.includes(provider as AIProviderType) && typeof model === 'string' && model) {
+        route.models[provider as AIProviderType] = model;
+      }
+    }
+  }
+  if (typeof r.timeoutMs === 'number' && r.timeoutMs > 0) route.timeoutMs = r.timeoutMs;
+  if (typeof r.maxCostUSD === 'number' && r.maxCostUSD >= 0) route.maxCostUSD = r.maxCostUSD;
+  if (typeof r.cacheTtlSeconds === 'number' && r.cacheTtlSeconds >= 0) route.cacheTtlSeconds = r.cacheTtlSeconds;
+  return route;
+}
+
+/**
+ * Routes overridden via AI_TASK_ROUTES, e.g.
+ *   {"meal_photo":{"providers":["google","openai"],"timeoutMs":30000},
+ *    "coach":{"providers":["anthropic","openai"],"models":{"anthropic":"claude-3-5-haiku-latest"}}}
+ * Read on every call so the table can be changed in the Vercel dashboard.
+ */
+function getRouteOverrides(): Partial<Record<AITask, TaskRoute>> {
+  const raw = process.env.AI_TASK_ROUTES;
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const overrides: Partial<Record<AITask, TaskRoute>> = {};
+    for (const task of AI_TASKS) {
+      if (task in parsed) overrides[task] = parseTaskRoute(parsed[task]);
+    }
+    return overrides;
+  } catch {
+    console.error('[ai] AI_TASK_ROUTES is not valid JSON — using default routes');
+    return {};
+  }
+}
+
+/**
+ * Resolve the route for a task. Override fields replace the built-in ones.
+ */
+export function getTaskRoute(task: AITask): TaskRoute {
+  return { ...DEFAULT_TASK_ROUTES[task], ...getRouteOverrides()[task] };
+}
+
 /**
- * Get the appropriate model for a task
+ * Get the Gemini model for a task (route override, then GEMINI_3_MODEL)
  */
-export function getModelForTask(): string {
-  return process.env.GEMINI_3_MODEL || AI_CONFIG.model;
+export function getModelForTask(task?: AITask): string {
+  const routed = task ? getTaskRoute(task).models?.google : undefined;
+  return routed || process.env.GEMINI_3_MODEL || AI_CONFIG.model;
 }
 
 /**
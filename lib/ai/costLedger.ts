@@ -0,0 +1,261 @@
+/**
+ * AI Cost Ledger + Spend Budgets
+ *
+ * Every provider attempt behind an AI route is written to the ai_cost_ledger
+ * table (user, operation, provider, model, tokens, estimated cost). The same
+ * table backs the per-user and global daily budgets enforced in apiGateWithAuth
+ * and the admin spend report (api/admin/ai-spend.ts).
+ *
+ * The ledger is active when SUPABASE_SERVICE_ROLE_KEY is set and
+ * AI_LEDGER_ENABLED !== 'false'. Ledger failures never block an AI call —
+ * writes and budget reads fail open with a logged error.
+ *
+ * Today's spend is cached for a minute (Upstash Redis when configured, else
+ * in-memory per instance), so a budget can be overshot by a minute of calls.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { getRedisClient } from './rateLimit';
+import type { AIProviderType, TokenUsage } from './types';
+import type { AITask } from './config';
+
+const DEFAULT_USER_DAILY_BUDGET_USD = 0.5;
+const SPEND_CACHE_SECONDS = 60;
+const REDIS_PREFIX = 'sloefit:spend';
+
+export interface LedgerEntry {
+  userId: string | null;
+  operation: AITask;
+  provider: AIProviderType;
+  model?: string;
+  status: 'success' | 'failed';
+  usage?: TokenUsage;
+  costUSD: number;
+  latencyMs: number;
+}
+
+export interface SpendRollupRow {
+  day: string;
+  provider: string;
+  operation: string;
+  calls: number;
+  failed_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+interface DailySpend {
+  user: number;
+  global: number;
+}
+
+// Same shape in memory and Redis, so a Redis hit expires locally when it does there
+interface CachedSpend {
+  spend: DailySpend;
+  expiresAt: number;
+}
+
+let ledgerClient: SupabaseClient | null = null;
+
+// In-memory spend cache (also used when a Redis call fails)
+const memorySpend = new Map<string, CachedSpend>();
+
+/**
+ * Service-role client for the ledger, or null when the ledger is disabled.
+ */
+export function getLedgerClient(): SupabaseClient | null {
+  if (process.env.AI_LEDGER_ENABLED === 'false') return null;
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+  if (!ledgerClient) ledgerClient = createClient(url, serviceKey);
+  return ledgerClient;
+}
+
+/**
+ * Parse a USD budget env var. Unset uses the fallback; '0', 'off' or junk disables it.
+ */
+function parseBudget(raw: string | undefined, fallback: number | null): number | null {
+  if (raw === undefined || raw === '') return fallback;
+  const value = parseFloat(raw);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function getSpendBudgets(): { userDailyUSD: number | null; globalDailyUSD: number | null } {
+  return {
+    userDailyUSD: parseBudget(process.env.AI_USER_DAILY_BUDGET_USD, DEFAULT_USER_DAILY_BUDGET_USD),
+    globalDailyUSD: parseBudget(process.env.AI_GLOBAL_DAILY_BUDGET_USD, null),
+  };
+}
+
+function startOfUTCDay(): string {
+  return `${new Date().toISOString().split('T')[0]}T00:00:00.000Z`;
+}
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+/**
+ * Record one provider attempt. Never throws. Callers hand it to waitUntil
+ * instead of awaiting it, so the insert doesn't add to the AI call's latency.
+ */
+export async function recordAICall(entry: LedgerEntry): Promise<void> {
+  const supabase = getLedgerClient();
+  if (!supabase) return;
+
+  try {
+    const { error } = await supabase.from('ai_cost_ledger').insert({
+      user_id: entry.userId,
+      operation: entry.operation,
+      provider: entry.provider,
+      model: entry.model ?? null,
+      status: entry.status,
+      input_tokens: entry.usage?.inputTokens ?? 0,
+      output_tokens: entry.usage?.outputTokens ?? 0,
+      cost_usd: Number(entry.costUSD.toFixed(6)),
+      latency_ms: entry.latencyMs,
+    });
+    if (error) console.error('[ledger] Failed to record AI call:', error.message);
+  } catch (error) {
+    console.error('[ledger] Failed to record AI call:', (error as Error).message);
+  }
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+function quotaExceededResponse(code: string, message: string): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: {
+        type: 'quota_exceeded',
+        code,
+        message,
+        retryable: false,
+      },
+    }),
+    // 402 like the subscription gate: the client surfaces the message and doesn't retry
+    { status: 402, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+async function readCachedSpend(key: string): Promise<DailySpend | null> {
+  const cached = memorySpend.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.spend;
+
+  const redis = getRedisClient();
+  if (!redis) return null;
+  try {
+    const shared = await redis.get<CachedSpend>(key);
+    if (!shared || shared.expiresAt <= Date.now()) return null;
+    // Keep it in this instance until the shared entry expires, so the next request skips Redis
+    memorySpend.set(key, shared);
+    return shared.spend;
+  } catch (error) {
+    console.error('[ledger] Redis spend read failed:', (error as Error).message);
+    return null;
+  }
+}
+
+async function writeCachedSpend(key: string, spend: DailySpend): Promise<void> {
+  const entry: CachedSpend = { spend, expiresAt: Date.now() + SPEND_CACHE_SECONDS * 1000 };
+  memorySpend.set(key, entry);
+
+  const redis = getRedisClient();
+  if (!redis) return;
+  try {
+    await redis.set(key, entry, { ex: SPEND_CACHE_SECONDS });
+  } catch (error) {
+    console.error('[ledger] Redis spend write failed:', (error as Error).message);
+  }
+}
+
+/**
+ * Today's spend (UTC) for the user and overall, from the cache or the
+ * ai_spend_since RPC. Null when the read fails.
+ */
+async function getDailySpend(supabase: SupabaseClient, userId: string): Promise<DailySpend | null> {
+  const since = startOfUTCDay();
+  const key = `${REDIS_PREFIX}:${since.slice(0, 10)}:${userId}`;
+  const cached = await readCachedSpend(key);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .rpc('ai_spend_since', { p_user_id: userId, p_since: since })
+    .single<{ user_spend: number | string; global_spend: number | string }>();
+
+  if (error || !data) {
+    if (error) console.error('[ledger] Budget check failed, allowing request:', error.message);
+    return null;
+  }
+
+  const spend = { user: Number(data.user_spend), global: Number(data.global_spend) };
+  await writeCachedSpend(key, spend);
+  return spend;
+}
+
+/**
+ * Check today's spend (UTC) against the per-user and global budgets.
+ * Returns a 402 quota_exceeded Response if over budget, or null to proceed.
+ */
+export async function checkSpendBudget(userId: string): Promise<Response | null> {
+  const { userDailyUSD, globalDailyUSD } = getSpendBudgets();
+  if (userDailyUSD === null && globalDailyUSD === null) return null;
+
+  const supabase = getLedgerClient();
+  if (!supabase) return null;
+
+  try {
+    const spend = await getDailySpend(supabase, userId);
+    if (!spend) return null;
+    const { user: userSpend, global: globalSpend } = spend;
+
+    if (globalDailyUSD !== null && globalSpend >= globalDailyUSD) {
+      console.error(`[ledger] Global AI budget reached: $${globalSpend.toFixed(2)} of $${globalDailyUSD}`);
+      return quotaExceededResponse(
+        'GLOBAL_BUDGET_EXCEEDED',
+        'AI features are temporarily paused. Please try again tomorrow.'
+      );
+    }
+
+    if (userDailyUSD !== null && userSpend >= userDailyUSD) {
+      return quotaExceededResponse(
+        'USER_BUDGET_EXCEEDED',
+        'You have reached today\'s AI usage limit. It resets at midnight UTC.'
+      );
+    }
+
+    return null;
+  } catch (error) {
+    console.error('[ledger] Budget check failed, allowing request:', (error as Error).message);
+    return null;
+  }
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+/**
+ * Spend rolled up by day/provider/operation for [from, to).
+ */
+export async function getSpendRollup(from: string, to: string): Promise<SpendRollupRow[]> {
+  const supabase = getLedgerClient();
+  if (!supabase) throw new Error('AI cost ledger is not configured');
+
+  const { data, error } = await supabase.rpc('ai_spend_rollup', { p_from: from, p_to: to });
+  if (error) throw new Error(error.message);
+
+  return ((data ?? []) as SpendRollupRow[]).map(row => ({
+    ...row,
+    calls: Number(row.calls),
+    failed_calls: Number(row.failed_calls),
+    input_tokens: Number(row.input_tokens),
+    output_tokens: Number(row.output_tokens),
+    cost_usd: Number(row.cost_usd),
+  }));
+}
@@ -1,23 +1,29 @@
-import type { AIProvider, AIProviderType, AIError } from './types';
+import { waitUntil } from '@vercel/functions';
+import type { AIProvider, AIProviderType, AIError, PromptStamp, TokenUsage } from './types';
 import { createOpenAIProvider } from './providers/openai';
 import { createAnthropicProvider } from './providers/anthropic';
 import { createGoogleProvider } from './providers/google';
-import { COST_PER_VISION_CALL, DAILY_SPEND_WARN_USD } from './config';
+import { createMistralProvider } from './providers/mistral';
+import { createLocalProvider } from './providers/local';
+import { DAILY_SPEND_WARN_USD, estimateCallCost, estimateCost, getModelForTask, getTaskRoute, type AITask } from './config';
+import { canAttempt, recordOutcome, isCircuitFailure, getCircuitSnapshots, type CircuitSnapshot } from './circuitBreaker';
+import { recordAICall } from './costLedger';
+import { createPromptSet, primaryPromptStamp, type PromptSet } from './promptRegistry';
 
-// In-memory daily cost accumulator (resets on cold start / redeploy)
+// In-memory daily cost accumulator (resets on cold start / redeploy).
+// The durable record is the Supabase ledger (./costLedger); this only drives the log warning.
 let dailyCostUSD = 0;
 let dailyCostDate = new Date().toISOString().split('T')[0];
 let dailySpendWarned = false;
 
-function trackCost(provider: AIProviderType) {
+function trackCost(costUSD: number) {
   const today = new Date().toISOString().split('T')[0];
   if (today !== dailyCostDate) {
     dailyCostUSD = 0;
     dailyCostDate = today;
     dailySpendWarned = false;
   }
-  const cost = COST_PER_VISION_CALL[provider] || 0.02;
-  dailyCostUSD += cost;
+  dailyCostUSD += costUSD;
 
   if (dailyCostUSD >= DAILY_SPEND_WARN_USD && !dailySpendWarned) {
     dailySpendWarned = true;
@@ -30,20 +36,22 @@ function trackCost(provider: AIProviderType) {
 // ============================================================================
 
 /**
- * Create an AI provider instance based on the provider type
+ * Create an AI provider instance based on the provider type.
+ * `model` overrides the provider's default model (used by per-task routing);
+ * `prompts` resolves prompt versions for the requesting user.
  */
-export function createProvider(type: AIProviderType, apiKey: string): AIProvider {
+export function createProvider(type: AIProviderType, apiKey: string, model?: string, prompts?: PromptSet): AIProvider {
   switch (type) {
     case 'openai':
-      return createOpenAIProvider(apiKey);
+      return createOpenAIProvider(apiKey, { model, prompts });
     case 'anthropic':
-      return createAnthropicProvider(apiKey);
+      return createAnthropicProvider(apiKey, model, prompts);
     case 'google':
-      return createGoogleProvider(apiKey);
+      return createGoogleProvider(apiKey, model, prompts);
     case 'mistral':
-      // Mistral uses OpenAI-compatible API, so we can reuse with different base URL
-      // For now, throw error - can be implemented similarly to OpenAI
-      throw new Error('Mistral provider not yet implemented');
+      return createMistralProvider(apiKey, model, prompts);
+    case 'local':
+      return createLocalProvider(apiKey, model, prompts);
     default:
       throw new Error(`Unknown AI provider: ${type}`);
   }
@@ -67,6 +75,10 @@ function resolveKey(type: AIProviderType): string | undefined {
       key = process.env.GOOGLE_AI_API_KEY || process.env.GEMINI_API_KEY; break;
     case 'mistral':
       key = process.env.MISTRAL_API_KEY; break;
+    case 'local':
+      // Local servers usually don't check keys — selecting it or setting a base URL enables it
+      if (!process.env.LOCAL_AI_BASE_URL && process.env.AI_PROVIDER !== 'local') return undefined;
+      return process.env.LOCAL_AI_API_KEY || 'local';
     default:
       return undefined;
   }
@@ -81,13 +93,15 @@ function resolveKey(type: AIProviderType): string | undefined {
  * Get the configured AI provider from environment variables.
  *
  * Expected env vars:
- * - AI_PROVIDER: 'openai' | 'anthropic' | 'google' | 'mistral'
+ * - AI_PROVIDER: 'openai' | 'anthropic' | 'google' | 'mistral' | 'local'
  * - AI_API_KEY: The API key for the selected provider
  *
  * OR provider-specific keys:
  * - OPENAI_API_KEY
  * - ANTHROPIC_API_KEY
  * - GOOGLE_AI_API_KEY / GEMINI_API_KEY
+ * - MISTRAL_API_KEY
+ * - LOCAL_AI_BASE_URL (+ optional LOCAL_AI_MODEL / LOCAL_AI_API_KEY) for AI_PROVIDER=local
  */
 export function getProviderFromEnv(): AIProvider {
   const providerType = (process.env.AI_PROVIDER || 'openai') as AIProviderType;
@@ -103,33 +117,119 @@ export function getProviderFromEnv(): AIProvider {
   return createProvider(providerType, apiKey);
 }
 
+// Optional wrapper applied to every provider in the fallback chain.
+// Used by the record/replay harness (see providers/replay.ts) in tests and scripts.
+let providerDecorator: ((provider: AIProvider) => AIProvider) | null = null;
+
+/**
+ * Install (or clear, with null) a decorator for all providers used by
+ * withFallback / withStreamFallback.
+ */
+export function setProviderDecorator(decorator: ((provider: AIProvider) => AIProvider) | null): void {
+  providerDecorator = decorator;
+}
+
+interface RoutedProvider {
+  type: AIProviderType;
+  provider: AIProvider;
+  model?: string;
+}
+
 /**
- * Build a prioritized list of available providers from env vars.
- * The configured AI_PROVIDER comes first, then any others that have keys.
+ * Build a prioritized list of available providers for a task.
+ * Without a routed provider list, the configured AI_PROVIDER comes first,
+ * then any others that have keys. Providers whose estimate for this task and
+ * routed model is above the route's maxCostUSD are skipped.
+ * Each provider gets its own prompt set for the user so only the winner's
+ * prompts are stamped on the result.
  */
-function getAvailableProviders(): { type: AIProviderType; provider: AIProvider }[] {
+function getAvailableProviders(task: AITask, userId?: string | null): RoutedProvider[] {
+  const route = getTaskRoute(task);
   // If GEMINI_3_ENABLED is set, prefer Google as primary provider
   const geminiEnabled = ['true', 'True', '1', 'yes'].includes(process.env.GEMINI_3_ENABLED || '');
   const primary = (process.env.AI_PROVIDER || (geminiEnabled ? 'google' : 'openai')) as AIProviderType;
-  const order: AIProviderType[] = [primary, 'google', 'openai', 'anthropic'];
+  const order: AIProviderType[] = route.providers ?? [primary, 'google', 'openai', 'anthropic', 'mistral', 'local'];
   const seen = new Set<AIProviderType>();
-  const result: { type: AIProviderType; provider: AIProvider }[] = [];
+  const result: RoutedProvider[] = [];
 
   for (const type of order) {
     if (seen.has(type)) continue;
     seen.add(type);
+    const model = type === 'google' ? getModelForTask(task) : route.models?.[type];
+    if (route.maxCostUSD !== undefined && estimateCallCost(type, task, model) > route.maxCostUSD) continue;
     const rawFallback = process.env.AI_API_KEY;
     const validFallback = rawFallback && !rawFallback.includes('PLACEHOLDER') && !rawFallback.includes('your-') && !rawFallback.includes('your_') && rawFallback.length >= 10 ? rawFallback : undefined;
     const key = validFallback && type === primary ? validFallback : resolveKey(type);
     if (key) {
       try {
-        result.push({ type, provider: createProvider(type, key) });
+        const provider = createProvider(type, key, model, createPromptSet(userId));
+        result.push({ type, provider: providerDecorator ? providerDecorator(provider) : provider, model });
       } catch { /* skip misconfigured providers */ }
     }
   }
   return result;
 }
 
+function noProvidersError(task: AITask): Error {
+  if (getTaskRoute(task).providers || getTaskRoute(task).maxCostUSD !== undefined) {
+    return new Error(`No AI providers available for task "${task}". Check AI_TASK_ROUTES and provider keys.`);
+  }
+  return new Error('No AI providers configured. Set AI_API_KEY or a provider-specific key (OPENAI_API_KEY, GEMINI_API_KEY, ANTHROPIC_API_KEY, MISTRAL_API_KEY).');
+}
+
+/**
+ * Enforce a route's per-attempt time budget. The losing request is not
+ * cancelled (providers own their AbortControllers) — its result is ignored.
+ */
+function withAttemptTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, type: AIProviderType, task: AITask): Promise<T> {
+  if (!timeoutMs) return promise;
+  let timeoutId: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject({
+      type: 'timeout',
+      message: `Provider ${type} exceeded the ${timeoutMs}ms budget for ${task}`,
+      retryable: true,
+      provider: type,
+    } as AIError), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+function describeRoute(task: AITask, type: AIProviderType, model?: string): string {
+  return `${task} → ${type}${model ? ` (${model})` : ''}`;
+}
+
+/**
+ * Providers to attempt, in route order, skipping those whose circuit is open.
+ * Each circuit is checked only when its provider's turn comes: canAttempt
+ * takes the half-open probe slot, so checking up front would hold probes for
+ * providers that are never called. If every circuit is open the full chain is
+ * tried — the breaker may reorder the odds, never guarantee a failure.
+ */
+async function* circuitOrder(task: AITask, providers: RoutedProvider[]): AsyncGenerator<RoutedProvider> {
+  let allowed = 0;
+  for (const entry of providers) {
+    if (await canAttempt(entry.type)) {
+      allowed++;
+      yield entry;
+    } else {
+      console.log(`[ai] ${describeRoute(task, entry.type, entry.model)} skipped — circuit open`);
+    }
+  }
+  if (allowed === 0) {
+    console.error(`[ai] all circuits open for ${task} — trying every provider`);
+    yield* providers;
+  }
+}
+
+/**
+ * Circuit state for every provider that has a key configured.
+ */
+export async function getProviderHealth(): Promise<CircuitSnapshot[]> {
+  const types: AIProviderType[] = ['google', 'openai', 'anthropic', 'mistral', 'local'];
+  return getCircuitSnapshots(types.filter(type => resolveKey(type) || (type === process.env.AI_PROVIDER && process.env.AI_API_KEY)));
+}
+
 /**
  * Get the current provider type from environment
  */
@@ -144,53 +244,193 @@ export function getProviderType(): AIProviderType {
 export interface FallbackResult<T> {
   data: T;
   provider: AIProviderType;
+  model?: string;                      // When known: a routed override, or the Gemini model
+  usage?: TokenUsage;                  // Tokens reported by the winning provider
+  costUSD: number;                     // Estimated cost of the winning attempt
+  prompt?: PromptStamp;                // Prompt version the winning provider used
+}
+
+export interface FallbackOptions<T> {
+  /** Treat a returned value as failed and try the next provider (e.g. "Error:" markdown). */
+  isFailure?: (data: T) => boolean;
+  /** User the ledger rows are attributed to; omit for system jobs. */
+  userId?: string | null;
+}
+
+/**
+ * Price one attempt, add it to the in-memory tally and write it to the ledger.
+ * Failed attempts only cost the tokens the vendor reported; successes fall
+ * back to the flat per-call estimate when no usage was reported. The ledger
+ * write runs in the background so it never delays the response; waitUntil
+ * keeps the Edge invocation alive until it lands.
+ */
+function settleAttempt(
+  task: AITask,
+  { type, provider, model }: RoutedProvider,
+  status: 'success' | 'failed',
+  latencyMs: number,
+  userId: string | null | undefined
+): { usage?: TokenUsage; costUSD: number } {
+  const usage = provider.getUsage?.();
+  const reportedTokens = usage ? usage.inputTokens + usage.outputTokens : 0;
+  const costUSD = status === 'success' || reportedTokens > 0 ? estimateCost(type, usage, task, model) : 0;
+
+  trackCost(costUSD);
+  waitUntil(
+    recordAICall({ userId: userId ?? null, operation: task, provider: type, model, status, usage, costUSD, latencyMs })
+      .catch(error => console.error('[ledger] Failed to record AI call:', (error as Error).message))
+  );
+  return { usage, costUSD };
 }
 
 /**
  * Execute an AI operation with automatic provider fallback.
  *
- * Tries ALL available providers (up to 3) to maximize reliability.
- * Cost impact is minimal since we only pay for successful completions,
- * and failed requests usually don't incur charges.
+ * Walks the task's route (see getTaskRoute in ./config) — by default ALL
+ * available providers — to maximize reliability. Providers whose circuit is
+ * open (see ./circuitBreaker) are skipped so a hard-down vendor doesn't add its
+ * full timeout to every request.
  *
- * Logs which provider succeeded for debugging/cost tracking.
+ * Every attempt (including failed ones) is written to the cost ledger with its
+ * token usage, and the task plus winning provider/model are logged.
  */
 export async function withFallback<T>(
+  task: AITask,
   fn: (provider: AIProvider) => Promise<T>,
-  isFailure?: (data: T) => boolean
+  options: FallbackOptions<T> = {}
 ): Promise<FallbackResult<T>> {
-  const providers = getAvailableProviders();
+  const { isFailure, userId } = options;
+  const configured = getAvailableProviders(task, userId);
 
-  if (providers.length === 0) {
-    throw new Error('No AI providers configured. Set AI_API_KEY or a provider-specific key (OPENAI_API_KEY, GEMINI_API_KEY, ANTHROPIC_API_KEY).');
+  if (configured.length === 0) {
+    throw noProvidersError(task);
   }
 
-  // Try ALL available providers for maximum reliability
-  const maxAttempts = providers.length;
+  const { timeoutMs } = getTaskRoute(task);
   let lastError: unknown;
+  let attempt = 0;
 
-  for (let i = 0; i < maxAttempts; i++) {
-    const { type, provider } = providers[i];
+  for await (const routed of circuitOrder(task, configured)) {
+    const i = attempt++;
+    const { type, model } = routed;
+    const attemptStart = Date.now();
     try {
-      const data = await fn(provider);
+      const data = await withAttemptTimeout(fn(routed.provider), timeoutMs, type, task);
+      const latencyMs = Date.now() - attemptStart;
+      // The provider answered, so its circuit sees a success even if the payload is unusable
+      await recordOutcome(type, true, latencyMs);
       // Treat null/undefined as a provider failure so we try the next one
       if (data === null || data === undefined) {
-        console.error(`[ai] provider ${type} returned null — trying next`);
+        console.error(`[ai] ${describeRoute(task, type, model)} returned null — trying next`);
         lastError = new Error(`Provider ${type} returned null`);
+        settleAttempt(task, routed, 'failed', latencyMs, userId);
         continue;
       }
       // Check caller-supplied failure predicate (e.g. "Error:" prefix strings)
       if (isFailure?.(data)) {
-        console.error(`[ai] provider ${type} returned soft failure — trying next`);
+        console.error(`[ai] ${describeRoute(task, type, model)} returned soft failure — trying next`);
         lastError = new Error(`Provider ${type} returned soft failure`);
+        settleAttempt(task, routed, 'failed', latencyMs, userId);
         continue;
       }
-      trackCost(type);
-      console.log(`[ai] success via ${type}${i > 0 ? ` (fallback #${i})` : ''} | est. daily cost: $${dailyCostUSD.toFixed(3)}`);
-      return { data, provider: type };
+      const { usage, costUSD } = settleAttempt(task, routed, 'success', latencyMs, userId);
+      console.log(`[ai] success via ${describeRoute(task, type, model)}${i > 0 ? ` (fallback #${i})` : ''} | $${costUSD.toFixed(4)} | est. daily cost: $${dailyCostUSD.toFixed(3)}`);
+      const prompt = primaryPromptStamp(routed.provider.getPromptStamps?.() ?? []);
+      return { data, provider: type, model, usage, costUSD, prompt };
+    } catch (error) {
+      lastError = error;
+      const latencyMs = Date.now() - attemptStart;
+      console.error(`[ai] ${describeRoute(task, type, model)} failed: ${(error as Error).message}`);
+      await recordOutcome(type, !isCircuitFailure(error), latencyMs);
+      settleAttempt(task, routed, 'failed', latencyMs, userId);
+    }
+  }
+
+  throw lastError;
+}
+
+export interface StreamFallbackResult {
+  stream: AsyncIterable<string>;
+  provider: AIProviderType;
+  model?: string;
+}
+
+/**
+ * Streaming counterpart of withFallback.
+ *
+ * Pulls from each provider's stream until the first non-empty delta arrives.
+ * Errors (or an empty stream) before that point fail over to the next provider;
+ * once a token has been produced the provider is committed and later errors
+ * surface to the caller through the returned iterator. The route's timeoutMs
+ * bounds the wait for that first delta only. The committed provider's ledger
+ * row is written when the stream finishes, once its token usage is known.
+ */
+export async function withStreamFallback(
+  task: AITask,
+  fn: (provider: AIProvider) => AsyncIterable<string>,
+  options: { userId?: string | null } = {}
+): Promise<StreamFallbackResult> {
+  const { userId } = options;
+  const configured = getAvailableProviders(task, userId);
+
+  if (configured.length === 0) {
+    throw noProvidersError(task);
+  }
+
+  const { timeoutMs } = getTaskRoute(task);
+  let lastError: unknown;
+  let attempt = 0;
+
+  for await (const routed of circuitOrder(task, configured)) {
+    const i = attempt++;
+    const { type, provider, model } = routed;
+    const attemptStart = Date.now();
+    const iterator = fn(provider)[Symbol.asyncIterator]();
+    try {
+      const firstDeadline = timeoutMs ? Date.now() + timeoutMs : undefined;
+      const pull = () => withAttemptTimeout(iterator.next(), firstDeadline && Math.max(1, firstDeadline - Date.now()), type, task);
+      let first = await pull();
+      while (!first.done && !first.value) {
+        first = await pull();
+      }
+      // Latency for streams is time to first token
+      await recordOutcome(type, true, Date.now() - attemptStart);
+      if (first.done) {
+        console.error(`[ai] ${describeRoute(task, type, model)} stream ended without output — trying next`);
+        lastError = new Error(`Provider ${type} returned empty stream`);
+        settleAttempt(task, routed, 'failed', Date.now() - attemptStart, userId);
+        continue;
+      }
+
+      console.log(`[ai] streaming via ${describeRoute(task, type, model)}${i > 0 ? ` (fallback #${i})` : ''}`);
+
+      const firstDelta = first.value;
+      const stream = (async function* () {
+        let status: 'success' | 'failed' = 'success';
+        try {
+          yield firstDelta;
+          while (true) {
+            const next = await iterator.next();
+            if (next.done) return;
+            yield next.value;
+          }
+        } catch (error) {
+          status = 'failed';
+          throw error;
+        } finally {
+          const { costUSD } = settleAttempt(task, routed, status, Date.now() - attemptStart, userId);
+          console.log(`[ai] stream via ${describeRoute(task, type, model)} finished | $${costUSD.toFixed(4)} | est. daily cost: $${dailyCostUSD.toFixed(3)}`);
+        }
+      })();
+      return { stream, provider: type, model };
     } catch (error) {
       lastError = error;
-      console.error(`[ai] provider ${type} failed: ${(error as Error).message}`);
+      const latencyMs = Date.now() - attemptStart;
+      console.error(`[ai] ${describeRoute(task, type, model)} stream failed: ${(error as Error).message}`);
+      await recordOutcome(type, !isCircuitFailure(error), latencyMs);
+      settleAttempt(task, routed, 'failed', latencyMs, userId);
+      // Stop a timed-out stream from holding its connection open
+      iterator.return?.().catch(() => {});
     }
   }
 
@@ -238,8 +478,16 @@ export type {
   WeeklyNutritionInput,
   WeeklyNutritionInsights,
   AIResponse,
+  AIStreamEvent,
+  PromptStamp,
 } from './types';
+export type { AITask, TaskRoute } from './config';
+export type { CircuitSnapshot, CircuitState } from './circuitBreaker';
+export type { PromptId, PromptSet } from './promptRegistry';
 
 export { createOpenAIProvider } from './providers/openai';
 export { createAnthropicProvider } from './providers/anthropic';
 export { createGoogleProvider } from './providers/google';
+export { createMistralProvider } from './providers/mistral';
+export { createLocalProvider } from './providers/local';
+export { createReplayProvider, createFileFixtureStore, createMemoryFixtureStore } from './providers/replay';
@@ -0,0 +1,122 @@
+/**
+ * Learned Portion Corrections
+ *
+ * MealTracker writes a food_scans row every time a photo scan is logged: the
+ * foods as detected, the foods as logged, and the per-food portion multipliers
+ * the user dialled in. This module reads a user's recent scans back and learns
+ * their usual correction per food (keyed by normalizeFoodName), which
+ * enrichFoodsWithNutrition then applies to future scans — someone who always
+ * bumps "rice" to 150% gets 150% rice by default.
+ *
+ * Corrections need a few consistent samples before they apply, and failures
+ * here never block a scan: no service key or a failed read means no
+ * corrections.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { normalizeFoodName } from './usdaIntegration';
+import type { FoodWithNutrition, PortionCorrections } from './types';
+
+const SCAN_HISTORY_LIMIT = 100;      // Most recent scans considered
+const MAX_SAMPLES_PER_FOOD = 10;     // Only the latest habits count
+const MIN_SAMPLES = 3;               // Scans of a food before a correction applies
+const MIN_EFFECT = 0.1;              // Ignore corrections within ±10%
+// Same range as the MealTracker portion slider
+const MIN_MULTIPLIER = 0.25;
+const MAX_MULTIPLIER = 3;
+
+/**
+ * The food_scans columns this module reads.
+ */
+export interface FoodScanRow {
+  detected_items: Partial<FoodWithNutrition>[] | null;
+  portion_multipliers: Record<string, number> | null;
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Learn per-food portion multipliers from scans, newest first.
+ *
+ * Each detected food contributes one sample: the multiplier the user ended up
+ * with relative to the AI's raw estimate. A food detected with a learned
+ * correction already applied counts that correction too, so accepting a
+ * corrected portion reinforces it and nudging it again refines it. The median
+ * keeps one-off edits (a double serving) from moving the default.
+ */
+export function learnPortionCorrections(scans: FoodScanRow[]): PortionCorrections {
+  const samples = new Map<string, number[]>();
+
+  for (const scan of scans) {
+    const items = scan.detected_items ?? [];
+    const multipliers = scan.portion_multipliers ?? {};
+    items.forEach((item, index) => {
+      if (!item?.name) return;
+      const key = normalizeFoodName(item.name);
+      if (!key) return;
+      const userMultiplier = Number(multipliers[index]) || 1;
+      const effective = (item.learnedMultiplier ?? 1) * userMultiplier;
+      const list = samples.get(key) ?? [];
+      if (list.length < MAX_SAMPLES_PER_FOOD) list.push(effective);
+      samples.set(key, list);
+    });
+  }
+
+  const corrections: PortionCorrections = {};
+  for (const [key, values] of samples) {
+    if (values.length < MIN_SAMPLES) continue;
+    const multiplier = median(values);
+    if (Math.abs(multiplier - 1) < MIN_EFFECT) continue;
+    // Round to 5% steps so small drifts don't change every scan
+    const clamped = Math.min(MAX_MULTIPLIER, Math.max(MIN_MULTIPLIER, multiplier));
+    corrections[key] = Math.round(clamped * 20) / 20;
+  }
+  return corrections;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+let scansClient: SupabaseClient | null = null;
+
+function getScansClient(): SupabaseClient | null {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+  if (!scansClient) scansClient = createClient(url, serviceKey);
+  return scansClient;
+}
+
+/**
+ * A user's learned portion corrections, or {} when none apply or the scan
+ * history can't be read. Set PORTION_LEARNING_ENABLED=false to turn it off.
+ */
+export async function getPortionCorrections(userId: string | null | undefined): Promise<PortionCorrections> {
+  if (!userId || process.env.PORTION_LEARNING_ENABLED === 'false') return {};
+  const supabase = getScansClient();
+  if (!supabase) return {};
+
+  try {
+    const { data, error } = await supabase
+      .from('food_scans')
+      .select('detected_items, portion_multipliers')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(SCAN_HISTORY_LIMIT);
+
+    if (error) throw error;
+    return learnPortionCorrections((data ?? []) as FoodScanRow[]);
+  } catch (error) {
+    console.error('[portions] Failed to load scan history:', (error as Error).message);
+    return {};
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Prompt Registry + A/B Experiments
+ *
+ * Every system prompt has a stable id and one or more versions. Providers ask a
+ * per-request PromptSet for prompts by id instead of importing the constants,
+ * and the set records which id/version it handed out. That stamp ends up on
+ * AIResponse.prompt and on food_scans / weekly_plans, so accuracy and user
+ * edits can be compared across prompt versions.
+ *
+ * To ship a new prompt version, add it under `versions` and either bump
+ * `current` or run it against a split of users via AI_PROMPT_EXPERIMENTS:
+ *   {"text_meal_analysis":{"variant":"v2","split":0.5}}
+ * Users are bucketed by a hash of prompt id + user id, so each user keeps the
+ * same arm for the life of the experiment. Requests without a user (system
+ * jobs) always get the control.
+ */
+
+import {
+  BODY_ANALYSIS_PROMPT,
+  MEAL_ANALYSIS_PROMPT,
+  MEAL_PLANNING_PROMPT,
+  MEAL_PHOTO_IDENTIFICATION_PROMPT,
+  PROGRESS_ANALYSIS_PROMPT,
+  TEXT_MEAL_ANALYSIS_PROMPT,
+  WEEKLY_NUTRITION_PROMPT,
+  WEEKLY_PLANNING_AGENT_PROMPT,
+  WORKOUT_GENERATION_PROMPT,
+} from '../../prompts';
+import { buildCoachingPrompt, type CoachingPromptInput } from '../../prompts/coachingPrompts';
+import type { PromptStamp } from './types';
+
+/** Template type per prompt id. Most prompts are static text; coaching is built per insight. */
+export interface PromptTemplates {
+  body_analysis: string;
+  meal_analysis: string;
+  meal_photo_identification: string;
+  text_meal_analysis: string;
+  progress_analysis: string;
+  workout_generation: string;
+  weekly_nutrition: string;
+  weekly_planning: string;
+  meal_planning: string;
+  coaching: (input: CoachingPromptInput) => string;
+}
+
+export type PromptId = keyof PromptTemplates;
+
+interface PromptDefinition<T> {
+  current: string;
+  versions: Record<string, T>;
+}
+
+type PromptRegistry = { [K in PromptId]: PromptDefinition<PromptTemplates[K]> };
+
+export const PROMPT_REGISTRY: PromptRegistry = {
+  body_analysis: { current: 'v1', versions: { v1: BODY_ANALYSIS_PROMPT } },
+  meal_analysis: { current: 'v1', versions: { v1: MEAL_ANALYSIS_PROMPT } },
+  meal_photo_identification: { current: 'v1', versions: { v1: MEAL_PHOTO_IDENTIFICATION_PROMPT } },
+  text_meal_analysis: { current: 'v1', versions: { v1: TEXT_MEAL_ANALYSIS_PROMPT } },
+  progress_analysis: { current: 'v1', versions: { v1: PROGRESS_ANALYSIS_PROMPT } },
+  workout_generation: { current: 'v1', versions: { v1: WORKOUT_GENERATION_PROMPT } },
+  weekly_nutrition: { current: 'v1', versions: { v1: WEEKLY_NUTRITION_PROMPT } },
+  weekly_planning: { current: 'v1', versions: { v1: WEEKLY_PLANNING_AGENT_PROMPT } },
+  meal_planning: { current: 'v1', versions: { v1: MEAL_PLANNING_PROMPT } },
+  coaching: { current: 'v1', versions: { v1: buildCoachingPrompt } },
+};
+
+// ============================================================================
+// Experiments
+// ============================================================================
+
+export interface PromptExperiment {
+  /** Version served to the variant arm. The control arm gets `current`. */
+  variant: string;
+  /** Share of users in the variant arm, 0-1. */
+  split: number;
+}
+
+/**
+ * Experiments from AI_PROMPT_EXPERIMENTS. Read on every call (like
+ * AI_TASK_ROUTES) so a split can be changed in the Vercel dashboard.
+ * Unknown prompts, unknown versions and bad splits are dropped.
+ */
+export function getPromptExperiments(): Partial<Record<PromptId, PromptExperiment>> {
+  const raw = process.env.AI_PROMPT_EXPERIMENTS;
+  if (!raw) return {};
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    console.error('[prompts] AI_PROMPT_EXPERIMENTS is not valid JSON — serving current versions');
+    return {};
+  }
+
+  const experiments: Partial<Record<PromptId, PromptExperiment>> = {};
+  for (const [id, value] of Object.entries(parsed)) {
+    if (!(id in PROMPT_REGISTRY) || !value || typeof value !== 'object') continue;
+    const { variant, split } = value as Record<string, unknown>;
+    const definition = PROMPT_REGISTRY[id as PromptId];
+    if (typeof variant !== 'string' || !(variant in definition.versions)) {
+      console.error(`[prompts] Experiment on ${id} names unknown version "${String(variant)}" — ignored`);
+      continue;
+    }
+    if (typeof split !== 'number' || split < 0 || split > 1) continue;
+    experiments[id as PromptId] = { variant, split };
+  }
+  return experiments;
+}
+
+/**
+ * Stable 0-1 bucket for a user within one prompt's experiment (FNV-1a).
+ * Synchronous so providers can resolve prompts inline.
+ */
+export function experimentBucket(promptId: PromptId, userId: string): number {
+  let hash = 0x811c9dc5;
+  const key = `${promptId}:${userId}`;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick the version of a prompt for a user.
+ */
+export function resolvePromptVersion(id: PromptId, userId?: string | null): PromptStamp {
+  const current = PROMPT_REGISTRY[id].current;
+  const experiment = getPromptExperiments()[id];
+  if (!experiment || experiment.variant === current) return { id, version: current };
+  if (!userId) return { id, version: current, experiment: 'control' };
+
+  return experimentBucket(id, userId) < experiment.split
+    ? { id, version: experiment.variant, experiment: 'variant' }
+    : { id, version: current, experiment: 'control' };
+}
+
+// ============================================================================
+// Per-Request Prompt Set
+// ============================================================================
+
+export interface PromptSet {
+  /** Template for a prompt, resolved for this request's user; records a stamp. */
+  get<K extends PromptId>(id: K): PromptTemplates[K];
+  /** Every prompt handed out so far, in order, without duplicates. */
+  stamps(): PromptStamp[];
+}
+
+/**
+ * Prompts for one request. Each provider instance gets its own set so only
+ * the provider that answered contributes stamps.
+ */
+export function createPromptSet(userId?: string | null): PromptSet {
+  const used: PromptStamp[] = [];
+
+  return {
+    get(id) {
+      const stamp = resolvePromptVersion(id, userId);
+      if (!used.some(s => s.id === stamp.id)) used.push(stamp);
+      return PROMPT_REGISTRY[id].versions[stamp.version];
+    },
+    stamps() {
+      return [...used];
+    },
+  };
+}
+
+/**
+ * The stamp to report for an operation: the first prompt in a running
+ * experiment if any, otherwise the first prompt used.
+ */
+export function primaryPromptStamp(stamps: PromptStamp[]): PromptStamp | undefined {
+  return stamps.find(s => s.experiment) ?? stamps[0];
+}
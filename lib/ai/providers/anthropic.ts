@@ -4,26 +4,27 @@ import type {
   ChatOptions,
   TextMealAnalysis,
   PhotoMealAnalysis,
+  PortionCorrections,
   GeneratedWorkout,
   WorkoutGenerationInput,
   WeeklyNutritionInput,
   WeeklyNutritionInsights,
   WeeklyPlan,
   WeeklyPlanGenerationInput,
+  MealPlan,
+  MealPlanInput,
   AIError,
   BodyAnalysisResult,
   ProgressAnalysisResult,
+  TokenUsage,
 } from '../types';
-import { validateAndCorrectMealAnalysis, parseMacrosFromResponse, stripMacrosBlock } from '../utils';
-import {
-  BODY_ANALYSIS_PROMPT,
-  MEAL_ANALYSIS_PROMPT,
-  PROGRESS_ANALYSIS_PROMPT,
-  WORKOUT_GENERATION_PROMPT,
-  TEXT_MEAL_ANALYSIS_PROMPT,
-  WEEKLY_NUTRITION_PROMPT,
-  WEEKLY_PLANNING_AGENT_PROMPT,
-} from '../../../prompts';
+import { validateAndCorrectMealAnalysis, parseMacrosFromResponse, stripMacrosBlock, readSSEData } from '../utils';
+import { createPromptSet, type PromptSet } from '../promptRegistry';
+import { dietaryRestrictionLabels, formatDietaryContext, type DietaryPreference } from '../../../utils/dietaryPreferences';
+import { describeFastingAdherence } from '../../../utils/fasting';
+import { describeEffort } from '../../../utils/setTypes';
+import { verifyMealPlan } from '../usdaIntegration';
+import { chatStructured, GeneratedWorkoutSchema, mealPlanSchema, WeeklyNutritionInsightsSchema, WeeklyPlanSchema } from '../schemas';
 
 // ============================================================================
 // Configuration
@@ -192,7 +193,13 @@ function formatMessagesForAnthropic(messages: ChatMessage[]): { system: string;
 // Anthropic Provider Implementation
 // ============================================================================
 
-export function createAnthropicProvider(apiKey: string): AIProvider {
+export function createAnthropicProvider(
+  apiKey: string,
+  model: string = DEFAULT_MODEL,
+  prompts: PromptSet = createPromptSet()
+): AIProvider {
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
   async function callAnthropicAPI(
     messages: ChatMessage[],
     options: ChatOptions = {}
@@ -209,7 +216,7 @@ export function createAnthropicProvider(apiKey: string): AIProvider {
           'anthropic-version': '2023-06-01',
         },
         body: JSON.stringify({
-          model: DEFAULT_MODEL,
+          model,
           max_tokens: maxTokens,
           temperature,
           system: system || undefined,
@@ -223,6 +230,8 @@ export function createAnthropicProvider(apiKey: string): AIProvider {
       }
 
       const data = await response.json();
+      usage.inputTokens += data.usage?.input_tokens ?? 0;
+      usage.outputTokens += data.usage?.output_tokens ?? 0;
 
       // Extract text from response
       if (data.content && Array.isArray(data.content)) {
@@ -234,24 +243,119 @@ export function createAnthropicProvider(apiKey: string): AIProvider {
     }, { timeoutMs });
   }
 
+  async function* streamAnthropicAPI(
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): AsyncGenerator<string> {
+    const { temperature = 0.7, maxTokens = 1000, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+    const { system, messages: formattedMessages } = formatMessagesForAnthropic(messages);
+
+    // No retry — see withStreamFallback for pre-first-token failover
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${API_BASE_URL}/messages`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01',
+          },
+          body: JSON.stringify({
+            model,
+            max_tokens: maxTokens,
+            temperature,
+            system: system || undefined,
+            messages: formattedMessages,
+            stream: true,
+          }),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw classifyAnthropicError(error);
+      }
+
+      if (!response.ok || !response.body) {
+        throw classifyAnthropicError(new Error(`HTTP ${response.status}`), response.status);
+      }
+
+      try {
+        for await (const data of readSSEData(response.body)) {
+          let event: {
+            type?: string;
+            delta?: { type?: string; text?: string };
+            error?: { message?: string };
+            message?: { usage?: { input_tokens?: number } };
+            usage?: { output_tokens?: number };
+          };
+          try {
+            event = JSON.parse(data);
+          } catch {
+            continue;
+          }
+
+          if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+            yield event.delta.text;
+          } else if (event.type === 'message_start') {
+            usage.inputTokens += event.message?.usage?.input_tokens ?? 0;
+          } else if (event.type === 'message_delta') {
+            // Cumulative output count for the message
+            usage.outputTokens += event.usage?.output_tokens ?? 0;
+          } else if (event.type === 'error') {
+            throw {
+              type: 'server_error',
+              message: event.error?.message || 'Stream error.',
+              retryable: true,
+              provider: 'anthropic',
+            } as AIError;
+          } else if (event.type === 'message_stop') {
+            return;
+          }
+        }
+      } catch (error) {
+        if (error && typeof error === 'object' && 'retryable' in error) throw error;
+        throw classifyAnthropicError(error);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   return {
     name: 'anthropic',
 
+    getUsage(): TokenUsage {
+      return { ...usage };
+    },
+
+    getPromptStamps() {
+      return prompts.stamps();
+    },
+
     async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
       return callAnthropicAPI(messages, options);
     },
 
-    async analyzeTextMeal(description: string, userGoal: string | null): Promise<TextMealAnalysis | null> {
+    chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<string> {
+      return streamAnthropicAPI(messages, options);
+    },
+
+    async analyzeTextMeal(description: string, userGoal: string | null, dietary: DietaryPreference[] = []): Promise<TextMealAnalysis | null> {
       const goalContext = userGoal
         ? `User's goal: ${userGoal}. Adjust portion estimates accordingly.`
         : 'No specific goal set. Use standard portion estimates.';
 
-      const prompt = `Analyze this meal: "${description}"\n\n${goalContext}`;
+      const dietaryContext = formatDietaryContext(dietary);
+
+      const prompt = `Analyze this meal: "${description}"\n\n${goalContext}${dietaryContext ? `\n${dietaryContext}` : ''}`;
 
       try {
         const content = await this.chat(
           [
-            { role: 'system', content: TEXT_MEAL_ANALYSIS_PROMPT },
+            { role: 'system', content: prompts.get('text_meal_analysis') },
             { role: 'user', content: prompt },
           ],
           { temperature: 0.3, maxTokens: 2000 }
@@ -275,7 +379,16 @@ export function createAnthropicProvider(apiKey: string): AIProvider {
       }
     },
 
-    async analyzeMealPhoto(imageBase64: string, userGoal: string | null): Promise<PhotoMealAnalysis> {
+    // Single-pass analysis: portion corrections only apply to the USDA lookup flow
+    async analyzeMealPhoto(
+      imageBase64: string,
+      userGoal: string | null,
+      _portionCorrections?: PortionCorrections,
+      dietary: DietaryPreference[] = [],
+      onProgress?: (message: string) => void
+    ): Promise<PhotoMealAnalysis> {
+      onProgress?.('Analyzing your meal...');
+      const dietaryContext = formatDietaryContext(dietary);
       const goalText = userGoal
         ? `The user's current goal is: ${userGoal}. Tailor your feedback to this goal.`
         : 'The user has not set a specific goal yet. Provide general nutrition advice.';
@@ -283,11 +396,11 @@ export function createAnthropicProvider(apiKey: string): AIProvider {
       try {
         const content = await this.chat(
           [
-            { role: 'system', content: MEAL_ANALYSIS_PROMPT },
+            { role: 'system', content: prompts.get('meal_analysis') },
             {
               role: 'user',
               content: [
-                { type: 'text', text: `Analyze the attached meal photo. ${goalText}` },
+                { type: 'text', text: `Analyze the attached meal photo. ${goalText}${dietaryContext ? ` ${dietaryContext}` : ''}` },
                 { type: 'image', imageUrl: imageBase64 },
               ],
             },
@@ -312,7 +425,7 @@ export function createAnthropicProvider(apiKey: string): AIProvider {
       try {
         const markdown = await this.chat(
           [
-            { role: 'system', content: BODY_ANALYSIS_PROMPT },
+            { role: 'system', content: prompts.get('body_analysis') },
             {
               role: 'user',
               content: [
@@ -337,7 +450,7 @@ export function createAnthropicProvider(apiKey: string): AIProvider {
 
         const markdown = await this.chat(
           [
-            { role: 'system', content: PROGRESS_ANALYSIS_PROMPT },
+            { role: 'system', content: prompts.get('progress_analysis') },
             {
               role: 'user',
               content: [
@@ -375,27 +488,21 @@ RECOVERY STATE:
 RECENT WORKOUTS (last 3):
 ${input.recentWorkouts.length > 0
   ? input.recentWorkouts.map(w => `- ${w.title} (${w.date}): ${w.muscles.join(', ')}`).join('\n')
-  : 'No recent workouts recorded'}
+  : 'No recent workouts recorded'}${input.effort?.length ? `\n\n${describeEffort(input.effort)}` : ''}
 
 Generate an appropriate workout. Respond with ONLY valid JSON, no markdown.
 `;
 
       try {
-        const content = await this.chat(
+        return await chatStructured(
+          this,
           [
-            { role: 'system', content: WORKOUT_GENERATION_PROMPT },
+            { role: 'system', content: prompts.get('workout_generation') },
             { role: 'user', content: prompt },
           ],
-          { maxTokens: 2000 }
+          { maxTokens: 2000 },
+          GeneratedWorkoutSchema
         );
-
-        if (content) {
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]) as GeneratedWorkout;
-          }
-        }
-        return null;
       } catch {
         return null;
       }
@@ -414,36 +521,21 @@ DAILY TARGETS:
 - Fats: ${input.targets.fats}g
 
 DAILY LOGS (last 7 days):
-${input.logs.map(log => `- ${log.date}: ${log.calories} cal, ${log.protein}g P, ${log.carbs}g C, ${log.fats}g F`).join('\n')}
+${input.logs.map(log => `- ${log.date}: ${log.calories} cal, ${log.protein}g P, ${log.carbs}g C, ${log.fats}g F`).join('\n')}${input.fasting ? `\n\n${describeFastingAdherence(input.fasting)}` : ''}
 
 Respond with ONLY valid JSON, no markdown.
 `;
 
       try {
-        const content = await this.chat(
+        return await chatStructured(
+          this,
           [
-            { role: 'system', content: WEEKLY_NUTRITION_PROMPT },
+            { role: 'system', content: prompts.get('weekly_nutrition') },
             { role: 'user', content: prompt },
           ],
-          { maxTokens: 800, temperature: 0.5 }
+          { maxTokens: 800, temperature: 0.5 },
+          WeeklyNutritionInsightsSchema
         );
-
-        if (content) {
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]) as WeeklyNutritionInsights;
-            if (
-              typeof parsed.adherence_score === 'number' &&
-              typeof parsed.summary === 'string' &&
-              Array.isArray(parsed.wins) &&
-              typeof parsed.focus_area === 'string' &&
-              typeof parsed.tip === 'string'
-            ) {
-              return parsed;
-            }
-          }
-        }
-        return null;
       } catch {
         return null;
       }
@@ -486,6 +578,8 @@ Respond with ONLY valid JSON, no markdown.
       nextMonday.setDate(today.getDate() + daysUntilMonday);
       const weekStart = nextMonday.toISOString().split('T')[0];
 
+      const dietaryNeeds = dietaryRestrictionLabels(input.profile.dietary_preferences ?? []);
+
       const prompt = `
 Create a complete 7-day training plan for the upcoming week starting ${weekStart}.
 
@@ -493,7 +587,7 @@ USER PROFILE:
 - Goal: ${input.profile.goal || 'RECOMP'}
 - Training Experience: ${input.profile.training_experience || 'intermediate'}
 - Equipment Access: ${input.profile.equipment_access || 'gym'}
-- Preferred Days Per Week: ${input.profile.days_per_week || 4}
+- Preferred Days Per Week: ${input.profile.days_per_week || 4}${dietaryNeeds.length > 0 ? `\n- Dietary Needs: ${dietaryNeeds.join(', ')}` : ''}
 ${input.preferredSchedule ? `- Preferred Training Days: ${input.preferredSchedule.map(d => ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][d]).join(', ')}` : ''}
 
 WORKOUT HISTORY (Last 3-4 weeks):
@@ -510,34 +604,64 @@ Remember to use week_start: "${weekStart}" in your response. Respond with ONLY v
 `;
 
       try {
-        const content = await this.chat(
+        return await chatStructured(
+          this,
           [
-            { role: 'system', content: WEEKLY_PLANNING_AGENT_PROMPT },
+            { role: 'system', content: prompts.get('weekly_planning') },
             { role: 'user', content: prompt },
           ],
-          { maxTokens: 4000, temperature: 0.4, timeoutMs: 60000 }
+          { maxTokens: 4000, temperature: 0.4, timeoutMs: 60000 },
+          WeeklyPlanSchema
         );
-
-        if (content) {
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]) as WeeklyPlan;
-
-            if (
-              typeof parsed.id === 'string' &&
-              typeof parsed.week_start === 'string' &&
-              Array.isArray(parsed.days) &&
-              parsed.days.length === 7 &&
-              typeof parsed.reasoning === 'string'
-            ) {
-              if (!parsed.created_at) {
-                parsed.created_at = new Date().toISOString();
-              }
-              return parsed;
-            }
-          }
-        }
+      } catch {
         return null;
+      }
+    },
+
+    async planMeals(input: MealPlanInput): Promise<MealPlan | null> {
+      const isWeek = input.horizon === 'week';
+
+      const eatenText = input.mealsEaten.length > 0
+        ? input.mealsEaten.map(m => `- ${m.mealType ? `${m.mealType}: ` : ''}${m.description} (${m.calories} cal, ${m.protein}g P)`).join('\n')
+        : 'Nothing logged yet today.';
+      const favoritesText = input.favorites.length > 0
+        ? input.favorites.map(f => `- ${f.name}: ${f.calories} cal, ${f.protein}g P, ${f.carbs}g C, ${f.fats}g F`).join('\n')
+        : 'None saved.';
+
+      const prompt = `
+${isWeek ? 'Plan 7 days of meals (day 0 = today) that hit these daily targets.' : 'Plan the rest of today\'s meals to fill what is left.'}
+
+USER GOAL: ${input.goal || 'RECOMP'}
+
+${isWeek ? 'DAILY TARGETS' : 'REMAINING TODAY'}:
+- Calories: ${input.remaining.calories}
+- Protein: ${input.remaining.protein}g
+- Carbs: ${input.remaining.carbs}g
+- Fats: ${input.remaining.fats}g
+
+DIETARY RESTRICTIONS (never violate): ${input.restrictions?.length ? input.restrictions.join(', ') : 'None'}
+
+MEALS EATEN TODAY:
+${eatenText}
+
+FAVORITE FOODS:
+${favoritesText}
+
+Respond with ONLY valid JSON, no markdown.
+`;
+
+      try {
+        const plan = await chatStructured(
+          this,
+          [
+            { role: 'system', content: prompts.get('meal_planning') },
+            { role: 'user', content: prompt },
+          ],
+          { maxTokens: isWeek ? 4000 : 1500, temperature: 0.5, timeoutMs: 60000 },
+          mealPlanSchema(input.horizon)
+        );
+        // Swap the model's estimates for USDA data before anyone logs them
+        return plan && await verifyMealPlan(plan);
       } catch {
         return null;
       }
@@ -4,6 +4,7 @@ import type {
   ChatOptions,
   TextMealAnalysis,
   PhotoMealAnalysis,
+  PortionCorrections,
   BodyAnalysisResult,
   ProgressAnalysisResult,
   GeneratedWorkout,
@@ -12,25 +13,24 @@ import type {
   WeeklyNutritionInsights,
   WeeklyPlan,
   WeeklyPlanGenerationInput,
+  MealPlan,
+  MealPlanInput,
   AIError,
+  TokenUsage,
 } from '../types';
-import { validateAndCorrectMealAnalysis, parseMacrosFromResponse, stripMacrosBlock } from '../utils';
+import { validateAndCorrectMealAnalysis, parseMacrosFromResponse, stripMacrosBlock, readSSEData } from '../utils';
 import { getModelForTask, getTimeoutForTask } from '../config';
-import {
-  BODY_ANALYSIS_PROMPT,
-  MEAL_ANALYSIS_PROMPT,
-  MEAL_PHOTO_IDENTIFICATION_PROMPT,
-  PROGRESS_ANALYSIS_PROMPT,
-  WORKOUT_GENERATION_PROMPT,
-  TEXT_MEAL_ANALYSIS_PROMPT,
-  WEEKLY_NUTRITION_PROMPT,
-  WEEKLY_PLANNING_AGENT_PROMPT,
-} from '../../../prompts';
+import { createPromptSet, type PromptSet } from '../promptRegistry';
+import { dietaryRestrictionLabels, formatDietaryContext, type DietaryPreference } from '../../../utils/dietaryPreferences';
+import { describeFastingAdherence } from '../../../utils/fasting';
+import { describeEffort } from '../../../utils/setTypes';
 import {
   enrichFoodsWithNutrition,
   generateMealMarkdown,
+  verifyMealPlan,
   type IdentifiedFood,
 } from '../usdaIntegration';
+import { chatStructured, GeneratedWorkoutSchema, mealPlanSchema, WeeklyNutritionInsightsSchema, WeeklyPlanSchema } from '../schemas';
 
 // ============================================================================
 // Configuration
@@ -235,7 +235,13 @@ function formatMessagesForGemini(messages: ChatMessage[]): { systemInstruction?:
 // Google Gemini Provider Implementation
 // ============================================================================
 
-export function createGoogleProvider(apiKey: string): AIProvider {
+export function createGoogleProvider(
+  apiKey: string,
+  modelOverride?: string,
+  prompts: PromptSet = createPromptSet()
+): AIProvider {
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
   /**
    * Core Gemini API call.
    */
@@ -252,7 +258,7 @@ export function createGoogleProvider(apiKey: string): AIProvider {
       relaxSafety = false,
     } = options;
 
-    const model = getModelForTask();
+    const model = modelOverride || getModelForTask();
     const effectiveTimeout = timeoutMs ?? getTimeoutForTask(isVisionTask);
     const { systemInstruction, contents } = formatMessagesForGemini(messages);
 
@@ -288,6 +294,8 @@ export function createGoogleProvider(apiKey: string): AIProvider {
 
       const data = await response.json();
       trackSafetyCall();
+      usage.inputTokens += data.usageMetadata?.promptTokenCount ?? 0;
+      usage.outputTokens += data.usageMetadata?.candidatesTokenCount ?? 0;
 
       // Check for content moderation block (no candidates or blocked reason)
       if (data.promptFeedback?.blockReason) {
@@ -334,24 +342,149 @@ export function createGoogleProvider(apiKey: string): AIProvider {
     }, { timeoutMs: effectiveTimeout });
   }
 
+  /**
+   * Streaming Gemini API call (streamGenerateContent with SSE framing).
+   * Not retried — withStreamFallback fails over before the first token.
+   */
+  async function* streamGeminiAPI(
+    messages: ChatMessage[],
+    options: ExtendedChatOptions = {}
+  ): AsyncGenerator<string> {
+    const {
+      temperature = 0.7,
+      maxTokens = 1000,
+      timeoutMs,
+      jsonMode = false,
+      isVisionTask = false,
+      relaxSafety = false,
+    } = options;
+
+    const model = modelOverride || getModelForTask();
+    const effectiveTimeout = timeoutMs ?? getTimeoutForTask(isVisionTask);
+    const { systemInstruction, contents } = formatMessagesForGemini(messages);
+
+    const body: Record<string, unknown> = {
+      contents,
+      generationConfig: {
+        temperature,
+        maxOutputTokens: maxTokens,
+        ...(jsonMode && { responseMimeType: 'application/json' }),
+      },
+      ...(relaxSafety && { safetySettings: RELAXED_SAFETY_SETTINGS }),
+    };
+
+    if (systemInstruction) {
+      body.systemInstruction = { parts: [{ text: systemInstruction }] };
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), effectiveTimeout);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${API_BASE_URL}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw classifyGoogleError(error);
+      }
+
+      if (!response.ok || !response.body) {
+        throw classifyGoogleError(new Error(`HTTP ${response.status}`), response.status);
+      }
+
+      trackSafetyCall();
+
+      // usageMetadata is cumulative per chunk — keep the last one
+      let streamUsage: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined;
+      try {
+        for await (const raw of readSSEData(response.body)) {
+          let data;
+          try {
+            data = JSON.parse(raw);
+          } catch {
+            continue;
+          }
+
+          if (data.usageMetadata) streamUsage = data.usageMetadata;
+
+          if (data.promptFeedback?.blockReason) {
+            trackSafetyBlock(data.promptFeedback.blockReason, data.promptFeedback?.safetyRatings);
+            throw {
+              type: 'content_filter',
+              message: `Content blocked: ${data.promptFeedback.blockReason}`,
+              retryable: false,
+              provider: 'google',
+            } as AIError;
+          }
+
+          const candidate = data.candidates?.[0];
+          if (candidate?.finishReason === 'SAFETY' || candidate?.finishReason === 'BLOCKED') {
+            trackSafetyBlock(candidate.finishReason, candidate.safetyRatings);
+            throw {
+              type: 'content_filter',
+              message: 'Image content blocked by safety filters. Try a different photo.',
+              retryable: false,
+              provider: 'google',
+            } as AIError;
+          }
+
+          const text = (candidate?.content?.parts || [])
+            .filter((p: { text?: string }) => p.text)
+            .map((p: { text: string }) => p.text)
+            .join('');
+          if (text) yield text;
+        }
+      } catch (error) {
+        if (error && typeof error === 'object' && 'retryable' in error) throw error;
+        throw classifyGoogleError(error);
+      } finally {
+        usage.inputTokens += streamUsage?.promptTokenCount ?? 0;
+        usage.outputTokens += streamUsage?.candidatesTokenCount ?? 0;
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   return {
     name: 'google',
 
+    getUsage(): TokenUsage {
+      return { ...usage };
+    },
+
+    getPromptStamps() {
+      return prompts.stamps();
+    },
+
     async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
       return callGeminiAPI(messages, options);
     },
 
-    async analyzeTextMeal(description: string, userGoal: string | null): Promise<TextMealAnalysis | null> {
+    chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<string> {
+      return streamGeminiAPI(messages, options);
+    },
+
+    async analyzeTextMeal(description: string, userGoal: string | null, dietary: DietaryPreference[] = []): Promise<TextMealAnalysis | null> {
       const goalContext = userGoal
         ? `User's goal: ${userGoal}. Adjust portion estimates accordingly.`
         : 'No specific goal set. Use standard portion estimates.';
 
-      const prompt = `Analyze this meal: "${description}"\n\n${goalContext}`;
+      const dietaryContext = formatDietaryContext(dietary);
+
+      const prompt = `Analyze this meal: "${description}"\n\n${goalContext}${dietaryContext ? `\n${dietaryContext}` : ''}`;
 
       // Let API/network errors propagate so withFallback can try the next provider
       const content = await this.chat(
         [
-          { role: 'system', content: TEXT_MEAL_ANALYSIS_PROMPT },
+          { role: 'system', content: prompts.get('text_meal_analysis') },
           { role: 'user', content: prompt },
         ],
         { temperature: 0.3, maxTokens: 2000 }
@@ -377,13 +510,22 @@ export function createGoogleProvider(apiKey: string): AIProvider {
       return null;
     },
 
-    async analyzeMealPhoto(imageBase64: string, userGoal: string | null): Promise<PhotoMealAnalysis> {
+    async analyzeMealPhoto(
+      imageBase64: string,
+      userGoal: string | null,
+      portionCorrections?: PortionCorrections,
+      dietary: DietaryPreference[] = [],
+      onProgress?: (message: string) => void
+    ): Promise<PhotoMealAnalysis> {
+      const dietaryContext = formatDietaryContext(dietary);
+
       // ========================================================================
       // Two-Phase Meal Analysis: AI Identifies → USDA Lookup → Deterministic Math
       // ========================================================================
 
       // Legacy fallback function (inline to avoid interface changes)
       const legacyAnalysis = async (): Promise<PhotoMealAnalysis> => {
+        onProgress?.('Analyzing your meal...');
         const goalText = userGoal
           ? `The user's current goal is: ${userGoal}. Tailor your feedback to this goal.`
           : 'The user has not set a specific goal yet. Provide general nutrition advice.';
@@ -391,11 +533,11 @@ export function createGoogleProvider(apiKey: string): AIProvider {
         try {
           const responseText = await callGeminiAPI(
             [
-              { role: 'system', content: MEAL_ANALYSIS_PROMPT },
+              { role: 'system', content: prompts.get('meal_analysis') },
               {
                 role: 'user',
                 content: [
-                  { type: 'text', text: `Analyze the attached meal photo. ${goalText}` },
+                  { type: 'text', text: `Analyze the attached meal photo. ${goalText}${dietaryContext ? ` ${dietaryContext}` : ''}` },
                   { type: 'image', imageUrl: imageBase64 },
                 ],
               },
@@ -424,9 +566,10 @@ export function createGoogleProvider(apiKey: string): AIProvider {
       try {
         // Phase 1: AI identifies foods (structured JSON)
         console.log('[google] Phase 1: Identifying foods in photo...');
+        onProgress?.('Identifying foods...');
         const identificationResponse = await callGeminiAPI(
           [
-            { role: 'system', content: MEAL_PHOTO_IDENTIFICATION_PROMPT },
+            { role: 'system', content: prompts.get('meal_photo_identification') },
             {
               role: 'user',
               content: [
@@ -469,13 +612,15 @@ export function createGoogleProvider(apiKey: string): AIProvider {
 
         // Phase 2: USDA lookup for each food
         console.log('[google] Phase 2: Looking up nutrition data...');
-        const { foods: foodsWithNutrition, totals, hasUSDAData } = await enrichFoodsWithNutrition(identifiedFoods);
+        onProgress?.(`Looking up nutrition for ${identifiedFoods.length} food${identifiedFoods.length === 1 ? '' : 's'}...`);
+        const { foods: foodsWithNutrition, totals, micros, hasUSDAData } = await enrichFoodsWithNutrition(identifiedFoods, portionCorrections);
 
         const usdaCount = foodsWithNutrition.filter(f => f.source === 'usda').length;
         console.log(`[google] Phase 2 complete: ${usdaCount}/${foodsWithNutrition.length} foods matched USDA`);
+        onProgress?.(`Matched ${usdaCount} of ${foodsWithNutrition.length} with USDA. Calculating totals...`);
 
         // Phase 3: Generate markdown summary
-        const markdown = generateMealMarkdown(foodsWithNutrition, totals, userGoal);
+        const markdown = generateMealMarkdown(foodsWithNutrition, totals, userGoal, dietary);
 
         return {
           markdown,
@@ -483,6 +628,7 @@ export function createGoogleProvider(apiKey: string): AIProvider {
           foods: foodsWithNutrition.map(f => f.name),
           foodsDetailed: foodsWithNutrition,
           hasUSDAData,
+          micros,
         };
       } catch (error) {
         console.error('[google] Two-phase analysis failed, falling back to legacy:', error);
@@ -494,7 +640,7 @@ export function createGoogleProvider(apiKey: string): AIProvider {
       // Let errors propagate so withFallback can try the next provider
       const responseText = await callGeminiAPI(
         [
-          { role: 'system', content: BODY_ANALYSIS_PROMPT },
+          { role: 'system', content: prompts.get('body_analysis') },
           {
             role: 'user',
             content: [
@@ -515,7 +661,7 @@ export function createGoogleProvider(apiKey: string): AIProvider {
 
       const responseText = await callGeminiAPI(
         [
-          { role: 'system', content: PROGRESS_ANALYSIS_PROMPT },
+          { role: 'system', content: prompts.get('progress_analysis') },
           {
             role: 'user',
             content: [
@@ -549,27 +695,21 @@ RECOVERY STATE:
 RECENT WORKOUTS (last 3):
 ${input.recentWorkouts.length > 0
   ? input.recentWorkouts.map(w => `- ${w.title} (${w.date}): ${w.muscles.join(', ')}`).join('\n')
-  : 'No recent workouts recorded'}
+  : 'No recent workouts recorded'}${input.effort?.length ? `\n\n${describeEffort(input.effort)}` : ''}
 
 Generate an appropriate workout. Respond with ONLY valid JSON, no markdown.
 `;
 
       try {
-        const content = await this.chat(
+        return await chatStructured(
+          this,
           [
-            { role: 'system', content: WORKOUT_GENERATION_PROMPT },
+            { role: 'system', content: prompts.get('workout_generation') },
             { role: 'user', content: prompt },
           ],
-          { maxTokens: 2000, jsonMode: true }
+          { maxTokens: 2000, jsonMode: true },
+          GeneratedWorkoutSchema
         );
-
-        if (content) {
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]) as GeneratedWorkout;
-          }
-        }
-        return null;
       } catch {
         return null;
       }
@@ -588,36 +728,21 @@ DAILY TARGETS:
 - Fats: ${input.targets.fats}g
 
 DAILY LOGS (last 7 days):
-${input.logs.map(log => `- ${log.date}: ${log.calories} cal, ${log.protein}g P, ${log.carbs}g C, ${log.fats}g F`).join('\n')}
+${input.logs.map(log => `- ${log.date}: ${log.calories} cal, ${log.protein}g P, ${log.carbs}g C, ${log.fats}g F`).join('\n')}${input.fasting ? `\n\n${describeFastingAdherence(input.fasting)}` : ''}
 
 Respond with ONLY valid JSON, no markdown.
 `;
 
       try {
-        const content = await this.chat(
+        return await chatStructured(
+          this,
           [
-            { role: 'system', content: WEEKLY_NUTRITION_PROMPT },
+            { role: 'system', content: prompts.get('weekly_nutrition') },
             { role: 'user', content: prompt },
           ],
-          { maxTokens: 800, temperature: 0.5, jsonMode: true }
+          { maxTokens: 800, temperature: 0.5, jsonMode: true },
+          WeeklyNutritionInsightsSchema
         );
-
-        if (content) {
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]) as WeeklyNutritionInsights;
-            if (
-              typeof parsed.adherence_score === 'number' &&
-              typeof parsed.summary === 'string' &&
-              Array.isArray(parsed.wins) &&
-              typeof parsed.focus_area === 'string' &&
-              typeof parsed.tip === 'string'
-            ) {
-              return parsed;
-            }
-          }
-        }
-        return null;
       } catch {
         return null;
       }
@@ -660,6 +785,8 @@ Respond with ONLY valid JSON, no markdown.
       nextMonday.setDate(today.getDate() + daysUntilMonday);
       const weekStart = nextMonday.toISOString().split('T')[0];
 
+      const dietaryNeeds = dietaryRestrictionLabels(input.profile.dietary_preferences ?? []);
+
       const prompt = `
 Create a complete 7-day training plan for the upcoming week starting ${weekStart}.
 
@@ -667,7 +794,7 @@ USER PROFILE:
 - Goal: ${input.profile.goal || 'RECOMP'}
 - Training Experience: ${input.profile.training_experience || 'intermediate'}
 - Equipment Access: ${input.profile.equipment_access || 'gym'}
-- Preferred Days Per Week: ${input.profile.days_per_week || 4}
+- Preferred Days Per Week: ${input.profile.days_per_week || 4}${dietaryNeeds.length > 0 ? `\n- Dietary Needs: ${dietaryNeeds.join(', ')}` : ''}
 ${input.preferredSchedule ? `- Preferred Training Days: ${input.preferredSchedule.map(d => ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][d]).join(', ')}` : ''}
 
 WORKOUT HISTORY (Last 3-4 weeks):
@@ -684,34 +811,64 @@ Remember to use week_start: "${weekStart}" in your response. Respond with ONLY v
 `;
 
       try {
-        const content = await this.chat(
+        return await chatStructured(
+          this,
           [
-            { role: 'system', content: WEEKLY_PLANNING_AGENT_PROMPT },
+            { role: 'system', content: prompts.get('weekly_planning') },
             { role: 'user', content: prompt },
           ],
-          { maxTokens: 4000, jsonMode: true, temperature: 0.4, timeoutMs: 60000 }
+          { maxTokens: 4000, jsonMode: true, temperature: 0.4, timeoutMs: 60000 },
+          WeeklyPlanSchema
         );
-
-        if (content) {
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]) as WeeklyPlan;
-
-            if (
-              typeof parsed.id === 'string' &&
-              typeof parsed.week_start === 'string' &&
-              Array.isArray(parsed.days) &&
-              parsed.days.length === 7 &&
-              typeof parsed.reasoning === 'string'
-            ) {
-              if (!parsed.created_at) {
-                parsed.created_at = new Date().toISOString();
-              }
-              return parsed;
-            }
-          }
-        }
+      } catch {
         return null;
+      }
+    },
+
+    async planMeals(input: MealPlanInput): Promise<MealPlan | null> {
+      const isWeek = input.horizon === 'week';
+
+      const eatenText = input.mealsEaten.length > 0
+        ? input.mealsEaten.map(m => `- ${m.mealType ? `${m.mealType}: ` : ''}${m.description} (${m.calories} cal, ${m.protein}g P)`).join('\n')
+        : 'Nothing logged yet today.';
+      const favoritesText = input.favorites.length > 0
+        ? input.favorites.map(f => `- ${f.name}: ${f.calories} cal, ${f.protein}g P, ${f.carbs}g C, ${f.fats}g F`).join('\n')
+        : 'None saved.';
+
+      const prompt = `
+${isWeek ? 'Plan 7 days of meals (day 0 = today) that hit these daily targets.' : 'Plan the rest of today\'s meals to fill what is left.'}
+
+USER GOAL: ${input.goal || 'RECOMP'}
+
+${isWeek ? 'DAILY TARGETS' : 'REMAINING TODAY'}:
+- Calories: ${input.remaining.calories}
+- Protein: ${input.remaining.protein}g
+- Carbs: ${input.remaining.carbs}g
+- Fats: ${input.remaining.fats}g
+
+DIETARY RESTRICTIONS (never violate): ${input.restrictions?.length ? input.restrictions.join(', ') : 'None'}
+
+MEALS EATEN TODAY:
+${eatenText}
+
+FAVORITE FOODS:
+${favoritesText}
+
+Respond with ONLY valid JSON, no markdown.
+`;
+
+      try {
+        const plan = await chatStructured(
+          this,
+          [
+            { role: 'system', content: prompts.get('meal_planning') },
+            { role: 'user', content: prompt },
+          ],
+          { maxTokens: isWeek ? 4000 : 1500, jsonMode: true, temperature: 0.5, timeoutMs: 60000 },
+          mealPlanSchema(input.horizon)
+        );
+        // Swap the model's estimates for USDA data before anyone logs them
+        return plan && await verifyMealPlan(plan);
       } catch {
         return null;
       }
@@ -0,0 +1,42 @@
+import type { AIProvider } from '../types';
+import type { PromptSet } from '../promptRegistry';
+import { createOpenAIProvider } from './openai';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Any server that speaks the OpenAI chat-completions protocol works here.
+// Ollama: http://localhost:11434/v1 (default)  |  llama.cpp: http://localhost:8080/v1
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+export function getLocalBaseURL(): string {
+  return process.env.LOCAL_AI_BASE_URL || DEFAULT_BASE_URL;
+}
+
+// ============================================================================
+// Local Provider Implementation
+// ============================================================================
+
+/**
+ * Self-hosted provider for offline development and CI.
+ *
+ * Reuses the OpenAI provider against a configurable base URL, so text meals,
+ * workouts and weekly plans go through exactly the same JSON-mode parsing as
+ * production. Local servers usually ignore the API key; vision calls only work
+ * if the configured model supports images (e.g. llava), otherwise withFallback
+ * moves on to the next provider.
+ */
+export function createLocalProvider(apiKey: string, model?: string, prompts?: PromptSet): AIProvider {
+  const provider = createOpenAIProvider(apiKey, {
+    baseURL: getLocalBaseURL(),
+    model: model || process.env.LOCAL_AI_MODEL || DEFAULT_MODEL,
+    name: 'local',
+    prompts,
+  });
+
+  // Ollama and llama.cpp don't serve the Whisper transcription endpoint
+  const { transcribeAudio: _transcribeAudio, ...localProvider } = provider;
+  return localProvider;
+}
@@ -0,0 +1,759 @@
+import type {
+  AIProvider,
+  ChatMessage,
+  ChatOptions,
+  TextMealAnalysis,
+  PhotoMealAnalysis,
+  PortionCorrections,
+  GeneratedWorkout,
+  WorkoutGenerationInput,
+  WeeklyNutritionInput,
+  WeeklyNutritionInsights,
+  WeeklyPlan,
+  WeeklyPlanGenerationInput,
+  MealPlan,
+  MealPlanInput,
+  AIError,
+  BodyAnalysisResult,
+  ProgressAnalysisResult,
+  TokenUsage,
+} from '../types';
+import { validateAndCorrectMealAnalysis, parseMacrosFromResponse, stripMacrosBlock, readSSEData } from '../utils';
+import { createPromptSet, type PromptSet } from '../promptRegistry';
+import { dietaryRestrictionLabels, formatDietaryContext, type DietaryPreference } from '../../../utils/dietaryPreferences';
+import { describeFastingAdherence } from '../../../utils/fasting';
+import { describeEffort } from '../../../utils/setTypes';
+import {
+  enrichFoodsWithNutrition,
+  generateMealMarkdown,
+  verifyMealPlan,
+  type IdentifiedFood,
+} from '../usdaIntegration';
+import { chatStructured, GeneratedWorkoutSchema, mealPlanSchema, WeeklyNutritionInsightsSchema, WeeklyPlanSchema } from '../schemas';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// Mistral is EU-hosted (La Plateforme). Text tasks use Mistral Small; any
+// request containing an image is routed to Pixtral, Mistral's vision model.
+const DEFAULT_MODEL = process.env.MISTRAL_MODEL || 'mistral-small-latest';
+const VISION_MODEL = process.env.MISTRAL_VISION_MODEL || 'pixtral-12b-2409';
+const DEFAULT_MAX_RETRIES = 1;
+const DEFAULT_TIMEOUT_MS = 30000;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+const API_BASE_URL = 'https://api.mistral.ai/v1';
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+function classifyMistralError(error: unknown, status?: number): AIError {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return { type: 'timeout', message: 'Request timed out.', retryable: true, provider: 'mistral' };
+  }
+
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    return { type: 'network', message: 'Network error.', retryable: true, provider: 'mistral' };
+  }
+
+  if (status) {
+    switch (status) {
+      case 401:
+      case 403:
+        return { type: 'auth', message: 'Authentication failed.', retryable: false, provider: 'mistral' };
+      case 429:
+        return { type: 'rate_limit', message: 'Rate limit reached.', retryable: true, retryAfterMs: 60000, provider: 'mistral' };
+      case 400:
+      case 422:
+        return { type: 'invalid_request', message: 'Invalid request.', retryable: false, provider: 'mistral' };
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        return { type: 'server_error', message: 'Server error.', retryable: true, provider: 'mistral' };
+      default:
+        return { type: 'unknown', message: 'Unknown error.', retryable: status >= 500, provider: 'mistral' };
+    }
+  }
+
+  return {
+    type: 'unknown',
+    message: error instanceof Error ? error.message : 'An unexpected error occurred.',
+    retryable: false,
+    provider: 'mistral',
+  };
+}
+
+// ============================================================================
+// Retry Logic
+// ============================================================================
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function calculateRetryDelay(attempt: number, rateLimitRetryAfter?: number): number {
+  if (rateLimitRetryAfter) {
+    return Math.min(rateLimitRetryAfter + 1000, MAX_RETRY_DELAY_MS);
+  }
+  const exponentialDelay = BASE_RETRY_DELAY_MS * Math.pow(2, attempt);
+  const jitter = Math.random() * 1000;
+  return Math.min(exponentialDelay + jitter, MAX_RETRY_DELAY_MS);
+}
+
+async function withRetry<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: { maxRetries?: number; timeoutMs?: number } = {}
+): Promise<T> {
+  const { maxRetries = DEFAULT_MAX_RETRIES, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  let lastError: AIError | null = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const result = await fn(controller.signal);
+      clearTimeout(timeoutId);
+      return result;
+    } catch (error) {
+      clearTimeout(timeoutId);
+      lastError = error && typeof error === 'object' && 'retryable' in error
+        ? error as AIError
+        : classifyMistralError(error);
+
+      if (!lastError.retryable || attempt >= maxRetries) {
+        throw lastError;
+      }
+
+      const delay = calculateRetryDelay(attempt, lastError.retryAfterMs);
+      await sleep(delay);
+    }
+  }
+
+  throw lastError!;
+}
+
+// ============================================================================
+// Message Formatting for Mistral API
+// ============================================================================
+
+type MistralContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: string };
+
+interface MistralMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | MistralContentPart[];
+}
+
+function formatMessagesForMistral(messages: ChatMessage[]): { messages: MistralMessage[]; hasImages: boolean } {
+  let hasImages = false;
+
+  const formatted = messages.map(msg => {
+    if (typeof msg.content === 'string') {
+      return { role: msg.role, content: msg.content };
+    }
+
+    // Multi-part content — Pixtral takes the image URL (or data URL) as a plain string
+    const parts: MistralContentPart[] = [];
+    for (const part of msg.content) {
+      if (part.type === 'text' && part.text) {
+        parts.push({ type: 'text', text: part.text });
+      } else if (part.type === 'image' && part.imageUrl) {
+        hasImages = true;
+        parts.push({ type: 'image_url', image_url: part.imageUrl });
+      }
+    }
+    return { role: msg.role, content: parts };
+  });
+
+  return { messages: formatted, hasImages };
+}
+
+// ============================================================================
+// Mistral Provider Implementation
+// ============================================================================
+
+export function createMistralProvider(
+  apiKey: string,
+  modelOverride?: string,
+  prompts: PromptSet = createPromptSet()
+): AIProvider {
+  // A routed model (AI_TASK_ROUTES) replaces both the text and the vision default
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  function buildRequestBody(messages: ChatMessage[], options: ChatOptions, stream: boolean): string {
+    const { temperature = 0.7, maxTokens = 1000, jsonMode = false } = options;
+    const { messages: formattedMessages, hasImages } = formatMessagesForMistral(messages);
+
+    return JSON.stringify({
+      model: modelOverride || (hasImages ? VISION_MODEL : DEFAULT_MODEL),
+      messages: formattedMessages,
+      temperature,
+      max_tokens: maxTokens,
+      ...(jsonMode && { response_format: { type: 'json_object' } }),
+      ...(stream && { stream: true }),
+    });
+  }
+
+  async function callMistralAPI(
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): Promise<string> {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+    const body = buildRequestBody(messages, options, false);
+
+    return withRetry(async (signal) => {
+      const response = await fetch(`${API_BASE_URL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body,
+        signal,
+      });
+
+      if (!response.ok) {
+        throw classifyMistralError(new Error(`HTTP ${response.status}`), response.status);
+      }
+
+      const data = await response.json();
+      const choice = data.choices?.[0];
+      usage.inputTokens += data.usage?.prompt_tokens ?? 0;
+      usage.outputTokens += data.usage?.completion_tokens ?? 0;
+
+      if (choice?.finish_reason === 'content_filter') {
+        console.error('[mistral] Response blocked by content filter');
+        throw {
+          type: 'content_filter',
+          message: 'Image content blocked by safety filters. Try a different photo.',
+          retryable: false,
+          provider: 'mistral',
+        };
+      }
+
+      // Content is usually a string, but may come back as text chunks
+      const content = choice?.message?.content;
+      const text = Array.isArray(content)
+        ? content
+          .filter((c: { type?: string; text?: string }) => c.type === 'text' && c.text)
+          .map((c: { text: string }) => c.text)
+          .join('')
+        : content;
+
+      if (!text) {
+        console.error('[mistral] Empty response, finish_reason:', choice?.finish_reason);
+        throw {
+          type: 'unknown',
+          message: 'No response generated. Please try again.',
+          retryable: true,
+          provider: 'mistral',
+        };
+      }
+
+      return text as string;
+    }, { timeoutMs });
+  }
+
+  async function* streamMistralAPI(
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): AsyncGenerator<string> {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+    // No retry — see withStreamFallback for pre-first-token failover
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${API_BASE_URL}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`,
+          },
+          body: buildRequestBody(messages, options, true),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw classifyMistralError(error);
+      }
+
+      if (!response.ok || !response.body) {
+        throw classifyMistralError(new Error(`HTTP ${response.status}`), response.status);
+      }
+
+      try {
+        for await (const data of readSSEData(response.body)) {
+          if (data === '[DONE]') return;
+
+          let chunk: {
+            choices?: { delta?: { content?: string }; finish_reason?: string }[];
+            usage?: { prompt_tokens?: number; completion_tokens?: number };
+          };
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            continue;
+          }
+
+          // The final chunk carries usage for the whole completion
+          if (chunk.usage) {
+            usage.inputTokens += chunk.usage.prompt_tokens ?? 0;
+            usage.outputTokens += chunk.usage.completion_tokens ?? 0;
+          }
+
+          if (chunk.choices?.[0]?.finish_reason === 'content_filter') {
+            throw {
+              type: 'content_filter',
+              message: 'Image content blocked by safety filters. Try a different photo.',
+              retryable: false,
+              provider: 'mistral',
+            } as AIError;
+          }
+
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta) yield delta;
+        }
+      } catch (error) {
+        if (error && typeof error === 'object' && 'retryable' in error) throw error;
+        throw classifyMistralError(error);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  return {
+    name: 'mistral',
+
+    getUsage(): TokenUsage {
+      return { ...usage };
+    },
+
+    getPromptStamps() {
+      return prompts.stamps();
+    },
+
+    async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+      return callMistralAPI(messages, options);
+    },
+
+    chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<string> {
+      return streamMistralAPI(messages, options);
+    },
+
+    async analyzeTextMeal(description: string, userGoal: string | null, dietary: DietaryPreference[] = []): Promise<TextMealAnalysis | null> {
+      const goalContext = userGoal
+        ? `User's goal: ${userGoal}. Adjust portion estimates accordingly.`
+        : 'No specific goal set. Use standard portion estimates.';
+
+      const dietaryContext = formatDietaryContext(dietary);
+
+      const prompt = `Analyze this meal: "${description}"\n\n${goalContext}${dietaryContext ? `\n${dietaryContext}` : ''}`;
+
+      // Let API/network errors propagate so withFallback can try the next provider
+      const content = await this.chat(
+        [
+          { role: 'system', content: prompts.get('text_meal_analysis') },
+          { role: 'user', content: prompt },
+        ],
+        { temperature: 0.3, maxTokens: 2000 }
+      );
+
+      if (content) {
+        const jsonMatch = content.match(/---MACROS_JSON---\s*(\{[\s\S]*?\})\s*---END_MACROS---/);
+        if (jsonMatch && jsonMatch[1]) {
+          try {
+            const parsed = JSON.parse(jsonMatch[1]);
+            const validated = validateAndCorrectMealAnalysis(parsed);
+            if (validated) {
+              validated.markdown = stripMacrosBlock(content);
+              return validated;
+            }
+          } catch (parseError) {
+            console.error('[mistral] Failed to parse text meal JSON:', parseError);
+          }
+        } else {
+          console.error('[mistral] No ---MACROS_JSON--- block found in response');
+        }
+      }
+      return null;
+    },
+
+    async analyzeMealPhoto(
+      imageBase64: string,
+      userGoal: string | null,
+      portionCorrections?: PortionCorrections,
+      dietary: DietaryPreference[] = [],
+      onProgress?: (message: string) => void
+    ): Promise<PhotoMealAnalysis> {
+      const dietaryContext = formatDietaryContext(dietary);
+
+      // ========================================================================
+      // Two-Phase Meal Analysis: Pixtral Identifies → USDA Lookup → Deterministic Math
+      // ========================================================================
+
+      // Legacy fallback function (inline to avoid interface changes)
+      const legacyAnalysis = async (): Promise<PhotoMealAnalysis> => {
+        onProgress?.('Analyzing your meal...');
+        const goalText = userGoal
+          ? `The user's current goal is: ${userGoal}. Tailor your feedback to this goal.`
+          : 'The user has not set a specific goal yet. Provide general nutrition advice.';
+
+        try {
+          const content = await this.chat(
+            [
+              { role: 'system', content: prompts.get('meal_analysis') },
+              {
+                role: 'user',
+                content: [
+                  { type: 'text', text: `Analyze the attached meal photo. ${goalText}${dietaryContext ? ` ${dietaryContext}` : ''}` },
+                  { type: 'image', imageUrl: imageBase64 },
+                ],
+              },
+            ],
+            { maxTokens: 1500, timeoutMs: 25000 }
+          );
+
+          if (content) {
+            const { macros, foods } = parseMacrosFromResponse(content);
+            const markdown = stripMacrosBlock(content);
+            return {
+              markdown,
+              macros,
+              foods: foods.length > 0 ? foods : undefined,
+              hasUSDAData: false, // Legacy uses AI estimates
+            };
+          }
+
+          return { markdown: 'Error: No response from model.', macros: null };
+        } catch (error) {
+          const aiError = error as AIError;
+          return { markdown: `Error: ${aiError.message}`, macros: null };
+        }
+      };
+
+      try {
+        // Phase 1: Pixtral identifies foods (structured JSON)
+        console.log('[mistral] Phase 1: Identifying foods in photo...');
+        onProgress?.('Identifying foods...');
+        const identificationResponse = await this.chat(
+          [
+            { role: 'system', content: prompts.get('meal_photo_identification') },
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'Identify all foods in this meal photo.' },
+                { type: 'image', imageUrl: imageBase64 },
+              ],
+            },
+          ],
+          { maxTokens: 1000, timeoutMs: 25000, jsonMode: true, temperature: 0.3 }
+        );
+
+        // Try to parse the JSON response
+        let identifiedFoods: IdentifiedFood[] = [];
+        try {
+          const parsed = JSON.parse(identificationResponse);
+          if (parsed.foods && Array.isArray(parsed.foods)) {
+            identifiedFoods = parsed.foods.map((f: {
+              name?: string;
+              portion?: string;
+              portionGrams?: number;
+              confidence?: number;
+            }) => ({
+              name: f.name || 'Unknown food',
+              portion: f.portion || 'medium',
+              portionGrams: f.portionGrams,
+              confidence: f.confidence ?? 0.7,
+            }));
+          }
+        } catch (parseError) {
+          console.warn('[mistral] Failed to parse food identification JSON, falling back to legacy:', parseError);
+          return legacyAnalysis();
+        }
+
+        if (identifiedFoods.length === 0) {
+          console.warn('[mistral] No foods identified, falling back to legacy analysis');
+          return legacyAnalysis();
+        }
+
+        console.log(`[mistral] Phase 1 complete: Identified ${identifiedFoods.length} foods`);
+
+        // Phase 2: USDA lookup for each food
+        console.log('[mistral] Phase 2: Looking up nutrition data...');
+        onProgress?.(`Looking up nutrition for ${identifiedFoods.length} food${identifiedFoods.length === 1 ? '' : 's'}...`);
+        const { foods: foodsWithNutrition, totals, micros, hasUSDAData } = await enrichFoodsWithNutrition(identifiedFoods, portionCorrections);
+
+        const usdaCount = foodsWithNutrition.filter(f => f.source === 'usda').length;
+        console.log(`[mistral] Phase 2 complete: ${usdaCount}/${foodsWithNutrition.length} foods matched USDA`);
+        onProgress?.(`Matched ${usdaCount} of ${foodsWithNutrition.length} with USDA. Calculating totals...`);
+
+        // Phase 3: Generate markdown summary
+        const markdown = generateMealMarkdown(foodsWithNutrition, totals, userGoal, dietary);
+
+        return {
+          markdown,
+          macros: totals,
+          foods: foodsWithNutrition.map(f => f.name),
+          foodsDetailed: foodsWithNutrition,
+          hasUSDAData,
+          micros,
+        };
+      } catch (error) {
+        console.error('[mistral] Two-phase analysis failed, falling back to legacy:', error);
+        return legacyAnalysis();
+      }
+    },
+
+    async analyzeBodyPhoto(imageBase64: string): Promise<BodyAnalysisResult> {
+      // Let errors propagate so withFallback can try the next provider
+      const markdown = await this.chat(
+        [
+          { role: 'system', content: prompts.get('body_analysis') },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Analyze the attached body photo.' },
+              { type: 'image', imageUrl: imageBase64 },
+            ],
+          },
+        ],
+        { maxTokens: 1500, timeoutMs: 25000 }
+      );
+      return { markdown };
+    },
+
+    async analyzeProgress(images: string[], metrics: string): Promise<ProgressAnalysisResult> {
+      // Let errors propagate so withFallback can try the next provider
+      const imageParts = images.map(img => ({ type: 'image' as const, imageUrl: img }));
+
+      const markdown = await this.chat(
+        [
+          { role: 'system', content: prompts.get('progress_analysis') },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: `Analyze the attached progress photos and metrics:\n${metrics}` },
+              ...imageParts,
+            ],
+          },
+        ],
+        { maxTokens: 2000, timeoutMs: 60000 }
+      );
+      return { markdown };
+    },
+
+    async generateWorkout(input: WorkoutGenerationInput): Promise<GeneratedWorkout | null> {
+      const prompt = `
+Generate a workout for this user:
+
+USER PROFILE:
+- Goal: ${input.profile.goal || 'RECOMP'}
+- Training Experience: ${input.profile.training_experience || 'beginner'}
+- Equipment Access: ${input.profile.equipment_access || 'gym'}
+- Days Per Week: ${input.profile.days_per_week || 4}
+
+RECOVERY STATE:
+- Energy Level: ${input.recovery.energyLevel}/5
+- Sleep Last Night: ${input.recovery.sleepHours} hours
+- Sore Areas: ${input.recovery.sorenessAreas.length > 0 ? input.recovery.sorenessAreas.join(', ') : 'None'}
+- Last Workout Rating: ${input.recovery.lastWorkoutRating}/5
+
+RECENT WORKOUTS (last 3):
+${input.recentWorkouts.length > 0
+  ? input.recentWorkouts.map(w => `- ${w.title} (${w.date}): ${w.muscles.join(', ')}`).join('\n')
+  : 'No recent workouts recorded'}${input.effort?.length ? `\n\n${describeEffort(input.effort)}` : ''}
+
+Generate an appropriate workout based on the above data.
+`;
+
+      try {
+        return await chatStructured(
+          this,
+          [
+            { role: 'system', content: prompts.get('workout_generation') },
+            { role: 'user', content: prompt },
+          ],
+          { maxTokens: 2000, jsonMode: true },
+          GeneratedWorkoutSchema
+        );
+      } catch {
+        return null;
+      }
+    },
+
+    async analyzeWeeklyNutrition(input: WeeklyNutritionInput): Promise<WeeklyNutritionInsights | null> {
+      const prompt = `
+Analyze this user's 7-day nutrition data:
+
+USER GOAL: ${input.goal || 'RECOMP'}
+
+DAILY TARGETS:
+- Calories: ${input.targets.calories}
+- Protein: ${input.targets.protein}g
+- Carbs: ${input.targets.carbs}g
+- Fats: ${input.targets.fats}g
+
+DAILY LOGS (last 7 days):
+${input.logs.map(log => `- ${log.date}: ${log.calories} cal, ${log.protein}g P, ${log.carbs}g C, ${log.fats}g F`).join('\n')}${input.fasting ? `\n\n${describeFastingAdherence(input.fasting)}` : ''}
+
+Provide personalized insights based on this data.
+`;
+
+      try {
+        return await chatStructured(
+          this,
+          [
+            { role: 'system', content: prompts.get('weekly_nutrition') },
+            { role: 'user', content: prompt },
+          ],
+          { maxTokens: 800, jsonMode: true, temperature: 0.5 },
+          WeeklyNutritionInsightsSchema
+        );
+      } catch {
+        return null;
+      }
+    },
+
+    // Note: Mistral's chat API has no Whisper-style transcription endpoint,
+    // so transcribeAudio is left unimplemented (withFallback skips to a provider that has it)
+
+    async planWeek(input: WeeklyPlanGenerationInput): Promise<WeeklyPlan | null> {
+      // Format workout history for the agent
+      const workoutHistoryText = input.recentWorkouts.length > 0
+        ? input.recentWorkouts.map(w => {
+            const exerciseList = w.exercises
+              .map(e => `  - ${e.name}: ${e.sets}×${e.reps}${e.weight ? ` @ ${e.weight}lbs` : ''}`)
+              .join('\n');
+            return `${w.date} - ${w.title} (Volume: ${w.volume} total reps)\n  Muscles: ${w.muscles.join(', ')}\n${exerciseList}`;
+          }).join('\n\n')
+        : 'No recent workout history available.';
+
+      // Format recovery patterns
+      const recoveryText = input.recoveryPatterns.length > 0
+        ? input.recoveryPatterns.map(r =>
+            `${r.date}: Energy ${r.energyLevel}/5, Sleep ${r.sleepHours}hrs${r.sorenessAreas.length > 0 ? `, Sore: ${r.sorenessAreas.join(', ')}` : ''}`
+          ).join('\n')
+        : 'No recovery data available.';
+
+      // Calculate averages
+      const avgEnergy = input.recoveryPatterns.length > 0
+        ? (input.recoveryPatterns.reduce((sum, r) => sum + r.energyLevel, 0) / input.recoveryPatterns.length).toFixed(1)
+        : 'N/A';
+      const avgSleep = input.recoveryPatterns.length > 0
+        ? (input.recoveryPatterns.reduce((sum, r) => sum + r.sleepHours, 0) / input.recoveryPatterns.length).toFixed(1)
+        : 'N/A';
+
+      // Get the start of the upcoming week (next Monday)
+      const today = new Date();
+      const dayOfWeek = today.getDay();
+      const daysUntilMonday = dayOfWeek === 0 ? 1 : (8 - dayOfWeek) % 7 || 7;
+      const nextMonday = new Date(today);
+      nextMonday.setDate(today.getDate() + daysUntilMonday);
+      const weekStart = nextMonday.toISOString().split('T')[0];
+
+      const dietaryNeeds = dietaryRestrictionLabels(input.profile.dietary_preferences ?? []);
+
+      const prompt = `
+Create a complete 7-day training plan for the upcoming week starting ${weekStart}.
+
+USER PROFILE:
+- Goal: ${input.profile.goal || 'RECOMP'}
+- Training Experience: ${input.profile.training_experience || 'intermediate'}
+- Equipment Access: ${input.profile.equipment_access || 'gym'}
+- Preferred Days Per Week: ${input.profile.days_per_week || 4}${dietaryNeeds.length > 0 ? `\n- Dietary Needs: ${dietaryNeeds.join(', ')}` : ''}
+${input.preferredSchedule ? `- Preferred Training Days: ${input.preferredSchedule.map(d => ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][d]).join(', ')}` : ''}
+
+WORKOUT HISTORY (Last 3-4 weeks):
+${workoutHistoryText}
+
+RECOVERY PATTERNS (Recent):
+${recoveryText}
+
+RECOVERY AVERAGES:
+- Average Energy Level: ${avgEnergy}/5
+- Average Sleep: ${avgSleep} hours
+
+Based on this data:
+1. Analyze which muscle groups need more/less volume
+2. Identify progressive overload opportunities (specific weight/rep increases)
+3. Place rest days strategically based on recovery patterns
+4. Create complete workouts for each training day
+5. Explain your reasoning
+
+Remember to use week_start: "${weekStart}" in your response.
+`;
+
+      try {
+        return await chatStructured(
+          this,
+          [
+            { role: 'system', content: prompts.get('weekly_planning') },
+            { role: 'user', content: prompt },
+          ],
+          { maxTokens: 4000, jsonMode: true, temperature: 0.4, timeoutMs: 60000 },
+          WeeklyPlanSchema
+        );
+      } catch {
+        return null;
+      }
+    },
+
+    async planMeals(input: MealPlanInput): Promise<MealPlan | null> {
+      const isWeek = input.horizon === 'week';
+
+      const eatenText = input.mealsEaten.length > 0
+        ? input.mealsEaten.map(m => `- ${m.mealType ? `${m.mealType}: ` : ''}${m.description} (${m.calories} cal, ${m.protein}g P)`).join('\n')
+        : 'Nothing logged yet today.';
+      const favoritesText = input.favorites.length > 0
+        ? input.favorites.map(f => `- ${f.name}: ${f.calories} cal, ${f.protein}g P, ${f.carbs}g C, ${f.fats}g F`).join('\n')
+        : 'None saved.';
+
+      const prompt = `
+${isWeek ? 'Plan 7 days of meals (day 0 = today) that hit these daily targets.' : 'Plan the rest of today\'s meals to fill what is left.'}
+
+USER GOAL: ${input.goal || 'RECOMP'}
+
+${isWeek ? 'DAILY TARGETS' : 'REMAINING TODAY'}:
+- Calories: ${input.remaining.calories}
+- Protein: ${input.remaining.protein}g
+- Carbs: ${input.remaining.carbs}g
+- Fats: ${input.remaining.fats}g
+
+DIETARY RESTRICTIONS (never violate): ${input.restrictions?.length ? input.restrictions.join(', ') : 'None'}
+
+MEALS EATEN TODAY:
+${eatenText}
+
+FAVORITE FOODS:
+${favoritesText}
+
+Respond with ONLY valid JSON, no markdown.
+`;
+
+      try {
+        const plan = await chatStructured(
+          this,
+          [
+            { role: 'system', content: prompts.get('meal_planning') },
+            { role: 'user', content: prompt },
+          ],
+          { maxTokens: isWeek ? 4000 : 1500, jsonMode: true, temperature: 0.5, timeoutMs: 60000 },
+          mealPlanSchema(input.horizon)
+        );
+        // Swap the model's estimates for USDA data before anyone logs them
+        return plan && await verifyMealPlan(plan);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
@@ -1,36 +1,38 @@
 import OpenAI from 'openai';
+import type { ChatCompletionContentPart, ChatCompletionContentPartText, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import type {
   AIProvider,
   ChatMessage,
   ChatOptions,
   TextMealAnalysis,
   PhotoMealAnalysis,
+  PortionCorrections,
   GeneratedWorkout,
   WorkoutGenerationInput,
   WeeklyNutritionInput,
   WeeklyNutritionInsights,
   WeeklyPlan,
   WeeklyPlanGenerationInput,
+  MealPlan,
+  MealPlanInput,
   AIError,
+  AIProviderType,
   BodyAnalysisResult,
   ProgressAnalysisResult,
+  TokenUsage,
 } from '../types';
 import { validateAndCorrectMealAnalysis, parseMacrosFromResponse, stripMacrosBlock } from '../utils';
-import {
-  BODY_ANALYSIS_PROMPT,
-  MEAL_ANALYSIS_PROMPT,
-  MEAL_PHOTO_IDENTIFICATION_PROMPT,
-  PROGRESS_ANALYSIS_PROMPT,
-  WORKOUT_GENERATION_PROMPT,
-  TEXT_MEAL_ANALYSIS_PROMPT,
-  WEEKLY_NUTRITION_PROMPT,
-  WEEKLY_PLANNING_AGENT_PROMPT,
-} from '../../../prompts';
+import { createPromptSet, type PromptSet } from '../promptRegistry';
+import { dietaryRestrictionLabels, formatDietaryContext, type DietaryPreference } from '../../../utils/dietaryPreferences';
+import { describeFastingAdherence } from '../../../utils/fasting';
+import { describeEffort } from '../../../utils/setTypes';
 import {
   enrichFoodsWithNutrition,
   generateMealMarkdown,
+  verifyMealPlan,
   type IdentifiedFood,
 } from '../usdaIntegration';
+import { chatStructured, GeneratedWorkoutSchema, mealPlanSchema, WeeklyNutritionInsightsSchema, WeeklyPlanSchema } from '../schemas';
 
 // ============================================================================
 // Configuration
@@ -46,13 +48,13 @@ const MAX_RETRY_DELAY_MS = 30000;
 // Error Handling
 // ============================================================================
 
-function classifyOpenAIError(error: unknown): AIError {
+function classifyOpenAIError(error: unknown, provider: AIProviderType = 'openai'): AIError {
   if (error instanceof Error && error.name === 'AbortError') {
     return {
       type: 'timeout',
       message: 'Request timed out. Please try again.',
       retryable: true,
-      provider: 'openai',
+      provider,
     };
   }
 
@@ -61,7 +63,7 @@ function classifyOpenAIError(error: unknown): AIError {
       type: 'network',
       message: 'Network error. Please check your connection.',
       retryable: true,
-      provider: 'openai',
+      provider,
     };
   }
 
@@ -72,26 +74,26 @@ function classifyOpenAIError(error: unknown): AIError {
 
     switch (status) {
       case 401:
-        return { type: 'auth', message: 'Authentication failed.', retryable: false, provider: 'openai' };
+        return { type: 'auth', message: 'Authentication failed.', retryable: false, provider };
       case 429:
         if (errorMessage.toLowerCase().includes('quota')) {
-          return { type: 'quota_exceeded', message: 'API quota exceeded.', retryable: false, provider: 'openai' };
+          return { type: 'quota_exceeded', message: 'API quota exceeded.', retryable: false, provider };
         }
-        return { type: 'rate_limit', message: 'Rate limit reached.', retryable: true, retryAfterMs: 60000, provider: 'openai' };
+        return { type: 'rate_limit', message: 'Rate limit reached.', retryable: true, retryAfterMs: 60000, provider };
       case 400:
-        return { type: 'invalid_request', message: `Invalid request: ${errorMessage}`, retryable: false, provider: 'openai' };
+        return { type: 'invalid_request', message: `Invalid request: ${errorMessage}`, retryable: false, provider };
       case 403:
         if (errorMessage.toLowerCase().includes('content')) {
-          return { type: 'content_filter', message: 'Content filtered.', retryable: false, provider: 'openai' };
+          return { type: 'content_filter', message: 'Content filtered.', retryable: false, provider };
         }
-        return { type: 'auth', message: 'Access forbidden.', retryable: false, provider: 'openai' };
+        return { type: 'auth', message: 'Access forbidden.', retryable: false, provider };
       case 500:
       case 502:
       case 503:
       case 504:
-        return { type: 'server_error', message: 'Server error. Retrying...', retryable: true, provider: 'openai' };
+        return { type: 'server_error', message: 'Server error. Retrying...', retryable: true, provider };
       default:
-        return { type: 'unknown', message: errorMessage, retryable: status >= 500, provider: 'openai' };
+        return { type: 'unknown', message: errorMessage, retryable: status >= 500, provider };
     }
   }
 
@@ -99,7 +101,7 @@ function classifyOpenAIError(error: unknown): AIError {
     type: 'unknown',
     message: error instanceof Error ? error.message : 'An unexpected error occurred.',
     retryable: false,
-    provider: 'openai',
+    provider,
   };
 }
 
@@ -122,9 +124,9 @@ function calculateRetryDelay(attempt: number, rateLimitRetryAfter?: number): num
 
 async function withRetry<T>(
   fn: (signal: AbortSignal) => Promise<T>,
-  options: { maxRetries?: number; timeoutMs?: number } = {}
+  options: { maxRetries?: number; timeoutMs?: number; provider?: AIProviderType } = {}
 ): Promise<T> {
-  const { maxRetries = DEFAULT_MAX_RETRIES, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const { maxRetries = DEFAULT_MAX_RETRIES, timeoutMs = DEFAULT_TIMEOUT_MS, provider = 'openai' } = options;
   let lastError: AIError | null = null;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -137,7 +139,7 @@ async function withRetry<T>(
       return result;
     } catch (error) {
       clearTimeout(timeoutId);
-      lastError = classifyOpenAIError(error);
+      lastError = classifyOpenAIError(error, provider);
 
       if (!lastError.retryable || attempt >= maxRetries) {
         throw lastError;
@@ -151,83 +153,166 @@ async function withRetry<T>(
   throw lastError!;
 }
 
+// ============================================================================
+// Message Formatting
+// ============================================================================
+
+function formatMessagesForOpenAI(messages: ChatMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((msg): ChatCompletionMessageParam => {
+    if (typeof msg.content === 'string') {
+      return { role: msg.role, content: msg.content };
+    }
+
+    // Handle multi-part content (text + images)
+    const parts: ChatCompletionContentPart[] = [];
+    for (const part of msg.content) {
+      if (part.type === 'text' && part.text) {
+        parts.push({ type: 'text', text: part.text });
+      } else if (part.type === 'image' && part.imageUrl) {
+        parts.push({ type: 'image_url', image_url: { url: part.imageUrl } });
+      }
+    }
+    if (msg.role === 'user') return { role: 'user', content: parts };
+
+    // Only user turns can carry images
+    return { role: msg.role, content: parts.filter((p): p is ChatCompletionContentPartText => p.type === 'text') };
+  });
+}
+
 // ============================================================================
 // OpenAI Provider Implementation
 // ============================================================================
 
-export function createOpenAIProvider(apiKey: string): AIProvider {
-  const client = new OpenAI({ apiKey });
+/**
+ * Overrides for OpenAI-compatible servers (e.g. a local Ollama or llama.cpp
+ * endpoint) that speak the same chat-completions protocol.
+ */
+export interface OpenAICompatibleOptions {
+  baseURL?: string;
+  model?: string;
+  name?: AIProviderType;
+  /** Prompt versions for this request's user (see ../promptRegistry). */
+  prompts?: PromptSet;
+}
+
+export function createOpenAIProvider(apiKey: string, options: OpenAICompatibleOptions = {}): AIProvider {
+  const { baseURL, model = DEFAULT_MODEL, name = 'openai', prompts = createPromptSet() } = options;
+  const client = new OpenAI({ apiKey, ...(baseURL && { baseURL }) });
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
   return {
-    name: 'openai',
+    name,
+
+    getUsage(): TokenUsage {
+      return { ...usage };
+    },
+
+    getPromptStamps() {
+      return prompts.stamps();
+    },
 
     async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
       const { temperature = 0.7, maxTokens = 1000, jsonMode = false, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
 
       return withRetry(async () => {
-        const formattedMessages = messages.map(msg => {
-          if (typeof msg.content === 'string') {
-            return { role: msg.role, content: msg.content };
-          }
-
-          // Handle multi-part content (text + images)
-          const parts: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = [];
-          for (const part of msg.content) {
-            if (part.type === 'text' && part.text) {
-              parts.push({ type: 'text', text: part.text });
-            } else if (part.type === 'image' && part.imageUrl) {
-              parts.push({ type: 'image_url', image_url: { url: part.imageUrl } });
-            }
-          }
-          return { role: msg.role, content: parts };
-        });
+        const formattedMessages = formatMessagesForOpenAI(messages);
 
         const response = await client.chat.completions.create({
-          model: DEFAULT_MODEL,
-          messages: formattedMessages as any,
+          model,
+          messages: formattedMessages,
           temperature,
           max_tokens: maxTokens,
           ...(jsonMode && { response_format: { type: 'json_object' } }),
         });
 
+        usage.inputTokens += response.usage?.prompt_tokens ?? 0;
+        usage.outputTokens += response.usage?.completion_tokens ?? 0;
+
         // Check for content filter finish reason
         const finishReason = response.choices[0]?.finish_reason;
         if (finishReason === 'content_filter') {
-          console.error('[openai] Response blocked by content filter');
+          console.error(`[${name}] Response blocked by content filter`);
           throw {
             type: 'content_filter',
             message: 'Image content blocked by safety filters. Try a different photo.',
             retryable: false,
-            provider: 'openai',
+            provider: name,
           };
         }
 
         const content = response.choices[0]?.message?.content;
         if (!content) {
-          console.error('[openai] Empty response, finish_reason:', finishReason);
+          console.error(`[${name}] Empty response, finish_reason:`, finishReason);
           throw {
             type: 'unknown',
             message: 'No response generated. Please try again.',
             retryable: true,
-            provider: 'openai',
+            provider: name,
           };
         }
 
         return content;
-      }, { timeoutMs });
+      }, { timeoutMs, provider: name });
+    },
+
+    async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+      const { temperature = 0.7, maxTokens = 1000, jsonMode = false, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+      // No retry here — once tokens are flowing a retry would duplicate output.
+      // withStreamFallback handles failures that happen before the first token.
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const stream = await client.chat.completions.create({
+          model,
+          messages: formatMessagesForOpenAI(messages),
+          temperature,
+          max_tokens: maxTokens,
+          stream: true,
+          // Final chunk carries token usage; local servers are free and may reject the option
+          ...(name === 'openai' && { stream_options: { include_usage: true } }),
+          ...(jsonMode && { response_format: { type: 'json_object' } }),
+        }, { signal: controller.signal });
+
+        for await (const chunk of stream) {
+          if (chunk.usage) {
+            usage.inputTokens += chunk.usage.prompt_tokens ?? 0;
+            usage.outputTokens += chunk.usage.completion_tokens ?? 0;
+          }
+          if (chunk.choices[0]?.finish_reason === 'content_filter') {
+            console.error(`[${name}] Stream blocked by content filter`);
+            throw {
+              type: 'content_filter',
+              message: 'Image content blocked by safety filters. Try a different photo.',
+              retryable: false,
+              provider: name,
+            };
+          }
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      } catch (error) {
+        if (error && typeof error === 'object' && 'retryable' in error) throw error;
+        throw classifyOpenAIError(error, name);
+      } finally {
+        clearTimeout(timeoutId);
+      }
     },
 
-    async analyzeTextMeal(description: string, userGoal: string | null): Promise<TextMealAnalysis | null> {
+    async analyzeTextMeal(description: string, userGoal: string | null, dietary: DietaryPreference[] = []): Promise<TextMealAnalysis | null> {
       const goalContext = userGoal
         ? `User's goal: ${userGoal}. Adjust portion estimates accordingly.`
         : 'No specific goal set. Use standard portion estimates.';
 
-      const prompt = `Analyze this meal: "${description}"\n\n${goalContext}`;
+      const dietaryContext = formatDietaryContext(dietary);
+
+      const prompt = `Analyze this meal: "${description}"\n\n${goalContext}${dietaryContext ? `\n${dietaryContext}` : ''}`;
 
       // Let API/network errors propagate so withFallback can try the next provider
       const content = await this.chat(
         [
-          { role: 'system', content: TEXT_MEAL_ANALYSIS_PROMPT },
+          { role: 'system', content: prompts.get('text_meal_analysis') },
           { role: 'user', content: prompt },
         ],
         { temperature: 0.3, maxTokens: 2000 }
@@ -244,22 +329,31 @@ export function createOpenAIProvider(apiKey: string): AIProvider {
               return validated;
             }
           } catch (parseError) {
-            console.error('[openai] Failed to parse text meal JSON:', parseError);
+            console.error(`[${name}] Failed to parse text meal JSON:`, parseError);
           }
         } else {
-          console.error('[openai] No ---MACROS_JSON--- block found in response');
+          console.error(`[${name}] No ---MACROS_JSON--- block found in response`);
         }
       }
       return null;
     },
 
-    async analyzeMealPhoto(imageBase64: string, userGoal: string | null): Promise<PhotoMealAnalysis> {
+    async analyzeMealPhoto(
+      imageBase64: string,
+      userGoal: string | null,
+      portionCorrections?: PortionCorrections,
+      dietary: DietaryPreference[] = [],
+      onProgress?: (message: string) => void
+    ): Promise<PhotoMealAnalysis> {
+      const dietaryContext = formatDietaryContext(dietary);
+
       // ========================================================================
       // Two-Phase Meal Analysis: AI Identifies → USDA Lookup → Deterministic Math
       // ========================================================================
 
       // Legacy fallback function (inline to avoid interface changes)
       const legacyAnalysis = async (): Promise<PhotoMealAnalysis> => {
+        onProgress?.('Analyzing your meal...');
         const goalText = userGoal
           ? `The user's current goal is: ${userGoal}. Tailor your feedback to this goal.`
           : 'The user has not set a specific goal yet. Provide general nutrition advice.';
@@ -267,11 +361,11 @@ export function createOpenAIProvider(apiKey: string): AIProvider {
         try {
           const content = await this.chat(
             [
-              { role: 'system', content: MEAL_ANALYSIS_PROMPT },
+              { role: 'system', content: prompts.get('meal_analysis') },
               {
                 role: 'user',
                 content: [
-                  { type: 'text', text: `Analyze the attached meal photo. ${goalText}` },
+                  { type: 'text', text: `Analyze the attached meal photo. ${goalText}${dietaryContext ? ` ${dietaryContext}` : ''}` },
                   { type: 'image', imageUrl: imageBase64 },
                 ],
               },
@@ -299,10 +393,11 @@ export function createOpenAIProvider(apiKey: string): AIProvider {
 
       try {
         // Phase 1: AI identifies foods (structured JSON)
-        console.log('[openai] Phase 1: Identifying foods in photo...');
+        console.log(`[${name}] Phase 1: Identifying foods in photo...`);
+        onProgress?.('Identifying foods...');
         const identificationResponse = await this.chat(
           [
-            { role: 'system', content: MEAL_PHOTO_IDENTIFICATION_PROMPT },
+            { role: 'system', content: prompts.get('meal_photo_identification') },
             {
               role: 'user',
               content: [
@@ -332,26 +427,28 @@ export function createOpenAIProvider(apiKey: string): AIProvider {
             }));
           }
         } catch (parseError) {
-          console.warn('[openai] Failed to parse food identification JSON, falling back to legacy:', parseError);
+          console.warn(`[${name}] Failed to parse food identification JSON, falling back to legacy:`, parseError);
           return legacyAnalysis();
         }
 
         if (identifiedFoods.length === 0) {
-          console.warn('[openai] No foods identified, falling back to legacy analysis');
+          console.warn(`[${name}] No foods identified, falling back to legacy analysis`);
           return legacyAnalysis();
         }
 
-        console.log(`[openai] Phase 1 complete: Identified ${identifiedFoods.length} foods`);
+        console.log(`[${name}] Phase 1 complete: Identified ${identifiedFoods.length} foods`);
 
         // Phase 2: USDA lookup for each food
-        console.log('[openai] Phase 2: Looking up nutrition data...');
-        const { foods: foodsWithNutrition, totals, hasUSDAData } = await enrichFoodsWithNutrition(identifiedFoods);
+        console.log(`[${name}] Phase 2: Looking up nutrition data...`);
+        onProgress?.(`Looking up nutrition for ${identifiedFoods.length} food${identifiedFoods.length === 1 ? '' : 's'}...`);
+        const { foods: foodsWithNutrition, totals, micros, hasUSDAData } = await enrichFoodsWithNutrition(identifiedFoods, portionCorrections);
 
         const usdaCount = foodsWithNutrition.filter(f => f.source === 'usda').length;
-        console.log(`[openai] Phase 2 complete: ${usdaCount}/${foodsWithNutrition.length} foods matched USDA`);
+        console.log(`[${name}] Phase 2 complete: ${usdaCount}/${foodsWithNutrition.length} foods matched USDA`);
+        onProgress?.(`Matched ${usdaCount} of ${foodsWithNutrition.length} with USDA. Calculating totals...`);
 
         // Phase 3: Generate markdown summary
-        const markdown = generateMealMarkdown(foodsWithNutrition, totals, userGoal);
+        const markdown = generateMealMarkdown(foodsWithNutrition, totals, userGoal, dietary);
 
         return {
           markdown,
@@ -359,9 +456,10 @@ export function createOpenAIProvider(apiKey: string): AIProvider {
           foods: foodsWithNutrition.map(f => f.name),
           foodsDetailed: foodsWithNutrition,
           hasUSDAData,
+          micros,
         };
       } catch (error) {
-        console.error('[openai] Two-phase analysis failed, falling back to legacy:', error);
+        console.error(`[${name}] Two-phase analysis failed, falling back to legacy:`, error);
         return legacyAnalysis();
       }
     },
@@ -370,7 +468,7 @@ export function createOpenAIProvider(apiKey: string): AIProvider {
       // Let errors propagate so withFallback can try the next provider
       const markdown = await this.chat(
         [
-          { role: 'system', content: BODY_ANALYSIS_PROMPT },
+          { role: 'system', content: prompts.get('body_analysis') },
           {
             role: 'user',
             content: [
@@ -390,7 +488,7 @@ export function createOpenAIProvider(apiKey: string): AIProvider {
 
       const markdown = await this.chat(
         [
-          { role: 'system', content: PROGRESS_ANALYSIS_PROMPT },
+          { role: 'system', content: prompts.get('progress_analysis') },
           {
             role: 'user',
             content: [
@@ -423,24 +521,21 @@ RECOVERY STATE:
 RECENT WORKOUTS (last 3):
 ${input.recentWorkouts.length > 0
   ? input.recentWorkouts.map(w => `- ${w.title} (${w.date}): ${w.muscles.join(', ')}`).join('\n')
-  : 'No recent workouts recorded'}
+  : 'No recent workouts recorded'}${input.effort?.length ? `\n\n${describeEffort(input.effort)}` : ''}
 
 Generate an appropriate workout based on the above data.
 `;
 
       try {
-        const content = await this.chat(
+        return await chatStructured(
+          this,
           [
-            { role: 'system', content: WORKOUT_GENERATION_PROMPT },
+            { role: 'system', content: prompts.get('workout_generation') },
             { role: 'user', content: prompt },
           ],
-          { maxTokens: 2000, jsonMode: true }
+          { maxTokens: 2000, jsonMode: true },
+          GeneratedWorkoutSchema
         );
-
-        if (content) {
-          return JSON.parse(content) as GeneratedWorkout;
-        }
-        return null;
       } catch {
         return null;
       }
@@ -459,33 +554,21 @@ DAILY TARGETS:
 - Fats: ${input.targets.fats}g
 
 DAILY LOGS (last 7 days):
-${input.logs.map(log => `- ${log.date}: ${log.calories} cal, ${log.protein}g P, ${log.carbs}g C, ${log.fats}g F`).join('\n')}
+${input.logs.map(log => `- ${log.date}: ${log.calories} cal, ${log.protein}g P, ${log.carbs}g C, ${log.fats}g F`).join('\n')}${input.fasting ? `\n\n${describeFastingAdherence(input.fasting)}` : ''}
 
 Provide personalized insights based on this data.
 `;
 
       try {
-        const content = await this.chat(
+        return await chatStructured(
+          this,
           [
-            { role: 'system', content: WEEKLY_NUTRITION_PROMPT },
+            { role: 'system', content: prompts.get('weekly_nutrition') },
             { role: 'user', content: prompt },
           ],
-          { maxTokens: 800, jsonMode: true, temperature: 0.5 }
+          { maxTokens: 800, jsonMode: true, temperature: 0.5 },
+          WeeklyNutritionInsightsSchema
         );
-
-        if (content) {
-          const parsed = JSON.parse(content) as WeeklyNutritionInsights;
-          if (
-            typeof parsed.adherence_score === 'number' &&
-            typeof parsed.summary === 'string' &&
-            Array.isArray(parsed.wins) &&
-            typeof parsed.focus_area === 'string' &&
-            typeof parsed.tip === 'string'
-          ) {
-            return parsed;
-          }
-        }
-        return null;
       } catch {
         return null;
       }
@@ -501,7 +584,7 @@ Provide personalized insights based on this data.
             model: 'whisper-1',
           });
           return transcription.text;
-        }, { timeoutMs: 20000 });
+        }, { timeoutMs: 20000, provider: name });
       } catch {
         return null;
       }
@@ -541,6 +624,8 @@ Provide personalized insights based on this data.
       nextMonday.setDate(today.getDate() + daysUntilMonday);
       const weekStart = nextMonday.toISOString().split('T')[0];
 
+      const dietaryNeeds = dietaryRestrictionLabels(input.profile.dietary_preferences ?? []);
+
       const prompt = `
 Create a complete 7-day training plan for the upcoming week starting ${weekStart}.
 
@@ -548,7 +633,7 @@ USER PROFILE:
 - Goal: ${input.profile.goal || 'RECOMP'}
 - Training Experience: ${input.profile.training_experience || 'intermediate'}
 - Equipment Access: ${input.profile.equipment_access || 'gym'}
-- Preferred Days Per Week: ${input.profile.days_per_week || 4}
+- Preferred Days Per Week: ${input.profile.days_per_week || 4}${dietaryNeeds.length > 0 ? `\n- Dietary Needs: ${dietaryNeeds.join(', ')}` : ''}
 ${input.preferredSchedule ? `- Preferred Training Days: ${input.preferredSchedule.map(d => ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][d]).join(', ')}` : ''}
 
 WORKOUT HISTORY (Last 3-4 weeks):
@@ -572,33 +657,64 @@ Remember to use week_start: "${weekStart}" in your response.
 `;
 
       try {
-        const content = await this.chat(
+        return await chatStructured(
+          this,
           [
-            { role: 'system', content: WEEKLY_PLANNING_AGENT_PROMPT },
+            { role: 'system', content: prompts.get('weekly_planning') },
             { role: 'user', content: prompt },
           ],
-          { maxTokens: 4000, jsonMode: true, temperature: 0.4, timeoutMs: 60000 }
+          { maxTokens: 4000, jsonMode: true, temperature: 0.4, timeoutMs: 60000 },
+          WeeklyPlanSchema
         );
-
-        if (content) {
-          const parsed = JSON.parse(content) as WeeklyPlan;
-
-          // Validate the structure
-          if (
-            typeof parsed.id === 'string' &&
-            typeof parsed.week_start === 'string' &&
-            Array.isArray(parsed.days) &&
-            parsed.days.length === 7 &&
-            typeof parsed.reasoning === 'string'
-          ) {
-            // Ensure created_at is set
-            if (!parsed.created_at) {
-              parsed.created_at = new Date().toISOString();
-            }
-            return parsed;
-          }
-        }
+      } catch {
         return null;
+      }
+    },
+
+    async planMeals(input: MealPlanInput): Promise<MealPlan | null> {
+      const isWeek = input.horizon === 'week';
+
+      const eatenText = input.mealsEaten.length > 0
+        ? input.mealsEaten.map(m => `- ${m.mealType ? `${m.mealType}: ` : ''}${m.description} (${m.calories} cal, ${m.protein}g P)`).join('\n')
+        : 'Nothing logged yet today.';
+      const favoritesText = input.favorites.length > 0
+        ? input.favorites.map(f => `- ${f.name}: ${f.calories} cal, ${f.protein}g P, ${f.carbs}g C, ${f.fats}g F`).join('\n')
+        : 'None saved.';
+
+      const prompt = `
+${isWeek ? 'Plan 7 days of meals (day 0 = today) that hit these daily targets.' : 'Plan the rest of today\'s meals to fill what is left.'}
+
+USER GOAL: ${input.goal || 'RECOMP'}
+
+${isWeek ? 'DAILY TARGETS' : 'REMAINING TODAY'}:
+- Calories: ${input.remaining.calories}
+- Protein: ${input.remaining.protein}g
+- Carbs: ${input.remaining.carbs}g
+- Fats: ${input.remaining.fats}g
+
+DIETARY RESTRICTIONS (never violate): ${input.restrictions?.length ? input.restrictions.join(', ') : 'None'}
+
+MEALS EATEN TODAY:
+${eatenText}
+
+FAVORITE FOODS:
+${favoritesText}
+
+Respond with ONLY valid JSON, no markdown.
+`;
+
+      try {
+        const plan = await chatStructured(
+          this,
+          [
+            { role: 'system', content: prompts.get('meal_planning') },
+            { role: 'user', content: prompt },
+          ],
+          { maxTokens: isWeek ? 4000 : 1500, jsonMode: true, temperature: 0.5, timeoutMs: 60000 },
+          mealPlanSchema(input.horizon)
+        );
+        // Swap the model's estimates for USDA data before anyone logs them
+        return plan && await verifyMealPlan(plan);
       } catch {
         return null;
       }
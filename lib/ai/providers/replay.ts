@@ -0,0 +1,232 @@
+import type {
+  AIError,
+  AIProvider,
+  AIProviderType,
+  ChatMessage,
+  ChatOptions,
+} from '../types';
+
+// ============================================================================
+// Record / Replay Provider (integration tests + offline scripts)
+// ============================================================================
+//
+// Wraps a real provider at the chat() transport layer. Every chat request is
+// keyed by a SHA-256 hash of provider name + messages + options:
+//   - record: forwards to the real provider and saves the response (or error)
+//   - replay: serves the saved response without touching the network
+//
+// The high-level methods (analyzeTextMeal, generateWorkout, planWeek, ...) are
+// the wrapped provider's own implementations re-bound to the replay chat(), so
+// prompt building and JSON parsing run exactly as in production. Calls that
+// bypass this.chat() (Gemini vision, Whisper) pass straight through.
+
+export type ReplayMode = 'record' | 'replay';
+
+export interface ReplayFixture {
+  key: string;
+  provider: AIProviderType;
+  recordedAt?: string;        // Set by record mode
+  synthetic?: boolean;        // Hand-written in this format, not captured from a live provider
+  request: {
+    preview: string;          // Last user message text, truncated — for humans
+    options: ChatOptions;
+  };
+  response?: string;
+  error?: AIError;
+}
+
+export interface ReplayFixtureStore {
+  read(key: string, provider: AIProviderType): Promise<ReplayFixture | null>;
+  write(fixture: ReplayFixture): Promise<void>;
+}
+
+export interface ReplayProviderOptions {
+  mode: ReplayMode;
+  store: ReplayFixtureStore;
+}
+
+const PREVIEW_LENGTH = 200;
+
+// ============================================================================
+// Request Hashing
+// ============================================================================
+
+/**
+ * Stable key for a chat request. Image data is part of the hash, so recorded
+ * photo fixtures only match the exact same image.
+ */
+export async function hashChatRequest(
+  provider: AIProviderType,
+  messages: ChatMessage[],
+  options: ChatOptions = {}
+): Promise<string> {
+  const payload = JSON.stringify({ provider, messages, options });
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function previewRequest(messages: ChatMessage[]): string {
+  const lastUser = [...messages].reverse().find(m => m.role === 'user');
+  if (!lastUser) return '';
+  const text = typeof lastUser.content === 'string'
+    ? lastUser.content
+    : lastUser.content.filter(p => p.type === 'text').map(p => p.text).join(' ');
+  return text.trim().slice(0, PREVIEW_LENGTH);
+}
+
+// ============================================================================
+// Fixture Stores
+// ============================================================================
+
+/**
+ * In-memory store — handy for unit tests that record and replay in one run.
+ */
+export function createMemoryFixtureStore(initial: ReplayFixture[] = []): ReplayFixtureStore {
+  const fixtures = new Map<string, ReplayFixture>(initial.map(f => [`${f.provider}/${f.key}`, f]));
+  return {
+    async read(key, provider) {
+      return fixtures.get(`${provider}/${key}`) ?? null;
+    },
+    async write(fixture) {
+      fixtures.set(`${fixture.provider}/${fixture.key}`, fixture);
+    },
+  };
+}
+
+/**
+ * File store: one JSON file per request at `<dir>/<provider>/<key>.json`.
+ * Node-only (fs is imported lazily so edge bundles never pull it in).
+ */
+export function createFileFixtureStore(dir: string): ReplayFixtureStore {
+  const pathFor = (provider: AIProviderType, key: string) => `${dir}/${provider}/${key}.json`;
+
+  return {
+    async read(key, provider) {
+      const { readFile } = await import('node:fs/promises');
+      try {
+        return JSON.parse(await readFile(pathFor(provider, key), 'utf8')) as ReplayFixture;
+      } catch {
+        return null;
+      }
+    },
+    async write(fixture) {
+      const { mkdir, writeFile } = await import('node:fs/promises');
+      await mkdir(`${dir}/${fixture.provider}`, { recursive: true });
+      await writeFile(pathFor(fixture.provider, fixture.key), JSON.stringify(fixture, null, 2) + '\n');
+    },
+  };
+}
+
+// ============================================================================
+// Replay Provider Implementation
+// ============================================================================
+
+export function createReplayProvider(delegate: AIProvider, options: ReplayProviderOptions): AIProvider {
+  const { mode, store } = options;
+  const name = delegate.name;
+
+  function missingFixtureError(key: string): AIError {
+    return {
+      type: 'invalid_request',
+      message: `[replay] No fixture for ${name}/${key}. Re-record with mode 'record' against a live provider.`,
+      retryable: false,
+      provider: name,
+    };
+  }
+
+  async function record(
+    key: string,
+    messages: ChatMessage[],
+    chatOptions: ChatOptions,
+    outcome: { response: string } | { error: AIError }
+  ): Promise<void> {
+    await store.write({
+      key,
+      provider: name,
+      recordedAt: new Date().toISOString(),
+      request: { preview: previewRequest(messages), options: chatOptions },
+      ...outcome,
+    });
+  }
+
+  function toAIError(error: unknown): AIError {
+    if (error && typeof error === 'object' && 'type' in error && 'retryable' in error) {
+      return error as AIError;
+    }
+    return {
+      type: 'unknown',
+      message: error instanceof Error ? error.message : String(error),
+      retryable: false,
+      provider: name,
+    };
+  }
+
+  async function replay(key: string): Promise<string> {
+    const fixture = await store.read(key, name);
+    if (!fixture) throw missingFixtureError(key);
+    if (fixture.error) throw fixture.error;
+    return fixture.response ?? '';
+  }
+
+  const replayProvider: AIProvider = {
+    name,
+
+    async chat(messages: ChatMessage[], chatOptions: ChatOptions = {}): Promise<string> {
+      const key = await hashChatRequest(name, messages, chatOptions);
+      if (mode === 'replay') return replay(key);
+
+      try {
+        const response = await delegate.chat(messages, chatOptions);
+        await record(key, messages, chatOptions, { response });
+        return response;
+      } catch (error) {
+        await record(key, messages, chatOptions, { error: toAIError(error) });
+        throw error;
+      }
+    },
+
+    async *chatStream(messages: ChatMessage[], chatOptions: ChatOptions = {}): AsyncGenerator<string> {
+      const key = await hashChatRequest(name, messages, chatOptions);
+      if (mode === 'replay') {
+        const response = await replay(key);
+        if (response) yield response;
+        return;
+      }
+
+      let response = '';
+      try {
+        for await (const delta of delegate.chatStream(messages, chatOptions)) {
+          response += delta;
+          yield delta;
+        }
+      } catch (error) {
+        await record(key, messages, chatOptions, { error: toAIError(error) });
+        throw error;
+      }
+      await record(key, messages, chatOptions, { response });
+    },
+
+    analyzeTextMeal: (...args) => delegate.analyzeTextMeal.apply(replayProvider, args),
+    analyzeMealPhoto: (...args) => delegate.analyzeMealPhoto.apply(replayProvider, args),
+    analyzeBodyPhoto: (...args) => delegate.analyzeBodyPhoto.apply(replayProvider, args),
+    analyzeProgress: (...args) => delegate.analyzeProgress.apply(replayProvider, args),
+    generateWorkout: (...args) => delegate.generateWorkout.apply(replayProvider, args),
+    analyzeWeeklyNutrition: (...args) => delegate.analyzeWeeklyNutrition.apply(replayProvider, args),
+    planWeek: (...args) => delegate.planWeek.apply(replayProvider, args),
+    planMeals: (...args) => delegate.planMeals.apply(replayProvider, args),
+  };
+
+  if (delegate.getUsage) {
+    replayProvider.getUsage = () => delegate.getUsage!();
+  }
+  if (delegate.getPromptStamps) {
+    replayProvider.getPromptStamps = () => delegate.getPromptStamps!();
+  }
+
+  if (delegate.transcribeAudio) {
+    const transcribe = delegate.transcribeAudio;
+    replayProvider.transcribeAudio = (...args) => transcribe.apply(replayProvider, args);
+  }
+
+  return replayProvider;
+}
@@ -193,3 +193,11 @@ export async function checkDailyLimit(userId: string): Promise<Response | null>
 export function isRedisEnabled(): boolean {
   return USE_REDIS;
 }
+
+/**
+ * Shared Upstash client (null when Redis isn't configured).
+ * Reused by other server-side state such as the AI circuit breaker.
+ */
+export function getRedisClient(): Redis | null {
+  return redis;
+}
@@ -0,0 +1,253 @@
+/**
+ * Shared AI Result Cache
+ *
+ * Dedups repeat analyses (same user + same photo, or the same meal description)
+ * across Edge instances. Lookups walk the layers in order — per-instance memory
+ * first, then Upstash Redis — and a lower-layer hit is copied back up for the
+ * rest of its TTL.
+ *
+ * Entries are scoped per user so users never share results, and TTLs come from
+ * each task's route (cacheTtlSeconds in ./config). Redis errors never block an
+ * AI call: the cache degrades to memory only.
+ *
+ * Invalidation can only clear memory on the instance that handles it, so the
+ * memory layer keeps entries for at most a minute; other instances stop
+ * serving a user's deleted results once their copy lapses.
+ */
+
+import { getRedisClient } from './rateLimit';
+import { getTaskRoute, type AITask } from './config';
+import type { AIProviderType, CacheLayerName, PromptStamp } from './types';
+
+const REDIS_PREFIX = 'sloefit:ai-cache';
+const MEMORY_MAX_ENTRIES = 100;
+const MEMORY_MAX_TTL_SECONDS = 60;      // Bounds how long other instances serve invalidated results
+const MAX_TTL_SECONDS = 7 * 24 * 3600;   // Also the lifetime of the per-user key index
+
+export interface CachedResult<T = unknown> {
+  data: T;
+  provider: AIProviderType;
+  model?: string;
+  prompt?: PromptStamp;
+  cachedAt: number;
+}
+
+export interface CacheHit<T> extends CachedResult<T> {
+  layer: CacheLayerName;
+}
+
+/**
+ * One storage tier. Keys always start with `<userId>:` so a layer can drop a
+ * user's entries without knowing the hashing scheme.
+ */
+export interface CacheLayer {
+  name: CacheLayerName;
+  get(key: string): Promise<{ entry: CachedResult; ttlSeconds: number } | null>;
+  set(key: string, entry: CachedResult, ttlSeconds: number): Promise<void>;
+  /** Remove every entry for a user; returns how many were removed. */
+  deleteUser(userId: string): Promise<number>;
+}
+
+// ============================================================================
+// Layers
+// ============================================================================
+
+/**
+ * Per-instance LRU map. Fast, but only helps when a retry lands on the same isolate.
+ * Entries live for the task TTL or maxTtlSeconds, whichever is shorter.
+ */
+export function createMemoryCacheLayer(
+  maxEntries = MEMORY_MAX_ENTRIES,
+  maxTtlSeconds = MEMORY_MAX_TTL_SECONDS
+): CacheLayer {
+  const entries = new Map<string, { entry: CachedResult; expiresAt: number }>();
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const hit = entries.get(key);
+      if (!hit) return null;
+      const remainingMs = hit.expiresAt - Date.now();
+      if (remainingMs <= 0) {
+        entries.delete(key);
+        return null;
+      }
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, hit);
+      return { entry: hit.entry, ttlSeconds: Math.ceil(remainingMs / 1000) };
+    },
+    async set(key, entry, ttlSeconds) {
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+      entries.set(key, { entry, expiresAt: Date.now() + Math.min(ttlSeconds, maxTtlSeconds) * 1000 });
+    },
+    async deleteUser(userId) {
+      let removed = 0;
+      for (const key of [...entries.keys()]) {
+        if (key.startsWith(`${userId}:`)) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+}
+
+/**
+ * Upstash layer shared by all instances. Each user's keys are tracked in a set
+ * so history deletion can find them without a SCAN.
+ * A no-op when Redis isn't configured.
+ */
+export function createRedisCacheLayer(): CacheLayer {
+  const redisKey = (key: string) => `${REDIS_PREFIX}:${key}`;
+  const indexKey = (userId: string) => `${REDIS_PREFIX}:index:${userId}`;
+
+  return {
+    name: 'redis',
+    async get(key) {
+      const redis = getRedisClient();
+      if (!redis) return null;
+      try {
+        const [entry, ttl] = await Promise.all([
+          redis.get<CachedResult>(redisKey(key)),
+          redis.ttl(redisKey(key)),
+        ]);
+        return entry ? { entry, ttlSeconds: ttl > 0 ? ttl : 1 } : null;
+      } catch (error) {
+        console.error('[cache] Redis read failed:', (error as Error).message);
+        return null;
+      }
+    },
+    async set(key, entry, ttlSeconds) {
+      const redis = getRedisClient();
+      if (!redis) return;
+      const userId = key.split(':')[0];
+      try {
+        await Promise.all([
+          redis.set(redisKey(key), entry, { ex: ttlSeconds }),
+          redis.sadd(indexKey(userId), key),
+          redis.expire(indexKey(userId), MAX_TTL_SECONDS),
+        ]);
+      } catch (error) {
+        console.error('[cache] Redis write failed:', (error as Error).message);
+      }
+    },
+    async deleteUser(userId) {
+      const redis = getRedisClient();
+      if (!redis) return 0;
+      try {
+        const keys = await redis.smembers(indexKey(userId));
+        await redis.del(indexKey(userId), ...keys.map(redisKey));
+        return keys.length;
+      } catch (error) {
+        console.error('[cache] Redis invalidation failed:', (error as Error).message);
+        return 0;
+      }
+    },
+  };
+}
+
+let layers: CacheLayer[] = [createMemoryCacheLayer(), createRedisCacheLayer()];
+
+/**
+ * Replace the cache layers (tests / scripts). Pass null to restore memory → Redis.
+ */
+export function setCacheLayers(custom: CacheLayer[] | null): void {
+  layers = custom ?? [createMemoryCacheLayer(), createRedisCacheLayer()];
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Canonical form of a typed meal so trivial edits still hit the cache:
+ * case, whitespace, trailing punctuation and "and"/"&"/"+" separators.
+ */
+export function normalizeMealDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\s*(?:&|\+|\band\b)\s*/g, ', ')
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.,!;]+$/, '')
+    .trim();
+}
+
+/**
+ * Cache key for a user's request: `<userId>:<task>:<sha256(input)>`.
+ * Input is whatever makes the answer unique (image data, normalized text + goal).
+ */
+export async function resultCacheKey(userId: string, task: AITask, input: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  const hash = Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `${userId}:${task}:${hash}`;
+}
+
+function ttlFor(task: AITask): number {
+  return Math.min(getTaskRoute(task).cacheTtlSeconds ?? 0, MAX_TTL_SECONDS);
+}
+
+function taskOf(key: string): AITask {
+  return key.split(':')[1] as AITask;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Look up a previous result. Returns null on a miss or when the task's cache is off.
+ */
+export async function getCachedResult<T>(key: string): Promise<CacheHit<T> | null> {
+  if (ttlFor(taskOf(key)) <= 0) return null;
+
+  for (let i = 0; i < layers.length; i++) {
+    const hit = await layers[i].get(key);
+    if (!hit) continue;
+    // Promote into the faster layers for the rest of the entry's life
+    await Promise.all(layers.slice(0, i).map(layer => layer.set(key, hit.entry, hit.ttlSeconds)));
+    return { ...(hit.entry as CachedResult<T>), layer: layers[i].name };
+  }
+  return null;
+}
+
+/**
+ * Store a result in every layer with the task's TTL.
+ */
+export async function setCachedResult(
+  key: string,
+  data: unknown,
+  provider: AIProviderType,
+  model?: string,
+  prompt?: PromptStamp
+): Promise<void> {
+  const ttlSeconds = ttlFor(taskOf(key));
+  if (ttlSeconds <= 0) return;
+  const entry: CachedResult = { data, provider, model, prompt, cachedAt: Date.now() };
+  await Promise.all(layers.map(layer => layer.set(key, entry, ttlSeconds)));
+}
+
+/**
+ * Drop every cached result for a user (AI history deletion). Returns the
+ * number of entries removed across layers.
+ */
+export async function invalidateUserCache(userId: string): Promise<number> {
+  const removed = await Promise.all(layers.map(layer => layer.deleteUser(userId)));
+  return removed.reduce((sum, n) => sum + n, 0);
+}
+
+/**
+ * Cache metadata for AIResponse on a hit, including the prompt version that
+ * produced the original result.
+ */
+export function cacheHitFields(
+  hit: CacheHit<unknown>
+): { cached: true; cacheLayer: CacheLayerName; cachedAt: string; prompt?: PromptStamp } {
+  return { cached: true, cacheLayer: hit.layer, cachedAt: new Date(hit.cachedAt).toISOString(), prompt: hit.prompt };
+}
@@ -0,0 +1,526 @@
+import type {
+  AIProvider,
+  ChatMessage,
+  ChatOptions,
+  DayPlan,
+  GeneratedWorkout,
+  MacroTotals,
+  MealPlan,
+  MealType,
+  PlannedFood,
+  PlannedMeal,
+  WeeklyNutritionInsights,
+  WeeklyPlan,
+  WorkoutExercise,
+  WorkoutSection,
+} from './types';
+import { findExerciseByName } from '../../data/exercises';
+
+// ============================================================================
+// Structured-Output Schemas (shared by all AI providers)
+// ============================================================================
+//
+// Each schema coerces a parsed JSON value into its result type. Small problems
+// are repaired in place (numbers as strings, out-of-range sets, exercise names
+// that don't match the library, missing day names). Anything that can't be
+// repaired is reported as an issue, which triggers one repair re-prompt in
+// chatStructured() before the provider gives up and withFallback moves on.
+
+export interface SchemaResult<T> {
+  value: T | null;      // null when any issue remains
+  issues: string[];     // Fatal problems, phrased for the repair prompt
+  repairs: string[];    // Fixes applied silently (logged for prompt tuning)
+}
+
+export interface ResultSchema<T> {
+  name: string;
+  parse(raw: unknown): SchemaResult<T>;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const SETS_RANGE = { min: 1, max: 10 };
+const REPS_RANGE = { min: 1, max: 100 };
+const REST_RANGE = { min: 0, max: 600 };
+const DURATION_RANGE = { min: 10, max: 180 };
+const SECTION_DURATION_RANGE = { min: 0, max: 30 };
+
+// ============================================================================
+// Coercion Helpers
+// ============================================================================
+
+type Obj = Record<string, unknown>;
+
+function isObj(value: unknown): value is Obj {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Number or numeric string ("90", "90s", "45 min"); undefined if neither. */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const n = parseFloat(value);
+    if (Number.isFinite(n)) return n;
+  }
+  return undefined;
+}
+
+function clampInt(
+  value: unknown,
+  range: { min: number; max: number },
+  fallback: number,
+  path: string,
+  repairs: string[]
+): number {
+  const n = toNumber(value);
+  if (n === undefined) {
+    repairs.push(`${path}: missing, defaulted to ${fallback}`);
+    return fallback;
+  }
+  const clamped = Math.min(range.max, Math.max(range.min, Math.round(n)));
+  if (clamped !== n) repairs.push(`${path}: ${n} → ${clamped}`);
+  return clamped;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return [];
+  return value.map(toText).filter((s): s is string => !!s);
+}
+
+function toBool(value: unknown): boolean {
+  if (typeof value === 'string') return value.toLowerCase() === 'true';
+  return Boolean(value);
+}
+
+/**
+ * Reps stay a string ("8-12", "AMRAP", "30s") but bare numbers are clamped.
+ */
+function coerceReps(value: unknown, fallback: string, path: string, repairs: string[]): string {
+  if (typeof value === 'number') return String(clampInt(value, REPS_RANGE, 10, path, repairs));
+  const text = toText(value);
+  if (!text) {
+    repairs.push(`${path}: missing, defaulted to ${fallback}`);
+    return fallback;
+  }
+  return text.replace(/\d+/g, digits => {
+    const n = parseInt(digits, 10);
+    const clamped = Math.min(REPS_RANGE.max, Math.max(REPS_RANGE.min, n));
+    if (clamped !== n) repairs.push(`${path}: ${n} → ${clamped}`);
+    return String(clamped);
+  });
+}
+
+// ============================================================================
+// GeneratedWorkout
+// ============================================================================
+
+function coerceSection(raw: unknown, path: string, repairs: string[]): WorkoutSection {
+  if (!isObj(raw)) {
+    repairs.push(`${path}: missing, left empty`);
+    return { duration_minutes: 5, exercises: [] };
+  }
+  const exercises = (Array.isArray(raw.exercises) ? raw.exercises : [])
+    .map(item => {
+      if (typeof item === 'string') return { name: item, duration: '1 min' };
+      if (!isObj(item)) return null;
+      const name = toText(item.name);
+      return name ? { name, duration: toText(item.duration) ?? '1 min' } : null;
+    })
+    .filter((e): e is { name: string; duration: string } => !!e);
+
+  return {
+    duration_minutes: clampInt(raw.duration_minutes, SECTION_DURATION_RANGE, 5, `${path}.duration_minutes`, repairs),
+    exercises,
+  };
+}
+
+function coerceExercise(raw: unknown, path: string, repairs: string[]): WorkoutExercise | null {
+  if (!isObj(raw)) return null;
+  const rawName = toText(raw.name);
+  if (!rawName) {
+    repairs.push(`${path}: dropped exercise without a name`);
+    return null;
+  }
+
+  // Map to the exercise library so names line up with history, PRs and form cues
+  const match = findExerciseByName(rawName);
+  if (match && match.name !== rawName) repairs.push(`${path}.name: "${rawName}" → "${match.name}"`);
+
+  const targetMuscles = toStringList(raw.target_muscles).map(m => m.toLowerCase());
+  const notes = toText(raw.notes);
+
+  return {
+    name: match?.name ?? rawName,
+    sets: clampInt(raw.sets, SETS_RANGE, match?.defaultSets ?? 3, `${path}.sets`, repairs),
+    reps: coerceReps(raw.reps, match?.defaultReps ?? '8-12', `${path}.reps`, repairs),
+    rest_seconds: clampInt(raw.rest_seconds, REST_RANGE, match?.defaultRest ?? 90, `${path}.rest_seconds`, repairs),
+    ...(notes && { notes }),
+    target_muscles: targetMuscles.length > 0 ? targetMuscles : (match?.primaryMuscles ?? []),
+  };
+}
+
+function coerceIntensity(value: unknown): GeneratedWorkout['intensity'] {
+  const v = typeof value === 'string' ? value.toLowerCase() : '';
+  if (['intense', 'high', 'hard', 'heavy'].includes(v)) return 'intense';
+  if (['light', 'low', 'easy', 'deload'].includes(v)) return 'light';
+  return 'moderate';
+}
+
+function parseWorkout(raw: unknown, path: string, issues: string[], repairs: string[]): GeneratedWorkout | null {
+  if (!isObj(raw)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  const exercises = (Array.isArray(raw.exercises) ? raw.exercises : [])
+    .map((e, i) => coerceExercise(e, `${path}.exercises[${i}]`, repairs))
+    .filter((e): e is WorkoutExercise => !!e);
+  if (exercises.length === 0) {
+    issues.push(`${path}.exercises must contain at least one exercise with a name, sets, reps and rest_seconds`);
+    return null;
+  }
+
+  const title = toText(raw.title);
+  if (!title) repairs.push(`${path}.title: missing, defaulted`);
+  const recoveryNotes = toText(raw.recovery_notes);
+
+  return {
+    title: title ?? 'Workout',
+    duration_minutes: clampInt(raw.duration_minutes, DURATION_RANGE, 45, `${path}.duration_minutes`, repairs),
+    intensity: coerceIntensity(raw.intensity),
+    recovery_adjusted: toBool(raw.recovery_adjusted),
+    ...(recoveryNotes && { recovery_notes: recoveryNotes }),
+    warmup: coerceSection(raw.warmup, `${path}.warmup`, repairs),
+    exercises,
+    cooldown: coerceSection(raw.cooldown, `${path}.cooldown`, repairs),
+  };
+}
+
+export const GeneratedWorkoutSchema: ResultSchema<GeneratedWorkout> = {
+  name: 'GeneratedWorkout',
+  parse(raw) {
+    const issues: string[] = [];
+    const repairs: string[] = [];
+    const value = parseWorkout(raw, 'workout', issues, repairs);
+    return { value: issues.length === 0 ? value : null, issues, repairs };
+  },
+};
+
+// ============================================================================
+// WeeklyNutritionInsights
+// ============================================================================
+
+export const WeeklyNutritionInsightsSchema: ResultSchema<WeeklyNutritionInsights> = {
+  name: 'WeeklyNutritionInsights',
+  parse(raw) {
+    const issues: string[] = [];
+    const repairs: string[] = [];
+    if (!isObj(raw)) return { value: null, issues: ['response must be a JSON object'], repairs };
+
+    const score = toNumber(raw.adherence_score);
+    const summary = toText(raw.summary);
+    const focusArea = toText(raw.focus_area);
+    const tip = toText(raw.tip);
+
+    if (score === undefined) issues.push('adherence_score must be a number from 0 to 100');
+    if (!summary) issues.push('summary must be a non-empty string');
+    if (!focusArea) issues.push('focus_area must be a non-empty string');
+    if (!tip) issues.push('tip must be a non-empty string');
+    if (issues.length > 0) return { value: null, issues, repairs };
+
+    const wins = toStringList(raw.wins);
+    if (!Array.isArray(raw.wins)) repairs.push('wins: coerced to a list');
+
+    return {
+      value: {
+        adherence_score: clampInt(score, { min: 0, max: 100 }, 0, 'adherence_score', repairs),
+        summary: summary!,
+        wins,
+        focus_area: focusArea!,
+        tip: tip!,
+      },
+      issues,
+      repairs,
+    };
+  },
+};
+
+// ============================================================================
+// WeeklyPlan
+// ============================================================================
+
+function dayIndexFrom(raw: Obj): number | undefined {
+  const n = toNumber(raw.day);
+  if (n !== undefined && Number.isInteger(n) && n >= 0 && n <= 6) return n;
+  const name = typeof raw.day_name === 'string' ? raw.day_name.trim().toLowerCase() : '';
+  const byName = DAY_NAMES.findIndex(d => name.startsWith(d.slice(0, 3).toLowerCase()));
+  return byName >= 0 ? byName : undefined;
+}
+
+function parseDay(raw: unknown, path: string, issues: string[], repairs: string[]): DayPlan | null {
+  if (!isObj(raw)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  const day = dayIndexFrom(raw);
+  if (day === undefined) {
+    issues.push(`${path}.day must be 0-6 (Sunday-Saturday)`);
+    return null;
+  }
+  if (raw.day_name !== DAY_NAMES[day]) repairs.push(`${path}.day_name: filled as ${DAY_NAMES[day]}`);
+
+  // A day without a workout is a rest day, whatever is_rest_day says
+  const isRestDay = raw.workout === null || raw.workout === undefined || toBool(raw.is_rest_day);
+  const workout = isRestDay ? null : parseWorkout(raw.workout, `${path}.workout`, issues, repairs);
+  const restReason = toText(raw.rest_reason);
+
+  return {
+    day,
+    day_name: DAY_NAMES[day],
+    workout,
+    is_rest_day: isRestDay,
+    ...(restReason && { rest_reason: restReason }),
+    focus_areas: toStringList(raw.focus_areas),
+  };
+}
+
+export const WeeklyPlanSchema: ResultSchema<WeeklyPlan> = {
+  name: 'WeeklyPlan',
+  parse(raw) {
+    const issues: string[] = [];
+    const repairs: string[] = [];
+    if (!isObj(raw)) return { value: null, issues: ['response must be a JSON object'], repairs };
+
+    const weekStart = typeof raw.week_start === 'string' ? raw.week_start.slice(0, 10) : '';
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(weekStart)) issues.push('week_start must be an ISO date (YYYY-MM-DD)');
+
+    const reasoning = toText(raw.reasoning);
+    if (!reasoning) issues.push('reasoning must be a non-empty string');
+
+    const rawDays = Array.isArray(raw.days) ? raw.days : [];
+    const days = rawDays
+      .map((d, i) => parseDay(d, `days[${i}]`, issues, repairs))
+      .filter((d): d is DayPlan => !!d);
+    const covered = new Set(days.map(d => d.day));
+    if (rawDays.length !== 7 || covered.size !== 7) {
+      issues.push(`days must list each of the 7 days exactly once (got ${rawDays.length} entries covering ${covered.size} days)`);
+    }
+
+    if (issues.length > 0) return { value: null, issues, repairs };
+
+    const id = toText(raw.id);
+    if (!id) repairs.push('id: generated');
+
+    return {
+      value: {
+        id: id ?? crypto.randomUUID(),
+        week_start: weekStart,
+        days,
+        reasoning: reasoning!,
+        progressive_overload_notes: toText(raw.progressive_overload_notes) ?? '',
+        created_at: toText(raw.created_at) ?? new Date().toISOString(),
+      },
+      issues,
+      repairs,
+    };
+  },
+};
+
+// ============================================================================
+// MealPlan
+// ============================================================================
+
+const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+const PORTION_GRAMS_RANGE = { min: 1, max: 2000 };
+const MACRO_RANGE = { min: 0, max: 5000 };
+
+function coerceMealType(value: unknown, path: string, repairs: string[]): MealType {
+  const v = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  const match = MEAL_TYPES.find(t => v.startsWith(t));
+  if (match) return match;
+  if (v === 'supper') return 'dinner';
+  repairs.push(`${path}: "${v}" → snack`);
+  return 'snack';
+}
+
+function parsePlannedFood(raw: unknown, path: string, issues: string[], repairs: string[]): PlannedFood | null {
+  if (!isObj(raw)) return null;
+  const name = toText(raw.name);
+  if (!name) {
+    repairs.push(`${path}: dropped food without a name`);
+    return null;
+  }
+
+  const grams = toNumber(raw.portionGrams ?? raw.portion_grams);
+  const portion = toText(raw.portion) ?? (grams !== undefined ? `${Math.round(grams)}g` : undefined);
+  if (!portion) {
+    issues.push(`${path}.portion must give an amount, ideally in grams`);
+    return null;
+  }
+
+  return {
+    name,
+    portion,
+    ...(grams !== undefined && { portionGrams: clampInt(grams, PORTION_GRAMS_RANGE, 100, `${path}.portionGrams`, repairs) }),
+    calories: clampInt(raw.calories, MACRO_RANGE, 0, `${path}.calories`, repairs),
+    protein: clampInt(raw.protein, MACRO_RANGE, 0, `${path}.protein`, repairs),
+    carbs: clampInt(raw.carbs, MACRO_RANGE, 0, `${path}.carbs`, repairs),
+    fats: clampInt(raw.fats, MACRO_RANGE, 0, `${path}.fats`, repairs),
+    source: 'estimate',
+  };
+}
+
+function sumFoods(foods: PlannedFood[]): MacroTotals {
+  return foods.reduce(
+    (acc, f) => ({
+      calories: acc.calories + f.calories,
+      protein: acc.protein + f.protein,
+      carbs: acc.carbs + f.carbs,
+      fats: acc.fats + f.fats,
+    }),
+    { calories: 0, protein: 0, carbs: 0, fats: 0 }
+  );
+}
+
+function parsePlannedMeal(
+  raw: unknown,
+  path: string,
+  horizon: MealPlan['horizon'],
+  issues: string[],
+  repairs: string[]
+): PlannedMeal | null {
+  if (!isObj(raw)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  const foods = (Array.isArray(raw.foods) ? raw.foods : [])
+    .map((f, i) => parsePlannedFood(f, `${path}.foods[${i}]`, issues, repairs))
+    .filter((f): f is PlannedFood => !!f);
+  if (foods.length === 0) {
+    issues.push(`${path}.foods must list at least one food with a name and portion`);
+    return null;
+  }
+
+  // A today-only plan is all day 0, whatever the model numbered it
+  let day = 0;
+  if (horizon === 'week') day = clampInt(raw.day, { min: 0, max: 6 }, 0, `${path}.day`, repairs);
+  else if (toNumber(raw.day) !== undefined && toNumber(raw.day) !== 0) repairs.push(`${path}.day: ${raw.day} → 0`);
+
+  const mealType = coerceMealType(raw.meal_type, `${path}.meal_type`, repairs);
+  const name = toText(raw.name);
+  if (!name) repairs.push(`${path}.name: missing, named from foods`);
+
+  return {
+    day,
+    meal_type: mealType,
+    name: name ?? foods.map(f => f.name).join(', '),
+    foods,
+    totals: sumFoods(foods),
+    hasUSDAData: false,
+  };
+}
+
+/**
+ * Meal plans are parsed per horizon: a today-only plan needs at least one
+ * meal, a week plan needs meals on each of the 7 days.
+ */
+export function mealPlanSchema(horizon: MealPlan['horizon']): ResultSchema<MealPlan> {
+  return {
+    name: 'MealPlan',
+    parse(raw) {
+      const issues: string[] = [];
+      const repairs: string[] = [];
+      if (!isObj(raw)) return { value: null, issues: ['response must be a JSON object'], repairs };
+
+      const meals = (Array.isArray(raw.meals) ? raw.meals : [])
+        .map((m, i) => parsePlannedMeal(m, `meals[${i}]`, horizon, issues, repairs))
+        .filter((m): m is PlannedMeal => !!m);
+      if (meals.length === 0) issues.push('meals must contain at least one meal');
+
+      if (horizon === 'week') {
+        const covered = new Set(meals.map(m => m.day));
+        if (covered.size !== 7) issues.push(`meals must cover each day 0-6 (covered ${covered.size} days)`);
+      }
+
+      if (issues.length > 0) return { value: null, issues, repairs };
+
+      meals.sort((a, b) => a.day - b.day || MEAL_TYPES.indexOf(a.meal_type) - MEAL_TYPES.indexOf(b.meal_type));
+      return {
+        value: { horizon, meals, notes: toText(raw.notes) ?? '' },
+        issues,
+        repairs,
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Parse + Repair Re-prompt
+// ============================================================================
+
+/**
+ * Extract the JSON object from a model response (tolerates code fences and
+ * surrounding prose) and run it through a schema.
+ */
+export function parseStructured<T>(content: string | null | undefined, schema: ResultSchema<T>): SchemaResult<T> {
+  const jsonMatch = content?.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return { value: null, issues: ['response did not contain a JSON object'], repairs: [] };
+  try {
+    return schema.parse(JSON.parse(jsonMatch[0]));
+  } catch {
+    return { value: null, issues: ['response was not valid JSON'], repairs: [] };
+  }
+}
+
+function repairPrompt(schemaName: string, issues: string[]): string {
+  return `Your previous response could not be used as a ${schemaName}:
+${issues.slice(0, 10).map(issue => `- ${issue}`).join('\n')}
+
+Respond again with the complete corrected JSON object only — same structure, no markdown, no commentary.`;
+}
+
+/**
+ * Chat for a structured result. Invalid output gets exactly one repair
+ * re-prompt (the bad response plus the schema issues); if that also fails the
+ * provider returns null so withFallback tries the next one.
+ */
+export async function chatStructured<T>(
+  provider: Pick<AIProvider, 'name' | 'chat'>,
+  messages: ChatMessage[],
+  options: ChatOptions,
+  schema: ResultSchema<T>
+): Promise<T | null> {
+  const content = await provider.chat(messages, options);
+  const first = parseStructured(content, schema);
+  if (first.value) {
+    if (first.repairs.length > 0) console.log(`[ai] ${provider.name} ${schema.name} repaired: ${first.repairs.join('; ')}`);
+    return first.value;
+  }
+
+  console.error(`[ai] ${provider.name} returned invalid ${schema.name} (${first.issues.join('; ')}) — re-prompting once`);
+  const retry = await provider.chat(
+    [
+      ...messages,
+      { role: 'assistant', content: content || '(empty response)' },
+      { role: 'user', content: repairPrompt(schema.name, first.issues) },
+    ],
+    options
+  );
+  const second = parseStructured(retry, schema);
+  if (second.value) {
+    if (second.repairs.length > 0) console.log(`[ai] ${provider.name} ${schema.name} repaired: ${second.repairs.join('; ')}`);
+    return second.value;
+  }
+
+  console.error(`[ai] ${provider.name} ${schema.name} still invalid after repair (${second.issues.join('; ')})`);
+  return null;
+}
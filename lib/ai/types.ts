@@ -2,10 +2,15 @@
 // AI Provider Abstraction Types
 // ============================================================================
 
+import type { DietaryPreference } from '../../utils/dietaryPreferences';
+import type { FastingAdherence } from '../../utils/fasting';
+import type { ExerciseEffort } from '../../utils/setTypes';
+
 /**
- * Supported AI providers
+ * Supported AI providers.
+ * 'local' is any self-hosted OpenAI-compatible server (Ollama, llama.cpp).
  */
-export type AIProviderType = 'openai' | 'anthropic' | 'google' | 'mistral';
+export type AIProviderType = 'openai' | 'anthropic' | 'google' | 'mistral' | 'local';
 
 /**
  * Common error types across all providers
@@ -51,6 +56,12 @@ export interface ChatOptions {
   timeoutMs?: number;
 }
 
+/** Token counts reported by the vendor, summed over every call an instance made. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
 // ============================================================================
 // Meal Analysis Types
 // ============================================================================
@@ -80,8 +91,16 @@ export interface FoodWithNutrition {
   source: 'usda' | 'estimate';  // Where macros came from
   fdcId?: number;               // USDA FDC ID if matched
   usdaDescription?: string;     // USDA's official food name
+  learnedMultiplier?: number;   // User's usual portion correction, already applied
+  micros?: Micronutrients;      // USDA matches only
 }
 
+/**
+ * Learned portion multipliers for one user, keyed by normalizeFoodName()
+ * (see ./portionLearning).
+ */
+export type PortionCorrections = Record<string, number>;
+
 export interface MacroTotals {
   calories: number;
   protein: number;
@@ -89,6 +108,20 @@ export interface MacroTotals {
   fats: number;
 }
 
+/**
+ * Nutrients tracked beyond the four macros (see utils/micronutrients.ts).
+ */
+export interface Micronutrients {
+  fiber: number;      // g
+  sugar: number;      // g
+  sodium: number;     // mg
+  potassium: number;  // mg
+  iron: number;       // mg
+  calcium: number;    // mg
+  vitaminC: number;   // mg
+  vitaminD: number;   // µg
+}
+
 export interface TextMealAnalysis {
   foods: Food[];
   totals: MacroTotals;
@@ -103,6 +136,7 @@ export interface PhotoMealAnalysis {
   foods?: string[];                    // Array of identified food names (backward compat)
   foodsDetailed?: FoodWithNutrition[]; // Detailed foods with nutrition from USDA/estimates
   hasUSDAData?: boolean;               // True if any food matched USDA database
+  micros?: Micronutrients;             // Summed over USDA-matched foods
 }
 
 export interface MealAnalysisInput {
@@ -152,12 +186,14 @@ export interface UserProfile {
   training_experience?: string;
   equipment_access?: string;
   days_per_week?: number;
+  dietary_preferences?: DietaryPreference[];
 }
 
 export interface WorkoutGenerationInput {
   profile: UserProfile;
   recovery: RecoveryState;
   recentWorkouts: { title: string; date: string; muscles: string[] }[];
+  effort?: ExerciseEffort[]; // Recent RPE per exercise, when sets were rated
 }
 
 // ============================================================================
@@ -176,6 +212,7 @@ export interface WeeklyNutritionInput {
   logs: NutritionLog[];
   targets: MacroTotals;
   goal: string | null;
+  fasting?: FastingAdherence; // Only when the user has an eating window set
 }
 
 export interface WeeklyNutritionInsights {
@@ -235,20 +272,35 @@ export interface AIProvider {
     options?: ChatOptions
   ): Promise<string>;
 
+  /**
+   * Streaming chat completion. Yields text deltas as the model produces them.
+   * Errors are thrown from the iterator so callers can fail over before the
+   * first token (see withStreamFallback).
+   */
+  chatStream(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): AsyncIterable<string>;
+
   /**
    * Analyze a meal from text description
    */
   analyzeTextMeal(
     description: string,
-    userGoal: string | null
+    userGoal: string | null,
+    dietary?: DietaryPreference[]
   ): Promise<TextMealAnalysis | null>;
 
   /**
-   * Analyze a meal from photo
+   * Analyze a meal from photo. `onProgress` is told each step as it starts
+   * (identifying foods, USDA lookup, totals) for streaming clients.
    */
   analyzeMealPhoto(
     imageBase64: string,
-    userGoal: string | null
+    userGoal: string | null,
+    portionCorrections?: PortionCorrections,
+    dietary?: DietaryPreference[],
+    onProgress?: (message: string) => void
   ): Promise<PhotoMealAnalysis>;
 
   /**
@@ -283,12 +335,32 @@ export interface AIProvider {
    */
   transcribeAudio?(audioBlob: Blob): Promise<string | null>;
 
+  /**
+   * Token usage accumulated by this instance. Providers are created per
+   * request, so this covers every vendor call behind one operation
+   * (e.g. both phases of a photo analysis).
+   */
+  getUsage?(): TokenUsage;
+
+  /**
+   * Prompts this instance has used, in order (see lib/ai/promptRegistry).
+   */
+  getPromptStamps?(): PromptStamp[];
+
   /**
    * Generate a weekly training plan using multi-step reasoning
    */
   planWeek(
     input: WeeklyPlanGenerationInput
   ): Promise<WeeklyPlan | null>;
+
+  /**
+   * Suggest meals that fill the rest of today's macros, or a 7-day plan.
+   * Portions are checked against USDA data before returning.
+   */
+  planMeals(
+    input: MealPlanInput
+  ): Promise<MealPlan | null>;
 }
 
 // ============================================================================
@@ -340,14 +412,85 @@ export interface RecoveryPattern {
   sorenessAreas: string[];
 }
 
+// ============================================================================
+// Meal Plan Types
+// ============================================================================
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface MealPlanInput {
+  horizon: 'day' | 'week';
+  remaining: MacroTotals;   // Left for today ('day') or the daily targets ('week')
+  goal: string | null;
+  mealsEaten: { description: string; mealType?: MealType | null; calories: number; protein: number }[];
+  favorites: { name: string; calories: number; protein: number; carbs: number; fats: number }[];
+  restrictions?: string[];  // Diets and allergens, e.g. "vegetarian", "peanut allergy"
+}
+
+export interface PlannedFood {
+  name: string;
+  portion: string;
+  portionGrams?: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  source: 'usda' | 'estimate';  // 'estimate' until checked against USDA
+  fdcId?: number;
+  micros?: Micronutrients;
+}
+
+export interface PlannedMeal {
+  day: number;  // 0 = today; 0-6 for a week plan
+  meal_type: MealType;
+  name: string;
+  foods: PlannedFood[];
+  totals: MacroTotals;
+  micros?: Micronutrients;
+  hasUSDAData: boolean;
+}
+
+export interface MealPlan {
+  horizon: 'day' | 'week';
+  meals: PlannedMeal[];
+  notes: string;
+}
+
 // ============================================================================
 // API Response Types (for frontend consumption)
 // ============================================================================
 
+/**
+ * Which registered prompt produced a result (see lib/ai/promptRegistry).
+ * `experiment` is set only while an A/B experiment is running on that prompt.
+ */
+export interface PromptStamp {
+  id: string;
+  version: string;
+  experiment?: 'control' | 'variant';
+}
+
+/** Tier of the shared result cache that served a response (see lib/ai/resultCache). */
+export type CacheLayerName = 'memory' | 'redis';
+
 export interface AIResponse<T> {
   success: boolean;
   data?: T;
   error?: AIError;
   provider?: AIProviderType;
+  model?: string;                      // When known: a routed override, or the Gemini model
   durationMs?: number;
+  prompt?: PromptStamp;                // Primary prompt behind the result
+  cached?: boolean;                    // True when served from the result cache (no AI call made)
+  cacheLayer?: CacheLayerName;
+  cachedAt?: string;                   // ISO time the cached result was produced
 }
+
+/**
+ * Server-Sent Event payloads emitted by streaming API routes.
+ * `progress` names the step now running; `result` carries the final response
+ * (success or failure) and always ends the stream.
+ */
+export type AIStreamEvent<T> =
+  | { type: 'progress'; message: string }
+  | { type: 'result'; response: AIResponse<T> };
@@ -6,7 +6,9 @@
  */
 
 import { lookupFoodWithConfidence, extractMacrosFromUSDA, searchFood } from '../../services/nutritionService';
-import type { MacroTotals } from './types';
+import { scaleMicronutrients, sumMicronutrients } from '../../utils/micronutrients';
+import { findDietaryConflicts, formatDietaryAlert, type DietaryPreference } from '../../utils/dietaryPreferences';
+import type { MacroTotals, MealPlan, Micronutrients, PlannedFood, PlannedMeal, PortionCorrections } from './types';
 
 // ============================================================================
 // Types
@@ -33,6 +35,8 @@ export interface FoodWithNutrition extends IdentifiedFood {
   source: 'usda' | 'estimate';  // Where macros came from
   fdcId?: number;               // USDA FDC ID if matched
   usdaDescription?: string;     // USDA's official food name
+  learnedMultiplier?: number;   // User's usual portion correction, already applied
+  micros?: Micronutrients;      // USDA matches only; estimates carry macros alone
 }
 
 /**
@@ -41,6 +45,7 @@ export interface FoodWithNutrition extends IdentifiedFood {
 export interface EnrichedFoodsResult {
   foods: FoodWithNutrition[];
   totals: MacroTotals;
+  micros?: Micronutrients;  // Summed over USDA-matched foods; undefined if none
   hasUSDAData: boolean;  // True if ANY food matched USDA
 }
 
@@ -307,6 +312,7 @@ export async function lookupSingleFood(food: IdentifiedFood): Promise<FoodWithNu
         protein: Math.round(usdaResult.protein * scale),
         carbs: Math.round(usdaResult.carbs * scale),
         fats: Math.round(usdaResult.fats * scale),
+        micros: usdaResult.micros && scaleMicronutrients(usdaResult.micros, scale),
         source: 'usda',
         fdcId: usdaResult.fdcId,
         usdaDescription: usdaResult.description,
@@ -345,11 +351,28 @@ export async function lookupSingleFood(food: IdentifiedFood): Promise<FoodWithNu
   };
 }
 
+/**
+ * Scale a food's portion by the user's learned correction for it, if any.
+ * The multiplier is kept on the food so the next scan's edits are measured
+ * against the corrected portion.
+ */
+function applyPortionCorrection(food: IdentifiedFood, corrections: PortionCorrections): IdentifiedFood & { learnedMultiplier?: number } {
+  const multiplier = corrections[normalizeFoodName(food.name)];
+  if (!multiplier || multiplier === 1) return food;
+
+  const portionGrams = food.portionGrams || parsePortionToGrams(food.portion, food.name);
+  return { ...food, portionGrams: Math.round(portionGrams * multiplier), learnedMultiplier: multiplier };
+}
+
 /**
  * Enrich an array of AI-identified foods with nutrition data.
- * Performs lookups in parallel for speed.
+ * Performs lookups in parallel for speed. `corrections` are the user's learned
+ * portion multipliers (see ./portionLearning).
  */
-export async function enrichFoodsWithNutrition(foods: IdentifiedFood[]): Promise<EnrichedFoodsResult> {
+export async function enrichFoodsWithNutrition(
+  foods: IdentifiedFood[],
+  corrections: PortionCorrections = {}
+): Promise<EnrichedFoodsResult> {
   if (!foods || foods.length === 0) {
     return {
       foods: [],
@@ -359,7 +382,9 @@ export async function enrichFoodsWithNutrition(foods: IdentifiedFood[]): Promise
   }
 
   // Look up all foods in parallel
-  const enrichedFoods = await Promise.all(foods.map(lookupSingleFood));
+  const enrichedFoods = await Promise.all(
+    foods.map(food => lookupSingleFood(applyPortionCorrection(food, corrections)))
+  );
 
   // Calculate totals
   const totals = enrichedFoods.reduce(
@@ -378,17 +403,81 @@ export async function enrichFoodsWithNutrition(foods: IdentifiedFood[]): Promise
   return {
     foods: enrichedFoods,
     totals,
+    micros: sumMicronutrients(enrichedFoods.map(f => f.micros)),
     hasUSDAData,
   };
 }
 
+// ============================================================================
+// Meal Plan Verification
+// ============================================================================
+
+/**
+ * Check one planned meal's foods against USDA. Matched foods take USDA
+ * macros for the planned portion; unmatched foods keep the model's own
+ * per-food numbers, which beat the generic fallback table for dishes the
+ * table doesn't know.
+ */
+async function verifyPlannedMeal(meal: PlannedMeal): Promise<PlannedMeal> {
+  const { foods: checked } = await enrichFoodsWithNutrition(
+    meal.foods.map(f => ({ name: f.name, portion: f.portion, portionGrams: f.portionGrams, confidence: 1 }))
+  );
+
+  const foods: PlannedFood[] = meal.foods.map((planned, i) => {
+    const food = checked[i];
+    if (food.source !== 'usda') return { ...planned, portionGrams: food.portionGrams, source: 'estimate' };
+    return {
+      name: planned.name,
+      portion: planned.portion,
+      portionGrams: food.portionGrams,
+      calories: food.calories,
+      protein: food.protein,
+      carbs: food.carbs,
+      fats: food.fats,
+      source: 'usda',
+      fdcId: food.fdcId,
+      ...(food.micros && { micros: food.micros }),
+    };
+  });
+
+  const totals = foods.reduce(
+    (acc, f) => ({
+      calories: acc.calories + f.calories,
+      protein: acc.protein + f.protein,
+      carbs: acc.carbs + f.carbs,
+      fats: acc.fats + f.fats,
+    }),
+    { calories: 0, protein: 0, carbs: 0, fats: 0 }
+  );
+
+  return {
+    ...meal,
+    foods,
+    totals,
+    micros: sumMicronutrients(foods.map(f => f.micros)),
+    hasUSDAData: foods.some(f => f.source === 'usda'),
+  };
+}
+
+/**
+ * Replace a generated meal plan's estimated macros with USDA data.
+ * Meals are checked in parallel.
+ */
+export async function verifyMealPlan(plan: MealPlan): Promise<MealPlan> {
+  const meals = await Promise.all(plan.meals.map(verifyPlannedMeal));
+  return { ...plan, meals };
+}
+
 /**
  * Generate a human-readable markdown summary of the meal.
+ * Foods that conflict with the user's diet or allergens get a warning
+ * right after the breakdown.
  */
 export function generateMealMarkdown(
   foods: FoodWithNutrition[],
   totals: MacroTotals,
-  userGoal: string | null
+  userGoal: string | null,
+  dietary: DietaryPreference[] = []
 ): string {
   const lines: string[] = [];
 
@@ -399,10 +488,16 @@ export function generateMealMarkdown(
   lines.push('### Foods Identified\n');
   for (const food of foods) {
     const badge = food.source === 'usda' ? '✓' : '~';
-    lines.push(`- **${food.name}** (${food.portion}) ${badge}`);
+    const usual = food.learnedMultiplier ? ` · your usual ×${food.learnedMultiplier}` : '';
+    lines.push(`- **${food.name}** (${food.portion}${usual}) ${badge}`);
     lines.push(`  ${food.calories} cal | ${food.protein}g P | ${food.carbs}g C | ${food.fats}g F\n`);
   }
 
+  const alert = formatDietaryAlert(findDietaryConflicts(foods.map(f => f.name), dietary));
+  if (alert) {
+    lines.push(alert);
+  }
+
   // Totals
   lines.push('### Total Macros\n');
   lines.push(`- **Calories:** ${totals.calories}`);
@@ -410,6 +505,11 @@ export function generateMealMarkdown(
   lines.push(`- **Carbs:** ${totals.carbs}g`);
   lines.push(`- **Fats:** ${totals.fats}g\n`);
 
+  const micros = sumMicronutrients(foods.map(f => f.micros));
+  if (micros) {
+    lines.push(`*Fiber ${Math.round(micros.fiber)}g · Sugar ${Math.round(micros.sugar)}g · Sodium ${Math.round(micros.sodium)}mg (USDA-matched foods)*\n`);
+  }
+
   // Goal context
   if (userGoal) {
     lines.push('### Goal Fit\n');
@@ -114,3 +114,42 @@ export function parseMacrosFromResponse(text: string): ParsedMacrosResult {
 export function stripMacrosBlock(text: string): string {
   return text.replace(/---MACROS_JSON---[\s\S]*?---END_MACROS---/g, '').trim();
 }
+
+// ============================================================================
+// Shared Streaming Helpers (provider SSE parsing + client consumption)
+// ============================================================================
+
+/**
+ * Read a Server-Sent Events body and yield the `data:` payload of each event.
+ * Multi-line data fields are joined with newlines per the SSE spec.
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const data = rawEvent
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        if (data) yield data;
+
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
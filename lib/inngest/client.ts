@@ -6,6 +6,8 @@
  */
 
 import { Inngest } from 'inngest';
+import type { UserProfile, WorkoutHistoryItem, RecoveryPattern } from '../ai/types';
+import type { DietaryPreference } from '../../utils/dietaryPreferences';
 
 export const inngest = new Inngest({
   id: 'sloe-fit',
@@ -19,15 +21,16 @@ export interface AIPhotoAnalyzeEvent {
     imageBase64: string;
     userGoal: string | null;
     userId: string;
+    dietaryPreferences?: DietaryPreference[];
   };
 }
 
 export interface AIWeeklyPlanEvent {
   name: 'ai/weekly-plan.generate';
   data: {
-    profile: Record<string, unknown>;
-    recentWorkouts: Record<string, unknown>[];
-    recoveryPatterns: Record<string, unknown>[];
+    profile: UserProfile;
+    recentWorkouts: WorkoutHistoryItem[];
+    recoveryPatterns: RecoveryPattern[];
     preferredSchedule?: number[];
     userId: string;
   };
@@ -12,6 +12,7 @@
 
 import { inngest } from './client';
 import { withFallback } from '../ai';
+import { getPortionCorrections } from '../ai/portionLearning';
 
 /**
  * Analyze meal photo with provider fallback.
@@ -27,13 +28,15 @@ export const analyzeMealPhoto = inngest.createFunction(
   },
   { event: 'ai/photo.analyze' },
   async ({ event, step }) => {
-    const { imageBase64, userGoal } = event.data;
+    const { imageBase64, userGoal, userId, dietaryPreferences = [] } = event.data;
 
     // Use step.run for durability - if this fails, Inngest will retry
     const result = await step.run('analyze-photo', async () => {
+      const portionCorrections = await getPortionCorrections(userId);
       const { data, provider } = await withFallback(
-        p => p.analyzeMealPhoto(imageBase64, userGoal),
-        r => r?.markdown?.startsWith('Error:') ?? false
+        'meal_photo',
+        p => p.analyzeMealPhoto(imageBase64, userGoal, portionCorrections, dietaryPreferences),
+        { isFailure: r => r?.markdown?.startsWith('Error:') ?? false, userId }
       );
       return { data, provider };
     });
@@ -60,17 +63,13 @@ export const generateWeeklyPlan = inngest.createFunction(
   },
   { event: 'ai/weekly-plan.generate' },
   async ({ event, step }) => {
-    const { profile, recentWorkouts, recoveryPatterns, preferredSchedule } = event.data;
+    const { profile, recentWorkouts, recoveryPatterns, preferredSchedule, userId } = event.data;
 
     const result = await step.run('generate-plan', async () => {
       const { data, provider } = await withFallback(
-        p => p.planWeek({
-          profile: profile as any,
-          recentWorkouts: recentWorkouts as any,
-          recoveryPatterns: recoveryPatterns as any,
-          preferredSchedule,
-        }),
-        r => r === null
+        'weekly_plan',
+        p => p.planWeek({ profile, recentWorkouts, recoveryPatterns, preferredSchedule }),
+        { isFailure: r => r === null, userId }
       );
       return { data, provider };
     });
@@ -96,12 +95,13 @@ export const analyzeBodyPhoto = inngest.createFunction(
   },
   { event: 'ai/body.analyze' },
   async ({ event, step }) => {
-    const { imageBase64 } = event.data;
+    const { imageBase64, userId } = event.data;
 
     const result = await step.run('analyze-body', async () => {
       const { data, provider } = await withFallback(
+        'body_analysis',
         p => p.analyzeBodyPhoto(imageBase64),
-        r => r.markdown.startsWith('Error:')
+        { isFailure: r => r.markdown.startsWith('Error:'), userId }
       );
       return { data, provider };
     });
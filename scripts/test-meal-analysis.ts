@@ -3,6 +3,7 @@
  * Run with: npx ts-node scripts/test-meal-analysis.ts
  *
  * This tests the validateAndCorrectMealAnalysis function with various scenarios
+ * against a local copy of it; no AI provider is called, so it runs offline.
  */
 
 // Mock the DEBUG_MODE for testing
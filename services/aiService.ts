@@ -12,7 +12,11 @@ import { RecoveryState } from '../components/RecoveryCheckIn';
 import { UserProfile } from '../hooks/useUserData';
 import { getAuthToken } from './supabaseRawFetch';
 import { sanitizeForAI } from '../utils/validation';
-import type { FoodWithNutrition } from '../lib/ai/types';
+import type { DietaryPreference } from '../utils/dietaryPreferences';
+import type { FastingAdherence } from '../utils/fasting';
+import type { ExerciseEffort } from '../utils/setTypes';
+import type { FoodWithNutrition, AIStreamEvent, MealPlan, MealPlanInput, Micronutrients, PromptStamp } from '../lib/ai/types';
+import { readSSEData } from '../lib/ai/utils';
 
 // ============================================================================
 // Types (matching the API response types)
@@ -27,6 +31,7 @@ export interface AIResponse<T> {
     retryable: boolean;
   };
   provider?: string;
+  prompt?: PromptStamp;
   durationMs?: number;
 }
 
@@ -36,6 +41,7 @@ export interface TextMealAnalysisResult {
   confidence: 'high' | 'medium' | 'low';
   notes: string;
   markdown: string;
+  prompt?: PromptStamp; // Prompt version behind the analysis, persisted with the scan
 }
 
 export interface MealAnalysisResult {
@@ -49,6 +55,8 @@ export interface MealAnalysisResult {
   foods?: string[]; // Array of identified food names (backward compat)
   foodsDetailed?: FoodWithNutrition[]; // Detailed foods with USDA/estimate nutrition
   hasUSDAData?: boolean; // True if any food matched USDA database
+  micros?: Micronutrients; // Fiber, sodium, vitamins etc. from USDA-matched foods
+  prompt?: PromptStamp; // Prompt version behind the analysis, persisted with the scan
 }
 
 export interface BodyAnalysisResult {
@@ -87,6 +95,7 @@ export interface WorkoutGenerationInput {
   profile: UserProfile;
   recovery: RecoveryState;
   recentWorkouts: { title: string; date: string; muscles: string[] }[];
+  effort?: ExerciseEffort[];
 }
 
 export interface WeeklyNutritionInsights {
@@ -101,6 +110,7 @@ export interface WeeklyNutritionInput {
   logs: { date: string; calories: number; protein: number; carbs: number; fats: number }[];
   targets: { calories: number; protein: number; carbs: number; fats: number };
   goal: string | null;
+  fasting?: FastingAdherence;
 }
 
 export interface TranscribeResult {
@@ -119,6 +129,7 @@ export interface WeeklyPlan {
   reasoning: string;
   progressive_overload_notes: string;
   created_at: string;
+  prompt?: PromptStamp; // Prompt version behind the plan, persisted with it
 }
 
 export interface DayPlan {
@@ -370,7 +381,36 @@ async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function callAPI<T>(endpoint: string, body: unknown, operation: string, externalSignal?: AbortSignal): Promise<AIResponse<T>> {
+/**
+ * Consume an SSE response from a streaming route. Calls onProgress with each
+ * step the route reports and resolves with the final result event.
+ */
+async function readEventStream<T>(body: ReadableStream<Uint8Array>, onProgress: (message: string) => void): Promise<AIResponse<T>> {
+  for await (const data of readSSEData(body)) {
+    let event: AIStreamEvent<T>;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      continue;
+    }
+    if (event.type === 'progress') {
+      onProgress(event.message);
+    } else if (event.type === 'result') {
+      return event.response;
+    }
+  }
+  return {
+    success: false,
+    error: { type: 'network', message: 'Connection lost while streaming. Please try again.', retryable: true },
+  };
+}
+
+/**
+ * Call an AI API route. When onProgress is provided the request asks for a
+ * Server-Sent Events stream; routes without streaming support (and cache
+ * hits) answer with plain JSON, which is handled the same as a non-streamed call.
+ */
+async function callAPI<T>(endpoint: string, body: unknown, operation: string, externalSignal?: AbortSignal, onProgress?: (message: string) => void): Promise<AIResponse<T>> {
   // H12 FIX: Check client-side rate limit before making request
   const rateLimitCheck = checkRateLimit(operation);
   if (!rateLimitCheck.allowed) {
@@ -439,6 +479,7 @@ async function callAPI<T>(endpoint: string, body: unknown, operation: string, ex
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${authToken}`,
+          ...(onProgress && { 'Accept': 'text/event-stream' }),
         },
         body: JSON.stringify(body),
         signal: controller.signal,
@@ -446,6 +487,25 @@ async function callAPI<T>(endpoint: string, body: unknown, operation: string, ex
 
       clearTimeout(timeoutId);
 
+      // Streamed response: the analysis is already underway server-side, so never retry from here
+      if (onProgress && response.ok && response.body && response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        const streamTimeoutId = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+          const result = await readEventStream<T>(response.body, onProgress);
+          updateRequestLog(log, result.success ? 'success' : 'error', result.provider);
+          return result;
+        } catch {
+          updateRequestLog(log, 'error');
+          if (externalSignal?.aborted) {
+            return { success: false, error: { type: 'cancelled', message: 'Request cancelled.', retryable: false } };
+          }
+          return { success: false, error: { type: 'timeout', message: 'The response stopped streaming. Please try again.', retryable: true } };
+        } finally {
+          clearTimeout(streamTimeoutId);
+          externalSignal?.removeEventListener('abort', onExternalAbort);
+        }
+      }
+
       if (!response.ok) {
         // Handle 401: refresh token and retry once
         if (response.status === 401 && !authRetried) {
@@ -673,12 +733,16 @@ export const analyzeBodyPhoto = async (image: File, options?: { signal?: AbortSi
 /**
  * Analyze a meal photo for nutrition information
  */
-export const analyzeMealPhoto = async (image: File, userGoal: string | null, options?: { signal?: AbortSignal }): Promise<MealAnalysisResult> => {
+export const analyzeMealPhoto = async (
+  image: File,
+  userGoal: string | null,
+  options?: { signal?: AbortSignal; onProgress?: (message: string) => void; dietaryPreferences?: DietaryPreference[] }
+): Promise<MealAnalysisResult> => {
   const imageBase64 = await compressImageForAnalysis(image);
-  const result = await callAPI<MealAnalysisResult>('/analyze-meal-photo', { imageBase64, userGoal }, 'analyzeMealPhoto', options?.signal);
+  const result = await callAPI<MealAnalysisResult>('/analyze-meal-photo', { imageBase64, userGoal, dietaryPreferences: options?.dietaryPreferences ?? [] }, 'analyzeMealPhoto', options?.signal, options?.onProgress);
 
   if (result.success && result.data) {
-    return result.data;
+    return { ...result.data, prompt: result.prompt };
   }
   return {
     markdown: `Error: ${formatErrorForUser(result.error)}`,
@@ -718,12 +782,16 @@ export const generateWorkout = async (input: WorkoutGenerationInput, options?: {
  * Analyze a text description of a meal
  * C2 FIX: Sanitize description before sending to API to prevent prompt injection
  */
-export const analyzeTextMeal = async (description: string, userGoal: string | null): Promise<TextMealAnalysisResult | null> => {
+export const analyzeTextMeal = async (
+  description: string,
+  userGoal: string | null,
+  dietaryPreferences: DietaryPreference[] = []
+): Promise<TextMealAnalysisResult | null> => {
   const sanitizedDescription = sanitizeForAI(description, 1000);
-  const result = await callAPI<TextMealAnalysisResult>('/analyze-meal', { description: sanitizedDescription, userGoal }, 'analyzeTextMeal');
+  const result = await callAPI<TextMealAnalysisResult>('/analyze-meal', { description: sanitizedDescription, userGoal, dietaryPreferences }, 'analyzeTextMeal');
 
   if (result.success && result.data) {
-    return result.data;
+    return { ...result.data, prompt: result.prompt };
   }
   console.error('Error analyzing text meal:', result.error);
   return null;
@@ -769,12 +837,26 @@ export const generateWeeklyPlan = async (input: WeeklyPlanGenerationInput, optio
   const result = await callAPI<WeeklyPlan>('/generate-weekly-plan', input, 'generateWeeklyPlan', options?.signal);
 
   if (result.success && result.data) {
-    return result.data;
+    return { ...result.data, prompt: result.prompt };
   }
   console.error('Error generating weekly plan:', result.error);
   return null;
 };
 
+/**
+ * Suggest meals for the rest of today (or a 7-day plan), with macros checked
+ * against USDA data on the server
+ */
+export const planMeals = async (input: MealPlanInput, options?: { signal?: AbortSignal }): Promise<MealPlan | null> => {
+  const result = await callAPI<MealPlan>('/plan-meals', input, 'planMeals', options?.signal);
+
+  if (result.success && result.data) {
+    return result.data;
+  }
+  console.error('Error planning meals:', result.error);
+  return null;
+};
+
 // ============================================================================
 // Utility Exports
 // ============================================================================
@@ -785,4 +867,6 @@ export { formatErrorForUser };
 export type {
   RecoveryState,
   UserProfile,
+  MealPlan,
+  MealPlanInput,
 };
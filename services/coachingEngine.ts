@@ -34,6 +34,11 @@ export interface AutoAdjustment {
 const MS_PER_DAY = 1000 * 60 * 60 * 24;
 const MS_PER_WEEK = MS_PER_DAY * 7;
 
+// Last-24h water as % of the daily target (utils/hydration.ts) below this is flagged
+const LOW_HYDRATION_PCT = 50;
+// Energy at or below this (1–5 check-in scale) alongside low water raises priority
+const LOW_ENERGY = 2;
+
 // SOUL.md milestone thresholds
 const MILESTONE_DAYS = [1, 7, 14, 21, 30, 60, 90, 100, 365];
 
@@ -99,6 +104,30 @@ function detectLowSleep(events: CoachEvent[]): DetectedPattern | null {
   return null;
 }
 
+/**
+ * Low water intake at the latest recovery check-in. The check-in carries
+ * hydrationPct only when the user tracks water; paired with low energy it's
+ * the likely culprit, so it's raised to high priority.
+ */
+function detectLowHydration(events: CoachEvent[]): DetectedPattern | null {
+  const recent = events
+    .filter(e => e.type === 'recovery_checkin')
+    .sort((a, b) => b.timestamp - a.timestamp)[0];
+
+  if (!recent || recent.data.hydrationPct == null) return null;
+
+  const hydrationPct = Number(recent.data.hydrationPct);
+  if (!isFinite(hydrationPct) || hydrationPct < 0 || hydrationPct >= LOW_HYDRATION_PCT) return null;
+
+  const energy = Number(recent.data.energy);
+  const lowEnergy = isFinite(energy) && energy > 0 && energy <= LOW_ENERGY;
+  return {
+    type: 'low_hydration',
+    priority: lowEnergy ? 'high' : 'medium',
+    data: { hydrationPct: Math.round(hydrationPct), energy: lowEnergy ? energy : null },
+  };
+}
+
 function detectTrainingStreak(events: CoachEvent[]): DetectedPattern | null {
   const workouts = events
     .filter(e => e.type === 'workout_completed')
@@ -281,6 +310,31 @@ function detectGoodSession(events: CoachEvent[]): DetectedPattern | null {
   return null;
 }
 
+// PRs flagged by services/personalRecords.ts on the latest session
+function detectPersonalRecords(events: CoachEvent[]): DetectedPattern | null {
+  const latest = events
+    .filter(e => e.type === 'workout_completed')
+    .sort((a, b) => b.timestamp - a.timestamp)[0];
+  if (!latest || !Array.isArray(latest.data.records)) return null;
+
+  const records = (latest.data.records as Array<{ name?: string; type?: string; value?: number }>)
+    .filter(r => r && r.name && Number.isFinite(Number(r.value)));
+  if (records.length === 0) return null;
+
+  // Lead with a strength record when there is one
+  const top = records.find(r => r.type === 'e1rm') ?? records[0];
+  return {
+    type: 'personal_record',
+    priority: 'medium',
+    data: {
+      count: records.length,
+      exercise: top.name,
+      recordType: top.type,
+      value: Number(top.value),
+    },
+  };
+}
+
 function detectMilestone(programDay: number): DetectedPattern | null {
   if (!MILESTONE_DAYS.includes(programDay)) return null;
 
@@ -314,6 +368,9 @@ export function detectPatterns(
   const lowSleep = detectLowSleep(events);
   if (lowSleep) patterns.push(lowSleep);
 
+  const lowHydration = detectLowHydration(events);
+  if (lowHydration) patterns.push(lowHydration);
+
   const streak = detectTrainingStreak(events);
   if (streak) patterns.push(streak);
 
@@ -326,8 +383,11 @@ export function detectPatterns(
   const staleWorkout = detectStaleWorkout(events);
   if (staleWorkout) patterns.push(staleWorkout);
 
-  // Positive reinforcement: celebrate a good session
-  const goodSession = detectGoodSession(events);
+  // Positive reinforcement: celebrate records, else a good session
+  const personalRecord = detectPersonalRecords(events);
+  if (personalRecord) patterns.push(personalRecord);
+
+  const goodSession = personalRecord ? null : detectGoodSession(events);
   if (goodSession) patterns.push(goodSession);
 
   if (programDay) {
@@ -371,11 +431,13 @@ export function getAutoAdjustments(events: CoachEvent[]): AutoAdjustment {
 export const FALLBACK_MESSAGES: Record<string, string> = {
   rest_skipper: "Cutting rest time to 60s.",
   low_sleep: "Recovery happens when you rest.",
+  low_hydration: "Water's low. Drink up before you train.",
   training_streak: "Consistency building. Don't forget recovery.",
   overtraining: "Your body needs a break. Take a rest day.",
   volume_progression: "Volume trending up. Keep pushing.",
   stale_workout: "Same exercises 4 sessions in a row. Mix it up.",
   good_session: "Volume PR. You're getting stronger.",
+  personal_record: "New PR. You're getting stronger.",
   milestone: "", // Uses MILESTONE_MESSAGES directly
   workout_completed: "Session done. Recovery time.",
 };
@@ -392,9 +454,22 @@ export function getFallbackMessage(pattern: DetectedPattern): string {
     const hrs = pattern.data.sleepHours as number;
     return `${hrs} hours sleep. Recovery happens when you rest.`;
   }
+  if (pattern.type === 'low_hydration') {
+    const pct = pattern.data.hydrationPct as number;
+    return pattern.data.energy != null
+      ? `Low energy, ${pct}% of your water. Drink up before you train.`
+      : `${pct}% of your water target. Drink up before you train.`;
+  }
   if (pattern.type === 'good_session') {
     const pct = pattern.data.volumeIncrease as number;
     return `Volume up ${pct}%. You're getting stronger.`;
   }
+  if (pattern.type === 'personal_record') {
+    const count = pattern.data.count as number;
+    const exercise = pattern.data.exercise as string;
+    return count > 1
+      ? `${count} PRs today, including ${exercise}. You're getting stronger.`
+      : `New ${exercise} PR. You're getting stronger.`;
+  }
   return FALLBACK_MESSAGES[pattern.type] || "Keep pushing.";
 }
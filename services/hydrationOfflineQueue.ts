@@ -0,0 +1,124 @@
+/**
+ * Offline Queue for Hydration
+ *
+ * Queues water logs when the save fails (offline or server error).
+ * Syncs when connection returns. Mirrors offlineQueue.ts pattern for meals.
+ */
+
+import { safeJSONParse, safeLocalStorageSet } from '../utils/safeStorage';
+
+const QUEUE_KEY = 'offline_hydration_queue';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface QueuedHydration {
+  id: string;
+  userId?: string;
+  payload: {
+    date: string;        // YYYY-MM-DD - preserves the original day when queued offline
+    amount_ml: number;
+    created_at: string;  // Original log time, so rolling 24h totals stay right after sync
+  };
+  timestamp: number;
+  retryCount: number;
+}
+
+// ============================================================================
+// Queue Management
+// ============================================================================
+
+export function getQueuedHydration(): QueuedHydration[] {
+  try {
+    return safeJSONParse<QueuedHydration[]>(localStorage.getItem(QUEUE_KEY), []);
+  } catch {
+    return [];
+  }
+}
+
+function saveQueue(queue: QueuedHydration[]): boolean {
+  return safeLocalStorageSet(QUEUE_KEY, JSON.stringify(queue));
+}
+
+/**
+ * Add a water log to the offline queue. Each tap is its own drink, so there is
+ * no dedup beyond the exact same log time.
+ */
+export function queueHydration(payload: QueuedHydration['payload'], userId?: string): { queued: boolean; entry: QueuedHydration } {
+  const entry: QueuedHydration = {
+    id: crypto.randomUUID(),
+    userId,
+    payload,
+    timestamp: Date.now(),
+    retryCount: 0,
+  };
+
+  const queue = getQueuedHydration();
+  const existing = queue.find(q => q.userId === userId && q.payload.created_at === payload.created_at);
+  if (existing) return { queued: true, entry: existing };
+
+  queue.push(entry);
+  const saved = saveQueue(queue);
+  if (!saved) {
+    console.error('[hydrationOfflineQueue] Failed to queue water log — localStorage full');
+  }
+  return { queued: saved, entry };
+}
+
+export function removeFromQueue(id: string): void {
+  saveQueue(getQueuedHydration().filter(q => q.id !== id));
+}
+
+export function clearQueue(): void {
+  try {
+    localStorage.removeItem(QUEUE_KEY);
+  } catch {
+    // Ignore
+  }
+}
+
+// ============================================================================
+// Sync Logic
+// ============================================================================
+
+const MAX_RETRIES = 3;
+
+export type SaveHydrationCallback = (payload: QueuedHydration['payload']) => Promise<boolean>;
+
+/**
+ * Sync queued water logs for this user. Saves queue after EACH item to prevent
+ * duplicates if the app crashes mid-sync. Returns number synced.
+ */
+export async function syncQueuedHydration(saveHydration: SaveHydrationCallback, userId?: string): Promise<number> {
+  if (!navigator.onLine) return 0;
+
+  const queue = getQueuedHydration().filter(q => !userId || q.userId === userId);
+  let synced = 0;
+
+  for (const item of queue) {
+    if (item.retryCount >= MAX_RETRIES) {
+      console.warn(`[hydrationOfflineQueue] Water log from ${item.payload.date} exceeded ${MAX_RETRIES} retries — dropped`);
+      removeFromQueue(item.id);
+      continue;
+    }
+
+    let success = false;
+    try {
+      success = await saveHydration(item.payload);
+    } catch {
+      success = false;
+    }
+
+    if (success) {
+      removeFromQueue(item.id);
+      synced++;
+    } else {
+      saveQueue(getQueuedHydration().map(q =>
+        q.id === item.id ? { ...q, retryCount: q.retryCount + 1 } : q
+      ));
+    }
+  }
+
+  return synced;
+}
@@ -6,6 +6,8 @@
  * real, verified nutrition information.
  */
 
+import type { Micronutrients } from '../lib/ai/types';
+
 // API Configuration - support both Vite (client) and Node (server) environments
 const USDA_API_KEY = (typeof process !== 'undefined' && process.env?.USDA_API_KEY)
   || (typeof import.meta !== 'undefined' && import.meta.env?.VITE_USDA_API_KEY)
@@ -56,6 +58,7 @@ export interface NutritionData {
   protein: number;
   carbs: number;
   fats: number;
+  micros?: Micronutrients;
   source: 'usda' | 'ai';
   fdcId?: number;
   description?: string;
@@ -69,6 +72,12 @@ const NUTRIENT_IDS = {
   FAT: 1004,         // Total lipid (fat) (g)
   FIBER: 1079,       // Fiber, total dietary (g)
   SUGAR: 2000,       // Sugars, total (g)
+  SODIUM: 1093,      // Sodium, Na (mg)
+  POTASSIUM: 1092,   // Potassium, K (mg)
+  IRON: 1089,        // Iron, Fe (mg)
+  CALCIUM: 1087,     // Calcium, Ca (mg)
+  VITAMIN_C: 1162,   // Vitamin C, total ascorbic acid (mg)
+  VITAMIN_D: 1114,   // Vitamin D (D2 + D3) (µg)
 };
 
 // ============================================================================
@@ -330,7 +339,7 @@ export async function getFoodDetails(fdcId: number): Promise<USDAFood | null> {
 }
 
 /**
- * Extract macros from USDA food nutrients
+ * Extract macros and micronutrients from USDA food nutrients
  */
 export function extractMacrosFromUSDA(food: USDAFood): NutritionData {
   const nutrients = food.foodNutrients || [];
@@ -345,6 +354,17 @@ export function extractMacrosFromUSDA(food: USDAFood): NutritionData {
     protein: Math.round(findNutrient(NUTRIENT_IDS.PROTEIN)),
     carbs: Math.round(findNutrient(NUTRIENT_IDS.CARBS)),
     fats: Math.round(findNutrient(NUTRIENT_IDS.FAT)),
+    // Kept unrounded: per-100 g mineral amounts are often fractions
+    micros: {
+      fiber: findNutrient(NUTRIENT_IDS.FIBER),
+      sugar: findNutrient(NUTRIENT_IDS.SUGAR),
+      sodium: findNutrient(NUTRIENT_IDS.SODIUM),
+      potassium: findNutrient(NUTRIENT_IDS.POTASSIUM),
+      iron: findNutrient(NUTRIENT_IDS.IRON),
+      calcium: findNutrient(NUTRIENT_IDS.CALCIUM),
+      vitaminC: findNutrient(NUTRIENT_IDS.VITAMIN_C),
+      vitaminD: findNutrient(NUTRIENT_IDS.VITAMIN_D),
+    },
     source: 'usda',
     fdcId: food.fdcId,
     description: food.description,
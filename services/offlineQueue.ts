@@ -2,12 +2,17 @@
  * Offline Queue Service
  *
  * Queues meal entries when offline and syncs them when connection returns.
- * Prevents silent data loss from failed saves.
+ * Prevents silent data loss from failed saves. Moving a meal to another date
+ * is queued separately (it's an update, not an insert); copies are ordinary
+ * queued meals. Queued meals carry the id and created_at of their local entry,
+ * so the synced row matches what the app already shows.
  */
 
 import { safeJSONParse, safeLocalStorageSet } from '../utils/safeStorage';
+import type { Micronutrients, PromptStamp } from '../lib/ai/types';
 
 const QUEUE_KEY = 'offline_meal_queue';
+const MOVE_QUEUE_KEY = 'offline_meal_move_queue';
 
 // ============================================================================
 // Types
@@ -17,13 +22,16 @@ export interface QueuedMeal {
   id: string;
   userId?: string; // FIX 6.1: Scope queued meals to user to prevent cross-user sync
   payload: {
+    entryId?: string;   // Client id of the local entry; the row is inserted with it
+    createdAt?: string; // ISO time of the local entry (copies keep their time of day)
     description: string;
     calories: number;
     protein: number;
     carbs: number;
     fats: number;
+    micros?: Micronutrients;
     mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-    inputMethod?: 'photo' | 'text' | 'quick_add';
+    inputMethod?: 'photo' | 'text' | 'barcode' | 'recipe' | 'meal_plan' | 'quick_add';
     photoUrl?: string;
     date?: string; // YYYY-MM-DD - preserves original date when queued offline
     // USDA scan data preserved for offline sync (prevents data loss)
@@ -33,12 +41,23 @@ export interface QueuedMeal {
       hasUSDAData: boolean;
       userEdited: boolean;
       portionMultipliers: Record<number, number>;
+      prompt?: PromptStamp;
     };
   };
   timestamp: number;
   retryCount: number;
 }
 
+export interface QueuedMealMove {
+  id: string;
+  userId?: string;
+  entryId: string;
+  fromDate: string; // YYYY-MM-DD - both dates need their nutrition_logs rollup recomputed
+  toDate: string;
+  timestamp: number;
+  retryCount: number;
+}
+
 // ============================================================================
 // Queue Management
 // ============================================================================
@@ -58,6 +77,7 @@ export function getQueuedMeals(): QueuedMeal[] {
  * Generate an idempotency key from meal payload to prevent duplicate queuing
  */
 function getMealHash(payload: QueuedMeal['payload']): string {
+  if (payload.entryId) return payload.entryId;
   return `${payload.description}|${payload.date || ''}|${payload.calories}|${payload.protein}|${payload.carbs}|${payload.fats}`;
 }
 
@@ -117,6 +137,23 @@ export function removeFromQueue(id: string): void {
   }
 }
 
+/**
+ * Move a meal that hasn't synced yet to another date by rewriting its queued
+ * payload (there is no row to update). False if the entry isn't queued.
+ */
+export function moveQueuedMeal(entryId: string, toDate: string): boolean {
+  try {
+    const queue = getQueuedMeals();
+    if (!queue.some(m => m.payload.entryId === entryId)) return false;
+    const updated = queue.map(m =>
+      m.payload.entryId === entryId ? { ...m, payload: { ...m.payload, date: toDate } } : m
+    );
+    return safeLocalStorageSet(QUEUE_KEY, JSON.stringify(updated));
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Update retry count for a queued meal
  */
@@ -138,6 +175,7 @@ export function incrementRetryCount(id: string): void {
 export function clearQueue(): void {
   try {
     localStorage.removeItem(QUEUE_KEY);
+    localStorage.removeItem(MOVE_QUEUE_KEY);
   } catch {
     // Ignore
   }
@@ -252,6 +290,91 @@ export async function syncQueuedMeals(saveMeal: SaveMealCallback, userId?: strin
   return synced;
 }
 
+// ============================================================================
+// Queued Moves
+// ============================================================================
+
+export function getQueuedMoves(): QueuedMealMove[] {
+  try {
+    return safeJSONParse<QueuedMealMove[]>(localStorage.getItem(MOVE_QUEUE_KEY), []);
+  } catch {
+    return [];
+  }
+}
+
+function saveMoves(moves: QueuedMealMove[]): boolean {
+  return safeLocalStorageSet(MOVE_QUEUE_KEY, JSON.stringify(moves));
+}
+
+/**
+ * Queue a meal's move to another date. Moving the same entry again replaces
+ * the pending move but keeps its original fromDate, so both ends still get
+ * their rollups fixed.
+ */
+export function queueMealMove(move: Pick<QueuedMealMove, 'entryId' | 'fromDate' | 'toDate'>, userId?: string): boolean {
+  try {
+    const moves = getQueuedMoves();
+    const pending = moves.find(m => m.entryId === move.entryId);
+    const entry: QueuedMealMove = {
+      id: pending?.id ?? crypto.randomUUID(),
+      userId,
+      entryId: move.entryId,
+      fromDate: pending?.fromDate ?? move.fromDate,
+      toDate: move.toDate,
+      timestamp: Date.now(),
+      retryCount: 0,
+    };
+    const saved = saveMoves([...moves.filter(m => m.entryId !== move.entryId), entry]);
+    if (!saved) {
+      console.error('[offlineQueue] Failed to queue meal move — localStorage full or unavailable');
+    }
+    return saved;
+  } catch {
+    console.error('[offlineQueue] Failed to queue meal move');
+    return false;
+  }
+}
+
+export function hasQueuedMoves(): boolean {
+  return getQueuedMoves().length > 0;
+}
+
+export type MoveMealCallback = (move: QueuedMealMove) => Promise<boolean>;
+
+/**
+ * Attempt to sync all queued moves for this user. Returns the moves that were
+ * applied, so the caller can recompute both dates of each.
+ */
+export async function syncQueuedMoves(moveMeal: MoveMealCallback, userId?: string): Promise<QueuedMealMove[]> {
+  if (!navigator.onLine) return [];
+
+  const queue = getQueuedMoves().filter(m => !userId || m.userId === userId);
+  const applied: QueuedMealMove[] = [];
+
+  for (const move of queue) {
+    if (move.retryCount >= MAX_RETRIES) {
+      console.warn(`[offlineQueue] Move of meal ${move.entryId} exceeded ${MAX_RETRIES} retries — dropped`);
+      saveMoves(getQueuedMoves().filter(m => m.id !== move.id));
+      continue;
+    }
+
+    let success = false;
+    try {
+      success = await moveMeal(move);
+    } catch {
+      success = false;
+    }
+
+    saveMoves(success
+      ? getQueuedMoves().filter(m => m.id !== move.id)
+      : getQueuedMoves().map(m => m.id === move.id ? { ...m, retryCount: m.retryCount + 1 } : m)
+    );
+    if (success) applied.push(move);
+  }
+
+  return applied;
+}
+
 // ============================================================================
 // Network Status Utilities
 // ============================================================================
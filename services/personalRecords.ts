@@ -0,0 +1,335 @@
+/**
+ * Personal Records Engine
+ *
+ * Pure functions over workout history: estimated 1RM (Epley / Brzycki),
+ * rep PRs and session-volume PRs per exercise. No React, no API calls.
+ *
+ * Records are detected when a session ends (App.handleWorkoutComplete) and
+ * stored as personal_records rows alongside the workout (hooks/useUserData.ts).
+ * Only recent workouts are loaded, so stored records carry the older bests.
+ */
+
+import { exerciseSets, resolveExerciseId } from './workoutSetService';
+import { countsTowardVolume, type LoggedSet } from '../utils/setTypes';
+import type { CompletedWorkout, ExerciseLog } from '../App';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+/**
+ * e1rm:   best estimated one-rep max (lbs)
+ * reps:   most reps at this weight or heavier
+ * volume: most working-set volume on the exercise in one session (lbs)
+ */
+export type RecordType = 'e1rm' | 'reps' | 'volume';
+
+export interface PersonalRecord {
+  exerciseKey: string;          // Library id, or the lowercased name for custom exercises
+  exerciseId: string | null;
+  exerciseName: string;
+  type: RecordType;
+  value: number;
+  previous: number | null;      // Record it beat (null if unknown)
+  weight: number;               // The set behind it (volume: heaviest working set)
+  reps: number;
+  achievedAt: string;           // ISO timestamp
+}
+
+export interface PersonalRecordRow {
+  workout_id: string;
+  user_id: string;
+  exercise_key: string;
+  exercise_id: string | null;
+  exercise_name: string;
+  record_type: RecordType;
+  value: number;
+  previous_value: number | null;
+  weight_lbs: number;
+  reps: number;
+  achieved_at: string;
+}
+
+/** Best lifts on one exercise across history */
+export interface ExerciseRecords {
+  exerciseKey: string;
+  exerciseName: string;
+  e1rm: number;                  // 0 when no set qualifies (bodyweight / > 12 reps)
+  volume: number;
+  repsAtWeight: Map<number, number>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Rep-max formulas lose accuracy past this; higher-rep sets don't estimate a 1RM */
+export const MAX_E1RM_REPS = 12;
+
+const RECORD_TYPES: RecordType[] = ['e1rm', 'reps', 'volume'];
+
+const RECORD_LABELS: Record<RecordType, string> = {
+  e1rm: 'Est. 1RM',
+  reps: 'Rep PR',
+  volume: 'Volume PR',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const workoutTime = (w: Pick<CompletedWorkout, 'rawDate' | 'date'>): number =>
+  new Date(w.rawDate || w.date).getTime() || 0;
+
+/** Sets that count for records: working, drop, failure and AMRAP sets with reps */
+const recordSets = (ex: ExerciseLog): LoggedSet[] =>
+  exerciseSets(ex).sets.filter(s => countsTowardVolume(s) && s.reps > 0);
+
+interface SessionExercise {
+  key: string;
+  exerciseId: string | null;
+  name: string;
+  sets: LoggedSet[];
+}
+
+/** A session's record sets per exercise; an exercise listed twice is merged */
+const groupSession = (log: ExerciseLog[]): SessionExercise[] => {
+  const byKey = new Map<string, SessionExercise>();
+  for (const ex of log) {
+    const sets = recordSets(ex);
+    if (sets.length === 0) continue;
+    const key = exerciseKey(ex);
+    const entry = byKey.get(key) ?? { key, exerciseId: resolveExerciseId(ex), name: ex.name.trim(), sets: [] };
+    entry.sets.push(...sets);
+    byKey.set(key, entry);
+  }
+  return [...byKey.values()];
+};
+
+const bestE1rmSet = (sets: LoggedSet[], formula: OneRepMaxFormula) => {
+  let best: { value: number; set: LoggedSet } | null = null;
+  for (const set of sets) {
+    const value = estimateOneRepMax(set.weight, set.reps, formula);
+    if (value !== null && (!best || value > best.value)) best = { value, set };
+  }
+  return best;
+};
+
+const sessionVolume = (sets: LoggedSet[]): number =>
+  round1(sets.reduce((sum, s) => sum + s.weight * s.reps, 0));
+
+/** Most reps logged at `weight` or heavier */
+const bestRepsAtOrAbove = (repsAtWeight: Map<number, number>, weight: number): number => {
+  let best = 0;
+  for (const [w, reps] of repsAtWeight) {
+    if (w >= weight && reps > best) best = reps;
+  }
+  return best;
+};
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/** Epley: w × (1 + r / 30) */
+export function epley(weight: number, reps: number): number {
+  return weight * (1 + reps / 30);
+}
+
+/** Brzycki: w × 36 / (37 − r) */
+export function brzycki(weight: number, reps: number): number {
+  return (weight * 36) / (37 - reps);
+}
+
+/**
+ * Estimated one-rep max in lbs (1 decimal). A single is its own 1RM.
+ * Null for bodyweight sets and sets above MAX_E1RM_REPS.
+ */
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = 'epley'
+): number | null {
+  if (!(weight > 0) || !(reps >= 1) || reps > MAX_E1RM_REPS) return null;
+  if (reps === 1) return round1(weight);
+  return round1(formula === 'brzycki' ? brzycki(weight, reps) : epley(weight, reps));
+}
+
+/** Stable key so renamed-but-identical library exercises share records */
+export function exerciseKey(ex: Pick<ExerciseLog, 'name' | 'exerciseId'>): string {
+  return resolveExerciseId(ex) ?? ex.name.trim().toLowerCase();
+}
+
+export function recordLabel(type: RecordType): string {
+  return RECORD_LABELS[type];
+}
+
+/** "Est. 1RM 231.5 lbs" / "Rep PR 10 reps @ 185 lbs" / "Volume PR 4,800 lbs" */
+export function formatRecord(record: Pick<PersonalRecord, 'type' | 'value' | 'weight'>): string {
+  if (record.type === 'reps') {
+    return record.weight > 0
+      ? `${recordLabel('reps')} ${record.value} reps @ ${record.weight} lbs`
+      : `${recordLabel('reps')} ${record.value} reps`;
+  }
+  return `${recordLabel(record.type)} ${record.value.toLocaleString()} lbs`;
+}
+
+/**
+ * Best e1RM, session volume and reps-per-weight for every exercise in
+ * `workouts`, seeded with `stored` records from sessions that aren't loaded.
+ */
+export function buildRecordBook(
+  workouts: Pick<CompletedWorkout, 'log'>[],
+  formula: OneRepMaxFormula = 'epley',
+  stored: PersonalRecord[] = []
+): Map<string, ExerciseRecords> {
+  const book = new Map<string, ExerciseRecords>();
+  for (const record of stored) {
+    const entry = book.get(record.exerciseKey) ?? { exerciseKey: record.exerciseKey, exerciseName: record.exerciseName, e1rm: 0, volume: 0, repsAtWeight: new Map() };
+    if (record.type === 'e1rm') entry.e1rm = Math.max(entry.e1rm, record.value);
+    if (record.type === 'volume') entry.volume = Math.max(entry.volume, record.value);
+    // Every record keeps the set behind it (volume: the heaviest working set)
+    entry.repsAtWeight.set(record.weight, Math.max(entry.repsAtWeight.get(record.weight) ?? 0, record.reps));
+    book.set(record.exerciseKey, entry);
+  }
+  for (const workout of workouts) {
+    for (const { key, name, sets } of groupSession(workout.log)) {
+      const entry = book.get(key) ?? { exerciseKey: key, exerciseName: name, e1rm: 0, volume: 0, repsAtWeight: new Map() };
+      entry.e1rm = Math.max(entry.e1rm, bestE1rmSet(sets, formula)?.value ?? 0);
+      entry.volume = Math.max(entry.volume, sessionVolume(sets));
+      for (const set of sets) {
+        entry.repsAtWeight.set(set.weight, Math.max(entry.repsAtWeight.get(set.weight) ?? 0, set.reps));
+      }
+      book.set(key, entry);
+    }
+  }
+  return book;
+}
+
+/**
+ * Records set by a just-finished session, measured against `history` and the
+ * `stored` records. An exercise's first-ever session sets a baseline, not a
+ * PR. At most one record per type per exercise (the best set in the session).
+ */
+export function detectNewRecords(
+  session: ExerciseLog[],
+  history: Pick<CompletedWorkout, 'log'>[],
+  stored: PersonalRecord[] = [],
+  achievedAt: string = new Date().toISOString(),
+  formula: OneRepMaxFormula = 'epley'
+): PersonalRecord[] {
+  const book = buildRecordBook(history, formula, stored);
+  const records: PersonalRecord[] = [];
+
+  for (const { key, exerciseId, name, sets } of groupSession(session)) {
+    const past = book.get(key);
+    if (!past) continue;
+    const base = { exerciseKey: key, exerciseId, exerciseName: name, achievedAt };
+
+    const top = bestE1rmSet(sets, formula);
+    if (top && past.e1rm > 0 && top.value > past.e1rm) {
+      records.push({ ...base, type: 'e1rm', value: top.value, previous: past.e1rm, weight: top.set.weight, reps: top.set.reps });
+    }
+
+    // Heaviest set that beat the most reps ever done at that weight or above
+    let repRecord: PersonalRecord | null = null;
+    for (const set of sets) {
+      const previous = bestRepsAtOrAbove(past.repsAtWeight, set.weight);
+      if (previous === 0 || set.reps <= previous) continue;
+      if (!repRecord || set.weight > repRecord.weight || (set.weight === repRecord.weight && set.reps > repRecord.value)) {
+        repRecord = { ...base, type: 'reps', value: set.reps, previous, weight: set.weight, reps: set.reps };
+      }
+    }
+    if (repRecord) records.push(repRecord);
+
+    const volume = sessionVolume(sets);
+    if (past.volume > 0 && volume > past.volume) {
+      const heaviest = sets.reduce((a, b) => (b.weight > a.weight ? b : a));
+      records.push({ ...base, type: 'volume', value: volume, previous: past.volume, weight: heaviest.weight, reps: heaviest.reps });
+    }
+  }
+
+  return records;
+}
+
+/** Best e1RM per session for one exercise, oldest first (for charting) */
+export function e1rmTrend(
+  workouts: CompletedWorkout[],
+  key: string,
+  formula: OneRepMaxFormula = 'epley'
+): { date: string; value: number }[] {
+  return [...workouts]
+    .sort((a, b) => workoutTime(a) - workoutTime(b))
+    .flatMap(w => {
+      const entry = groupSession(w.log).find(e => e.key === key);
+      const best = entry ? bestE1rmSet(entry.sets, formula) : null;
+      return best ? [{ date: w.rawDate || w.date, value: best.value }] : [];
+    });
+}
+
+/** Exercises with at least `minSessions` e1RM data points, most trained first */
+export function trackedExercises(
+  workouts: CompletedWorkout[],
+  minSessions = 2
+): { key: string; name: string; sessions: number }[] {
+  const counts = new Map<string, { key: string; name: string; sessions: number }>();
+  for (const w of workouts) {
+    for (const { key, name, sets } of groupSession(w.log)) {
+      if (!bestE1rmSet(sets, 'epley')) continue;
+      const entry = counts.get(key) ?? { key, name, sessions: 0 };
+      entry.sessions++;
+      counts.set(key, entry);
+    }
+  }
+  return [...counts.values()]
+    .filter(e => e.sessions >= minSessions)
+    .sort((a, b) => b.sessions - a.sessions);
+}
+
+// ============================================================================
+// Persistence Mapping
+// ============================================================================
+
+/** personal_records rows for a saved workout; achieved_at is the workout's date */
+export function recordsToRows(
+  workoutId: string,
+  userId: string,
+  achievedAt: string,
+  records: PersonalRecord[]
+): PersonalRecordRow[] {
+  return records.map(r => ({
+    workout_id: workoutId,
+    user_id: userId,
+    exercise_key: r.exerciseKey,
+    exercise_id: r.exerciseId,
+    exercise_name: r.exerciseName,
+    record_type: r.type,
+    value: r.value,
+    previous_value: r.previous,
+    weight_lbs: r.weight,
+    reps: r.reps,
+    achieved_at: achievedAt,
+  }));
+}
+
+/** Untrusted personal_records row to a record; null if malformed */
+export function rowToRecord(row: any): PersonalRecord | null {
+  if (!row || !RECORD_TYPES.includes(row.record_type)) return null;
+  const value = Number(row.value);
+  if (!Number.isFinite(value)) return null;
+  return {
+    exerciseKey: String(row.exercise_key ?? ''),
+    exerciseId: row.exercise_id ?? null,
+    exerciseName: String(row.exercise_name ?? ''),
+    type: row.record_type,
+    value,
+    previous: row.previous_value == null ? null : Number(row.previous_value),
+    weight: Number(row.weight_lbs) || 0,
+    reps: Number(row.reps) || 0,
+    achievedAt: String(row.achieved_at ?? ''),
+  };
+}
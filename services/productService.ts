@@ -0,0 +1,291 @@
+/**
+ * Packaged Product Service (barcode lookups)
+ *
+ * Resolves EAN/UPC barcodes to nutrition per 100 g, the packaged-food
+ * counterpart of nutritionService.ts. Lookups go through a local product cache
+ * and then an ordered list of pluggable backends: the bundled offline seed
+ * (data/productSeed.ts) and an Open Food Facts–compatible API.
+ *
+ * Servings are converted to grams with parsePortionToGrams from the USDA
+ * integration, so "2 tbsp" of peanut butter scales the same way a photo
+ * scan's portions do.
+ */
+
+import { PRODUCT_SEED } from '../data/productSeed';
+import { parsePortionToGrams } from '../lib/ai/usdaIntegration';
+import type { MacroTotals } from '../lib/ai/types';
+
+// API Configuration - support both Vite (client) and Node (server) environments
+const OPEN_FOOD_FACTS_URL = (typeof process !== 'undefined' && process.env?.OPEN_FOOD_FACTS_URL)
+  || (typeof import.meta !== 'undefined' && import.meta.env?.VITE_OPEN_FOOD_FACTS_URL)
+  || 'https://world.openfoodfacts.org';
+
+// Cache configuration
+const CACHE_KEY_PREFIX = 'product_cache_';
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days — labels rarely change
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Product {
+  barcode: string;            // Normalized EAN-13 / EAN-8
+  name: string;
+  brand?: string;
+  servingSize?: string;       // Label text, e.g. "2 biscuits (26 g)"
+  servingGrams?: number;      // Grams (or ml) in one serving
+  per100g: MacroTotals;       // Per 100 g, or per 100 ml for drinks
+  source: string;             // Backend that supplied the product
+}
+
+/**
+ * A product database. Backends return null for unknown barcodes and throw
+ * only for transport errors; either way the next backend is tried.
+ */
+export interface ProductBackend {
+  name: string;
+  lookup(barcode: string): Promise<Product | null>;
+}
+
+interface CacheEntry {
+  data: Product;
+  timestamp: number;
+}
+
+// ============================================================================
+// Barcodes
+// ============================================================================
+
+function hasValidCheckDigit(digits: string): boolean {
+  const body = digits.slice(0, -1).split('').reverse();
+  const sum = body.reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Normalize a scanned or typed barcode to EAN-13 (or EAN-8).
+ * UPC-A (12 digits) is zero-padded. Returns null for anything that isn't a
+ * valid EAN-8, UPC-A or EAN-13 code.
+ */
+export function normalizeBarcode(raw: string): string | null {
+  const digits = raw.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+  const code = digits.length === 12 ? `0${digits}` : digits;
+  if (code.length !== 8 && code.length !== 13) return null;
+  return hasValidCheckDigit(code) ? code : null;
+}
+
+/**
+ * Expand an 8-digit UPC-E code (zero-suppressed UPC-A on small packages) to
+ * its 12-digit UPC-A form. Null when it isn't shaped like UPC-E; the check
+ * digit is left to normalizeBarcode.
+ */
+export function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) return null;
+  const [system, d1, d2, d3, d4, d5, d6, check] = code;
+  const last = Number(d6);
+  const body = last <= 2 ? `${d1}${d2}${d6}0000${d3}${d4}${d5}`
+    : last === 3 ? `${d1}${d2}${d3}00000${d4}${d5}`
+    : last === 4 ? `${d1}${d2}${d3}${d4}00000${d5}`
+    : `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${system}${body}${check}`;
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+/**
+ * Bundled products; works offline.
+ */
+export function createSeedBackend(seed: Product[] = PRODUCT_SEED): ProductBackend {
+  const byBarcode = new Map(seed.map(p => [p.barcode, p]));
+  return {
+    name: 'seed',
+    async lookup(barcode) {
+      return byBarcode.get(barcode) ?? null;
+    },
+  };
+}
+
+interface OpenFoodFactsProduct {
+  product_name?: string;
+  brands?: string;
+  serving_size?: string;
+  serving_quantity?: number | string;
+  nutriments?: Record<string, number | string | undefined>;
+}
+
+/**
+ * Grams in a label serving such as "30 g", "1 bar (45 g)" or "1 can (330 ml)".
+ */
+function servingSizeToGrams(servingSize: string | undefined, name: string): number | undefined {
+  if (!servingSize) return undefined;
+  const inParens = servingSize.match(/\(([\d.,]+)\s*(g|ml)\)/i);
+  if (inParens) return parseFloat(inParens[1].replace(',', '.'));
+  const grams = parsePortionToGrams(servingSize, name);
+  return grams > 0 ? grams : undefined;
+}
+
+/**
+ * Open Food Facts (or a compatible mirror) product API.
+ */
+export function createOpenFoodFactsBackend(baseURL: string = OPEN_FOOD_FACTS_URL): ProductBackend {
+  return {
+    name: 'openfoodfacts',
+    async lookup(barcode) {
+      const fields = 'product_name,brands,serving_size,serving_quantity,nutriments';
+      const response = await fetch(`${baseURL}/api/v2/product/${barcode}.json?fields=${fields}`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Open Food Facts error: ${response.status}`);
+      }
+
+      const body: { status?: number; product?: OpenFoodFactsProduct } = await response.json();
+      const product = body.product;
+      if (body.status !== 1 || !product?.product_name || !product.nutriments) return null;
+
+      const n = product.nutriments;
+      const num = (key: string): number => {
+        const value = Number(n[key]);
+        return Number.isFinite(value) ? value : 0;
+      };
+      // Some products only list energy in kJ
+      const calories = num('energy-kcal_100g') || num('energy_100g') / 4.184;
+      const servingQuantity = Number(product.serving_quantity);
+
+      return {
+        barcode,
+        name: product.product_name,
+        brand: product.brands?.split(',')[0]?.trim() || undefined,
+        servingSize: product.serving_size,
+        servingGrams: servingQuantity > 0 ? servingQuantity : servingSizeToGrams(product.serving_size, product.product_name),
+        per100g: {
+          calories: Math.round(calories),
+          protein: num('proteins_100g'),
+          carbs: num('carbohydrates_100g'),
+          fats: num('fat_100g'),
+        },
+        source: 'openfoodfacts',
+      };
+    },
+  };
+}
+
+let backends: ProductBackend[] = [createSeedBackend(), createOpenFoodFactsBackend()];
+
+/**
+ * Replace the product backends (tests, self-hosted mirrors). Pass null to
+ * restore seed → Open Food Facts.
+ */
+export function setProductBackends(custom: ProductBackend[] | null): void {
+  backends = custom ?? [createSeedBackend(), createOpenFoodFactsBackend()];
+}
+
+// ============================================================================
+// Cache Utilities
+// ============================================================================
+
+function getFromCache(barcode: string): Product | null {
+  try {
+    const cached = localStorage.getItem(`${CACHE_KEY_PREFIX}${barcode}`);
+    if (!cached) return null;
+    const entry: CacheEntry = JSON.parse(cached);
+    if (Date.now() - entry.timestamp > CACHE_TTL_MS) {
+      localStorage.removeItem(`${CACHE_KEY_PREFIX}${barcode}`);
+      return null;
+    }
+    return entry.data;
+  } catch {
+    return null;
+  }
+}
+
+function setCache(product: Product): void {
+  try {
+    const entry: CacheEntry = { data: product, timestamp: Date.now() };
+    localStorage.setItem(`${CACHE_KEY_PREFIX}${product.barcode}`, JSON.stringify(entry));
+  } catch {
+    // Cache is disabled or full, ignore
+  }
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Look up a packaged product by barcode.
+ * Returns null for invalid codes and products no backend knows.
+ */
+export async function lookupProduct(rawBarcode: string): Promise<Product | null> {
+  const barcode = normalizeBarcode(rawBarcode);
+  if (!barcode) return null;
+
+  const cached = getFromCache(barcode);
+  if (cached) return cached;
+
+  for (const backend of backends) {
+    try {
+      const product = await backend.lookup(barcode);
+      if (product) {
+        setCache(product);
+        return product;
+      }
+    } catch (error) {
+      console.warn(`[productService] ${backend.name} lookup failed for ${barcode}:`, error);
+    }
+  }
+  return null;
+}
+
+/**
+ * Grams of a product for a portion. "1 serving" / "2 servings" use the label
+ * serving; anything else ("40 g", "2 tbsp", "1 cup") goes through
+ * parsePortionToGrams.
+ */
+export function productPortionToGrams(product: Product, portion: string): number {
+  const servings = portion.trim().toLowerCase().match(/^([\d.]+)\s*servings?$/);
+  if (servings) {
+    const perServing = product.servingGrams ?? parsePortionToGrams('', product.name);
+    return Math.round(parseFloat(servings[1]) * perServing);
+  }
+  return parsePortionToGrams(portion, product.name);
+}
+
+/**
+ * Macros for a portion of a product.
+ */
+export function calculateProductMacros(product: Product, portion: string): MacroTotals & { grams: number } {
+  const grams = productPortionToGrams(product, portion);
+  const scale = grams / 100;
+  return {
+    grams,
+    calories: Math.round(product.per100g.calories * scale),
+    protein: Math.round(product.per100g.protein * scale),
+    carbs: Math.round(product.per100g.carbs * scale),
+    fats: Math.round(product.per100g.fats * scale),
+  };
+}
+
+/**
+ * Clear the product cache
+ */
+export function clearProductCache(): void {
+  try {
+    const keys = Object.keys(localStorage);
+    for (const key of keys) {
+      if (key.startsWith(CACHE_KEY_PREFIX)) {
+        localStorage.removeItem(key);
+      }
+    }
+  } catch {
+    // Ignore errors
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Progression Engine — Progressive Overload Suggestions
+ *
+ * Deterministic target weight × reps for today's sets, from the exercise's
+ * last sessions, its rep range (library defaultReps), logged RPE and the goal.
+ * No React, no API calls.
+ *
+ * Schemes:
+ * - double: build reps to the top of the range, then add weight and drop to the bottom
+ * - linear: fixed reps (bottom of the range), add weight every session they're all hit
+ *
+ * Weights in and out are lbs (storage units). For metric users the steps are
+ * kg plates (2.5 / 5 kg) and reasons read in kg.
+ */
+
+import { getExerciseById } from '../data/exercises';
+import { exerciseSets } from './workoutSetService';
+import { exerciseKey } from './personalRecords';
+import { countsTowardVolume, effectiveRpe, type LoggedSet } from '../utils/setTypes';
+import { formatWeight, fromDisplayWeight, toDisplayWeight, type UnitSystem } from '../utils/units';
+import type { CompletedWorkout, ExerciseLog } from '../App';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProgressionScheme = 'double' | 'linear';
+
+export type ProgressionAction = 'increase_weight' | 'increase_reps' | 'hold' | 'deload';
+
+export interface RepRange {
+  min: number;
+  max: number;
+}
+
+export interface ProgressionSuggestion {
+  weight: number;       // lbs; 0 for bodyweight
+  reps: number;
+  scheme: ProgressionScheme;
+  action: ProgressionAction;
+  reason: string;
+}
+
+export interface ProgressionInput {
+  exercise: Pick<ExerciseLog, 'name' | 'exerciseId'> & { targetReps?: string };
+  history: Pick<CompletedWorkout, 'log'>[];   // Newest first
+  scheme: ProgressionScheme;
+  goal?: string | null;
+  unitSystem?: UnitSystem;
+}
+
+/** One past session's working sets at its top weight */
+interface SessionResult {
+  weight: number;
+  minReps: number;      // Lowest reps across those sets
+  rpe?: number;         // Highest effective RPE across those sets
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PROGRESSION_SCHEMES: { value: ProgressionScheme; label: string }[] = [
+  { value: 'double', label: 'Double' },
+  { value: 'linear', label: 'Linear' },
+];
+
+const DEFAULT_REP_RANGE: RepRange = { min: 8, max: 12 };
+
+/** Past sessions considered (stall detection needs two) */
+const SESSIONS_CONSIDERED = 2;
+
+/** Above this RPE the last session was a grind: repeat it rather than add load */
+const RPE_CEILING: Record<string, number> = {
+  CUT: 8.5,     // Holding strength in a deficit; don't chase grinders
+  RECOMP: 9,
+  BULK: 9.5,
+};
+const DEFAULT_RPE_CEILING = 9;
+
+/** Weight drop after missing the bottom of the range twice at the same load */
+const DELOAD_FACTOR = 0.9;
+
+/** Smallest load change most gyms allow */
+const ROUND_TO_LBS = 2.5;
+const ROUND_TO_KG = 1.25;
+
+/** kg gyms step half the lb jump: 5 lbs → 2.5 kg, 10 lbs → 5 kg */
+const KG_PER_LB_STEP = 0.5;
+
+const LOWER_BODY = new Set(['quads', 'hamstrings', 'glutes']);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Nearest loadable weight in the user's units, returned in lbs */
+function roundLoad(lbs: number, units: UnitSystem): number {
+  if (units === 'imperial') return Math.round(lbs / ROUND_TO_LBS) * ROUND_TO_LBS;
+  const kg = Math.round(toDisplayWeight(lbs, units) / ROUND_TO_KG) * ROUND_TO_KG;
+  return fromDisplayWeight(kg, units);
+}
+
+function sessionResult(sets: LoggedSet[]): SessionResult | null {
+  const working = sets.filter(s => countsTowardVolume(s) && s.type !== 'drop' && s.reps > 0);
+  if (working.length === 0) return null;
+
+  const weight = Math.max(...working.map(s => s.weight));
+  const top = working.filter(s => s.weight === weight);
+  const rpes = top.map(effectiveRpe).filter((r): r is number => r !== undefined);
+  return {
+    weight,
+    minReps: Math.min(...top.map(s => s.reps)),
+    ...(rpes.length > 0 && { rpe: Math.max(...rpes) }),
+  };
+}
+
+/** Most recent sessions of this exercise, newest first */
+function recentResults(input: ProgressionInput): SessionResult[] {
+  const key = exerciseKey(input.exercise);
+  const results: SessionResult[] = [];
+
+  for (const workout of input.history) {
+    const sets = workout.log
+      .filter(ex => exerciseKey(ex) === key)
+      .flatMap(ex => exerciseSets(ex).sets);
+    const result = sessionResult(sets);
+    if (result) results.push(result);
+    if (results.length >= SESSIONS_CONSIDERED) break;
+  }
+  return results;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/** "8-12" → 8–12, "10" → 10–10. Null for anything else ("AMRAP", "30s"). */
+export function parseRepRange(reps: string | undefined): RepRange | null {
+  const match = String(reps ?? '').match(/^\s*(\d+)\s*(?:[-–]\s*(\d+))?\s*$/);
+  if (!match) return null;
+  const min = parseInt(match[1], 10);
+  const max = match[2] ? parseInt(match[2], 10) : min;
+  if (min <= 0 || max < min) return null;
+  return { min, max };
+}
+
+/** Library defaultReps first, then the workout's own target, else 8–12 */
+export function repRangeFor(exercise: ProgressionInput['exercise']): RepRange {
+  const library = exercise.exerciseId ? getExerciseById(exercise.exerciseId) : undefined;
+  return parseRepRange(library?.defaultReps) ?? parseRepRange(exercise.targetReps) ?? DEFAULT_REP_RANGE;
+}
+
+/** Load jump per step: 10 lbs for barbell squats / hinges, 0 for bodyweight, else 5 */
+export function loadIncrement(exerciseId?: string): number {
+  const library = exerciseId ? getExerciseById(exerciseId) : undefined;
+  if (!library) return 5;
+  if (library.equipment === 'bodyweight' || library.equipment === 'band') return 0;
+  const lowerBody = [...library.primaryMuscles, ...library.secondaryMuscles].some(m => LOWER_BODY.has(m));
+  if (library.equipment === 'barbell' && library.category === 'compound' && lowerBody) return 10;
+  return 5;
+}
+
+export function rpeCeiling(goal?: string | null): number {
+  return (goal && RPE_CEILING[goal]) || DEFAULT_RPE_CEILING;
+}
+
+/**
+ * Today's target for an exercise, or null with no usable history
+ * (first session, or only warm-ups / drop sets logged).
+ */
+export function suggestProgression(input: ProgressionInput): ProgressionSuggestion | null {
+  const [last, before] = recentResults(input);
+  if (!last) return null;
+
+  const { scheme } = input;
+  const units = input.unitSystem ?? 'imperial';
+  const range = repRangeFor(input.exercise);
+  const step = loadIncrement(input.exercise.exerciseId);
+  const increment = units === 'metric' ? fromDisplayWeight(step * KG_PER_LB_STEP, units) : step;
+  const ceiling = rpeCeiling(input.goal);
+  const target = scheme === 'linear' ? range.min : range.max;
+  const load = last.weight > 0 ? formatWeight(last.weight, units) : 'bodyweight';
+
+  // Missed the bottom of the range twice at this load: back off
+  const stalled = last.minReps < range.min && before && before.weight === last.weight && before.minReps < range.min;
+  if (stalled && last.weight > 0) {
+    const weight = roundLoad(last.weight * DELOAD_FACTOR, units);
+    return {
+      weight,
+      reps: range.min,
+      scheme,
+      action: 'deload',
+      reason: `Missed ${range.min} reps twice at ${load}. Deload to ${formatWeight(weight, units)}.`,
+    };
+  }
+
+  if (last.rpe !== undefined && last.rpe > ceiling) {
+    return {
+      weight: last.weight,
+      reps: last.minReps,
+      scheme,
+      action: 'hold',
+      reason: `RPE ${last.rpe} last time. Repeat ${load} for ${last.minReps}.`,
+    };
+  }
+
+  if (last.minReps >= target && increment > 0 && last.weight > 0) {
+    const weight = Math.round((last.weight + increment) * 10) / 10;
+    return {
+      weight,
+      reps: range.min,
+      scheme,
+      action: 'increase_weight',
+      reason: `Hit ${target} reps on every set. Add ${formatWeight(increment, units)}.`,
+    };
+  }
+
+  if (scheme === 'linear') {
+    // Bodyweight has no load to add, so linear falls back to adding a rep
+    if (increment === 0 || last.weight === 0) {
+      return { weight: last.weight, reps: last.minReps + 1, scheme, action: 'increase_reps', reason: `Add a rep at ${load}.` };
+    }
+    return { weight: last.weight, reps: range.min, scheme, action: 'hold', reason: `Get ${range.min} reps on every set at ${load}.` };
+  }
+
+  // Double progression: one more rep per set until the top of the range
+  const reps = increment === 0 || last.weight === 0
+    ? last.minReps + 1
+    : Math.min(Math.max(last.minReps + 1, range.min), range.max);
+  return { weight: last.weight, reps, scheme, action: 'increase_reps', reason: `Build to ${range.max} reps at ${load}.` };
+}
@@ -0,0 +1,234 @@
+/**
+ * Recipe Service
+ *
+ * Multi-ingredient saved meals ("my overnight oats"). Ingredients are looked
+ * up once through /api/ai/lookup-ingredient (USDA, server-side) and stored per
+ * 100 g, so changing an amount or the yield recomputes nutrition without
+ * another lookup.
+ *
+ * Persistence lives in hooks/useUserData.ts (recipes + recipe_ingredients);
+ * this module is the pure nutrition math plus the ingredient lookup.
+ */
+
+import { getAuthToken } from './supabaseRawFetch';
+import { scaleMicronutrients, sumMicronutrients } from '../utils/micronutrients';
+import type { MacroTotals, Micronutrients } from '../lib/ai/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RecipeIngredient {
+  name: string;
+  grams: number;
+  per100g: MacroTotals;
+  microsPer100g: Micronutrients | null;  // USDA matches only
+  source: 'usda' | 'estimate';
+  fdcId?: number;
+}
+
+/** What /api/ai/lookup-ingredient returns: everything but the name and amount */
+export type IngredientNutrition = Omit<RecipeIngredient, 'name' | 'grams'>;
+
+// Recipe type matching database schema (ingredients from recipe_ingredients)
+export interface Recipe {
+  id: string;
+  user_id: string;
+  name: string;
+  servings: number;            // Yield
+  ingredients: RecipeIngredient[];
+  created_at: string;
+  updated_at: string;
+}
+
+/** A new or edited recipe, before it is saved */
+export interface RecipeDraft {
+  id?: string;
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+}
+
+export interface RecipeNutrition {
+  totals: MacroTotals;
+  perServing: MacroTotals;
+  microsPerServing?: Micronutrients;
+}
+
+// ============================================================================
+// Ingredient Lookup
+// ============================================================================
+
+/**
+ * Look up an ingredient's nutrition per 100 g (USDA, then fallback estimates).
+ * Throws when the lookup fails so the caller can ask for a simpler name.
+ */
+export async function lookupIngredient(name: string, grams: number): Promise<RecipeIngredient> {
+  const authToken = await getAuthToken();
+  if (!authToken) throw new Error('Please log in to look up ingredients.');
+
+  const response = await fetch('/api/ai/lookup-ingredient', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ name }),
+  });
+  const body: { success?: boolean; data?: IngredientNutrition; error?: { message?: string } } | null =
+    await response.json().catch(() => null);
+
+  if (!response.ok || !body?.success || !body.data) {
+    throw new Error(body?.error?.message || 'Ingredient lookup failed');
+  }
+  return { name: name.trim(), grams, ...body.data };
+}
+
+// ============================================================================
+// Nutrition
+// ============================================================================
+
+const roundMacros = (m: MacroTotals): MacroTotals => ({
+  calories: Math.round(m.calories),
+  protein: Math.round(m.protein),
+  carbs: Math.round(m.carbs),
+  fats: Math.round(m.fats),
+});
+
+const scaleMacros = (m: MacroTotals, scale: number): MacroTotals => ({
+  calories: m.calories * scale,
+  protein: m.protein * scale,
+  carbs: m.carbs * scale,
+  fats: m.fats * scale,
+});
+
+/**
+ * Unrounded totals, so many small ingredients (and later scaling) don't drift.
+ */
+function sumIngredients(ingredients: RecipeIngredient[]): { macros: MacroTotals; micros?: Micronutrients } {
+  const macros = ingredients.reduce(
+    (acc, ing) => {
+      const scale = ing.grams / 100;
+      return {
+        calories: acc.calories + ing.per100g.calories * scale,
+        protein: acc.protein + ing.per100g.protein * scale,
+        carbs: acc.carbs + ing.per100g.carbs * scale,
+        fats: acc.fats + ing.per100g.fats * scale,
+      };
+    },
+    { calories: 0, protein: 0, carbs: 0, fats: 0 }
+  );
+  const micros = sumMicronutrients(
+    ingredients.map(ing => ing.microsPer100g && scaleMicronutrients(ing.microsPer100g, ing.grams / 100))
+  );
+  return { macros, micros };
+}
+
+const servingsOrOne = (servings: number) => (servings > 0 ? servings : 1);
+
+/**
+ * Whole-recipe totals and per-serving nutrition for a yield.
+ */
+export function calculateRecipeNutrition(ingredients: RecipeIngredient[], servings: number): RecipeNutrition {
+  const { macros, micros } = sumIngredients(ingredients);
+  const perServing = 1 / servingsOrOne(servings);
+  return {
+    totals: roundMacros(macros),
+    perServing: roundMacros(scaleMacros(macros, perServing)),
+    microsPerServing: micros && scaleMicronutrients(micros, perServing),
+  };
+}
+
+/**
+ * Nutrition for eating `count` servings of a recipe, ready for saveMealEntry.
+ */
+export function recipeServingNutrition(recipe: Pick<Recipe, 'ingredients' | 'servings'>, count: number): MacroTotals & { micros?: Micronutrients } {
+  const { macros, micros } = sumIngredients(recipe.ingredients);
+  const scale = count / servingsOrOne(recipe.servings);
+  return {
+    ...roundMacros(scaleMacros(macros, scale)),
+    micros: micros && scaleMicronutrients(micros, scale),
+  };
+}
+
+/** "1 serving", "1.5 servings" */
+export function formatServings(count: number): string {
+  return `${Number(count.toFixed(2))} serving${count === 1 ? '' : 's'}`;
+}
+
+// ============================================================================
+// Database Rows
+// ============================================================================
+
+// Rows as PostgREST returns them (supabase/migrations/20261019_recipes.sql).
+// NUMERIC columns can arrive as strings.
+export interface RecipeIngredientRow {
+  id: string;
+  recipe_id: string;
+  user_id: string;
+  position: number;
+  name: string;
+  grams: number | string;
+  calories_per_100g: number | string;
+  protein_per_100g: number | string;
+  carbs_per_100g: number | string;
+  fats_per_100g: number | string;
+  micros_per_100g: Micronutrients | null;
+  source: 'usda' | 'estimate';
+  fdc_id: number | null;
+}
+
+export interface RecipeRow {
+  id: string;
+  user_id: string;
+  name: string;
+  servings: number | string;
+  created_at: string;
+  updated_at: string;
+  recipe_ingredients?: RecipeIngredientRow[] | null;
+}
+
+/** Map a recipes row with embedded recipe_ingredients to a Recipe */
+export function recipeFromRow(row: RecipeRow): Recipe {
+  const ingredients = [...(row.recipe_ingredients ?? [])];
+  ingredients.sort((a, b) => a.position - b.position);
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    servings: Number(row.servings) || 1,
+    ingredients: ingredients.map(i => ({
+      name: i.name,
+      grams: Number(i.grams) || 0,
+      per100g: {
+        calories: Number(i.calories_per_100g) || 0,
+        protein: Number(i.protein_per_100g) || 0,
+        carbs: Number(i.carbs_per_100g) || 0,
+        fats: Number(i.fats_per_100g) || 0,
+      },
+      microsPer100g: i.micros_per_100g ?? null,
+      source: i.source === 'usda' ? 'usda' : 'estimate',
+      fdcId: i.fdc_id ?? undefined,
+    })),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/** recipe_ingredients rows for a recipe, in display order */
+export function ingredientsToRows(recipeId: string, userId: string, ingredients: RecipeIngredient[]): Omit<RecipeIngredientRow, 'id'>[] {
+  return ingredients.map((ing, position) => ({
+    recipe_id: recipeId,
+    user_id: userId,
+    position,
+    name: ing.name,
+    grams: ing.grams,
+    calories_per_100g: ing.per100g.calories,
+    protein_per_100g: ing.per100g.protein,
+    carbs_per_100g: ing.per100g.carbs,
+    fats_per_100g: ing.per100g.fats,
+    micros_per_100g: ing.microsPer100g,
+    source: ing.source,
+    fdc_id: ing.fdcId ?? null,
+  }));
+}
@@ -5,6 +5,7 @@
  */
 
 import { PRODUCT_IDS } from './shopifyService';
+import type { DietaryPreference } from '../utils/dietaryPreferences';
 
 // ============================================================================
 // Types
@@ -20,6 +21,7 @@ export interface SupplementDefinition {
   icon: string;
   goalBenefits: Record<string, string>;
   recommendedForGoals: string[]; // Goals where this supplement is recommended
+  unsuitableFor?: DietaryPreference[]; // Diets/allergens it conflicts with
 }
 
 export interface SupplementRecommendation extends SupplementDefinition {
@@ -79,6 +81,7 @@ export const SUPPLEMENT_CATALOG: SupplementDefinition[] = [
     benefit: 'Muscle recovery & protein intake',
     icon: 'nutrition',
     recommendedForGoals: ['BULK', 'CUT', 'RECOMP'],
+    unsuitableFor: ['vegan', 'dairy_free', 'milk'],
     goalBenefits: {
       CUT: 'Preserve muscle while hitting protein goals on low calories',
       BULK: 'Convenient way to hit high protein targets for growth',
@@ -140,11 +143,14 @@ export function getRecommendations(userGoal: string | null): SupplementRecommend
 
 /**
  * Get smart supplement recommendations based on user preferences and goal
- * Only returns supplements the user has opted into or that are recommended for their goal
+ * Only returns supplements the user has opted into or that are recommended for their goal.
+ * Goal-based suggestions skip anything unsuitable for the user's diet or allergens
+ * (e.g. no whey for dairy-free users); supplements they chose themselves are kept.
  */
 export function getSmartRecommendations(
   userGoal: string | null,
-  preferences: SupplementPreferences | null
+  preferences: SupplementPreferences | null,
+  dietaryPreferences: DietaryPreference[] = []
 ): SupplementRecommendation[] {
   // If supplements not enabled, return empty array
   if (!preferences?.enabled) {
@@ -161,9 +167,9 @@ export function getSmartRecommendations(
     if (userProducts.includes(supp.id)) {
       return true;
     }
-    // If open to recommendations, include goal-based suggestions
+    // If open to recommendations, include goal-based suggestions that fit their diet
     if (openToRecs && supp.recommendedForGoals.includes(goal)) {
-      return true;
+      return !supp.unsuitableFor?.some(p => dietaryPreferences.includes(p));
     }
     return false;
   });
@@ -220,13 +226,14 @@ export function getAllSupplements(): SupplementDefinition[] {
  */
 export function buildSupplementPromptContext(
   userGoal: string | null,
-  preferences: SupplementPreferences | null
+  preferences: SupplementPreferences | null,
+  dietaryPreferences: DietaryPreference[] = []
 ): string {
   if (!preferences?.enabled) {
     return ''; // No supplement section for users who opted out
   }
 
-  const recommendations = getSmartRecommendations(userGoal, preferences);
+  const recommendations = getSmartRecommendations(userGoal, preferences, dietaryPreferences);
   if (recommendations.length === 0) {
     return '';
   }
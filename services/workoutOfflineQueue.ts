@@ -7,6 +7,7 @@
 
 import { safeJSONParse, safeLocalStorageSet } from '../utils/safeStorage';
 import type { ExerciseLog } from '../App';
+import type { PersonalRecord } from './personalRecords';
 
 const QUEUE_KEY = 'offline_workout_queue';
 
@@ -21,6 +22,7 @@ export interface QueuedWorkout {
     title: string;
     exercises: ExerciseLog[];
     rating: number;
+    records?: PersonalRecord[]; // PRs detected when the session ended
     completedAt: number; // timestamp when workout was finished
   };
   timestamp: number;
@@ -103,7 +105,8 @@ const MAX_RETRIES = 3;
 export type SaveWorkoutCallback = (
   title: string,
   exercises: ExerciseLog[],
-  rating?: number
+  rating?: number,
+  records?: PersonalRecord[]
 ) => Promise<boolean>;
 
 /**
@@ -160,7 +163,8 @@ export async function syncQueuedWorkouts(saveWorkout: SaveWorkoutCallback, userI
       const success = await saveWorkout(
         workout.payload.title,
         workout.payload.exercises,
-        workout.payload.rating
+        workout.payload.rating,
+        workout.payload.records
       );
 
       if (success) {
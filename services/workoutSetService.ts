@@ -0,0 +1,167 @@
+/**
+ * Workout Set Service
+ *
+ * One workout_sets row per performed set, keyed by the exercise library id
+ * (data/exercises.ts). Workouts keep their exercises JSON for titles, notes and
+ * cues; volume, records and charts read the set rows.
+ *
+ * Persistence lives in hooks/useUserData.ts (workouts + workout_sets); this
+ * module maps between ExerciseLog and rows.
+ */
+
+import { getExerciseById, getExerciseByName } from '../data/exercises';
+import { isSetType, parseRir, parseRpe, validateLoggedSet, type LoggedSet } from '../utils/setTypes';
+import type { ExerciseLog } from '../App';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkoutSetRow {
+  workout_id: string;
+  user_id: string;
+  exercise_id: string | null;   // Library id; null for custom exercises
+  exercise_name: string;
+  exercise_index: number;       // Position in the workout
+  set_index: number;            // Position within the exercise
+  set_type: LoggedSet['type'];
+  reps: number;
+  weight_lbs: number;
+  rpe: number | null;
+  rir: number | null;
+  tempo: string | null;
+  estimated: boolean;           // Reconstructed from sets/reps strings, not logged per set
+  performed_at: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Same cap as the backfill migration, so a bad "sets" string can't explode */
+const MAX_LEGACY_SETS = 20;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const leadingInt = (value: unknown): number => {
+  const match = String(value ?? '').match(/^\s*(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+const leadingNumber = (value: unknown): number => {
+  const match = String(value ?? '').match(/^\s*(\d+(?:\.\d+)?)/);
+  return match ? parseFloat(match[1]) : 0;
+};
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/** Library id for an exercise: its own id if valid, else an exact name match */
+export function resolveExerciseId(ex: Pick<ExerciseLog, 'name' | 'exerciseId'>): string | null {
+  if (ex.exerciseId && getExerciseById(ex.exerciseId)) return ex.exerciseId;
+  return getExerciseByName(ex.name.trim())?.id ?? null;
+}
+
+/**
+ * Sets for an exercise log: the per-set data when it was logged in-app,
+ * otherwise reconstructed from the strings. Mirrors the backfill migration:
+ * "8, 8, 6" is one set per value, anything else is `sets` × leading reps.
+ */
+export function exerciseSets(ex: ExerciseLog): { sets: LoggedSet[]; estimated: boolean } {
+  if (Array.isArray(ex.loggedSets) && ex.loggedSets.length > 0) {
+    return {
+      sets: ex.loggedSets.map(validateLoggedSet).filter((s): s is LoggedSet => s !== null),
+      estimated: !!ex.setsEstimated,
+    };
+  }
+
+  const weight = leadingNumber(ex.weight);
+  const reps = String(ex.reps ?? '');
+  const perSet = reps.includes(',')
+    ? reps.split(',').map(leadingInt)
+    : Array(Math.min(leadingInt(ex.sets), MAX_LEGACY_SETS)).fill(leadingInt(reps));
+
+  return {
+    sets: perSet.filter(r => r > 0).map(r => ({ reps: r, weight, type: 'working' as const })),
+    estimated: true,
+  };
+}
+
+/** workout_sets rows for a saved workout */
+export function setsToRows(
+  workoutId: string,
+  userId: string,
+  performedAt: string,
+  log: ExerciseLog[]
+): WorkoutSetRow[] {
+  return log.flatMap((ex, exerciseIndex) => {
+    const { sets, estimated } = exerciseSets(ex);
+    const exerciseId = resolveExerciseId(ex);
+    return sets.map((set, setIndex) => ({
+      workout_id: workoutId,
+      user_id: userId,
+      exercise_id: exerciseId,
+      exercise_name: ex.name.trim(),
+      exercise_index: exerciseIndex,
+      set_index: setIndex,
+      set_type: set.type,
+      reps: set.reps,
+      weight_lbs: set.weight,
+      rpe: set.rpe ?? null,
+      rir: set.rir ?? null,
+      tempo: set.tempo ?? null,
+      estimated,
+      performed_at: performedAt,
+    }));
+  });
+}
+
+/**
+ * Attach fetched workout_sets rows to a workout's exercises as `loggedSets`.
+ * Exercises without rows (saved before the table, or the set insert failed)
+ * fall back to `exerciseSets`, so every reader sees the same shape.
+ */
+export function attachSetRows(log: ExerciseLog[], rows: WorkoutSetRow[] | null | undefined): ExerciseLog[] {
+  const byExercise = new Map<number, WorkoutSetRow[]>();
+  for (const row of rows ?? []) {
+    const list = byExercise.get(row.exercise_index) ?? [];
+    list.push(row);
+    byExercise.set(row.exercise_index, list);
+  }
+
+  return log.map((ex, i) => {
+    const exerciseRows = byExercise.get(i);
+    if (!exerciseRows || exerciseRows.length === 0) {
+      const { sets, estimated } = exerciseSets(ex);
+      return sets.length > 0
+        ? { ...ex, loggedSets: sets, ...(estimated && { setsEstimated: true }) }
+        : ex;
+    }
+
+    const loggedSets = [...exerciseRows]
+      .sort((a, b) => a.set_index - b.set_index)
+      .map((row): LoggedSet => {
+        const set: LoggedSet = {
+          reps: Number(row.reps) || 0,
+          weight: Number(row.weight_lbs) || 0,
+          type: isSetType(row.set_type) ? row.set_type : 'working',
+        };
+        const rpe = parseRpe(row.rpe);
+        const rir = parseRir(row.rir);
+        if (rpe !== undefined) set.rpe = rpe;
+        if (rir !== undefined) set.rir = rir;
+        if (row.tempo) set.tempo = row.tempo;
+        return set;
+      });
+
+    return {
+      ...ex,
+      exerciseId: ex.exerciseId ?? exerciseRows[0].exercise_id ?? undefined,
+      loggedSets,
+      ...(exerciseRows.some(r => r.estimated) && { setsEstimated: true }),
+    };
+  });
+}
@@ -0,0 +1,11 @@
+-- Adaptive TDEE
+-- Expenditure estimated from logged intake and the weight trend
+-- (utils/adaptiveTdee.ts), saved when the user accepts it in Settings.
+-- When set, nutrition targets use it instead of Mifflin-St Jeor × activity.
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS adaptive_tdee INTEGER CHECK (adaptive_tdee BETWEEN 1000 AND 6000),
+  ADD COLUMN IF NOT EXISTS adaptive_tdee_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN profiles.adaptive_tdee IS 'Accepted adaptive TDEE (kcal/day); NULL = use the formula estimate';
+COMMENT ON COLUMN profiles.adaptive_tdee_updated_at IS 'When the adaptive TDEE was last accepted or reset';
@@ -0,0 +1,81 @@
+-- AI Cost Ledger
+-- One row per provider attempt behind an AI API call: who, which operation,
+-- which provider/model, token usage and estimated cost. Written by the Edge
+-- routes with the service role; read back for budgets and the admin spend report.
+
+CREATE TABLE IF NOT EXISTS ai_cost_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,   -- NULL for system jobs
+
+  operation TEXT NOT NULL,            -- AITask: meal_photo, meal_text, coach, ...
+  provider TEXT NOT NULL,             -- google, openai, anthropic, mistral, local
+  model TEXT,
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Budget checks (per user, since midnight) and global/admin rollups by date
+CREATE INDEX IF NOT EXISTS idx_ai_cost_ledger_user ON ai_cost_ledger(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_cost_ledger_created ON ai_cost_ledger(created_at);
+
+-- RLS: users can read their own spend; only the service role writes
+ALTER TABLE ai_cost_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own AI costs" ON ai_cost_ledger;
+CREATE POLICY "Users can view own AI costs"
+  ON ai_cost_ledger FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Spend since a point in time, for one user and for everyone (one round trip per request)
+CREATE OR REPLACE FUNCTION ai_spend_since(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (user_spend NUMERIC, global_spend NUMERIC)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    COALESCE(SUM(cost_usd) FILTER (WHERE user_id = p_user_id), 0) AS user_spend,
+    COALESCE(SUM(cost_usd), 0) AS global_spend
+  FROM ai_cost_ledger
+  WHERE created_at >= p_since;
+$$;
+
+-- Spend rolled up by UTC day, provider and operation for the admin report
+CREATE OR REPLACE FUNCTION ai_spend_rollup(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+  day DATE,
+  provider TEXT,
+  operation TEXT,
+  calls BIGINT,
+  failed_calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    (created_at AT TIME ZONE 'UTC')::DATE AS day,
+    provider,
+    operation,
+    COUNT(*) AS calls,
+    COUNT(*) FILTER (WHERE status = 'failed') AS failed_calls,
+    COALESCE(SUM(input_tokens), 0) AS input_tokens,
+    COALESCE(SUM(output_tokens), 0) AS output_tokens,
+    COALESCE(SUM(cost_usd), 0) AS cost_usd
+  FROM ai_cost_ledger
+  WHERE created_at >= p_from AND created_at < p_to
+  GROUP BY 1, 2, 3
+  ORDER BY 1, 2, 3;
+$$;
+
+-- Aggregates across all users: service role only
+REVOKE EXECUTE ON FUNCTION ai_spend_since(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ai_spend_rollup(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE ai_cost_ledger IS 'Per-attempt AI usage and estimated cost, for budgets and spend reporting';
+COMMENT ON COLUMN ai_cost_ledger.cost_usd IS 'Estimate from token usage and list prices (lib/ai/config.ts), not billing';
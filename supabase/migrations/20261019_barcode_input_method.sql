@@ -0,0 +1,8 @@
+-- Barcode Input Method
+-- Allows meal_entries logged from a scanned or typed product barcode.
+
+ALTER TABLE meal_entries DROP CONSTRAINT IF EXISTS meal_entries_input_method_check;
+ALTER TABLE meal_entries ADD CONSTRAINT meal_entries_input_method_check
+  CHECK (input_method IN ('photo', 'text', 'barcode', 'quick_add') OR input_method IS NULL);
+
+COMMENT ON COLUMN meal_entries.input_method IS 'How the meal was logged: photo, text, barcode, or quick_add';
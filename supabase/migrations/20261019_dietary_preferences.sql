@@ -0,0 +1,10 @@
+-- Dietary preferences
+-- Diets and allergens the user declared in Onboarding or Settings, as ids from
+-- utils/dietaryPreferences.ts (e.g. {vegetarian,gluten_free,peanuts}).
+-- Meal analysis warns about conflicting foods; meal plans and supplement
+-- suggestions avoid them.
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS dietary_preferences TEXT[] DEFAULT '{}';
+
+COMMENT ON COLUMN profiles.dietary_preferences IS 'Diet ids (vegetarian, vegan, pescatarian, halal, kosher, gluten_free, dairy_free) and allergen ids (peanuts, tree_nuts, milk, eggs, fish, shellfish, soy, wheat, sesame)';
@@ -0,0 +1,10 @@
+-- Intermittent fasting
+-- The user's daily eating window in local time, e.g. {"start":"12:00","end":"20:00"}
+-- for 16:8. NULL means fasting tracking is off. The window may cross midnight
+-- (start later than end). Drives the Dashboard fasting timer, out-of-window
+-- meal flags and fasting adherence in the weekly nutrition analysis.
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS fasting_window JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN profiles.fasting_window IS 'Eating window {start, end} as HH:MM local time; NULL when not fasting';
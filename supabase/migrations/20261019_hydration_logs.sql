@@ -0,0 +1,25 @@
+-- Hydration
+-- One row per drink logged from the quick-add buttons. Amounts are stored in
+-- ml (shown as fl oz in the app). The daily target is computed client-side
+-- from body weight and whether it is a training day (utils/hydration.ts).
+
+CREATE TABLE IF NOT EXISTS hydration_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date DATE NOT NULL,  -- Local day the water counts toward
+  amount_ml INTEGER NOT NULL CHECK (amount_ml > 0 AND amount_ml <= 5000),
+  created_at TIMESTAMPTZ DEFAULT NOW()  -- Set by the client so offline logs keep their time
+);
+
+CREATE INDEX IF NOT EXISTS idx_hydration_logs_user_date ON hydration_logs(user_id, date DESC);
+
+-- RLS Policies
+ALTER TABLE hydration_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own hydration logs" ON hydration_logs;
+CREATE POLICY "Users can manage own hydration logs"
+  ON hydration_logs FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE hydration_logs IS 'Water intake entries (ml) for daily hydration tracking';
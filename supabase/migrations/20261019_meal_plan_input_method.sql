@@ -0,0 +1,8 @@
+-- Meal Plan Input Method
+-- Allows meal_entries logged with one tap from an AI meal plan suggestion.
+
+ALTER TABLE meal_entries DROP CONSTRAINT IF EXISTS meal_entries_input_method_check;
+ALTER TABLE meal_entries ADD CONSTRAINT meal_entries_input_method_check
+  CHECK (input_method IN ('photo', 'text', 'barcode', 'recipe', 'meal_plan', 'quick_add') OR input_method IS NULL);
+
+COMMENT ON COLUMN meal_entries.input_method IS 'How the meal was logged: photo, text, barcode, recipe, meal_plan, or quick_add';
@@ -0,0 +1,23 @@
+-- Micronutrients
+-- Fiber, sugar, minerals and vitamins per meal, summed from USDA-matched foods.
+-- NULL means the meal had no USDA data (text, barcode and quick-add meals),
+-- not zero intake.
+
+ALTER TABLE meal_entries
+  ADD COLUMN IF NOT EXISTS fiber NUMERIC(7,1),
+  ADD COLUMN IF NOT EXISTS sugar NUMERIC(7,1),
+  ADD COLUMN IF NOT EXISTS sodium NUMERIC(7,1),
+  ADD COLUMN IF NOT EXISTS potassium NUMERIC(7,1),
+  ADD COLUMN IF NOT EXISTS iron NUMERIC(7,1),
+  ADD COLUMN IF NOT EXISTS calcium NUMERIC(7,1),
+  ADD COLUMN IF NOT EXISTS vitamin_c NUMERIC(7,1),
+  ADD COLUMN IF NOT EXISTS vitamin_d NUMERIC(7,1);
+
+COMMENT ON COLUMN meal_entries.fiber IS 'Dietary fiber (g)';
+COMMENT ON COLUMN meal_entries.sugar IS 'Total sugars (g)';
+COMMENT ON COLUMN meal_entries.sodium IS 'Sodium (mg)';
+COMMENT ON COLUMN meal_entries.potassium IS 'Potassium (mg)';
+COMMENT ON COLUMN meal_entries.iron IS 'Iron (mg)';
+COMMENT ON COLUMN meal_entries.calcium IS 'Calcium (mg)';
+COMMENT ON COLUMN meal_entries.vitamin_c IS 'Vitamin C (mg)';
+COMMENT ON COLUMN meal_entries.vitamin_d IS 'Vitamin D (µg)';
@@ -0,0 +1,45 @@
+-- Personal records
+-- History of PRs flagged at the end of a session by services/personalRecords.ts:
+-- estimated 1RM (Epley), most reps at a weight, and best single-session
+-- volume per exercise. One row per record per workout. Weights are in lbs.
+
+CREATE TABLE IF NOT EXISTS personal_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workout_id UUID NOT NULL REFERENCES workouts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  exercise_key TEXT NOT NULL,          -- Library id, or lowercased name for custom exercises
+  exercise_id TEXT,                    -- Library id; NULL for custom exercises
+  exercise_name TEXT NOT NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN ('e1rm', 'reps', 'volume')),
+  value NUMERIC(8,1) NOT NULL CHECK (value > 0),  -- lbs for e1rm / volume, reps for reps
+  previous_value NUMERIC(8,1),         -- The record it beat
+  weight_lbs NUMERIC(6,1) NOT NULL DEFAULT 0 CHECK (weight_lbs >= 0),
+  reps INTEGER NOT NULL CHECK (reps > 0),
+  achieved_at TIMESTAMPTZ NOT NULL,    -- workouts.date
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (workout_id, exercise_key, record_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_records_user_exercise ON personal_records(user_id, exercise_key, record_type, achieved_at DESC);
+CREATE INDEX IF NOT EXISTS idx_personal_records_workout ON personal_records(workout_id);
+
+-- RLS Policies
+ALTER TABLE personal_records ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own personal records" ON personal_records;
+CREATE POLICY "Users can manage own personal records"
+  ON personal_records FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Trainers can view client personal records" ON personal_records;
+CREATE POLICY "Trainers can view client personal records"
+  ON personal_records FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = personal_records.user_id
+    AND profiles.trainer_id = auth.uid()
+  ));
+
+COMMENT ON TABLE personal_records IS 'PR history: estimated 1RM, rep and session-volume records per exercise, flagged when a workout is saved';
+COMMENT ON COLUMN personal_records.value IS 'e1rm / volume in lbs; reps for record_type = reps';
@@ -0,0 +1,15 @@
+-- Prompt Versions
+-- Records which prompt (registry id + version, see lib/ai/promptRegistry.ts)
+-- produced each photo scan and weekly plan, so accuracy and user edits can be
+-- compared across prompt versions and A/B variants. NULL for rows written
+-- before the registry existed.
+
+ALTER TABLE food_scans ADD COLUMN IF NOT EXISTS prompt_id TEXT;
+ALTER TABLE food_scans ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+ALTER TABLE weekly_plans ADD COLUMN IF NOT EXISTS prompt_id TEXT;
+ALTER TABLE weekly_plans ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+-- Per-version comparisons (edit rate, plan completion)
+CREATE INDEX IF NOT EXISTS idx_food_scans_prompt ON food_scans(prompt_id, prompt_version);
+CREATE INDEX IF NOT EXISTS idx_weekly_plans_prompt ON weekly_plans(prompt_id, prompt_version);
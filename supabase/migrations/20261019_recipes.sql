@@ -0,0 +1,58 @@
+-- Recipes
+-- Multi-ingredient saved meals. Ingredient nutrition is stored per 100 g so
+-- the app can rescale amounts and yield without another USDA lookup.
+
+CREATE TABLE IF NOT EXISTS recipes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  servings NUMERIC(5,2) NOT NULL DEFAULT 1 CHECK (servings > 0),  -- Yield
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS recipe_ingredients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id UUID NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  grams NUMERIC(7,1) NOT NULL CHECK (grams > 0),
+
+  -- Nutrition per 100 g
+  calories_per_100g NUMERIC(7,1) NOT NULL DEFAULT 0,
+  protein_per_100g NUMERIC(7,1) NOT NULL DEFAULT 0,
+  carbs_per_100g NUMERIC(7,1) NOT NULL DEFAULT 0,
+  fats_per_100g NUMERIC(7,1) NOT NULL DEFAULT 0,
+  micros_per_100g JSONB,  -- USDA matches only
+
+  source TEXT NOT NULL DEFAULT 'estimate' CHECK (source IN ('usda', 'estimate')),
+  fdc_id INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipes_user ON recipes(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe ON recipe_ingredients(recipe_id, position);
+
+-- RLS Policies
+ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_ingredients ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own recipes" ON recipes;
+CREATE POLICY "Users can manage own recipes"
+  ON recipes FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage own recipe ingredients" ON recipe_ingredients;
+CREATE POLICY "Users can manage own recipe ingredients"
+  ON recipe_ingredients FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Recipes are logged as meal_entries with input_method = 'recipe'
+ALTER TABLE meal_entries DROP CONSTRAINT IF EXISTS meal_entries_input_method_check;
+ALTER TABLE meal_entries ADD CONSTRAINT meal_entries_input_method_check
+  CHECK (input_method IN ('photo', 'text', 'barcode', 'recipe', 'quick_add') OR input_method IS NULL);
+
+COMMENT ON TABLE recipes IS 'User recipes: multi-ingredient saved meals with a yield in servings';
+COMMENT ON TABLE recipe_ingredients IS 'Recipe ingredients with gram amounts and per-100 g nutrition';
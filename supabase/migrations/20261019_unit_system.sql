@@ -0,0 +1,11 @@
+-- Unit system
+-- Display preference for weights and heights: 'imperial' (lbs, ft/in) or
+-- 'metric' (kg, cm). Storage stays canonical — weight_lbs, height_inches,
+-- muscle_mass_lbs and workout set weights are always in lbs / inches; the
+-- client converts at display and input (utils/units.ts).
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS unit_system TEXT NOT NULL DEFAULT 'imperial'
+  CHECK (unit_system IN ('imperial', 'metric'));
+
+COMMENT ON COLUMN profiles.unit_system IS 'Display units: imperial (lbs, ft/in) or metric (kg, cm). Stored values stay in lbs / inches';
@@ -0,0 +1,132 @@
+-- Workout sets
+-- One row per performed set, keyed by the exercise library id from
+-- data/exercises.ts. Replaces guessing from the string-encoded sets / reps /
+-- weight in workouts.exercises (which stays for titles, notes and cues).
+-- Weights are stored in lbs.
+
+CREATE TABLE IF NOT EXISTS workout_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workout_id UUID NOT NULL REFERENCES workouts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  exercise_id TEXT,                    -- Library id; NULL for custom exercises
+  exercise_name TEXT NOT NULL,
+  exercise_index INTEGER NOT NULL,     -- Position in workouts.exercises
+  set_index INTEGER NOT NULL,          -- Position within the exercise
+  set_type TEXT NOT NULL DEFAULT 'working'
+    CHECK (set_type IN ('warmup', 'working', 'drop', 'failure', 'amrap')),
+  reps INTEGER NOT NULL CHECK (reps > 0),
+  weight_lbs NUMERIC(6,1) NOT NULL DEFAULT 0 CHECK (weight_lbs >= 0),
+  rpe NUMERIC(3,1) CHECK (rpe BETWEEN 1 AND 10),
+  rir INTEGER CHECK (rir BETWEEN 0 AND 10),
+  tempo TEXT,
+  estimated BOOLEAN NOT NULL DEFAULT FALSE,  -- Reconstructed from sets/reps strings
+  performed_at TIMESTAMPTZ NOT NULL,         -- workouts.date, for per-exercise history
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (workout_id, exercise_index, set_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_sets_user_exercise ON workout_sets(user_id, exercise_id, performed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workout_sets_workout ON workout_sets(workout_id);
+
+-- RLS Policies
+ALTER TABLE workout_sets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own workout sets" ON workout_sets;
+CREATE POLICY "Users can manage own workout sets"
+  ON workout_sets FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Trainers can view client workout sets" ON workout_sets;
+CREATE POLICY "Trainers can view client workout sets"
+  ON workout_sets FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = workout_sets.user_id
+    AND profiles.trainer_id = auth.uid()
+  ));
+
+-- ============================================================================
+-- Backfill existing workouts (idempotent: skips exercises that already have rows)
+-- ============================================================================
+
+-- 1. Sessions logged with per-set data (exercises[].loggedSets)
+INSERT INTO workout_sets (
+  workout_id, user_id, exercise_id, exercise_name, exercise_index, set_index,
+  set_type, reps, weight_lbs, rpe, rir, tempo, estimated, performed_at
+)
+SELECT
+  w.id,
+  w.user_id,
+  NULLIF(ex.value->>'exerciseId', ''),
+  COALESCE(NULLIF(TRIM(ex.value->>'name'), ''), 'Exercise'),
+  ex.ordinality - 1,
+  s.ordinality - 1,
+  CASE WHEN s.value->>'type' IN ('warmup', 'working', 'drop', 'failure', 'amrap')
+    THEN s.value->>'type' ELSE 'working' END,
+  substring(s.value->>'reps' FROM '^\s*(\d+)')::int,
+  COALESCE(substring(s.value->>'weight' FROM '^\s*(\d+(?:\.\d+)?)')::numeric, 0),
+  CASE WHEN (substring(s.value->>'rpe' FROM '^\s*(\d+(?:\.\d+)?)')::numeric) BETWEEN 1 AND 10
+    THEN substring(s.value->>'rpe' FROM '^\s*(\d+(?:\.\d+)?)')::numeric END,
+  CASE WHEN (substring(s.value->>'rir' FROM '^\s*(\d+)')::int) BETWEEN 0 AND 10
+    THEN substring(s.value->>'rir' FROM '^\s*(\d+)')::int END,
+  NULLIF(s.value->>'tempo', ''),
+  FALSE,
+  w.date::timestamptz
+FROM workouts w
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(w.exercises) = 'array' THEN w.exercises ELSE '[]'::jsonb END
+) WITH ORDINALITY AS ex(value, ordinality)
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(ex.value->'loggedSets') = 'array' THEN ex.value->'loggedSets' ELSE '[]'::jsonb END
+) WITH ORDINALITY AS s(value, ordinality)
+WHERE substring(s.value->>'reps' FROM '^\s*(\d+)')::int > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM workout_sets ws
+    WHERE ws.workout_id = w.id AND ws.exercise_index = ex.ordinality - 1
+  );
+
+-- 2. Older logs with only sets / reps / weight strings. Marked estimated.
+--    "8, 8, 6" (what the session logger saved) is one set per value;
+--    anything else is `sets` (capped at 20) × the leading number of `reps`.
+INSERT INTO workout_sets (
+  workout_id, user_id, exercise_id, exercise_name, exercise_index, set_index,
+  set_type, reps, weight_lbs, estimated, performed_at
+)
+SELECT
+  w.id,
+  w.user_id,
+  NULLIF(ex.value->>'exerciseId', ''),
+  COALESCE(NULLIF(TRIM(ex.value->>'name'), ''), 'Exercise'),
+  ex.ordinality - 1,
+  r.ordinality - 1,
+  'working',
+  r.reps,
+  COALESCE(substring(ex.value->>'weight' FROM '^\s*(\d+(?:\.\d+)?)')::numeric, 0),
+  TRUE,
+  w.date::timestamptz
+FROM workouts w
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(w.exercises) = 'array' THEN w.exercises ELSE '[]'::jsonb END
+) WITH ORDINALITY AS ex(value, ordinality)
+CROSS JOIN LATERAL (
+  SELECT substring(part FROM '^\s*(\d+)')::int AS reps, ordinality
+  FROM unnest(
+    CASE WHEN ex.value->>'reps' LIKE '%,%'
+      THEN string_to_array(ex.value->>'reps', ',')
+      ELSE array_fill(
+        ex.value->>'reps',
+        ARRAY[LEAST(COALESCE(substring(ex.value->>'sets' FROM '^\s*(\d+)')::int, 0), 20)]
+      )
+    END
+  ) WITH ORDINALITY AS p(part, ordinality)
+) r
+WHERE jsonb_typeof(ex.value->'loggedSets') IS DISTINCT FROM 'array'
+  AND r.reps > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM workout_sets ws
+    WHERE ws.workout_id = w.id AND ws.exercise_index = ex.ordinality - 1
+  );
+
+COMMENT ON TABLE workout_sets IS 'One row per performed set (reps, weight in lbs, type, RPE/RIR, tempo), keyed by exercise library id';
+COMMENT ON COLUMN workout_sets.estimated IS 'TRUE when backfilled from string-encoded sets/reps rather than logged per set';
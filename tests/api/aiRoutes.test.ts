@@ -0,0 +1,194 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import { resolve } from 'node:path';
+
+vi.mock('../../lib/ai/requireAuth', () => ({
+  requireAuth: vi.fn(async () => ({ userId: 'user-replay', subscriptionStatus: 'active', trialStartedAt: null })),
+  unauthorizedResponse: () => new Response(JSON.stringify({ success: false }), { status: 401 }),
+}));
+
+import {
+  setProviderDecorator,
+  withFallback,
+  createReplayProvider,
+  createFileFixtureStore,
+  createMemoryFixtureStore,
+} from '../../lib/ai';
+import { setCacheLayers, createMemoryCacheLayer } from '../../lib/ai/resultCache';
+import type { AIProvider } from '../../lib/ai/types';
+import analyzeMeal from '../../api/ai/analyze-meal';
+import generateWorkout from '../../api/ai/generate-workout';
+import generateWeeklyPlan from '../../api/ai/generate-weekly-plan';
+import planMeals from '../../api/ai/plan-meals';
+
+// Fixtures under tests/fixtures/ai are synthetic: hand-written responses keyed by the
+// requests these routes make with AI_PROVIDER=google, OpenAI as first fallback, and the
+// clock frozen at FROZEN_NOW (planWeek embeds the week start).
+const FIXTURE_DIR = resolve(__dirname, '../fixtures/ai');
+const FROZEN_NOW = new Date('2026-03-04T12:00:00Z');
+
+const MEAL = { description: '3 scrambled eggs, 2 slices of sourdough toast and a banana', userGoal: 'CUT' };
+
+const WORKOUT = {
+  profile: { goal: 'BULK', training_experience: 'intermediate', equipment_access: 'gym', days_per_week: 4 },
+  recovery: { energyLevel: 4, sleepHours: 7.5, sorenessAreas: ['chest'], lastWorkoutRating: 4 },
+  recentWorkouts: [{ title: 'Push Day', date: '2026-03-02', muscles: ['chest', 'shoulders', 'triceps'] }],
+};
+
+const PLAN = {
+  profile: { goal: 'RECOMP', training_experience: 'intermediate', equipment_access: 'gym', days_per_week: 3 },
+  recentWorkouts: [{
+    date: '2026-03-02', title: 'Full Body A', muscles: ['legs', 'chest', 'back'], volume: 120,
+    exercises: [{ name: 'Back Squat', sets: 4, reps: '6', weight: 225 }, { name: 'Bench Press', sets: 4, reps: '8', weight: 175 }],
+  }],
+  recoveryPatterns: [{ date: '2026-03-03', energyLevel: 4, sleepHours: 7, sorenessAreas: ['legs'] }],
+};
+
+const ENV_KEYS = ['AI_PROVIDER', 'AI_API_KEY', 'GEMINI_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'MISTRAL_API_KEY', 'LOCAL_AI_BASE_URL'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]));
+
+function post(body: unknown): Request {
+  return new Request('http://localhost/api/ai/test', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer test-token', 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeEach(() => {
+  for (const k of ENV_KEYS) delete process.env[k];
+  process.env.AI_PROVIDER = 'google';
+  process.env.GEMINI_API_KEY = 'test-gemini-key';
+  process.env.OPENAI_API_KEY = 'test-openai-key';
+
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(FROZEN_NOW);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  const store = createFileFixtureStore(FIXTURE_DIR);
+  setProviderDecorator(p => createReplayProvider(p, { mode: 'replay', store }));
+  // Fresh memory-only cache per test so hits never leak between cases
+  setCacheLayers([createMemoryCacheLayer()]);
+});
+
+afterEach(() => {
+  setProviderDecorator(null);
+  setCacheLayers(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  for (const [k, v] of Object.entries(savedEnv)) {
+    if (v === undefined) delete process.env[k];
+    else process.env[k] = v;
+  }
+});
+
+describe('POST /api/ai/analyze-meal (replay)', () => {
+  it('returns parsed foods and totals from the fixture response', async () => {
+    const res = await analyzeMeal(post(MEAL));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.provider).toBe('google');
+    expect(body.prompt).toEqual({ id: 'text_meal_analysis', version: 'v1' });
+    expect(body.data.foods).toHaveLength(3);
+    expect(body.data.totals).toEqual({ calories: 531, protein: 27, carbs: 65, fats: 18 });
+    expect(body.data.markdown).not.toContain('---MACROS_JSON---');
+    expect(body.cached).toBeUndefined();
+  });
+
+  it('serves a re-typed description from the result cache', async () => {
+    await analyzeMeal(post(MEAL));
+    const res = await analyzeMeal(post({ ...MEAL, description: '  3 Scrambled eggs, 2 slices of sourdough toast & a banana.' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ cached: true, cacheLayer: 'memory', provider: 'google', cachedAt: FROZEN_NOW.toISOString() });
+    expect(body.prompt).toEqual({ id: 'text_meal_analysis', version: 'v1' });
+    expect(body.data.totals).toEqual({ calories: 531, protein: 27, carbs: 65, fats: 18 });
+  });
+
+  it('fails with invalid_request when no provider has a fixture', async () => {
+    const res = await analyzeMeal(post({ ...MEAL, description: 'an unrecorded meal' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(500);
+    expect(body.success).toBe(false);
+    expect(body.error.type).toBe('invalid_request');
+    expect(body.error.message).toContain('[replay] No fixture');
+  });
+});
+
+describe('POST /api/ai/generate-workout (replay)', () => {
+  it('falls back to openai when the google fixture is a failure', async () => {
+    const res = await generateWorkout(post(WORKOUT));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.provider).toBe('openai');
+    expect(body.data.title).toBe('Pull & Legs Hypertrophy');
+    // The fixture says "Barbell Row"; the schema maps it onto the exercise library
+    expect(body.data.exercises.map((e: { name: string }) => e.name)).toContain('Bent-Over Barbell Row');
+  });
+});
+
+describe('POST /api/ai/generate-weekly-plan (replay)', () => {
+  it('returns a 7-day plan for the upcoming week', async () => {
+    const res = await generateWeeklyPlan(post(PLAN));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.provider).toBe('google');
+    expect(body.data.week_start).toBe('2026-03-09');
+    expect(body.data.days).toHaveLength(7);
+    expect(body.data.days.filter((d: { is_rest_day: boolean }) => !d.is_rest_day)).toHaveLength(3);
+  });
+});
+
+describe('POST /api/ai/plan-meals', () => {
+  it('rejects a bad horizon or a day with nothing left before calling a provider', async () => {
+    const remaining = { calories: 0, protein: 20, carbs: 0, fats: 0 };
+
+    const badHorizon = await planMeals(post({ horizon: 'month', remaining }));
+    expect(badHorizon.status).toBe(400);
+
+    const nothingLeft = await planMeals(post({ horizon: 'day', remaining }));
+    expect(nothingLeft.status).toBe(400);
+    expect((await nothingLeft.json()).error).toMatchObject({ type: 'invalid_request', retryable: false });
+  });
+});
+
+describe('withFallback failover (record → replay)', () => {
+  function stubProvider(name: 'google' | 'openai', chat: AIProvider['chat']): AIProvider {
+    return { name, chat } as AIProvider;
+  }
+
+  it('replays a recorded primary failure and serves the fallback response', async () => {
+    const store = createMemoryFixtureStore();
+    const live: Record<string, AIProvider['chat']> = {
+      google: async () => { throw { type: 'server_error', message: 'overloaded', retryable: true, provider: 'google' }; },
+      openai: async () => 'pong',
+    };
+    const liveCalls = vi.fn();
+
+    setProviderDecorator(p => createReplayProvider(
+      stubProvider(p.name as 'google' | 'openai', async (...args) => { liveCalls(p.name); return live[p.name](...args); }),
+      { mode: 'record', store }
+    ));
+    const recorded = await withFallback('coach', p => p.chat([{ role: 'user', content: 'ping' }]));
+
+    setProviderDecorator(p => createReplayProvider(
+      stubProvider(p.name as 'google' | 'openai', async () => { throw new Error('network disabled in replay'); }),
+      { mode: 'replay', store }
+    ));
+    const replayed = await withFallback('coach', p => p.chat([{ role: 'user', content: 'ping' }]));
+
+    expect(recorded).toMatchObject({ data: 'pong', provider: 'openai' });
+    expect(replayed).toEqual(recorded);
+    expect(liveCalls.mock.calls).toEqual([['google'], ['openai']]);
+  });
+});
@@ -0,0 +1,137 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+
+vi.mock('../../lib/ai/requireAuth', () => ({
+  requireAuth: vi.fn(async () => ({ userId: 'user-photo', subscriptionStatus: 'active', trialStartedAt: null })),
+  unauthorizedResponse: () => new Response(JSON.stringify({ success: false }), { status: 401 }),
+}));
+
+// Every food matches USDA: 100 g of cooked white rice
+vi.mock('../../services/nutritionService', () => ({
+  lookupFoodWithConfidence: vi.fn(async () => ({
+    calories: 130, protein: 2.7, carbs: 28, fats: 0.3,
+    fdcId: 168878, description: 'Rice, white, cooked',
+    micros: { fiber: 0.4, potassium: 35 },
+  })),
+  extractMacrosFromUSDA: vi.fn(),
+  searchFood: vi.fn(),
+}));
+
+// food_scans history for portion learning: white rice bumped to 1.5× on three scans
+const riceScan = { detected_items: [{ name: 'White rice' }], portion_multipliers: { 0: 1.5 } };
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        order: () => query,
+        limit: async () => ({ data: [riceScan, riceScan, riceScan], error: null }),
+      };
+      return query;
+    },
+  }),
+}));
+
+import { setProviderDecorator, createReplayProvider, createMemoryFixtureStore } from '../../lib/ai';
+import { setCacheLayers, createMemoryCacheLayer } from '../../lib/ai/resultCache';
+import type { AIProvider, ChatOptions } from '../../lib/ai/types';
+import analyzeMealPhoto from '../../api/ai/analyze-meal-photo';
+
+const IMAGE = 'data:image/jpeg;base64,/9j/4AAQSkZJRg==';
+
+const ENV_KEYS = ['AI_PROVIDER', 'AI_API_KEY', 'GEMINI_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'MISTRAL_API_KEY', 'LOCAL_AI_BASE_URL', 'AI_LEDGER_ENABLED', 'SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]));
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api/ai/analyze-meal-photo', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer test-token', 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Parse an SSE body into its events */
+async function readEvents(res: Response): Promise<any[]> {
+  const text = await res.text();
+  return text.split('\n').filter(l => l.startsWith('data: ')).map(l => JSON.parse(l.slice(6)));
+}
+
+/**
+ * The real OpenAI analyzeMealPhoto, with chat() answered locally: phase 1
+ * identifies 150 g of white rice, anything else gets single-pass prose.
+ */
+const identifyRice: AIProvider['chat'] = async (_messages, options?: ChatOptions) =>
+  options?.jsonMode
+    ? JSON.stringify({ foods: [{ name: 'White rice', portion: '1 cup', portionGrams: 150, confidence: 0.9 }] })
+    : 'Looks like rice.';
+
+beforeEach(() => {
+  for (const k of ENV_KEYS) delete process.env[k];
+  process.env.AI_PROVIDER = 'openai';
+  process.env.OPENAI_API_KEY = 'test-openai-key';
+  process.env.AI_LEDGER_ENABLED = 'false';
+
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+  setProviderDecorator(p => createReplayProvider({ ...p, chat: identifyRice }, { mode: 'record', store: createMemoryFixtureStore() }));
+  setCacheLayers([createMemoryCacheLayer()]);
+});
+
+afterEach(() => {
+  setProviderDecorator(null);
+  setCacheLayers(null);
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  for (const [k, v] of Object.entries(savedEnv)) {
+    if (v === undefined) delete process.env[k];
+    else process.env[k] = v;
+  }
+});
+
+describe('POST /api/ai/analyze-meal-photo', () => {
+  it('streams progress through the two-phase USDA analysis, then its result', async () => {
+    const res = await analyzeMealPhoto(post({ imageBase64: IMAGE, userGoal: 'CUT' }, { Accept: 'text/event-stream' }));
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream');
+
+    const events = await readEvents(res);
+    const result = events.at(-1);
+    expect(result.type).toBe('result');
+    expect(result.response.success).toBe(true);
+    expect(result.response.data).toMatchObject({
+      hasUSDAData: true,
+      macros: { calories: 195 },
+      micros: { fiber: 0.6 },
+    });
+    expect(result.response.data.foodsDetailed[0]).toMatchObject({ source: 'usda', portionGrams: 150 });
+
+    // Each phase is reported as it starts, ahead of the result
+    expect(events.filter(e => e.type === 'progress').map(e => e.message)).toEqual([
+      'Identifying foods...',
+      'Looking up nutrition for 1 food...',
+      'Matched 1 of 1 with USDA. Calculating totals...',
+    ]);
+  });
+
+  it('returns the same analysis as plain JSON', async () => {
+    const res = await analyzeMealPhoto(post({ imageBase64: IMAGE, userGoal: 'CUT' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data).toMatchObject({ hasUSDAData: true, macros: { calories: 195 } });
+  });
+
+  it('applies learned portion corrections to streamed scans', async () => {
+    process.env.SUPABASE_URL = 'http://localhost:54321';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-key';
+
+    const res = await analyzeMealPhoto(post({ imageBase64: IMAGE, userGoal: 'CUT' }, { Accept: 'text/event-stream' }));
+    const { response } = (await readEvents(res)).at(-1);
+
+    expect(response.data.foodsDetailed[0]).toMatchObject({ portionGrams: 225, learnedMultiplier: 1.5, calories: 293 });
+    expect(response.data.macros.calories).toBe(293);
+  });
+});
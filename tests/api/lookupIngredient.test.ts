@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../lib/ai/requireAuth', () => ({
+  requireAuth: vi.fn(async () => ({ userId: 'user-recipes', subscriptionStatus: 'active', trialStartedAt: null })),
+  unauthorizedResponse: () => new Response(JSON.stringify({ success: false }), { status: 401 }),
+}));
+
+// Oats match USDA; anything else misses and falls back to estimates
+vi.mock('../../services/nutritionService', () => ({
+  lookupFoodWithConfidence: vi.fn(async (name: string) => name.includes('oat')
+    ? { calories: 379, protein: 13, carbs: 68, fats: 6.5, fdcId: 173904, description: 'Oats', micros: { fiber: 10 } }
+    : null),
+  extractMacrosFromUSDA: vi.fn(),
+  searchFood: vi.fn(),
+}));
+
+import { requireAuth } from '../../lib/ai/requireAuth';
+import { lookupFoodWithConfidence } from '../../services/nutritionService';
+import lookupIngredient from '../../api/ai/lookup-ingredient';
+
+function post(body: unknown): Request {
+  return new Request('http://localhost/api/ai/lookup-ingredient', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer test-token', 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeEach(() => {
+  vi.mocked(lookupFoodWithConfidence).mockClear();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('POST /api/ai/lookup-ingredient', () => {
+  it('returns USDA nutrition per 100 g', async () => {
+    const res = await lookupIngredient(post({ name: 'Rolled oats' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data).toMatchObject({
+      per100g: { calories: 379, protein: 13, carbs: 68, fats: 7 },
+      microsPer100g: { fiber: 10 },
+      source: 'usda',
+      fdcId: 173904,
+    });
+  });
+
+  it('caches by normalized name across users', async () => {
+    await lookupIngredient(post({ name: 'Steel cut oats' }));
+    vi.mocked(requireAuth).mockResolvedValueOnce({ userId: 'user-other', subscriptionStatus: 'active', trialStartedAt: null });
+    const res = await lookupIngredient(post({ name: '  STEEL CUT OATS ' }));
+    const body = await res.json();
+
+    expect(body).toMatchObject({ success: true, cached: true, data: { source: 'usda' } });
+    expect(lookupFoodWithConfidence).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to an estimate when USDA has no match', async () => {
+    const res = await lookupIngredient(post({ name: 'banana' }));
+    expect((await res.json()).data).toMatchObject({ source: 'estimate', microsPer100g: null });
+  });
+
+  it('rejects a missing name and non-POST requests', async () => {
+    expect((await lookupIngredient(post({ name: '  ' }))).status).toBe(400);
+    expect((await lookupIngredient(new Request('http://localhost/api/ai/lookup-ingredient'))).status).toBe(405);
+  });
+
+  it('requires a signed-in user', async () => {
+    vi.mocked(requireAuth).mockResolvedValueOnce(null);
+    expect((await lookupIngredient(post({ name: 'oats' }))).status).toBe(401);
+  });
+});
@@ -0,0 +1,131 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import { getTaskRoute, getModelForTask } from '../../lib/ai/config';
+import { setProviderDecorator, withFallback } from '../../lib/ai';
+import { resetCircuitBreakers } from '../../lib/ai/circuitBreaker';
+import type { AIProvider, AIProviderType } from '../../lib/ai/types';
+
+const ENV_KEYS = ['AI_PROVIDER', 'AI_API_KEY', 'AI_TASK_ROUTES', 'GEMINI_3_MODEL', 'GEMINI_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'MISTRAL_API_KEY', 'LOCAL_AI_BASE_URL'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]));
+
+// Stub chat behaviour per provider; everything else on AIProvider is unused here
+let behaviour: Partial<Record<AIProviderType, () => Promise<string>>> = {};
+
+beforeEach(() => {
+  for (const k of ENV_KEYS) delete process.env[k];
+  process.env.AI_PROVIDER = 'google';
+  process.env.GEMINI_API_KEY = 'test-gemini-key';
+  process.env.OPENAI_API_KEY = 'test-openai-key';
+  process.env.ANTHROPIC_API_KEY = 'test-anthropic-key';
+
+  behaviour = {};
+  resetCircuitBreakers();
+  setProviderDecorator(p => {
+    const stub: Pick<AIProvider, 'name' | 'chat'> = {
+      name: p.name,
+      chat: () => (behaviour[p.name] ?? (async () => `${p.name} reply`))(),
+    };
+    return stub as AIProvider;
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setProviderDecorator(null);
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  for (const [k, v] of Object.entries(savedEnv)) {
+    if (v === undefined) delete process.env[k];
+    else process.env[k] = v;
+  }
+});
+
+const ask = (task: Parameters<typeof withFallback>[0]) =>
+  withFallback(task, p => p.chat([{ role: 'user', content: 'hi' }]));
+
+describe('getTaskRoute', () => {
+  it('uses built-in routes when AI_TASK_ROUTES is unset', () => {
+    expect(getTaskRoute('coach')).toEqual({});
+    expect(getTaskRoute('meal_text')).toEqual({ cacheTtlSeconds: 7 * 86400 });
+    expect(getTaskRoute('transcribe').providers).toEqual(['openai']);
+  });
+
+  it('merges env overrides and drops invalid fields', () => {
+    process.env.AI_TASK_ROUTES = JSON.stringify({
+      coach: { providers: ['anthropic', 'bogus', 'openai'], models: { anthropic: 'claude-3-5-haiku-latest', nope: 'x' }, timeoutMs: -1, maxCostUSD: 0.04 },
+      unknown_task: { providers: ['openai'] },
+    });
+
+    expect(getTaskRoute('coach')).toEqual({
+      providers: ['anthropic', 'openai'],
+      models: { anthropic: 'claude-3-5-haiku-latest' },
+      maxCostUSD: 0.04,
+    });
+  });
+
+  it('ignores malformed JSON', () => {
+    process.env.AI_TASK_ROUTES = '{not json';
+    expect(getTaskRoute('workout')).toEqual({});
+  });
+
+  it('resolves the Gemini model per task', () => {
+    process.env.GEMINI_3_MODEL = 'gemini-2.5-flash';
+    process.env.AI_TASK_ROUTES = JSON.stringify({ meal_photo: { models: { google: 'gemini-2.5-pro' } } });
+
+    expect(getModelForTask('meal_photo')).toBe('gemini-2.5-pro');
+    expect(getModelForTask('meal_text')).toBe('gemini-2.5-flash');
+  });
+});
+
+describe('withFallback routing', () => {
+  it('follows the default chain with AI_PROVIDER first', async () => {
+    await expect(ask('meal_text')).resolves.toMatchObject({ data: 'google reply', provider: 'google' });
+  });
+
+  it('follows the routed provider order and reports the routed model', async () => {
+    process.env.AI_TASK_ROUTES = JSON.stringify({
+      coach: { providers: ['anthropic', 'openai'], models: { anthropic: 'claude-3-5-haiku-latest' } },
+    });
+
+    await expect(ask('coach')).resolves.toMatchObject({
+      data: 'anthropic reply',
+      provider: 'anthropic',
+      model: 'claude-3-5-haiku-latest',
+    });
+  });
+
+  it('skips providers above the route cost ceiling', async () => {
+    process.env.AI_TASK_ROUTES = JSON.stringify({ meal_photo: { maxCostUSD: 0.02 } });
+
+    // google (0.015) stays, openai (0.03) and anthropic (0.05) are dropped
+    behaviour.google = async () => { throw { type: 'server_error', message: 'down', retryable: true, provider: 'google' }; };
+    await expect(ask('meal_photo')).rejects.toMatchObject({ message: 'down' });
+  });
+
+  it('compares the cost ceiling against the task and routed model', async () => {
+    // Text calls are cheap enough for openai; Sonnet is not, but Haiku is
+    process.env.AI_TASK_ROUTES = JSON.stringify({
+      coach: { providers: ['anthropic', 'openai'], maxCostUSD: 0.01 },
+      workout: { providers: ['anthropic'], models: { anthropic: 'claude-3-5-haiku-latest' }, maxCostUSD: 0.01 },
+    });
+
+    await expect(ask('coach')).resolves.toMatchObject({ provider: 'openai' });
+    await expect(ask('workout')).resolves.toMatchObject({ provider: 'anthropic', model: 'claude-3-5-haiku-latest' });
+  });
+
+  it('moves on when a provider exceeds the route timeout', async () => {
+    process.env.AI_TASK_ROUTES = JSON.stringify({ weekly_plan: { providers: ['google', 'openai'], timeoutMs: 20 } });
+    behaviour.google = () => new Promise(resolve => setTimeout(() => resolve('too late'), 200));
+
+    await expect(ask('weekly_plan')).resolves.toMatchObject({ data: 'openai reply', provider: 'openai' });
+  });
+
+  it('fails clearly when the route leaves no providers', async () => {
+    process.env.AI_TASK_ROUTES = JSON.stringify({ workout: { providers: ['mistral'] } });
+
+    await expect(ask('workout')).rejects.toThrow('No AI providers available for task "workout"');
+  });
+});
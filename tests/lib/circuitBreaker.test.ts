@@ -0,0 +1,166 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+  canAttempt,
+  recordOutcome,
+  isCircuitFailure,
+  getCircuitSnapshots,
+  resetCircuitBreakers,
+} from '../../lib/ai/circuitBreaker';
+import { setProviderDecorator, withFallback } from '../../lib/ai';
+import type { AIProvider, AIProviderType } from '../../lib/ai/types';
+
+const ENV_KEYS = ['AI_PROVIDER', 'AI_API_KEY', 'AI_TASK_ROUTES', 'GEMINI_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'MISTRAL_API_KEY', 'LOCAL_AI_BASE_URL'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]));
+
+async function fail(provider: AIProviderType, times: number) {
+  for (let i = 0; i < times; i++) await recordOutcome(provider, false, 100);
+}
+
+async function state(provider: AIProviderType) {
+  return (await getCircuitSnapshots([provider]))[0].state;
+}
+
+beforeEach(() => {
+  resetCircuitBreakers();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-03-04T12:00:00Z'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setProviderDecorator(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  for (const [k, v] of Object.entries(savedEnv)) {
+    if (v === undefined) delete process.env[k];
+    else process.env[k] = v;
+  }
+});
+
+describe('circuit breaker', () => {
+  it('stays closed until the minimum number of calls is reached', async () => {
+    await fail('google', 4);
+    expect(await state('google')).toBe('closed');
+    expect(await canAttempt('google')).toBe(true);
+  });
+
+  it('opens at a 50% failure rate and blocks calls', async () => {
+    await recordOutcome('google', true, 800);
+    await recordOutcome('google', true, 900);
+    await fail('google', 2);
+    expect(await state('google')).toBe('closed');
+
+    await fail('google', 1);
+    expect(await state('google')).toBe('open');
+    expect(await canAttempt('google')).toBe(false);
+  });
+
+  it('counts slow successes against the provider', async () => {
+    for (let i = 0; i < 5; i++) await recordOutcome('openai', true, 25_000);
+    expect(await state('openai')).toBe('open');
+  });
+
+  it('lets a single half-open probe through after the cooldown', async () => {
+    await fail('google', 5);
+    vi.setSystemTime(new Date('2026-03-04T12:00:31Z'));
+
+    expect(await canAttempt('google')).toBe(true);
+    expect(await state('google')).toBe('half_open');
+    expect(await canAttempt('google')).toBe(false);
+
+    await recordOutcome('google', true, 500);
+    expect(await state('google')).toBe('closed');
+  });
+
+  it('re-opens when the probe fails', async () => {
+    await fail('google', 5);
+    vi.setSystemTime(new Date('2026-03-04T12:00:31Z'));
+    await canAttempt('google');
+
+    await recordOutcome('google', false, 500);
+    const [snapshot] = await getCircuitSnapshots(['google']);
+    expect(snapshot.state).toBe('open');
+    expect(snapshot.openedAt).toBe('2026-03-04T12:00:31.000Z');
+  });
+
+  it('forgets outcomes outside the rolling window', async () => {
+    await fail('google', 4);
+    vi.setSystemTime(new Date('2026-03-04T12:06:00Z'));
+    await fail('google', 1);
+    expect(await state('google')).toBe('closed');
+  });
+
+  it('only trips on errors that reflect provider health', () => {
+    expect(isCircuitFailure({ type: 'server_error' })).toBe(true);
+    expect(isCircuitFailure({ type: 'timeout' })).toBe(true);
+    expect(isCircuitFailure(new TypeError('fetch failed'))).toBe(true);
+    expect(isCircuitFailure({ type: 'invalid_request' })).toBe(false);
+    expect(isCircuitFailure({ type: 'content_filter' })).toBe(false);
+  });
+});
+
+describe('withFallback with open circuits', () => {
+  beforeEach(() => {
+    for (const k of ENV_KEYS) delete process.env[k];
+    process.env.AI_PROVIDER = 'google';
+    process.env.GEMINI_API_KEY = 'test-gemini-key';
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+  });
+
+  function installStubs(calls: AIProviderType[], failing: AIProviderType[]) {
+    setProviderDecorator(p => {
+      const stub: Pick<AIProvider, 'name' | 'chat'> = {
+        name: p.name,
+        chat: async () => {
+          calls.push(p.name);
+          if (failing.includes(p.name)) throw { type: 'server_error', message: 'down', retryable: true, provider: p.name };
+          return `${p.name} reply`;
+        },
+      };
+      return stub as AIProvider;
+    });
+  }
+
+  const ask = () => withFallback('meal_text', p => p.chat([{ role: 'user', content: 'hi' }]));
+
+  it('stops calling a provider once its circuit opens', async () => {
+    const calls: AIProviderType[] = [];
+    installStubs(calls, ['google']);
+
+    for (let i = 0; i < 7; i++) {
+      await expect(ask()).resolves.toMatchObject({ provider: 'openai' });
+    }
+
+    // 5 failures open the circuit; the last two requests go straight to openai
+    expect(calls.filter(c => c === 'google')).toHaveLength(5);
+    expect(calls.filter(c => c === 'openai')).toHaveLength(7);
+  });
+
+  it('only takes a probe slot for providers it actually calls', async () => {
+    // openai is due a half-open probe, but google answers first
+    await fail('openai', 5);
+    vi.setSystemTime(new Date('2026-03-04T12:00:31Z'));
+    const calls: AIProviderType[] = [];
+    installStubs(calls, []);
+
+    await expect(ask()).resolves.toMatchObject({ provider: 'google' });
+    expect(calls).toEqual(['google']);
+    expect(await state('openai')).toBe('open');
+    expect(await canAttempt('openai')).toBe(true);
+  });
+
+  it('still tries every provider when all circuits are open', async () => {
+    await fail('google', 5);
+    await fail('openai', 5);
+    const calls: AIProviderType[] = [];
+    installStubs(calls, []);
+
+    await expect(ask()).resolves.toMatchObject({ provider: 'google' });
+    expect(calls).toEqual(['google']);
+  });
+});
@@ -0,0 +1,190 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+
+vi.mock('../../lib/ai/costLedger', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/ai/costLedger')>()),
+  recordAICall: vi.fn(async () => {}),
+}));
+
+// ai_spend_since: this user is over the default $0.50 budget
+const spendRpc = vi.fn(() => ({ single: async () => ({ data: { user_spend: '0.62', global_spend: '3.10' }, error: null }) }));
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({ rpc: spendRpc }),
+}));
+
+// Shared spend cache; null (memory only) unless a test installs a fake
+const redisStore = new Map<string, unknown>();
+const fakeRedis = {
+  get: vi.fn(async (key: string) => redisStore.get(key) ?? null),
+  set: vi.fn(async (key: string, value: unknown) => { redisStore.set(key, value); }),
+};
+let redisEnabled = false;
+vi.mock('../../lib/ai/rateLimit', () => ({
+  getRedisClient: () => (redisEnabled ? fakeRedis : null),
+}));
+
+import { estimateCost, estimateCallCost } from '../../lib/ai/config';
+import { getSpendBudgets, checkSpendBudget, recordAICall } from '../../lib/ai/costLedger';
+import { setProviderDecorator, withFallback } from '../../lib/ai';
+import { resetCircuitBreakers } from '../../lib/ai/circuitBreaker';
+import type { AIProvider, AIProviderType } from '../../lib/ai/types';
+
+const ENV_KEYS = ['AI_PROVIDER', 'AI_API_KEY', 'AI_TASK_ROUTES', 'GEMINI_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'MISTRAL_API_KEY', 'LOCAL_AI_BASE_URL', 'AI_USER_DAILY_BUDGET_USD', 'AI_GLOBAL_DAILY_BUDGET_USD', 'AI_LEDGER_ENABLED', 'SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY'];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(k => [k, process.env[k]]));
+
+let behaviour: Partial<Record<AIProviderType, () => Promise<string>>> = {};
+
+beforeEach(() => {
+  for (const k of ENV_KEYS) delete process.env[k];
+  process.env.AI_PROVIDER = 'google';
+  process.env.GEMINI_API_KEY = 'test-gemini-key';
+  process.env.OPENAI_API_KEY = 'test-openai-key';
+
+  behaviour = {};
+  resetCircuitBreakers();
+  vi.mocked(recordAICall).mockClear();
+  setProviderDecorator(p => {
+    const stub: Pick<AIProvider, 'name' | 'chat' | 'getUsage'> = {
+      name: p.name,
+      chat: () => (behaviour[p.name] ?? (async () => `${p.name} reply`))(),
+      getUsage: () => ({ inputTokens: 1000, outputTokens: 500 }),
+    };
+    return stub as AIProvider;
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setProviderDecorator(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  for (const [k, v] of Object.entries(savedEnv)) {
+    if (v === undefined) delete process.env[k];
+    else process.env[k] = v;
+  }
+});
+
+describe('estimateCost', () => {
+  it('prices reported tokens per provider', () => {
+    // 1M input at $0.15 + 1M output at $0.60
+    expect(estimateCost('openai', { inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBeCloseTo(0.75);
+    expect(estimateCost('local', { inputTokens: 5000, outputTokens: 5000 })).toBe(0);
+  });
+
+  it('falls back to the flat per-call estimate without usage', () => {
+    expect(estimateCost('anthropic')).toBe(estimateCallCost('anthropic'));
+    expect(estimateCost('google', { inputTokens: 0, outputTokens: 0 })).toBe(estimateCallCost('google'));
+  });
+
+  it('prices tokens at the routed model, not the provider default', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000 };
+    expect(estimateCost('anthropic', usage)).toBeCloseTo(18);
+    expect(estimateCost('anthropic', usage, 'coach', 'claude-3-5-haiku-20241022')).toBeCloseTo(4.8);
+    expect(estimateCost('openai', usage, 'coach', 'gpt-4o')).toBeCloseTo(12.5);
+  });
+});
+
+describe('estimateCallCost', () => {
+  it('estimates text tasks below vision tasks', () => {
+    expect(estimateCallCost('openai', 'meal_photo')).toBe(0.03);
+    expect(estimateCallCost('openai', 'progress')).toBe(0.03);
+    expect(estimateCallCost('openai', 'coach')).toBe(0.002);
+    expect(estimateCallCost('openai', 'transcribe')).toBe(0.006);
+  });
+
+  it('scales by the routed model price', () => {
+    // Haiku lists at 4.80 vs Sonnet's 18.00 per 1M input + output tokens
+    expect(estimateCallCost('anthropic', 'coach', 'claude-3-5-haiku-latest')).toBeCloseTo(0.02 * 4.8 / 18);
+    expect(estimateCallCost('anthropic', 'coach', 'some-future-model')).toBe(0.02);
+  });
+});
+
+describe('getSpendBudgets', () => {
+  it('defaults to a per-user budget and no global budget', () => {
+    expect(getSpendBudgets()).toEqual({ userDailyUSD: 0.5, globalDailyUSD: null });
+  });
+
+  it('treats 0 or junk as disabled', () => {
+    process.env.AI_USER_DAILY_BUDGET_USD = '0';
+    process.env.AI_GLOBAL_DAILY_BUDGET_USD = 'lots';
+    expect(getSpendBudgets()).toEqual({ userDailyUSD: null, globalDailyUSD: null });
+  });
+
+  it('allows requests when the ledger is disabled', async () => {
+    process.env.AI_LEDGER_ENABLED = 'false';
+    expect(await checkSpendBudget('user-1')).toBeNull();
+  });
+
+  it('reads today\'s spend at most once a minute per user', async () => {
+    process.env.SUPABASE_URL = 'http://localhost:54321';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-key';
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-04T12:00:00Z'));
+    spendRpc.mockClear();
+
+    expect((await checkSpendBudget('user-spend'))?.status).toBe(402);
+    expect((await checkSpendBudget('user-spend'))?.status).toBe(402);
+    expect(spendRpc).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(new Date('2026-03-04T12:01:01Z'));
+    await checkSpendBudget('user-spend');
+    expect(spendRpc).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a Redis hit in memory so later requests skip Redis', async () => {
+    process.env.SUPABASE_URL = 'http://localhost:54321';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-key';
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-05T12:00:00Z'));
+    redisEnabled = true;
+    try {
+      // Another instance already read today's spend
+      redisStore.set('sloefit:spend:2026-03-05:user-redis', {
+        spend: { user: 0.62, global: 3.1 },
+        expiresAt: Date.now() + 30_000,
+      });
+      fakeRedis.get.mockClear();
+      spendRpc.mockClear();
+
+      expect((await checkSpendBudget('user-redis'))?.status).toBe(402);
+      expect((await checkSpendBudget('user-redis'))?.status).toBe(402);
+      expect(fakeRedis.get).toHaveBeenCalledTimes(1);
+      expect(spendRpc).not.toHaveBeenCalled();
+    } finally {
+      redisEnabled = false;
+      redisStore.clear();
+    }
+  });
+});
+
+describe('withFallback ledger entries', () => {
+  it('records every attempt with the user, task and token cost', async () => {
+    behaviour.google = async () => { throw { type: 'server_error', message: 'down', retryable: true, provider: 'google' }; };
+
+    const result = await withFallback('meal_text', p => p.chat([{ role: 'user', content: 'hi' }]), { userId: 'user-1' });
+
+    expect(result.provider).toBe('openai');
+    expect(result.costUSD).toBeCloseTo(estimateCost('openai', { inputTokens: 1000, outputTokens: 500 }));
+
+    const entries = vi.mocked(recordAICall).mock.calls.map(([entry]) => entry);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ userId: 'user-1', operation: 'meal_text', provider: 'google', status: 'failed' });
+    expect(entries[1]).toMatchObject({ userId: 'user-1', operation: 'meal_text', provider: 'openai', status: 'success', costUSD: result.costUSD });
+  });
+
+  it('doesn\'t wait for the ledger write', async () => {
+    vi.mocked(recordAICall).mockImplementationOnce(() => new Promise(() => {}));
+
+    await expect(withFallback('meal_text', p => p.chat([{ role: 'user', content: 'hi' }]))).resolves.toMatchObject({ provider: 'google' });
+    expect(recordAICall).toHaveBeenCalledTimes(1);
+  });
+
+  it('attributes system jobs to no user', async () => {
+    await withFallback('weekly_plan', p => p.chat([{ role: 'user', content: 'hi' }]));
+    expect(vi.mocked(recordAICall).mock.calls[0][0].userId).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { mealPlanSchema } from '../../lib/ai/schemas';
+import { verifyMealPlan } from '../../lib/ai/usdaIntegration';
+import type { MealPlan } from '../../lib/ai/types';
+
+// Chicken breast is a USDA match; everything else misses
+vi.mock('../../services/nutritionService', () => ({
+  lookupFoodWithConfidence: vi.fn(async (query: string) => query === 'chicken breast'
+    ? { calories: 165, protein: 31, carbs: 0, fats: 3.6, source: 'usda', fdcId: 171077, description: 'Chicken, breast, roasted' }
+    : null),
+  extractMacrosFromUSDA: vi.fn(),
+  searchFood: vi.fn(),
+}));
+
+const food = (name: string, portionGrams: number, calories: number, protein: number) => ({
+  name, portion: `${portionGrams}g`, portionGrams, calories, protein, carbs: 10, fats: 5,
+});
+
+describe('mealPlanSchema', () => {
+  it('coerces a today plan onto day 0 and orders meals through the day', () => {
+    const { value, repairs } = mealPlanSchema('day').parse({
+      meals: [
+        { day: 1, meal_type: 'Evening snack', foods: [food('greek yogurt', 170, 100, 17)] },
+        { meal_type: 'supper', name: 'Chicken and rice', foods: [{ name: 'chicken breast', portionGrams: '150', calories: '250', protein: 46 }] },
+      ],
+      notes: 'Protein-heavy dinner.',
+    });
+
+    expect(value?.meals.map(m => [m.day, m.meal_type, m.name])).toEqual([
+      [0, 'dinner', 'Chicken and rice'],
+      [0, 'snack', 'greek yogurt'],
+    ]);
+    expect(value?.meals[0].foods[0]).toMatchObject({ portion: '150g', portionGrams: 150, calories: 250, carbs: 0 });
+    expect(value?.meals[0].totals.calories).toBe(250);
+    expect(repairs).toContain('meals[0].day: 1 → 0');
+  });
+
+  it('requires a week plan to cover all seven days', () => {
+    const meals = [0, 1, 2].map(day => ({ day, meal_type: 'lunch', foods: [food('rice', 200, 260, 5)] }));
+    const { value, issues } = mealPlanSchema('week').parse({ meals });
+    expect(value).toBeNull();
+    expect(issues).toEqual(['meals must cover each day 0-6 (covered 3 days)']);
+  });
+});
+
+describe('verifyMealPlan', () => {
+  it('swaps in USDA macros for matched foods and keeps estimates for the rest', async () => {
+    const plan: MealPlan = {
+      horizon: 'day',
+      notes: '',
+      meals: [{
+        day: 0, meal_type: 'dinner', name: 'Chicken and curry', hasUSDAData: false,
+        totals: { calories: 0, protein: 0, carbs: 0, fats: 0 },
+        foods: [
+          { ...food('chicken breast', 200, 300, 40), source: 'estimate' },
+          { ...food('house lentil curry', 250, 280, 14), source: 'estimate' },
+        ],
+      }],
+    };
+
+    const [meal] = (await verifyMealPlan(plan)).meals;
+    expect(meal.foods[0]).toMatchObject({ calories: 330, protein: 62, fats: 7, source: 'usda', fdcId: 171077 });
+    expect(meal.foods[1]).toMatchObject({ calories: 280, protein: 14, source: 'estimate' });
+    expect(meal.totals).toEqual({ calories: 610, protein: 76, carbs: 10, fats: 12 });
+    expect(meal.hasUSDAData).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { learnPortionCorrections, type FoodScanRow } from '../../lib/ai/portionLearning';
+import { enrichFoodsWithNutrition } from '../../lib/ai/usdaIntegration';
+
+// Force the fallback estimates so enrichment is deterministic and offline
+vi.mock('../../services/nutritionService', () => ({
+  lookupFoodWithConfidence: vi.fn(async () => null),
+  extractMacrosFromUSDA: vi.fn(),
+  searchFood: vi.fn(),
+}));
+
+function scan(foods: { name: string; learnedMultiplier?: number }[], multipliers: Record<number, number> = {}): FoodScanRow {
+  return { detected_items: foods, portion_multipliers: multipliers };
+}
+
+describe('learnPortionCorrections', () => {
+  it('learns a consistent correction by normalized food name', () => {
+    const corrections = learnPortionCorrections([
+      scan([{ name: 'White Rice' }, { name: 'Grilled chicken breast' }], { 0: 1.5 }),
+      scan([{ name: 'steamed white rice' }], { 0: 1.5 }),
+      scan([{ name: 'white rice' }], { 0: 1.25 }),
+    ]);
+    expect(corrections).toEqual({ 'white rice': 1.5 });
+  });
+
+  it('needs a few samples and ignores one-off edits', () => {
+    expect(learnPortionCorrections([scan([{ name: 'rice' }], { 0: 2 }), scan([{ name: 'rice' }], { 0: 2 })])).toEqual({});
+    expect(learnPortionCorrections([
+      scan([{ name: 'rice' }], { 0: 3 }),
+      scan([{ name: 'rice' }]),
+      scan([{ name: 'rice' }]),
+    ])).toEqual({});
+  });
+
+  it('measures edits against a correction that was already applied', () => {
+    const applied = { name: 'rice', learnedMultiplier: 1.5 };
+    // Accepted twice as-is, then trimmed back to 1.2× of the raw estimate
+    expect(learnPortionCorrections([
+      scan([applied], { 0: 0.8 }),
+      scan([applied]),
+      scan([applied]),
+    ])).toEqual({ rice: 1.5 });
+    expect(learnPortionCorrections([
+      scan([applied], { 0: 0.8 }),
+      scan([applied], { 0: 0.8 }),
+      scan([applied]),
+    ])).toEqual({ rice: 1.2 });
+  });
+
+  it('tolerates rows without items or multipliers', () => {
+    expect(learnPortionCorrections([{ detected_items: null, portion_multipliers: null }])).toEqual({});
+  });
+});
+
+describe('enrichFoodsWithNutrition with corrections', () => {
+  it('scales corrected foods and leaves the rest alone', async () => {
+    const foods = [
+      { name: 'steamed rice', portion: '1 cup', confidence: 0.9 },
+      { name: 'broccoli', portion: '1 cup', confidence: 0.9 },
+    ];
+    const plain = await enrichFoodsWithNutrition(foods);
+    const corrected = await enrichFoodsWithNutrition(foods, { rice: 1.5 });
+
+    expect(corrected.foods[0]).toMatchObject({ portionGrams: 360, learnedMultiplier: 1.5 });
+    expect(corrected.foods[0].calories).toBe(Math.round(plain.foods[0].calories * 1.5));
+    expect(corrected.foods[1]).toEqual(plain.foods[1]);
+  });
+});
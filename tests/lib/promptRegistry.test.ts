@@ -0,0 +1,100 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+  createPromptSet,
+  experimentBucket,
+  getPromptExperiments,
+  primaryPromptStamp,
+  PROMPT_REGISTRY,
+  resolvePromptVersion,
+} from '../../lib/ai/promptRegistry';
+import { TEXT_MEAL_ANALYSIS_PROMPT } from '../../prompts';
+
+const savedExperiments = process.env.AI_PROMPT_EXPERIMENTS;
+
+beforeEach(() => {
+  delete process.env.AI_PROMPT_EXPERIMENTS;
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  // Register a variant for the duration of each test
+  PROMPT_REGISTRY.text_meal_analysis.versions.v2 = 'v2 text meal prompt';
+});
+
+afterEach(() => {
+  delete PROMPT_REGISTRY.text_meal_analysis.versions.v2;
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  if (savedExperiments === undefined) delete process.env.AI_PROMPT_EXPERIMENTS;
+  else process.env.AI_PROMPT_EXPERIMENTS = savedExperiments;
+});
+
+function runExperiment(split: number) {
+  process.env.AI_PROMPT_EXPERIMENTS = JSON.stringify({ text_meal_analysis: { variant: 'v2', split } });
+}
+
+describe('getPromptExperiments', () => {
+  it('drops unknown prompts, unknown versions and bad splits', () => {
+    process.env.AI_PROMPT_EXPERIMENTS = JSON.stringify({
+      text_meal_analysis: { variant: 'v2', split: 0.5 },
+      body_analysis: { variant: 'v9', split: 0.5 },
+      coaching: { variant: 'v1', split: 2 },
+      not_a_prompt: { variant: 'v1', split: 0.5 },
+    });
+    expect(getPromptExperiments()).toEqual({ text_meal_analysis: { variant: 'v2', split: 0.5 } });
+  });
+
+  it('serves current versions when the JSON is invalid', () => {
+    process.env.AI_PROMPT_EXPERIMENTS = '{nope';
+    expect(getPromptExperiments()).toEqual({});
+  });
+});
+
+describe('resolvePromptVersion', () => {
+  it('serves the current version without an experiment', () => {
+    expect(resolvePromptVersion('text_meal_analysis', 'user-a')).toEqual({ id: 'text_meal_analysis', version: 'v1' });
+  });
+
+  it('keeps a user in the same arm and splits users roughly by share', () => {
+    runExperiment(0.3);
+    const users = Array.from({ length: 1000 }, (_, i) => `user-${i}`);
+    const variants = users.filter(u => resolvePromptVersion('text_meal_analysis', u).experiment === 'variant');
+
+    expect(variants.length).toBeGreaterThan(240);
+    expect(variants.length).toBeLessThan(360);
+    expect(resolvePromptVersion('text_meal_analysis', variants[0])).toEqual(
+      { id: 'text_meal_analysis', version: 'v2', experiment: 'variant' }
+    );
+    expect(experimentBucket('text_meal_analysis', 'user-1')).toBe(experimentBucket('text_meal_analysis', 'user-1'));
+  });
+
+  it('puts requests without a user in the control arm', () => {
+    runExperiment(1);
+    expect(resolvePromptVersion('text_meal_analysis', null)).toEqual(
+      { id: 'text_meal_analysis', version: 'v1', experiment: 'control' }
+    );
+  });
+});
+
+describe('createPromptSet', () => {
+  it('returns the resolved template and stamps each prompt once', () => {
+    runExperiment(1);
+    const prompts = createPromptSet('user-a');
+
+    expect(prompts.get('meal_photo_identification')).toBe(PROMPT_REGISTRY.meal_photo_identification.versions.v1);
+    expect(prompts.get('text_meal_analysis')).toBe('v2 text meal prompt');
+    prompts.get('text_meal_analysis');
+
+    expect(prompts.stamps()).toEqual([
+      { id: 'meal_photo_identification', version: 'v1' },
+      { id: 'text_meal_analysis', version: 'v2', experiment: 'variant' },
+    ]);
+    // The prompt under experiment is the one worth reporting
+    expect(primaryPromptStamp(prompts.stamps())).toEqual({ id: 'text_meal_analysis', version: 'v2', experiment: 'variant' });
+  });
+
+  it('serves the original prompt text as v1', () => {
+    expect(createPromptSet().get('text_meal_analysis')).toBe(TEXT_MEAL_ANALYSIS_PROMPT);
+    expect(primaryPromptStamp([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+  createMemoryCacheLayer,
+  getCachedResult,
+  invalidateUserCache,
+  normalizeMealDescription,
+  resultCacheKey,
+  setCacheLayers,
+  setCachedResult,
+  type CacheLayer,
+} from '../../lib/ai/resultCache';
+
+const savedRoutes = process.env.AI_TASK_ROUTES;
+
+let memory: CacheLayer;
+let shared: CacheLayer;
+
+beforeEach(() => {
+  delete process.env.AI_TASK_ROUTES;
+  memory = createMemoryCacheLayer();
+  // Second memory layer stands in for Redis; renamed so hits report the right tier
+  shared = { ...createMemoryCacheLayer(100, Infinity), name: 'redis' };
+  setCacheLayers([memory, shared]);
+});
+
+afterEach(() => {
+  setCacheLayers(null);
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  if (savedRoutes === undefined) delete process.env.AI_TASK_ROUTES;
+  else process.env.AI_TASK_ROUTES = savedRoutes;
+});
+
+describe('normalizeMealDescription', () => {
+  it('ignores case, spacing, separators and trailing punctuation', () => {
+    expect(normalizeMealDescription('  Chicken  Breast and Rice & Broccoli. '))
+      .toBe(normalizeMealDescription('chicken breast, rice + broccoli'));
+  });
+
+  it('keeps quantities distinct', () => {
+    expect(normalizeMealDescription('2 eggs')).not.toBe(normalizeMealDescription('3 eggs'));
+  });
+});
+
+describe('resultCacheKey', () => {
+  it('scopes keys by user and task', async () => {
+    const a = await resultCacheKey('user-a', 'meal_text', 'oats');
+    expect(a).toMatch(/^user-a:meal_text:[0-9a-f]{64}$/);
+    expect(await resultCacheKey('user-b', 'meal_text', 'oats')).not.toBe(a);
+    expect(await resultCacheKey('user-a', 'meal_photo', 'oats')).not.toBe(a);
+  });
+});
+
+describe('layered cache', () => {
+  it('promotes a shared-layer hit into memory', async () => {
+    const key = await resultCacheKey('user-a', 'meal_text', 'oats');
+    await shared.set(key, { data: { kcal: 300 }, provider: 'google', cachedAt: 1 }, 600);
+
+    expect(await getCachedResult(key)).toMatchObject({ data: { kcal: 300 }, layer: 'redis' });
+    expect(await getCachedResult(key)).toMatchObject({ data: { kcal: 300 }, layer: 'memory' });
+  });
+
+  it('expires entries after the task TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    process.env.AI_TASK_ROUTES = JSON.stringify({ meal_text: { cacheTtlSeconds: 60 } });
+    const key = await resultCacheKey('user-a', 'meal_text', 'oats');
+    await setCachedResult(key, { kcal: 300 }, 'openai', 'gpt-4o-mini');
+
+    expect(await getCachedResult(key)).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini' });
+    vi.advanceTimersByTime(61_000);
+    expect(await getCachedResult(key)).toBeNull();
+  });
+
+  it('does not cache tasks without a TTL', async () => {
+    const key = await resultCacheKey('user-a', 'coach', 'hello');
+    await setCachedResult(key, 'hi', 'google');
+    expect(await getCachedResult(key)).toBeNull();
+  });
+
+  it('drops only the given user on invalidation', async () => {
+    const mine = await resultCacheKey('user-a', 'meal_photo', 'img');
+    const theirs = await resultCacheKey('user-b', 'meal_photo', 'img');
+    await setCachedResult(mine, 'a', 'google');
+    await setCachedResult(theirs, 'b', 'google');
+
+    expect(await invalidateUserCache('user-a')).toBe(2); // one entry in each layer
+    expect(await getCachedResult(mine)).toBeNull();
+    expect(await getCachedResult(theirs)).toMatchObject({ data: 'b' });
+  });
+
+  it('stops serving invalidated results from other instances within a minute', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const key = await resultCacheKey('user-a', 'meal_text', 'oats');
+    await setCachedResult(key, 'a', 'google');
+
+    // Another instance deletes the history: it clears Redis but not our memory
+    const otherInstance = createMemoryCacheLayer();
+    setCacheLayers([otherInstance, shared]);
+    await invalidateUserCache('user-a');
+    setCacheLayers([memory, shared]);
+
+    expect(await getCachedResult(key)).toMatchObject({ layer: 'memory' });
+    vi.advanceTimersByTime(61_000);
+    expect(await getCachedResult(key)).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  chatStructured,
+  GeneratedWorkoutSchema,
+  WeeklyNutritionInsightsSchema,
+  WeeklyPlanSchema,
+} from '../../lib/ai/schemas';
+import type { AIProvider, ChatMessage } from '../../lib/ai/types';
+
+const WORKOUT = {
+  title: 'Upper Power',
+  duration_minutes: '50',
+  intensity: 'high',
+  recovery_adjusted: 'false',
+  warmup: { duration_minutes: 5, exercises: ['Arm circles'] },
+  exercises: [
+    { name: 'barbell bench press', sets: 25, reps: 8, rest_seconds: '120s', target_muscles: ['Chest'] },
+    { name: 'Zercher Carry', sets: 3, reps: '40m', rest_seconds: 90, target_muscles: [] },
+    { sets: 3, reps: '10' },
+  ],
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('GeneratedWorkoutSchema', () => {
+  it('coerces, clamps and maps exercises onto the library', () => {
+    const { value, repairs } = GeneratedWorkoutSchema.parse(WORKOUT);
+
+    expect(value).toMatchObject({ duration_minutes: 50, intensity: 'intense', recovery_adjusted: false });
+    expect(value!.warmup.exercises).toEqual([{ name: 'Arm circles', duration: '1 min' }]);
+    expect(value!.cooldown).toEqual({ duration_minutes: 5, exercises: [] });
+    expect(value!.exercises).toEqual([
+      { name: 'Barbell Bench Press', sets: 10, reps: '8', rest_seconds: 120, target_muscles: ['chest'] },
+      { name: 'Zercher Carry', sets: 3, reps: '40m', rest_seconds: 90, target_muscles: [] },
+    ]);
+    expect(repairs).toContain('workout.exercises[0].sets: 25 → 10');
+  });
+
+  it('rejects a workout with no usable exercises', () => {
+    const { value, issues } = GeneratedWorkoutSchema.parse({ title: 'Empty', exercises: [{ sets: 3 }] });
+    expect(value).toBeNull();
+    expect(issues[0]).toMatch(/at least one exercise/);
+  });
+});
+
+describe('WeeklyNutritionInsightsSchema', () => {
+  it('clamps the score and wraps a single win', () => {
+    const { value } = WeeklyNutritionInsightsSchema.parse({
+      adherence_score: '112', summary: 'Solid week', wins: 'Hit protein 6/7 days', focus_area: 'Fiber', tip: 'Add berries',
+    });
+    expect(value).toEqual({
+      adherence_score: 100, summary: 'Solid week', wins: ['Hit protein 6/7 days'], focus_area: 'Fiber', tip: 'Add berries',
+    });
+  });
+
+  it('reports every missing field', () => {
+    expect(WeeklyNutritionInsightsSchema.parse({ summary: 'ok' }).issues).toHaveLength(3);
+  });
+});
+
+describe('WeeklyPlanSchema', () => {
+  const days = [1, 2, 3, 4, 5, 6, 0].map(day => ({
+    day,
+    is_rest_day: day % 2 === 0,
+    workout: day % 2 === 0 ? null : WORKOUT,
+    focus_areas: ['upper'],
+  }));
+
+  it('fills day names, id and created_at', () => {
+    const { value } = WeeklyPlanSchema.parse({ week_start: '2026-10-19', days, reasoning: 'Balanced split' });
+
+    expect(value!.days.map(d => d.day_name)).toEqual(['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']);
+    expect(value!.days[0].workout!.exercises[0].name).toBe('Barbell Bench Press');
+    expect(value!.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(value!.created_at).toBeTruthy();
+  });
+
+  it('derives the day index from day_name', () => {
+    const named = days.map(({ day, ...rest }) => ({ ...rest, day_name: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][day] }));
+    expect(WeeklyPlanSchema.parse({ week_start: '2026-10-19', days: named, reasoning: 'x' }).value!.days[0].day).toBe(1);
+  });
+
+  it('rejects a plan that does not cover the week', () => {
+    const { issues } = WeeklyPlanSchema.parse({ week_start: '2026-10-19', days: days.slice(0, 6), reasoning: 'x' });
+    expect(issues.join(' ')).toMatch(/each of the 7 days/);
+  });
+});
+
+describe('chatStructured', () => {
+  function stubProvider(...responses: string[]) {
+    const chat = vi.fn(async (_messages: ChatMessage[]) => responses.shift() ?? '');
+    const provider: Pick<AIProvider, 'name' | 'chat'> = { name: 'openai', chat };
+    return { provider, chat };
+  }
+
+  const messages = [{ role: 'user' as const, content: 'plan my workout' }];
+
+  it('re-prompts once with the issues and accepts the repaired output', async () => {
+    const { provider, chat } = stubProvider('{"title": "Oops"}', `Here you go: ${JSON.stringify(WORKOUT)}`);
+
+    const result = await chatStructured(provider, messages, { jsonMode: true }, GeneratedWorkoutSchema);
+
+    expect(result?.title).toBe('Upper Power');
+    expect(chat).toHaveBeenCalledTimes(2);
+    const repairMessages = chat.mock.calls[1][0];
+    expect(repairMessages.at(-2)).toEqual({ role: 'assistant', content: '{"title": "Oops"}' });
+    expect(repairMessages.at(-1)!.content).toMatch(/at least one exercise/);
+  });
+
+  it('returns null after a failed repair so the next provider is tried', async () => {
+    const { provider, chat } = stubProvider('not json', '{"still": "wrong"}');
+    expect(await chatStructured(provider, messages, {}, GeneratedWorkoutSchema)).toBeNull();
+    expect(chat).toHaveBeenCalledTimes(2);
+  });
+});
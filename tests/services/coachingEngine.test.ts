@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { detectPatterns, getFallbackMessage, type CoachEvent } from '../../services/coachingEngine';
+
+const checkin = (data: Record<string, unknown>): CoachEvent => ({
+  type: 'recovery_checkin',
+  timestamp: Date.now(),
+  data: { sleep: 8, soreness: [], ...data },
+});
+
+describe('detectPatterns — hydration', () => {
+  it('flags low water, raised to high priority when energy is also low', () => {
+    const [tired] = detectPatterns([checkin({ energy: 2, hydrationPct: 30 })]);
+    expect(tired).toMatchObject({ type: 'low_hydration', priority: 'high', data: { hydrationPct: 30, energy: 2 } });
+    expect(getFallbackMessage(tired)).toBe('Low energy, 30% of your water. Drink up before you train.');
+
+    const [fine] = detectPatterns([checkin({ energy: 4, hydrationPct: 30 })]);
+    expect(fine).toMatchObject({ type: 'low_hydration', priority: 'medium' });
+  });
+
+  it('stays quiet when water is adequate or not tracked', () => {
+    expect(detectPatterns([checkin({ energy: 1, hydrationPct: 80 })])).toEqual([]);
+    expect(detectPatterns([checkin({ energy: 1 })])).toEqual([]);
+  });
+});
+
+describe('detectPatterns — personal records', () => {
+  const session = (minutesAgo: number, data: Record<string, unknown>): CoachEvent => ({
+    type: 'workout_completed',
+    timestamp: Date.now() - minutesAgo * 60_000,
+    data: { volume: 5000, ...data },
+  });
+
+  it('celebrates PRs from the latest session instead of a plain good session', () => {
+    const patterns = detectPatterns([
+      session(60 * 48, { volume: 3000 }),
+      session(0, { records: [{ name: 'Squat', type: 'volume', value: 6000 }, { name: 'Bench', type: 'e1rm', value: 231.5 }] }),
+    ]);
+
+    expect(patterns.map(p => p.type)).toEqual(['personal_record']);
+    expect(patterns[0].data).toMatchObject({ count: 2, exercise: 'Bench', recordType: 'e1rm' });
+    expect(getFallbackMessage(patterns[0])).toBe("2 PRs today, including Bench. You're getting stronger.");
+  });
+
+  it('ignores records from earlier sessions', () => {
+    const patterns = detectPatterns([
+      session(60 * 48, { records: [{ name: 'Bench', type: 'e1rm', value: 231.5 }] }),
+      session(0, {}),
+    ]);
+    expect(patterns.find(p => p.type === 'personal_record')).toBeUndefined();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  clearQueue,
+  getQueuedHydration,
+  queueHydration,
+  syncQueuedHydration,
+} from '../../services/hydrationOfflineQueue';
+
+const makeLog = (created_at = '2026-10-19T12:00:00.000Z', amount_ml = 473) => ({
+  date: '2026-10-19',
+  amount_ml,
+  created_at,
+});
+
+describe('hydrationOfflineQueue', () => {
+  beforeEach(() => {
+    clearQueue();
+  });
+
+  it('queues each drink separately but ignores a double-submitted one', () => {
+    queueHydration(makeLog('2026-10-19T12:00:00.000Z'), 'user-1');
+    queueHydration(makeLog('2026-10-19T12:00:00.000Z'), 'user-1');
+    queueHydration(makeLog('2026-10-19T12:00:05.000Z'), 'user-1');
+
+    expect(getQueuedHydration()).toHaveLength(2);
+  });
+
+  it('syncs only the given user and keeps failures for retry', async () => {
+    queueHydration(makeLog('2026-10-19T12:00:00.000Z'), 'user-a');
+    queueHydration(makeLog('2026-10-19T13:00:00.000Z'), 'user-a');
+    queueHydration(makeLog('2026-10-19T12:00:00.000Z'), 'user-b');
+    const save = vi.fn()
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+
+    const synced = await syncQueuedHydration(save, 'user-a');
+
+    expect(synced).toBe(1);
+    expect(save).toHaveBeenCalledTimes(2);
+    const remaining = getQueuedHydration();
+    expect(remaining.map(q => [q.userId, q.retryCount])).toEqual([['user-a', 1], ['user-b', 0]]);
+  });
+});
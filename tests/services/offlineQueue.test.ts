@@ -8,6 +8,11 @@ import {
   hasQueuedMeals,
   getQueuedCount,
   syncQueuedMeals,
+  queueMealMove,
+  moveQueuedMeal,
+  getQueuedMoves,
+  hasQueuedMoves,
+  syncQueuedMoves,
 } from '../../services/offlineQueue';
 
 const makeMeal = (desc = 'Chicken breast', overrides = {}) => ({
@@ -49,6 +54,14 @@ describe('offlineQueue', () => {
     expect(getQueuedCount()).toBe(2);
   });
 
+  it('dedupes copies by their entry id, not their contents', () => {
+    queueMeal(makeMeal('Oats', { entryId: 'copy-1', date: '2026-10-20' }));
+    queueMeal(makeMeal('Oats', { entryId: 'copy-2', date: '2026-10-20' }));
+    queueMeal(makeMeal('Oats', { entryId: 'copy-1', date: '2026-10-20' }));
+
+    expect(getQueuedMeals().map(m => m.payload.entryId)).toEqual(['copy-1', 'copy-2']);
+  });
+
   it('removes a meal from the queue', () => {
     const { meal } = queueMeal(makeMeal());
     expect(hasQueuedMeals()).toBe(true);
@@ -138,4 +151,47 @@ describe('offlineQueue', () => {
       expect(getQueuedMeals()[0].retryCount).toBe(1);
     });
   });
+
+  describe('queued moves', () => {
+    it('replaces a pending move of the same entry but keeps its original date', () => {
+      queueMealMove({ entryId: 'meal-1', fromDate: '2026-10-18', toDate: '2026-10-19' }, 'user-1');
+      queueMealMove({ entryId: 'meal-1', fromDate: '2026-10-19', toDate: '2026-10-20' }, 'user-1');
+
+      const moves = getQueuedMoves();
+      expect(moves).toHaveLength(1);
+      expect(moves[0]).toMatchObject({ fromDate: '2026-10-18', toDate: '2026-10-20' });
+    });
+
+    it('syncs moves for the given user and returns the applied ones', async () => {
+      queueMealMove({ entryId: 'meal-a', fromDate: '2026-10-18', toDate: '2026-10-19' }, 'user-a');
+      queueMealMove({ entryId: 'meal-b', fromDate: '2026-10-18', toDate: '2026-10-19' }, 'user-b');
+      const moveMeal = vi.fn().mockResolvedValue(true);
+
+      const applied = await syncQueuedMoves(moveMeal, 'user-a');
+
+      expect(applied.map(m => m.entryId)).toEqual(['meal-a']);
+      expect(getQueuedMoves().map(m => m.entryId)).toEqual(['meal-b']);
+    });
+
+    it('moves a meal that has not synced yet inside the meal queue', () => {
+      queueMeal(makeMeal('Oats', { entryId: 'copy-1', createdAt: '2026-10-20T08:15:00.000Z', date: '2026-10-20' }), 'user-1');
+
+      expect(moveQueuedMeal('copy-1', '2026-10-22')).toBe(true);
+      expect(getQueuedMeals()[0].payload).toMatchObject({ date: '2026-10-22', createdAt: '2026-10-20T08:15:00.000Z' });
+      expect(hasQueuedMoves()).toBe(false);
+
+      // Synced meals aren't in the queue; their moves go through queueMealMove
+      expect(moveQueuedMeal('meal-on-server', '2026-10-22')).toBe(false);
+    });
+
+    it('keeps failed moves for retry and clears them with the meal queue', async () => {
+      queueMealMove({ entryId: 'meal-1', fromDate: '2026-10-18', toDate: '2026-10-19' }, 'user-1');
+
+      await syncQueuedMoves(vi.fn().mockResolvedValue(false), 'user-1');
+      expect(getQueuedMoves()[0].retryCount).toBe(1);
+
+      clearQueue();
+      expect(hasQueuedMoves()).toBe(false);
+    });
+  });
 });
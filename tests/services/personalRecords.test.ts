@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRecordBook,
+  detectNewRecords,
+  e1rmTrend,
+  estimateOneRepMax,
+  recordsToRows,
+  rowToRecord,
+} from '../../services/personalRecords';
+import type { CompletedWorkout, ExerciseLog } from '../../App';
+import type { LoggedSet } from '../../utils/setTypes';
+
+const bench = (loggedSets: LoggedSet[], overrides: Partial<ExerciseLog> = {}): ExerciseLog => ({
+  id: 1,
+  name: 'Barbell Bench Press',
+  sets: String(loggedSets.length),
+  reps: loggedSets.map(s => s.reps).join(', '),
+  weight: '',
+  loggedSets,
+  ...overrides,
+});
+
+const workout = (rawDate: string, log: ExerciseLog[]): CompletedWorkout => ({
+  date: rawDate.slice(0, 10),
+  rawDate,
+  title: 'Push',
+  log,
+});
+
+const working = (weight: number, reps: number): LoggedSet => ({ weight, reps, type: 'working' });
+
+describe('personalRecords', () => {
+  it('estimates 1RM with Epley or Brzycki and skips sets it cannot estimate', () => {
+    expect(estimateOneRepMax(100, 10)).toBe(133.3);
+    expect(estimateOneRepMax(100, 10, 'brzycki')).toBe(133.3);
+    expect(estimateOneRepMax(225, 5, 'brzycki')).toBe(253.1);
+    expect(estimateOneRepMax(315, 1)).toBe(315);
+    expect(estimateOneRepMax(0, 10)).toBeNull();
+    expect(estimateOneRepMax(100, 15)).toBeNull();
+  });
+
+  it('ignores warm-ups and merges an exercise listed twice in a session', () => {
+    const book = buildRecordBook([workout('2026-10-01T10:00:00Z', [
+      bench([{ weight: 225, reps: 5, type: 'warmup' }, working(185, 5)]),
+      bench([working(185, 5)], { id: 2 }),
+    ])]);
+
+    const entry = book.get('barbell-bench-press')!;
+    expect(entry.e1rm).toBe(215.8);
+    expect(entry.volume).toBe(1850);
+    expect(entry.repsAtWeight.get(225)).toBeUndefined();
+  });
+
+  it('flags e1RM, rep and volume PRs against history', () => {
+    const history = [workout('2026-10-01T10:00:00Z', [bench([working(185, 5), working(185, 5)])])];
+    const records = detectNewRecords(
+      [bench([working(185, 8), working(185, 6)])],
+      history,
+      [],
+      '2026-10-08T10:00:00Z'
+    );
+
+    expect(records.map(r => r.type)).toEqual(['e1rm', 'reps', 'volume']);
+    expect(records[0]).toMatchObject({ exerciseId: 'barbell-bench-press', value: 234.3, previous: 215.8, weight: 185, reps: 8 });
+    expect(records[1]).toMatchObject({ value: 8, previous: 5, weight: 185 });
+    expect(records[2]).toMatchObject({ value: 2590, previous: 1850 });
+  });
+
+  it('counts heavier sets toward rep records and needs a prior session', () => {
+    const history = [workout('2026-10-01T10:00:00Z', [bench([working(205, 6)])])];
+
+    // 6 reps at 185 doesn't beat 6 reps at the heavier 205
+    const records = detectNewRecords([bench([working(185, 6)])], history);
+    expect(records.find(r => r.type === 'reps')).toBeUndefined();
+
+    // First time on an exercise is a baseline, not a PR
+    expect(detectNewRecords([bench([working(50, 10)], { name: 'Cable Fly' })], history)).toEqual([]);
+  });
+
+  it('measures against stored records older than the loaded workouts', () => {
+    // The 225 × 5 session has scrolled out of the loaded window; only its records remain
+    const loaded = [workout('2026-10-01T10:00:00Z', [bench([working(185, 5)])])];
+    const stored = rowToRecord({
+      exercise_key: 'barbell-bench-press', exercise_id: 'barbell-bench-press', exercise_name: 'Barbell Bench Press',
+      record_type: 'e1rm', value: 262.5, previous_value: 250, weight_lbs: 225, reps: 5, achieved_at: '2026-03-01T10:00:00Z',
+    })!;
+    const session = [bench([working(205, 5)])];
+
+    expect(detectNewRecords(session, loaded).map(r => r.type)).toEqual(['e1rm', 'volume']);
+    // Against the stored 262.5 e1RM, only the volume beats the loaded session
+    expect(detectNewRecords(session, loaded, [stored]).map(r => r.type)).toEqual(['volume']);
+
+    // An exercise only in stored records isn't a first session: 6 reps beats the stored 5 at 225
+    const records = detectNewRecords([bench([working(225, 6)])], [], [stored]);
+    expect(records.map(r => r.type)).toEqual(['e1rm', 'reps']);
+    expect(records[1]).toMatchObject({ value: 6, previous: 5, weight: 225 });
+  });
+
+  it('charts the best e1RM per session oldest first', () => {
+    const trend = e1rmTrend([
+      workout('2026-10-08T10:00:00Z', [bench([working(185, 8)])]),
+      workout('2026-10-01T10:00:00Z', [bench([working(185, 5), working(135, 12)])]),
+      workout('2026-10-04T10:00:00Z', [bench([working(0, 20)])]),
+    ], 'barbell-bench-press');
+
+    expect(trend).toEqual([
+      { date: '2026-10-01T10:00:00Z', value: 215.8 },
+      { date: '2026-10-08T10:00:00Z', value: 234.3 },
+    ]);
+  });
+
+  it('round-trips records through personal_records rows', () => {
+    const [record] = detectNewRecords(
+      [bench([working(185, 8)])],
+      [workout('2026-10-01T10:00:00Z', [bench([working(185, 5)])])]
+    );
+    const [row] = recordsToRows('w-1', 'u-1', '2026-10-08T10:00:00Z', [record]);
+
+    expect(row).toMatchObject({ workout_id: 'w-1', record_type: 'e1rm', exercise_key: 'barbell-bench-press' });
+    expect(rowToRecord(row)).toEqual({ ...record, achievedAt: '2026-10-08T10:00:00Z' });
+    expect(rowToRecord({ ...row, record_type: 'bogus' })).toBeNull();
+  });
+});
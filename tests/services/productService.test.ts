@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import {
+  calculateProductMacros,
+  createOpenFoodFactsBackend,
+  createSeedBackend,
+  lookupProduct,
+  expandUpcE,
+  normalizeBarcode,
+  setProductBackends,
+  type Product,
+} from '../../services/productService';
+
+const NUTELLA_BARCODE = '3017620422003';
+
+afterEach(() => {
+  setProductBackends(null);
+  vi.restoreAllMocks();
+});
+
+describe('normalizeBarcode', () => {
+  it('accepts EAN-13, EAN-8 and zero-pads UPC-A', () => {
+    expect(normalizeBarcode('3017620422003')).toBe('3017620422003');
+    expect(normalizeBarcode('4082 2938')).toBe('40822938');
+    expect(normalizeBarcode('737628064502')).toBe('0737628064502');
+  });
+
+  it('rejects bad check digits and junk', () => {
+    expect(normalizeBarcode('3017620422004')).toBeNull();
+    expect(normalizeBarcode('12345')).toBeNull();
+    expect(normalizeBarcode('abc')).toBeNull();
+  });
+});
+
+describe('expandUpcE', () => {
+  it('expands zero-suppressed UPC-E to a valid UPC-A', () => {
+    expect(expandUpcE('04252614')).toBe('042100005264');
+    expect(expandUpcE('01234531')).toBe('012300000451');
+    expect(expandUpcE('01234558')).toBe('012345000058');
+    expect(normalizeBarcode(expandUpcE('04252614')!)).toBe('0042100005264');
+  });
+
+  it('rejects codes outside number systems 0 and 1', () => {
+    expect(expandUpcE('24252614')).toBeNull();
+    expect(expandUpcE('4252614')).toBeNull();
+  });
+});
+
+describe('lookupProduct', () => {
+  let remote: { name: string; lookup: Mock<(barcode: string) => Promise<Product | null>> };
+
+  beforeEach(() => {
+    remote = { name: 'remote', lookup: vi.fn(async (_barcode: string): Promise<Product | null> => null) };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('serves bundled products offline without calling the remote backend', async () => {
+    setProductBackends([createSeedBackend(), remote]);
+    expect(await lookupProduct(NUTELLA_BARCODE)).toMatchObject({ name: 'Nutella', source: 'seed' });
+    expect(await lookupProduct('737628064502')).toMatchObject({ barcode: '0737628064502' });
+    expect(remote.lookup).not.toHaveBeenCalled();
+  });
+
+  it('falls through failing backends and caches the hit', async () => {
+    const product: Product = {
+      barcode: '40822938', name: 'Sparkling water', servingGrams: 500,
+      per100g: { calories: 0, protein: 0, carbs: 0, fats: 0 }, source: 'remote',
+    };
+    const broken = { name: 'broken', lookup: vi.fn(async () => { throw new Error('offline'); }) };
+    remote.lookup.mockResolvedValueOnce(product);
+    setProductBackends([broken, remote]);
+
+    expect(await lookupProduct('40822938')).toEqual(product);
+    expect(await lookupProduct('40822938')).toEqual(product);
+    expect(remote.lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns null for unknown and invalid barcodes', async () => {
+    setProductBackends([remote]);
+    expect(await lookupProduct('5449000000996')).toBeNull();
+    expect(await lookupProduct('123')).toBeNull();
+    expect(remote.lookup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createOpenFoodFactsBackend', () => {
+  it('maps the product API response to per-100 g macros', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+      status: 1,
+      product: {
+        product_name: 'Protein Bar',
+        brands: 'Acme, Acme Foods',
+        serving_size: '1 bar (45 g)',
+        nutriments: { 'energy_100g': 1674, 'proteins_100g': 33, 'carbohydrates_100g': 35, 'fat_100g': 15 },
+      },
+    })));
+
+    const product = await createOpenFoodFactsBackend('https://off.test').lookup('40822938');
+
+    expect(fetch).toHaveBeenCalledWith(expect.stringContaining('https://off.test/api/v2/product/40822938.json'), expect.anything());
+    expect(product).toEqual({
+      barcode: '40822938',
+      name: 'Protein Bar',
+      brand: 'Acme',
+      servingSize: '1 bar (45 g)',
+      servingGrams: 45,
+      per100g: { calories: 400, protein: 33, carbs: 35, fats: 15 },
+      source: 'openfoodfacts',
+    });
+  });
+});
+
+describe('calculateProductMacros', () => {
+  const nutella = createSeedBackend().lookup(NUTELLA_BARCODE);
+
+  it('scales label servings and parsed portions', async () => {
+    const product = (await nutella)!;
+    expect(calculateProductMacros(product, '2 servings')).toEqual({ grams: 30, calories: 162, protein: 2, carbs: 17, fats: 9 });
+    expect(calculateProductMacros(product, '1 tbsp')).toMatchObject({ grams: 15, calories: 81 });
+    expect(calculateProductMacros(product, '100g').calories).toBe(539);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { loadIncrement, parseRepRange, repRangeFor, suggestProgression, type ProgressionInput } from '../../services/progressionEngine';
+import type { ExerciseLog } from '../../App';
+import type { LoggedSet } from '../../utils/setTypes';
+
+const session = (name: string, sets: LoggedSet[]): { log: ExerciseLog[] } => ({
+  log: [{ id: 1, name, sets: String(sets.length), reps: '', weight: '', loggedSets: sets }],
+});
+
+const sets = (weight: number, reps: number[], rpe?: number): LoggedSet[] =>
+  reps.map(r => ({ weight, reps: r, type: 'working' as const, ...(rpe !== undefined && { rpe }) }));
+
+const bench = { name: 'Barbell Bench Press', exerciseId: 'barbell-bench-press' };   // 8-12, 5 lb steps
+const squat = { name: 'Squat (Barbell)', exerciseId: 'squat-barbell' };             // 6-10, 10 lb steps
+
+const suggest = (overrides: Partial<ProgressionInput>) =>
+  suggestProgression({ exercise: bench, history: [], scheme: 'double', ...overrides });
+
+describe('progressionEngine', () => {
+  it('reads rep ranges from the library first, then the workout target', () => {
+    expect(parseRepRange('8-12')).toEqual({ min: 8, max: 12 });
+    expect(parseRepRange('5')).toEqual({ min: 5, max: 5 });
+    expect(parseRepRange('AMRAP')).toBeNull();
+    expect(repRangeFor({ ...bench, targetReps: '3-5' })).toEqual({ min: 8, max: 12 });
+    expect(repRangeFor({ name: 'Sled Push', targetReps: '6-8' })).toEqual({ min: 6, max: 8 });
+    expect(loadIncrement('barbell-bench-press')).toBe(5);
+    expect(loadIncrement('deadlift')).toBe(10);
+    expect(loadIncrement('push-ups')).toBe(0);
+  });
+
+  it('has nothing to suggest without history', () => {
+    expect(suggest({})).toBeNull();
+    expect(suggest({ history: [session('Cable Fly', sets(40, [12]))] })).toBeNull();
+  });
+
+  it('double progression adds reps, then weight at the top of the range', () => {
+    expect(suggest({ history: [session(bench.name, sets(135, [10, 9, 9]))] }))
+      .toMatchObject({ weight: 135, reps: 10, action: 'increase_reps' });
+    expect(suggest({ history: [session(bench.name, sets(135, [12, 12, 12]))] }))
+      .toMatchObject({ weight: 140, reps: 8, action: 'increase_weight' });
+  });
+
+  it('linear progression adds weight whenever the bottom of the range is hit', () => {
+    expect(suggest({ exercise: squat, scheme: 'linear', history: [session(squat.name, sets(225, [6, 6, 6]))] }))
+      .toMatchObject({ weight: 235, reps: 6, action: 'increase_weight' });
+    expect(suggest({ exercise: squat, scheme: 'linear', history: [session(squat.name, sets(225, [6, 6, 5]))] }))
+      .toMatchObject({ weight: 225, reps: 6, action: 'hold' });
+  });
+
+  it('holds on high RPE, stricter when cutting', () => {
+    const history = [session(bench.name, sets(135, [12, 12, 12], 9))];
+    expect(suggest({ history, goal: 'BULK' })).toMatchObject({ weight: 140, action: 'increase_weight' });
+    expect(suggest({ history, goal: 'CUT' })).toMatchObject({ weight: 135, reps: 12, action: 'hold' });
+  });
+
+  it('deloads after missing the range twice at the same load', () => {
+    const history = [session(bench.name, sets(185, [6, 5])), session(bench.name, sets(185, [7, 6]))];
+    expect(suggest({ history })).toMatchObject({ weight: 167.5, reps: 8, action: 'deload' });
+  });
+
+  it('steps and words targets in kg for metric users', () => {
+    const history = [session(bench.name, sets(132.3, [12, 12, 12]))];   // 60 kg
+    expect(suggest({ history, unitSystem: 'metric' }))
+      .toMatchObject({ weight: 137.8, reps: 8, reason: 'Hit 12 reps on every set. Add 2.5 kg.' });
+    const stalled = [session(bench.name, sets(220.5, [6, 5])), session(bench.name, sets(220.5, [7, 6]))];   // 100 kg
+    expect(suggest({ history: stalled, unitSystem: 'metric' })).toMatchObject({ weight: 198.4, action: 'deload' });
+  });
+
+  it('ignores warm-ups when reading the last session', () => {
+    const history = [session(bench.name, [{ weight: 95, reps: 12, type: 'warmup' }, ...sets(135, [12, 12])])];
+    expect(suggest({ history })).toMatchObject({ weight: 140 });
+  });
+});
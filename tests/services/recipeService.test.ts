@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  calculateRecipeNutrition,
+  ingredientsToRows,
+  lookupIngredient,
+  recipeFromRow,
+  recipeServingNutrition,
+  type RecipeIngredient,
+} from '../../services/recipeService';
+
+vi.mock('../../services/supabaseRawFetch', () => ({
+  getAuthToken: vi.fn(async () => 'test-token'),
+}));
+
+const ingredient = (name: string, grams: number, per100g: RecipeIngredient['per100g']): RecipeIngredient => ({
+  name, grams, per100g, microsPer100g: null, source: 'estimate',
+});
+
+// Two servings of overnight oats
+const OATS = [
+  ingredient('rolled oats', 80, { calories: 379, protein: 13, carbs: 68, fats: 6.5 }),
+  ingredient('greek yogurt', 200, { calories: 59, protein: 10, carbs: 3.6, fats: 0.7 }),
+  ingredient('banana', 120, { calories: 89, protein: 1.1, carbs: 23, fats: 0.3 }),
+];
+
+describe('lookupIngredient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('looks the name up server-side and keeps the gram amount', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      success: true,
+      data: { per100g: { calories: 68, protein: 3, carbs: 12, fats: 1 }, microsPer100g: null, source: 'estimate' },
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const oats = await lookupIngredient(' oatmeal ', 60);
+    expect(oats).toMatchObject({
+      name: 'oatmeal', grams: 60, source: 'estimate', microsPer100g: null,
+      per100g: { calories: 68, protein: 3, carbs: 12, fats: 1 },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/ai/lookup-ingredient');
+    expect(new Headers(init.headers).get('Authorization')).toBe('Bearer test-token');
+    expect(JSON.parse(init.body as string)).toEqual({ name: ' oatmeal ' });
+  });
+
+  it('throws the server message when the lookup is refused', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      success: false,
+      error: { type: 'rate_limit', message: 'Too many requests. Please try again later.', retryable: true },
+    }), { status: 429 })));
+
+    await expect(lookupIngredient('oatmeal', 60)).rejects.toThrow('Too many requests');
+  });
+});
+
+describe('calculateRecipeNutrition', () => {
+  it('sums ingredients and divides by the yield', () => {
+    const { totals, perServing } = calculateRecipeNutrition(OATS, 2);
+    expect(totals).toEqual({ calories: 528, protein: 32, carbs: 89, fats: 7 });
+    expect(perServing).toEqual({ calories: 264, protein: 16, carbs: 45, fats: 3 });
+  });
+
+  it('recomputes when an amount changes and treats a zero yield as one serving', () => {
+    const moreOats = OATS.map(i => i.name === 'rolled oats' ? { ...i, grams: 160 } : i);
+    expect(calculateRecipeNutrition(moreOats, 2).perServing.calories).toBe(416);
+    expect(calculateRecipeNutrition(OATS, 0).perServing.calories).toBe(528);
+  });
+});
+
+describe('recipeServingNutrition', () => {
+  it('scales per-serving nutrition by the servings eaten', () => {
+    expect(recipeServingNutrition({ ingredients: OATS, servings: 2 }, 1.5))
+      .toEqual({ calories: 396, protein: 24, carbs: 67, fats: 5, micros: undefined });
+  });
+});
+
+describe('recipe rows', () => {
+  it('round-trips ingredients in position order', () => {
+    const rows = ingredientsToRows('r1', 'u1', OATS);
+    const recipe = recipeFromRow({
+      id: 'r1', user_id: 'u1', name: 'Overnight oats', servings: '2.00',
+      recipe_ingredients: rows.map((row, i) => ({ ...row, id: `ri${i}` })).reverse(),
+      created_at: 't', updated_at: 't',
+    });
+    expect(recipe.servings).toBe(2);
+    expect(recipe.ingredients).toEqual(OATS);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { getSmartRecommendations } from '../../services/supplementService';
+
+describe('getSmartRecommendations', () => {
+  const openToRecs = { enabled: true, products: [], openToRecommendations: true };
+
+  it('leaves whey out of suggestions for dairy-free and vegan users', () => {
+    const ids = (prefs: Parameters<typeof getSmartRecommendations>[2]) =>
+      getSmartRecommendations('CUT', openToRecs, prefs).map(s => s.id);
+
+    expect(ids([])).toContain('whey_protein');
+    expect(ids(['dairy_free'])).not.toContain('whey_protein');
+    expect(ids(['vegan'])).not.toContain('whey_protein');
+    expect(ids(['milk'])).toEqual(['pre_workout', 'fat_burner']);
+  });
+
+  it('keeps supplements the user chose themselves', () => {
+    const recs = getSmartRecommendations('CUT', { ...openToRecs, products: ['whey_protein'] }, ['dairy_free']);
+    expect(recs.find(s => s.id === 'whey_protein')).toMatchObject({ isUserSelected: true });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { attachSetRows, exerciseSets, resolveExerciseId, setsToRows } from '../../services/workoutSetService';
+import { calculateTotalSets, calculateTotalVolume } from '../../utils/workoutUtils';
+import type { ExerciseLog } from '../../App';
+
+const legacy = (overrides: Partial<ExerciseLog> = {}): ExerciseLog => ({
+  id: 1,
+  name: 'Barbell Bench Press',
+  sets: '3',
+  reps: '8, 8, 6',
+  weight: '135',
+  ...overrides,
+});
+
+describe('workoutSetService', () => {
+  it('resolves library ids by id or exact name only', () => {
+    expect(resolveExerciseId({ name: 'barbell bench press' })).toBe('barbell-bench-press');
+    expect(resolveExerciseId({ name: 'Anything', exerciseId: 'barbell-bench-press' })).toBe('barbell-bench-press');
+    expect(resolveExerciseId({ name: 'Bench', exerciseId: 'not-a-real-id' })).toBeNull();
+  });
+
+  it('reconstructs sets from strings the way the backfill does', () => {
+    expect(exerciseSets(legacy()).sets.map(s => s.reps)).toEqual([8, 8, 6]);
+    expect(exerciseSets(legacy({ sets: '4-5', reps: '8-12' })).sets.map(s => s.reps)).toEqual([8, 8, 8, 8]);
+    expect(exerciseSets(legacy({ sets: '3', reps: 'AMRAP' })).sets).toEqual([]);
+    expect(exerciseSets(legacy()).estimated).toBe(true);
+  });
+
+  it('writes one row per logged set keyed by exercise id', () => {
+    const rows = setsToRows('w-1', 'u-1', '2026-10-19T10:00:00Z', [legacy({
+      loggedSets: [
+        { reps: 10, weight: 95, type: 'warmup' },
+        { reps: 8, weight: 185, type: 'working', rpe: 8.5 },
+      ],
+    })]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toMatchObject({
+      exercise_id: 'barbell-bench-press',
+      exercise_index: 0,
+      set_index: 1,
+      set_type: 'working',
+      reps: 8,
+      weight_lbs: 185,
+      rpe: 8.5,
+      estimated: false,
+    });
+  });
+
+  it('reads real numbers from rows, falling back to the JSON without them', () => {
+    const row = {
+      workout_id: 'w-1', user_id: 'u-1', exercise_id: 'barbell-bench-press', exercise_name: 'Barbell Bench Press',
+      exercise_index: 0, rpe: null, tempo: null, estimated: false, performed_at: '2026-10-01T10:00:00Z',
+    };
+    const [fromRows, fromJson] = attachSetRows([legacy(), legacy({ name: 'Custom Row' })], [
+      { ...row, set_index: 1, set_type: 'working', reps: 5, weight_lbs: 225, rir: 1 },
+      { ...row, set_index: 0, set_type: 'warmup', reps: 5, weight_lbs: 135, rir: null },
+    ]);
+
+    expect(fromRows.loggedSets).toEqual([
+      { reps: 5, weight: 135, type: 'warmup' },
+      { reps: 5, weight: 225, type: 'working', rir: 1 },
+    ]);
+    expect(fromRows.exerciseId).toBe('barbell-bench-press');
+    expect(calculateTotalVolume([fromRows])).toBe(5 * 225);
+    expect(calculateTotalSets([fromRows])).toBe(2);
+
+    expect(fromJson.setsEstimated).toBe(true);
+    expect(calculateTotalVolume([fromJson])).toBe(22 * 135);
+  });
+});
@@ -2,5 +2,6 @@ import '@testing-library/jest-dom/vitest';
 import { afterEach } from 'vitest';
 
 afterEach(() => {
-  localStorage.clear();
+  // Edge route suites run under the node environment, which has no localStorage
+  if (typeof localStorage !== 'undefined') localStorage.clear();
 });
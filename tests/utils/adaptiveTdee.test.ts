@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateAdaptiveTdee,
+  proposeTdeeUpdate,
+  smoothWeightTrend,
+  type AdaptiveTdeeEstimate,
+  type IntakeDay,
+  type WeighIn,
+} from '../../utils/adaptiveTdee';
+
+const END = '2026-10-19';
+
+/** YYYY-MM-DD for `daysAgo` days before END */
+function dateAgo(daysAgo: number): string {
+  const d = new Date(Date.UTC(2026, 9, 19 - daysAgo));
+  return d.toISOString().slice(0, 10);
+}
+
+/** Daily intake for the last `days` days, skipping every `skipEvery`th day */
+function intakeDays(days: number, calories: number, skipEvery = 0): IntakeDay[] {
+  return Array.from({ length: days }, (_, i) => ({
+    date: dateAgo(i),
+    calories: skipEvery && i % skipEvery === 0 ? 0 : calories,
+  }));
+}
+
+/** Weigh-ins every `every` days over `days` days, losing `lbsPerWeek` steadily around a ±1 lb water swing */
+function weighIns(days: number, startLbs: number, lbsPerWeek: number, every = 1): WeighIn[] {
+  const out: WeighIn[] = [];
+  for (let ago = days - 1; ago >= 0; ago -= every) {
+    const elapsed = days - 1 - ago;
+    const swing = elapsed % 2 === 0 ? 1 : -1;
+    out.push({ date: dateAgo(ago), weightLbs: startLbs - (lbsPerWeek / 7) * elapsed + swing });
+  }
+  return out;
+}
+
+describe('smoothWeightTrend', () => {
+  it('averages same-day readings and damps day-to-day swings', () => {
+    const trend = smoothWeightTrend([
+      { date: '2026-10-01', weightLbs: 181 },
+      { date: '2026-10-01T20:00:00Z', weightLbs: 179 },
+      { date: '2026-10-02', weightLbs: 184 },
+    ]);
+    expect(trend.map(p => p.weight)).toEqual([180, 184]);
+    expect(trend[1].trend).toBeCloseTo(180.4);
+  });
+
+  it('applies several days of smoothing across a gap', () => {
+    const trend = smoothWeightTrend([
+      { date: '2026-10-01', weightLbs: 180 },
+      { date: '2026-10-11', weightLbs: 170 },
+    ]);
+    // 1 - 0.9^10 ≈ 65% of the way
+    expect(trend[1].trend).toBeCloseTo(173.49, 1);
+  });
+});
+
+describe('estimateAdaptiveTdee', () => {
+  it('backs out expenditure from intake and the trend', () => {
+    // 2500 kcal/day while losing 1 lb/week ≈ 500 kcal/day deficit
+    const estimate = estimateAdaptiveTdee(intakeDays(28, 2500), weighIns(42, 190, 1), { endDate: END });
+    expect(estimate).toMatchObject({ windowDays: 21, loggedDays: 21, weighIns: 21, confidence: 'high' });
+    expect(estimate!.tdee).toBeGreaterThanOrEqual(2900);
+    expect(estimate!.tdee).toBeLessThanOrEqual(3050);
+    expect(estimate!.weeklyChangeLbs).toBeCloseTo(-1, 0);
+  });
+
+  it('averages logged days only and lowers confidence with sparse data', () => {
+    const estimate = estimateAdaptiveTdee(intakeDays(21, 2200, 3), weighIns(21, 180, 0, 4), { endDate: END });
+    expect(estimate).toMatchObject({ avgIntake: 2200, loggedDays: 14, weighIns: 6, confidence: 'medium' });
+  });
+
+  it('needs a week of logs and a week of trend', () => {
+    expect(estimateAdaptiveTdee(intakeDays(6, 2200), weighIns(21, 180, 0), { endDate: END })).toBeNull();
+    expect(estimateAdaptiveTdee(intakeDays(21, 2200), weighIns(5, 180, 0), { endDate: END })).toBeNull();
+  });
+
+  it('rejects an implausible result instead of proposing it', () => {
+    // Gaining 2 lb/week on 900 logged calories means meals went unlogged
+    expect(estimateAdaptiveTdee(intakeDays(21, 900), weighIns(35, 180, -2), { endDate: END })).toBeNull();
+  });
+});
+
+describe('proposeTdeeUpdate', () => {
+  const estimate = (tdee: number, confidence: AdaptiveTdeeEstimate['confidence']): AdaptiveTdeeEstimate => ({
+    tdee, confidence, avgIntake: 2000, weeklyChangeLbs: 0, windowDays: 21, loggedDays: 21, weighIns: 10,
+  });
+
+  it('moves toward the estimate by confidence, capped per step', () => {
+    expect(proposeTdeeUpdate(estimate(2600, 'high'), 2400)).toMatchObject({ proposedTdee: 2600, change: 200 });
+    expect(proposeTdeeUpdate(estimate(2600, 'medium'), 2400)).toMatchObject({ proposedTdee: 2500, change: 100 });
+    expect(proposeTdeeUpdate(estimate(1800, 'high'), 2400)).toMatchObject({ proposedTdee: 2150, change: -250 });
+  });
+
+  it('skips small changes and adopts the estimate when there is no current one', () => {
+    expect(proposeTdeeUpdate(estimate(2600, 'low'), 2450)).toBeNull();
+    expect(proposeTdeeUpdate(estimate(2600, 'low'), null)).toMatchObject({ proposedTdee: 2600, currentTdee: null });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendDietaryAlert,
+  dietaryRestrictionLabels,
+  findDietaryConflicts,
+  formatDietaryAlert,
+  formatDietaryContext,
+  validateDietaryPreferences,
+} from '../../utils/dietaryPreferences';
+
+describe('validateDietaryPreferences', () => {
+  it('keeps known ids once, in catalog order', () => {
+    expect(validateDietaryPreferences(['peanuts', 'keto', 'vegan', 42, 'peanuts'])).toEqual(['vegan', 'peanuts']);
+    expect(validateDietaryPreferences(null)).toEqual([]);
+    expect(validateDietaryPreferences('vegan')).toEqual([]);
+  });
+});
+
+describe('findDietaryConflicts', () => {
+  it('flags allergens before diet conflicts', () => {
+    const conflicts = findDietaryConflicts(['Chicken satay', 'Steamed rice'], ['vegetarian', 'peanuts']);
+    expect(conflicts.map(c => [c.food, c.preference, c.kind])).toEqual([
+      ['Chicken satay', 'peanuts', 'allergen'],
+      ['Chicken satay', 'vegetarian', 'diet'],
+    ]);
+  });
+
+  it('matches plurals but not look-alike words', () => {
+    expect(findDietaryConflicts(['Scrambled eggs'], ['eggs'])).toHaveLength(1);
+    expect(findDietaryConflicts(['Grilled eggplant', 'Ham sandwich', 'Veggie wrap'], ['eggs'])).toEqual([]);
+    expect(findDietaryConflicts(['Hamburger bun'], ['halal'])).toEqual([]);
+    expect(findDietaryConflicts(['Roasted cauliflower', 'Butternut squash soup'], ['wheat', 'milk'])).toEqual([]);
+  });
+
+  it('finds allergens inside compound words', () => {
+    const flagged = (food: string, prefs: Parameters<typeof findDietaryConflicts>[1]) =>
+      findDietaryConflicts([food], prefs).map(c => c.preference);
+
+    expect(flagged('Cheeseburger', ['milk', 'vegetarian'])).toEqual(['milk', 'vegetarian']);
+    expect(flagged('Hamburger', ['vegetarian', 'halal'])).toEqual(['vegetarian']);
+    expect(flagged('Peanutbutter sandwich', ['peanuts', 'dairy_free'])).toEqual(['peanuts']);
+    expect(flagged('Eggnog', ['eggs'])).toEqual(['eggs']);
+    expect(flagged('Shrimpfried rice', ['shellfish'])).toEqual(['shellfish']);
+  });
+
+  it('does not treat nut butters and plant milks as dairy', () => {
+    expect(findDietaryConflicts(['Peanut butter toast', 'Oat milk latte'], ['dairy_free'])).toEqual([]);
+    expect(findDietaryConflicts(['Dairy-free cheese'], ['dairy_free'])).toEqual([]);
+    expect(findDietaryConflicts(['Whey protein shake'], ['dairy_free'])).toHaveLength(1);
+  });
+
+  it('applies what each diet excludes', () => {
+    const foods = ['Pork dumplings', 'Shrimp tempura', 'Salmon fillet', 'Glass of wine', 'Honey'];
+    const flagged = (diet: Parameters<typeof findDietaryConflicts>[1][number]) =>
+      findDietaryConflicts(foods, [diet]).map(c => c.food);
+
+    expect(flagged('pescatarian')).toEqual(['Pork dumplings']);
+    expect(flagged('halal')).toEqual(['Pork dumplings', 'Glass of wine']);
+    expect(flagged('kosher')).toEqual(['Pork dumplings', 'Shrimp tempura']);
+    expect(flagged('vegan')).toEqual(['Pork dumplings', 'Shrimp tempura', 'Salmon fillet', 'Honey']);
+  });
+
+  it('treats soy sauce as gluten but not gluten-free bread', () => {
+    expect(findDietaryConflicts(['Soy sauce', 'Gluten-free bread'], ['gluten_free']).map(c => c.food)).toEqual(['Soy sauce']);
+  });
+});
+
+describe('formatting', () => {
+  it('builds prompt context only when something is declared', () => {
+    expect(formatDietaryContext([])).toBe('');
+    expect(formatDietaryContext(['vegetarian', 'tree_nuts'])).toBe(
+      'Diet: Vegetarian. Allergies: Tree nuts. Point out any food that may conflict with these.'
+    );
+    expect(dietaryRestrictionLabels(['halal', 'sesame'])).toEqual(['Halal', 'Sesame allergy']);
+  });
+
+  it('raises an allergen warning in markdown', () => {
+    const alert = formatDietaryAlert(findDietaryConflicts(['Pad thai with peanuts'], ['peanuts']));
+    expect(alert).toContain('### ⚠️ Allergen Warning');
+    expect(alert).toContain('**Pad thai with peanuts** may contain peanuts (on your allergy list)');
+    expect(formatDietaryAlert([])).toBe('');
+  });
+
+  it('appends the warning once', () => {
+    const markdown = appendDietaryAlert('## Meal Analysis', ['Bacon'], ['vegetarian']);
+    expect(markdown).toContain('### ⚠️ Diet Warning');
+    expect(appendDietaryAlert(markdown, ['Bacon'], ['vegetarian'])).toBe(markdown);
+    expect(appendDietaryAlert('## Meal Analysis', ['Rice'], ['vegetarian'])).toBe('## Meal Analysis');
+  });
+});
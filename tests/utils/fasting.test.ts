@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeFastingAdherence,
+  formatFastingWindow,
+  getFastingStatus,
+  isInEatingWindow,
+  summarizeFastingAdherence,
+  validateFastingWindow,
+} from '../../utils/fasting';
+
+const SIXTEEN_EIGHT = { start: '12:00', end: '20:00' };
+const NIGHT_SHIFT = { start: '22:00', end: '04:00' };
+
+/** Local time on 2026-10-19 (day offset optional) */
+const at = (h: number, m = 0, day = 19) => new Date(2026, 9, day, h, m);
+
+describe('validateFastingWindow', () => {
+  it('accepts two distinct HH:MM times only', () => {
+    expect(validateFastingWindow({ start: '12:00', end: '20:00', extra: 1 })).toEqual(SIXTEEN_EIGHT);
+    expect(validateFastingWindow({ start: '12:00', end: '12:00' })).toBeNull();
+    expect(validateFastingWindow({ start: '24:00', end: '08:00' })).toBeNull();
+    expect(validateFastingWindow({ start: '9:00', end: '17:00' })).toBeNull();
+    expect(validateFastingWindow(null)).toBeNull();
+  });
+});
+
+describe('isInEatingWindow', () => {
+  it('includes both edges of a daytime window', () => {
+    expect(isInEatingWindow(at(12), SIXTEEN_EIGHT)).toBe(true);
+    expect(isInEatingWindow(at(20), SIXTEEN_EIGHT)).toBe(true);
+    expect(isInEatingWindow(at(20, 1), SIXTEEN_EIGHT)).toBe(false);
+    expect(isInEatingWindow(at(11, 59), SIXTEEN_EIGHT)).toBe(false);
+  });
+
+  it('handles windows that cross midnight', () => {
+    expect(isInEatingWindow(at(23), NIGHT_SHIFT)).toBe(true);
+    expect(isInEatingWindow(at(3), NIGHT_SHIFT)).toBe(true);
+    expect(isInEatingWindow(at(12), NIGHT_SHIFT)).toBe(false);
+    expect(formatFastingWindow(NIGHT_SHIFT)).toBe('18:6 (22:00–04:00)');
+  });
+});
+
+describe('getFastingStatus', () => {
+  it('counts down to the window closing while eating', () => {
+    const status = getFastingStatus(at(16), SIXTEEN_EIGHT, at(13));
+    expect(status).toMatchObject({ state: 'eating', changesAt: at(20), fastingSince: null, progress: 0.5 });
+  });
+
+  it('times the fast from the last meal of the most recent window', () => {
+    const status = getFastingStatus(at(8, 0, 20), SIXTEEN_EIGHT, at(19));
+    expect(status.state).toBe('fasting');
+    expect(status.changesAt).toEqual(at(12, 0, 20));
+    expect(status.fastingSince).toEqual(at(19));
+    expect(status.progress).toBeCloseTo(13 / 17);
+  });
+
+  it('falls back to the window close when the last meal is older', () => {
+    const status = getFastingStatus(at(8, 0, 20), SIXTEEN_EIGHT, at(9, 0, 17));
+    expect(status.fastingSince).toEqual(at(20));
+    expect(getFastingStatus(at(8, 0, 20), SIXTEEN_EIGHT, null).fastingSince).toEqual(at(20));
+  });
+});
+
+describe('summarizeFastingAdherence', () => {
+  it('counts logged days kept inside the window and stray meals', () => {
+    const meal = (date: string, h: number) => ({
+      date,
+      created_at: new Date(`${date}T${String(h).padStart(2, '0')}:30:00`).toISOString(),
+    });
+    const adherence = summarizeFastingAdherence(
+      [meal('2026-10-17', 13), meal('2026-10-17', 19), meal('2026-10-18', 8), meal('2026-10-18', 14), meal('2026-10-18', 22)],
+      SIXTEEN_EIGHT,
+      ['2026-10-17', '2026-10-18', '2026-10-19']
+    );
+    expect(adherence).toEqual({ window: SIXTEEN_EIGHT, daysLogged: 2, daysInWindow: 1, mealsOutsideWindow: 2 });
+    expect(describeFastingAdherence(adherence)).toBe(
+      'FASTING WINDOW: 16:8 (12:00–20:00)\n- 1/2 logged days ate only inside the window\n- 2 meals logged outside the window\n' +
+      'Comment on how well they kept to the eating window.'
+    );
+  });
+});
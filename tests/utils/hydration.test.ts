@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateHydrationTarget,
+  formatWater,
+  recentHydrationPercent,
+  totalForDate,
+  type HydrationEntry,
+} from '../../utils/hydration';
+
+const NOW = Date.parse('2026-10-19T18:00:00Z');
+
+const entry = (hoursAgo: number, amount_ml: number, date = '2026-10-19'): HydrationEntry => ({
+  id: `${hoursAgo}`,
+  user_id: 'u1',
+  date,
+  amount_ml,
+  created_at: new Date(NOW - hoursAgo * 3_600_000).toISOString(),
+});
+
+describe('calculateHydrationTarget', () => {
+  it('scales with body weight and adds extra on training days', () => {
+    // 180 lbs → 90 oz ≈ 2662 ml
+    expect(calculateHydrationTarget(180, false)).toBe(2650);
+    expect(calculateHydrationTarget(180, true)).toBe(3150);
+  });
+
+  it('falls back to a default and stays within sane bounds', () => {
+    expect(calculateHydrationTarget(null, false)).toBe(2500);
+    expect(calculateHydrationTarget(90, false)).toBe(1500);
+    expect(calculateHydrationTarget(400, true)).toBe(5000);
+  });
+});
+
+describe('totals', () => {
+  it('sums a day and formats in fl oz', () => {
+    const entries = [entry(1, 500), entry(3, 355), entry(30, 1000, '2026-10-18')];
+    expect(totalForDate(entries, '2026-10-19')).toBe(855);
+    expect(formatWater(855)).toBe('29 oz');
+  });
+
+  it('reports the last 24 hours against the target', () => {
+    const entries = [entry(2, 1000), entry(20, 500), entry(30, 2000, '2026-10-18')];
+    expect(recentHydrationPercent(entries, 3000, NOW)).toBe(50);
+  });
+
+  it('is unknown (not zero) for users who have not logged water lately', () => {
+    expect(recentHydrationPercent([], 3000, NOW)).toBeNull();
+    expect(recentHydrationPercent([entry(24 * 8, 1000, '2026-10-11')], 3000, NOW)).toBeNull();
+    expect(recentHydrationPercent([entry(48, 1000, '2026-10-17')], 3000, NOW)).toBe(0);
+  });
+});
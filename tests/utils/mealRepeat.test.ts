@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, repeatDates, withDate, MAX_REPEAT_WEEKS } from '../../utils/mealRepeat';
+
+// 2026-10-19 is a Monday
+const MONDAY = '2026-10-19';
+const FRIDAY = '2026-10-23';
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2026-10-31', 1)).toBe('2026-11-01');
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+});
+
+describe('repeatDates', () => {
+  it('weekly repeats the same weekday and never includes the source day', () => {
+    expect(repeatDates(MONDAY, 'weekly', 3)).toEqual(['2026-10-26', '2026-11-02', '2026-11-09']);
+  });
+
+  it('weekdays skips weekends', () => {
+    const dates = repeatDates(FRIDAY, 'weekdays', 1);
+    expect(dates).toEqual(['2026-10-26', '2026-10-27', '2026-10-28', '2026-10-29', '2026-10-30']);
+    expect(repeatDates(MONDAY, 'weekdays', 2)).toHaveLength(10);
+  });
+
+  it('clamps the number of weeks', () => {
+    expect(repeatDates(MONDAY, 'weekly', 0)).toHaveLength(1);
+    expect(repeatDates(MONDAY, 'weekly', 100)).toHaveLength(MAX_REPEAT_WEEKS);
+  });
+});
+
+describe('withDate', () => {
+  it('keeps the local time of day on the new date', () => {
+    const source = new Date(2026, 9, 19, 8, 30).toISOString();
+    const moved = new Date(withDate(source, '2026-11-02'));
+    expect([moved.getFullYear(), moved.getMonth(), moved.getDate()]).toEqual([2026, 10, 2]);
+    expect([moved.getHours(), moved.getMinutes()]).toEqual([8, 30]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  averageCompleteDays,
+  calculateMicronutrientTargets,
+  findMicronutrientFlags,
+  microsFromRow,
+  microsToRow,
+  sumMicronutrients,
+} from '../../utils/micronutrients';
+import { extractMacrosFromUSDA } from '../../services/nutritionService';
+import type { Micronutrients } from '../../lib/ai/types';
+
+const micros = (overrides: Partial<Micronutrients> = {}): Micronutrients => ({
+  fiber: 0, sugar: 0, sodium: 0, potassium: 0, iron: 0, calcium: 0, vitaminC: 0, vitaminD: 0,
+  ...overrides,
+});
+
+describe('extractMacrosFromUSDA', () => {
+  it('keeps fiber, sugar, minerals and vitamins', () => {
+    const data = extractMacrosFromUSDA({
+      fdcId: 1, description: 'Broccoli, raw', dataType: 'Foundation',
+      foodNutrients: [
+        [1008, 34], [1079, 2.6], [2000, 1.7], [1093, 33], [1092, 316], [1089, 0.73], [1087, 47], [1162, 89.2],
+      ].map(([nutrientId, value]) => ({ nutrientId, value, nutrientName: '', nutrientNumber: '', unitName: '' })),
+    });
+
+    expect(data.calories).toBe(34);
+    expect(data.micros).toEqual(micros({ fiber: 2.6, sugar: 1.7, sodium: 33, potassium: 316, iron: 0.73, calcium: 47, vitaminC: 89.2 }));
+  });
+});
+
+describe('sumMicronutrients', () => {
+  it('skips meals without data and is undefined when none have it', () => {
+    expect(sumMicronutrients([micros({ fiber: 4.25 }), null, micros({ fiber: 3, sodium: 120 })]))
+      .toEqual(micros({ fiber: 7.3, sodium: 120 }));
+    expect(sumMicronutrients([null, undefined])).toBeUndefined();
+  });
+});
+
+describe('averageCompleteDays', () => {
+  it('averages only days where every meal had data', () => {
+    // Two fully scanned days, and one where an unscanned lunch left fiber looking low
+    const week = [
+      { micros: micros({ fiber: 30 }), microsComplete: true },
+      { micros: micros({ fiber: 4 }), microsComplete: false },
+      { micros: micros({ fiber: 26 }), microsComplete: true },
+      {},
+    ];
+
+    const { average, completeDays, partialDays } = averageCompleteDays(week);
+    expect(average).toEqual(micros({ fiber: 28 }));
+    expect(completeDays).toBe(2);
+    expect(partialDays).toBe(1);
+    expect(findMicronutrientFlags(average!, micros({ fiber: 30 }))).toEqual([]);
+  });
+
+  it('has no average when no day is complete', () => {
+    expect(averageCompleteDays([{ micros: micros({ fiber: 4 }), microsComplete: false }]))
+      .toEqual({ average: undefined, completeDays: 0, partialDays: 1 });
+  });
+});
+
+describe('meal_entries rows', () => {
+  it('round-trips through snake_case columns and treats all-null as unmeasured', () => {
+    const row = microsToRow(micros({ vitaminC: 45.04, vitaminD: 2 }));
+    expect(row).toMatchObject({ vitamin_c: 45, vitamin_d: 2, fiber: 0 });
+    expect(microsFromRow(row)).toEqual(micros({ vitaminC: 45, vitaminD: 2 }));
+    expect(microsFromRow(microsToRow(null))).toBeNull();
+  });
+});
+
+describe('calculateMicronutrientTargets', () => {
+  it('uses age and gender reference intakes and scales fiber with calories', () => {
+    const woman = calculateMicronutrientTargets({ age: 32, gender: 'female' }, 2000);
+    expect(woman).toMatchObject({ fiber: 28, sugar: 50, iron: 18, calcium: 1000, vitaminC: 75, potassium: 2600 });
+
+    const olderWoman = calculateMicronutrientTargets({ age: 60, gender: 'female' }, 2000);
+    expect(olderWoman).toMatchObject({ iron: 8, calcium: 1200 });
+
+    const man = calculateMicronutrientTargets({ age: 75, gender: 'male' }, 2500);
+    expect(man).toMatchObject({ fiber: 35, iron: 8, calcium: 1200, vitaminC: 90, vitaminD: 20 });
+  });
+
+  it('falls back to label Daily Values without gender', () => {
+    expect(calculateMicronutrientTargets({ age: null, gender: null }, 2200))
+      .toMatchObject({ potassium: 4700, iron: 18, calcium: 1300, vitaminD: 20 });
+  });
+});
+
+describe('findMicronutrientFlags', () => {
+  it('flags minimums under 70% and ceilings over 100%, worst first', () => {
+    const targets = micros({ fiber: 30, sugar: 50, sodium: 2300, iron: 18, calcium: 1000 });
+    const intake = micros({ fiber: 12, sugar: 40, sodium: 3450, iron: 15, calcium: 600 });
+
+    expect(findMicronutrientFlags(intake, targets).map(f => [f.key, f.kind, f.percent])).toEqual([
+      ['fiber', 'shortfall', 40],
+      ['sodium', 'excess', 150],
+      ['calcium', 'shortfall', 60],
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addPlate,
+  calculatePlates,
+  DEFAULT_PLATE_INVENTORIES,
+  formatPlates,
+  parsePlateWeight,
+  removePlate,
+  validatePlateInventory,
+} from '../../utils/plateCalculator';
+
+const LBS = DEFAULT_PLATE_INVENTORIES.lbs;
+const KG = DEFAULT_PLATE_INVENTORIES.kg;
+
+describe('calculatePlates', () => {
+  it('loads heaviest plates first on each side', () => {
+    expect(calculatePlates(225, LBS)).toEqual({ perSide: [45, 45], loaded: 225, remainder: 0 });
+    expect(calculatePlates(185, LBS)).toEqual({ perSide: [45, 25], loaded: 185, remainder: 0 });
+    expect(calculatePlates(102.5, KG)).toEqual({ perSide: [25, 15, 1.25], loaded: 102.5, remainder: 0 });
+    expect(formatPlates(calculatePlates(45, LBS)!.perSide)).toBe('Empty bar');
+  });
+
+  it('respects how many pairs of each plate there are', () => {
+    const inventory = { unit: 'lbs' as const, bar: 45, plates: [{ weight: 45, pairs: 1 }, { weight: 25, pairs: 2 }] };
+    expect(calculatePlates(275, inventory)).toEqual({ perSide: [45, 25, 25], loaded: 235, remainder: 40 });
+  });
+
+  it('reports what it cannot make and rejects weights under the bar', () => {
+    expect(calculatePlates(186, LBS)).toEqual({ perSide: [45, 25], loaded: 185, remainder: 1 });
+    expect(calculatePlates(30, LBS)).toBeNull();
+    expect(calculatePlates(0, LBS)).toBeNull();
+  });
+});
+
+describe('validatePlateInventory', () => {
+  it('falls back to the default for the unit', () => {
+    expect(validatePlateInventory(null, 'kg')).toBe(KG);
+    expect(validatePlateInventory(LBS, 'kg')).toBe(KG);
+    expect(validatePlateInventory({ unit: 'lbs', bar: 0, plates: [] }, 'lbs')).toBe(LBS);
+  });
+
+  it('drops malformed plates and sorts the rest', () => {
+    expect(validatePlateInventory({
+      unit: 'kg',
+      bar: 15,
+      plates: [{ weight: 10, pairs: 2 }, { weight: -5, pairs: 1 }, { weight: 20, pairs: 1.5 }, { weight: 20, pairs: 1 }],
+    }, 'kg')).toEqual({ unit: 'kg', bar: 15, plates: [{ weight: 20, pairs: 1 }, { weight: 10, pairs: 2 }] });
+  });
+});
+
+describe('custom plates', () => {
+  it('parses typed weights, including comma decimals', () => {
+    expect(parsePlateWeight('1.25')).toBe(1.25);
+    expect(parsePlateWeight('0,5')).toBe(0.5);
+    expect(parsePlateWeight('')).toBeNull();
+    expect(parsePlateWeight('-5')).toBeNull();
+  });
+
+  it('adds and removes plate sizes, keeping heaviest first', () => {
+    const withFractional = addPlate(LBS, 1.25);
+    expect(withFractional.plates.at(-1)).toEqual({ weight: 1.25, pairs: 1 });
+    expect(addPlate(withFractional, 1.25)).toBe(withFractional);
+    expect(calculatePlates(47.5, withFractional)).toEqual({ perSide: [1.25], loaded: 47.5, remainder: 0 });
+
+    const without45s = removePlate(withFractional, 45);
+    expect(without45s.plates.map(p => p.weight)).toEqual([35, 25, 10, 5, 2.5, 1.25]);
+  });
+});
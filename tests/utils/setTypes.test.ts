@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeEffort,
+  effectiveRpe,
+  parseRpe,
+  parseTempo,
+  summarizeEffort,
+  validateLoggedSet,
+} from '../../utils/setTypes';
+import { calculateTotalVolume } from '../../utils/workoutUtils';
+
+describe('set parsing', () => {
+  it('rounds RPE to half points and rejects out-of-range values', () => {
+    expect(parseRpe('8.3')).toBe(8.5);
+    expect(parseRpe(11)).toBeUndefined();
+    expect(parseRpe('')).toBeUndefined();
+  });
+
+  it('normalizes tempo with or without dashes', () => {
+    expect(parseTempo('31x0')).toBe('3-1-X-0');
+    expect(parseTempo('3-1-1-0')).toBe('3-1-1-0');
+    expect(parseTempo('slow')).toBeUndefined();
+  });
+
+  it('derives RPE from RIR when RPE is missing', () => {
+    expect(effectiveRpe({ rir: 2 })).toBe(8);
+    expect(effectiveRpe({ rpe: 9, rir: 3 })).toBe(9);
+    expect(effectiveRpe({})).toBeUndefined();
+  });
+
+  it('validates stored sets, defaulting the type to working', () => {
+    expect(validateLoggedSet({ reps: '8', weight: '135', rpe: '8', tempo: 'bad' }))
+      .toEqual({ reps: 8, weight: 135, type: 'working', rpe: 8 });
+    expect(validateLoggedSet({ reps: '', weight: '135', type: 'warmup' })).toBeNull();
+  });
+});
+
+describe('calculateTotalVolume', () => {
+  it('uses logged sets and excludes warm-ups', () => {
+    const volume = calculateTotalVolume([{
+      sets: '3', reps: '5, 5, 5', weight: '200',
+      loggedSets: [
+        { reps: 5, weight: 95, type: 'warmup' },
+        { reps: 5, weight: 225, type: 'working' },
+        { reps: 8, weight: 185, type: 'drop' },
+      ],
+    }]);
+    expect(volume).toBe(5 * 225 + 8 * 185);
+  });
+
+  it('falls back to the string fields for older logs', () => {
+    expect(calculateTotalVolume([{ sets: '3', reps: '10', weight: '100' }])).toBe(3000);
+  });
+});
+
+describe('summarizeEffort', () => {
+  it('averages rated working sets per exercise, newest session first', () => {
+    const efforts = summarizeEffort([
+      { log: [{ name: 'Squat', loggedSets: [
+        { reps: 5, weight: 95, type: 'warmup', rpe: 4 },
+        { reps: 5, weight: 225, type: 'working', rpe: 9 },
+        { reps: 5, weight: 225, type: 'working', rir: 0 },
+      ] }] },
+      { log: [{ name: 'squat', loggedSets: [{ reps: 5, weight: 215, type: 'working', rpe: 7 }] }] },
+      { log: [{ name: 'Bench', loggedSets: [{ reps: 8, weight: 155, type: 'working' }] }] },
+    ]);
+
+    expect(efforts).toEqual([{ name: 'Squat', sessions: 2, avgRpe: 8.3, lastRpe: 9.5 }]);
+    expect(describeEffort(efforts)).toContain('- Squat: last session RPE 9.5, average RPE 8.3 over 2 sessions');
+  });
+});
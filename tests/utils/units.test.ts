@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cmToInches,
+  formatHeight,
+  formatWeight,
+  fromDisplayWeight,
+  inchesToCm,
+  toDisplayWeight,
+  validateUnitSystem,
+} from '../../utils/units';
+
+describe('units', () => {
+  it('defaults anything unknown to imperial', () => {
+    expect(validateUnitSystem('metric')).toBe('metric');
+    expect(validateUnitSystem('imperial')).toBe('imperial');
+    expect(validateUnitSystem('kg')).toBe('imperial');
+    expect(validateUnitSystem(null)).toBe('imperial');
+  });
+
+  it('converts weights at the edges and leaves imperial alone', () => {
+    expect(toDisplayWeight(185, 'imperial')).toBe(185);
+    expect(toDisplayWeight(220.5, 'metric')).toBe(100);
+    expect(fromDisplayWeight(100, 'metric')).toBe(220.5);
+    expect(fromDisplayWeight(135, 'imperial')).toBe(135);
+    expect(toDisplayWeight(fromDisplayWeight(82.5, 'metric'), 'metric')).toBe(82.5);
+    expect(formatWeight(185, 'imperial')).toBe('185 lbs');
+    expect(formatWeight(185, 'metric')).toBe('83.9 kg');
+  });
+
+  it('converts and formats heights', () => {
+    expect(inchesToCm(70)).toBe(178);
+    expect(cmToInches(178)).toBe(70);
+    expect(formatHeight(70, 'imperial')).toBe(`5'10"`);
+    expect(formatHeight(70, 'metric')).toBe('178 cm');
+  });
+});
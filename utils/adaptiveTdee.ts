@@ -0,0 +1,215 @@
+/**
+ * Adaptive TDEE — estimate real energy expenditure from logged intake and the
+ * weight trend, instead of trusting the Mifflin-St Jeor × activity guess forever.
+ * Pure functions: no React, no API calls.
+ *
+ * Energy balance: over a window, expenditure = average intake − energy stored,
+ * where stored energy is the change in trend weight × ~3500 kcal/lb. Daily scale
+ * readings swing with water and food, so the trend is an exponentially smoothed
+ * average (the Hacker's Diet approach) rather than the raw readings.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IntakeDay {
+  date: string;      // YYYY-MM-DD
+  calories: number;  // 0 = not logged
+}
+
+export interface WeighIn {
+  date: string;      // YYYY-MM-DD
+  weightLbs: number;
+}
+
+export interface TrendPoint {
+  date: string;
+  weight: number;    // Average of that day's readings
+  trend: number;     // Smoothed weight
+}
+
+export type TdeeConfidence = 'low' | 'medium' | 'high';
+
+export interface AdaptiveTdeeEstimate {
+  tdee: number;             // kcal/day, rounded to 10
+  avgIntake: number;        // kcal/day over logged days
+  weeklyChangeLbs: number;  // Trend weight change per week
+  windowDays: number;
+  loggedDays: number;
+  weighIns: number;
+  confidence: TdeeConfidence;
+}
+
+export interface TdeeProposal {
+  currentTdee: number | null;
+  proposedTdee: number;
+  change: number;           // proposed − current (0 when there was no current estimate)
+  confidence: TdeeConfidence;
+  estimate: AdaptiveTdeeEstimate;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const KCAL_PER_LB = 3500;
+const DAY_MS = 86_400_000;
+
+// Share of each day's deviation from trend absorbed into the trend
+const TREND_ALPHA = 0.1;
+
+// Rolling window (2–4 weeks)
+const MIN_WINDOW_DAYS = 14;
+const MAX_WINDOW_DAYS = 28;
+const DEFAULT_WINDOW_DAYS = 21;
+
+// Below these the numbers are noise; no estimate at all
+const MIN_LOGGED_DAYS = 7;
+const MIN_TREND_SPAN_DAYS = 7;
+
+// Anything outside this range means missing logs or bad weigh-ins, not metabolism
+const PLAUSIBLE_TDEE = { min: 1000, max: 6000 };
+
+// How far a proposal moves toward the estimate, and the largest single step
+const CONFIDENCE_WEIGHT: Record<TdeeConfidence, number> = { low: 0.25, medium: 0.5, high: 1 };
+const MAX_STEP_KCAL = 250;
+const MIN_CHANGE_KCAL = 50;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Whole days since the epoch for a YYYY-MM-DD date (timezone-free). */
+function dayNumber(date: string): number {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+}
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+// ============================================================================
+// Weight Trend
+// ============================================================================
+
+/**
+ * Exponentially smoothed weight trend, one point per day with a weigh-in.
+ * Several readings on one day are averaged. A gap of n days applies n days of
+ * smoothing at once, so sparse weigh-ins still move the trend proportionally.
+ */
+export function smoothWeightTrend(weighIns: WeighIn[], alpha: number = TREND_ALPHA): TrendPoint[] {
+  const byDate = new Map<string, number[]>();
+  for (const w of weighIns) {
+    if (!(w.weightLbs > 0)) continue;
+    const date = w.date.slice(0, 10);
+    byDate.set(date, [...(byDate.get(date) ?? []), w.weightLbs]);
+  }
+
+  const days = [...byDate.entries()]
+    .map(([date, readings]) => ({ date, weight: readings.reduce((a, b) => a + b, 0) / readings.length }))
+    .sort((a, b) => dayNumber(a.date) - dayNumber(b.date));
+
+  const points: TrendPoint[] = [];
+  for (const day of days) {
+    const prev = points[points.length - 1];
+    if (!prev) {
+      points.push({ ...day, trend: day.weight });
+      continue;
+    }
+    const gap = dayNumber(day.date) - dayNumber(prev.date);
+    const weight = 1 - Math.pow(1 - alpha, gap);
+    points.push({ ...day, trend: prev.trend + weight * (day.weight - prev.trend) });
+  }
+  return points;
+}
+
+// ============================================================================
+// Expenditure Estimate
+// ============================================================================
+
+function confidenceFor(coverage: number, trendSpan: number, weighIns: number): TdeeConfidence {
+  if (coverage >= 0.85 && trendSpan >= 14 && weighIns >= 8) return 'high';
+  if (coverage >= 0.6 && trendSpan >= 10 && weighIns >= 4) return 'medium';
+  return 'low';
+}
+
+/**
+ * Back out TDEE from the last `windowDays` (clamped to 14–28) of intake and
+ * weight trend. Unlogged days are left out of the intake average rather than
+ * counted as zero. Returns null when there isn't enough data, or when the
+ * result is implausible (usually meals that were eaten but not logged).
+ */
+export function estimateAdaptiveTdee(
+  intake: IntakeDay[],
+  weighIns: WeighIn[],
+  options: { windowDays?: number; endDate?: string } = {}
+): AdaptiveTdeeEstimate | null {
+  const windowDays = Math.min(MAX_WINDOW_DAYS, Math.max(MIN_WINDOW_DAYS, options.windowDays ?? DEFAULT_WINDOW_DAYS));
+
+  const trend = smoothWeightTrend(weighIns);
+  const lastDates = [...intake.map(d => d.date), ...trend.map(p => p.date)];
+  if (!options.endDate && lastDates.length === 0) return null;
+  const end = options.endDate
+    ? dayNumber(options.endDate)
+    : Math.max(...lastDates.map(dayNumber));
+  const start = end - windowDays + 1;
+
+  // Intake: one value per logged day in the window
+  const intakeByDay = new Map<number, number>();
+  for (const d of intake) {
+    const day = dayNumber(d.date);
+    if (day >= start && day <= end && d.calories > 0) intakeByDay.set(day, d.calories);
+  }
+  const loggedDays = intakeByDay.size;
+  if (loggedDays < MIN_LOGGED_DAYS) return null;
+  const avgIntake = [...intakeByDay.values()].reduce((a, b) => a + b, 0) / loggedDays;
+
+  // Trend: anchor on the last point at or before the window start (so earlier
+  // history keeps smoothing), else the first point inside the window
+  const inWindow = trend.filter(p => dayNumber(p.date) >= start && dayNumber(p.date) <= end);
+  const before = trend.filter(p => dayNumber(p.date) < start);
+  const first = before[before.length - 1] ?? inWindow[0];
+  const last = inWindow[inWindow.length - 1];
+  if (!first || !last || first === last) return null;
+
+  const trendSpan = dayNumber(last.date) - dayNumber(first.date);
+  if (trendSpan < MIN_TREND_SPAN_DAYS) return null;
+
+  const lbsPerDay = (last.trend - first.trend) / trendSpan;
+  const tdee = avgIntake - lbsPerDay * KCAL_PER_LB;
+  if (tdee < PLAUSIBLE_TDEE.min || tdee > PLAUSIBLE_TDEE.max) return null;
+
+  return {
+    tdee: roundTo(tdee, 10),
+    avgIntake: Math.round(avgIntake),
+    weeklyChangeLbs: Math.round(lbsPerDay * 7 * 100) / 100,
+    windowDays,
+    loggedDays,
+    weighIns: inWindow.length,
+    confidence: confidenceFor(loggedDays / windowDays, trendSpan, inWindow.length),
+  };
+}
+
+// ============================================================================
+// Target Proposal
+// ============================================================================
+
+/**
+ * Propose a new TDEE for the user's targets. With a current estimate, the
+ * proposal moves part of the way toward the adaptive estimate (all the way at
+ * high confidence), at most 250 kcal per recalibration. Returns null when the
+ * change would be under 50 kcal — the current targets are working.
+ */
+export function proposeTdeeUpdate(estimate: AdaptiveTdeeEstimate, currentTdee: number | null): TdeeProposal | null {
+  if (currentTdee === null) {
+    return { currentTdee, proposedTdee: estimate.tdee, change: 0, confidence: estimate.confidence, estimate };
+  }
+
+  const gap = estimate.tdee - currentTdee;
+  const step = Math.max(-MAX_STEP_KCAL, Math.min(MAX_STEP_KCAL, gap * CONFIDENCE_WEIGHT[estimate.confidence]));
+  const proposedTdee = roundTo(currentTdee + step, 10);
+  const change = proposedTdee - currentTdee;
+  if (Math.abs(change) < MIN_CHANGE_KCAL) return null;
+
+  return { currentTdee, proposedTdee, change, confidence: estimate.confidence, estimate };
+}
@@ -0,0 +1,141 @@
+/**
+ * In-browser EAN/UPC decoding via the Shape Detection API (BarcodeDetector),
+ * with ZXing (@zxing/library, plain JS) where the API isn't available
+ * (Firefox, Safari). ZXing is only loaded the first time it's needed.
+ *
+ * Images never leave the device. UPC-E codes are expanded to UPC-A so every
+ * decoder returns something normalizeBarcode accepts.
+ */
+
+import { expandUpcE } from '../services/productService';
+import type { DecodeHintType, MultiFormatReader } from '@zxing/library';
+
+// Not in TypeScript's DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats?(): Promise<string[]>;
+}
+
+const PRODUCT_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+function getDetectorClass(): BarcodeDetectorConstructor | null {
+  if (typeof window === 'undefined') return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+/** Whether this browser can decode at all: natively, or by drawing frames to a canvas for ZXing */
+export function isBarcodeDetectionSupported(): boolean {
+  if (getDetectorClass()) return true;
+  return typeof document !== 'undefined' && typeof createImageBitmap === 'function';
+}
+
+export interface BarcodeDecoder {
+  /** First product barcode in the frame/image, or null. */
+  detect(source: ImageBitmapSource): Promise<string | null>;
+}
+
+const fromUpcE = (code: string): string => expandUpcE(code) ?? code;
+
+function createNativeDecoder(Detector: BarcodeDetectorConstructor): BarcodeDecoder {
+  const detector = new Detector({ formats: PRODUCT_FORMATS });
+
+  return {
+    async detect(source) {
+      try {
+        const codes = await detector.detect(source);
+        const code = codes.find(c => PRODUCT_FORMATS.includes(c.format));
+        if (!code) return null;
+        return code.format === 'upc_e' ? fromUpcE(code.rawValue) : code.rawValue;
+      } catch {
+        // Frames that aren't ready yet (video warming up) throw; treat as no code
+        return null;
+      }
+    },
+  };
+}
+
+// ============================================================================
+// ZXing fallback
+// ============================================================================
+
+let zxingPromise: Promise<typeof import('@zxing/library')> | null = null;
+
+function loadZxing() {
+  zxingPromise ??= import('@zxing/library');
+  return zxingPromise;
+}
+
+function createZxingDecoder(): BarcodeDecoder {
+  const canvas = document.createElement('canvas');
+  let reader: MultiFormatReader | null = null;
+
+  return {
+    async detect(source) {
+      try {
+        const zxing = await loadZxing();
+        if (!reader) {
+          reader = new zxing.MultiFormatReader();
+          reader.setHints(new Map<DecodeHintType, unknown>([
+            [zxing.DecodeHintType.POSSIBLE_FORMATS, [
+              zxing.BarcodeFormat.EAN_13, zxing.BarcodeFormat.EAN_8, zxing.BarcodeFormat.UPC_A, zxing.BarcodeFormat.UPC_E,
+            ]],
+            [zxing.DecodeHintType.TRY_HARDER, true],
+          ]));
+        }
+
+        const bitmap = await createImageBitmap(source);
+        try {
+          canvas.width = bitmap.width;
+          canvas.height = bitmap.height;
+          canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+        } finally {
+          bitmap.close();
+        }
+
+        const luminance = new zxing.HTMLCanvasElementLuminanceSource(canvas);
+        const result = reader.decodeWithState(new zxing.BinaryBitmap(new zxing.HybridBinarizer(luminance)));
+        return result.getBarcodeFormat() === zxing.BarcodeFormat.UPC_E ? fromUpcE(result.getText()) : result.getText();
+      } catch {
+        // ZXing throws NotFoundException for frames without a code; same for frames not ready yet
+        return null;
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create a decoder for product barcodes: BarcodeDetector when the browser has
+ * it, ZXing otherwise. Null only outside a browser.
+ */
+export function createBarcodeDecoder(): BarcodeDecoder | null {
+  const Detector = getDetectorClass();
+  if (Detector) return createNativeDecoder(Detector);
+  return isBarcodeDetectionSupported() ? createZxingDecoder() : null;
+}
+
+/**
+ * Decode a barcode from an uploaded photo.
+ */
+export async function decodeBarcodeFromFile(file: File): Promise<string | null> {
+  const decoder = createBarcodeDecoder();
+  if (!decoder) return null;
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await decoder.detect(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
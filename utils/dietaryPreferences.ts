@@ -0,0 +1,295 @@
+/**
+ * Dietary preferences — diets (vegetarian, halal, gluten-free, ...) and food
+ * allergens, stored on the profile as a flat list of ids. Pure functions: no
+ * React, no API calls, so the edge routes and the UI share one catalog.
+ *
+ * Matching works on food names (what the AI identified or the user typed),
+ * so it flags likely conflicts rather than certifying a meal as safe.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DietId =
+  | 'vegetarian'
+  | 'vegan'
+  | 'pescatarian'
+  | 'halal'
+  | 'kosher'
+  | 'gluten_free'
+  | 'dairy_free';
+
+// The major food allergens (US "Big 9")
+export type AllergenId =
+  | 'peanuts'
+  | 'tree_nuts'
+  | 'milk'
+  | 'eggs'
+  | 'fish'
+  | 'shellfish'
+  | 'soy'
+  | 'wheat'
+  | 'sesame';
+
+export type DietaryPreference = DietId | AllergenId;
+
+export interface DietaryOption<T extends DietaryPreference = DietaryPreference> {
+  id: T;
+  label: string;
+  emoji: string;
+}
+
+export interface DietaryConflict {
+  food: string;
+  preference: DietaryPreference;
+  label: string;
+  kind: 'allergen' | 'diet';
+}
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+export const DIET_OPTIONS: DietaryOption<DietId>[] = [
+  { id: 'vegetarian', label: 'Vegetarian', emoji: '🥗' },
+  { id: 'vegan', label: 'Vegan', emoji: '🌱' },
+  { id: 'pescatarian', label: 'Pescatarian', emoji: '🐟' },
+  { id: 'halal', label: 'Halal', emoji: '☪️' },
+  { id: 'kosher', label: 'Kosher', emoji: '✡️' },
+  { id: 'gluten_free', label: 'Gluten-free', emoji: '🌾' },
+  { id: 'dairy_free', label: 'Dairy-free', emoji: '🥛' },
+];
+
+export const ALLERGEN_OPTIONS: DietaryOption<AllergenId>[] = [
+  { id: 'peanuts', label: 'Peanuts', emoji: '🥜' },
+  { id: 'tree_nuts', label: 'Tree nuts', emoji: '🌰' },
+  { id: 'milk', label: 'Milk', emoji: '🧀' },
+  { id: 'eggs', label: 'Eggs', emoji: '🥚' },
+  { id: 'fish', label: 'Fish', emoji: '🐠' },
+  { id: 'shellfish', label: 'Shellfish', emoji: '🦐' },
+  { id: 'soy', label: 'Soy', emoji: '🫘' },
+  { id: 'wheat', label: 'Wheat', emoji: '🍞' },
+  { id: 'sesame', label: 'Sesame', emoji: '🌯' },
+];
+
+// ============================================================================
+// Food Groups
+// ============================================================================
+
+type FoodGroup =
+  | 'meat' | 'pork' | 'fish' | 'shellfish' | 'milk' | 'eggs' | 'honey' | 'alcohol'
+  | 'peanuts' | 'tree_nuts' | 'soy' | 'wheat' | 'gluten' | 'sesame';
+
+interface FoodGroupMatcher {
+  // Matched anywhere in the name, so compounds like "cheeseburger" count
+  keywords: string[];
+  // Phrases removed (with the word after them) before matching, e.g. "peanut
+  // butter" and "dairy-free cheese" are not dairy
+  except?: string[];
+  // Unrelated words that contain a keyword ("eggplant", "ginger"), removed on their own
+  ignore?: string[];
+}
+
+const PORK = ['pork', 'bacon', 'ham', 'prosciutto', 'pancetta', 'pepperoni', 'salami', 'chorizo', 'lard', 'pork rind'];
+const WHEAT = [
+  'wheat', 'bread', 'toast', 'bagel', 'bun', 'croissant', 'pasta', 'spaghetti', 'macaroni', 'noodle', 'flour',
+  'couscous', 'bulgur', 'cracker', 'pancake', 'waffle', 'muffin', 'pizza', 'naan', 'pita', 'cake', 'cookie', 'seitan',
+];
+const GLUTEN_FREE_PHRASES = ['gluten free', 'gluten-free', 'buckwheat', 'rice noodle', 'rice cake', 'rice cracker'];
+const NOT_WHEAT = ['cauliflower', 'pitaya', 'sweetbread', 'bunch', 'toasted', 'spaghetti squash'];
+
+const FOOD_GROUPS: Record<FoodGroup, FoodGroupMatcher> = {
+  pork: { keywords: PORK, ignore: ['hamburger', 'hamachi', 'graham', 'champagne', 'chamomile', 'collard'] },
+  meat: {
+    keywords: [
+      ...PORK, 'beef', 'steak', 'brisket', 'veal', 'lamb', 'mutton', 'goat', 'venison', 'chicken', 'turkey', 'duck',
+      'sausage', 'burger', 'meatball', 'jerky', 'hot dog', 'ribs', 'gelatin',
+    ],
+    except: ['veggie burger', 'veggie sausage', 'plant-based', 'plant based', 'beyond burger', 'impossible burger'],
+    ignore: ['graham', 'champagne', 'chamomile', 'collard', 'beefsteak tomato', 'goat cheese'],
+  },
+  fish: {
+    keywords: [
+      'fish', 'salmon', 'tuna', 'cod', 'tilapia', 'trout', 'halibut', 'sardine', 'anchovy', 'anchovies', 'mackerel',
+      'sea bass', 'haddock', 'swordfish', 'mahi mahi', 'catfish', 'pollock', 'caviar', 'fish sauce',
+    ],
+  },
+  shellfish: {
+    keywords: ['shrimp', 'prawn', 'crab', 'lobster', 'crawfish', 'crayfish', 'clam', 'mussel', 'oyster', 'scallop', 'squid', 'calamari', 'octopus'],
+    except: ['oyster mushroom'],
+    ignore: ['crab apple', 'scalloped'],
+  },
+  milk: {
+    keywords: [
+      'milk', 'buttermilk', 'cheese', 'butter', 'cream', 'yogurt', 'yoghurt', 'whey', 'casein', 'ghee', 'ice cream', 'mozzarella',
+      'cheddar', 'parmesan', 'feta', 'ricotta', 'paneer', 'latte', 'cappuccino', 'custard', 'kefir',
+    ],
+    except: [
+      'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'sunflower butter', 'cocoa butter', 'apple butter',
+      'almond milk', 'oat milk', 'soy milk', 'rice milk', 'coconut milk', 'coconut cream', 'dairy free', 'dairy-free',
+      'vegan cheese', 'vegan butter',
+    ],
+    ignore: ['butternut', 'butterhead', 'cream of tartar'],
+  },
+  eggs: {
+    keywords: ['egg', 'omelet', 'omelette', 'frittata', 'quiche', 'mayonnaise', 'mayo', 'meringue'],
+    ignore: ['eggplant', 'veggie', 'reggiano'],
+  },
+  honey: { keywords: ['honey'], ignore: ['honeydew', 'honeycrisp'] },
+  alcohol: {
+    keywords: ['beer', 'wine', 'vodka', 'whiskey', 'whisky', 'rum', 'gin', 'tequila', 'cocktail', 'sake', 'liquor'],
+    ignore: ['root beer', 'ginger beer', 'ginger', 'virgin', 'original', 'drumstick', 'crumb', 'rump'],
+  },
+  peanuts: { keywords: ['peanut', 'satay'] },
+  tree_nuts: {
+    keywords: ['almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut', 'nutella', 'praline', 'pesto'],
+  },
+  soy: { keywords: ['soy', 'soya', 'tofu', 'tempeh', 'edamame', 'miso', 'soybean'] },
+  wheat: { keywords: WHEAT, except: GLUTEN_FREE_PHRASES, ignore: NOT_WHEAT },
+  gluten: { keywords: [...WHEAT, 'barley', 'rye', 'malt', 'beer', 'soy sauce'], except: GLUTEN_FREE_PHRASES, ignore: [...NOT_WHEAT, 'root beer', 'ginger beer'] },
+  sesame: { keywords: ['sesame', 'tahini', 'hummus'] },
+};
+
+const EXCLUDED_GROUPS: Record<DietaryPreference, FoodGroup[]> = {
+  vegetarian: ['meat', 'fish', 'shellfish'],
+  vegan: ['meat', 'fish', 'shellfish', 'milk', 'eggs', 'honey'],
+  pescatarian: ['meat'],
+  halal: ['pork', 'alcohol'],
+  kosher: ['pork', 'shellfish'],
+  gluten_free: ['gluten'],
+  dairy_free: ['milk'],
+  peanuts: ['peanuts'],
+  tree_nuts: ['tree_nuts'],
+  milk: ['milk'],
+  eggs: ['eggs'],
+  fish: ['fish'],
+  shellfish: ['shellfish'],
+  soy: ['soy'],
+  wheat: ['wheat'],
+  sesame: ['sesame'],
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const ALL_OPTIONS: DietaryOption[] = [...DIET_OPTIONS, ...ALLERGEN_OPTIONS];
+const ALLERGEN_IDS = new Set<DietaryPreference>(ALLERGEN_OPTIONS.map(o => o.id));
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Spaces and hyphens are optional, so "peanut butter" also covers "peanutbutter"
+const phrasePattern = (phrases: string[]) =>
+  phrases.map(p => escapeRegExp(p).replace(/[\s-]+/g, '[\\s-]?')).join('|');
+
+// Substrings, so plurals and compounds match ("cheeseburger", "peanutbutter");
+// look-alike words are stripped first via each group's ignore list
+const GROUP_PATTERNS = Object.fromEntries(
+  Object.entries(FOOD_GROUPS).map(([group, { keywords, except = [], ignore = [] }]) => [group, {
+    match: new RegExp(phrasePattern(keywords), 'i'),
+    except: except.length > 0 ? new RegExp(`(?:${phrasePattern(except)})(?:\\s+\\w+)?`, 'gi') : null,
+    ignore: ignore.length > 0 ? new RegExp(phrasePattern(ignore), 'gi') : null,
+  }])
+) as Record<FoodGroup, { match: RegExp; except: RegExp | null; ignore: RegExp | null }>;
+
+function containsGroup(food: string, group: FoodGroup): boolean {
+  const { match, except, ignore } = GROUP_PATTERNS[group];
+  let name = except ? food.replace(except, ' ') : food;
+  if (ignore) name = name.replace(ignore, ' ');
+  return match.test(name);
+}
+
+export function isAllergen(id: DietaryPreference): id is AllergenId {
+  return ALLERGEN_IDS.has(id);
+}
+
+export function dietaryLabel(id: DietaryPreference): string {
+  return ALL_OPTIONS.find(o => o.id === id)?.label ?? id;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Keep only known ids, de-duplicated in catalog order. Accepts anything so it
+ * can clean a profile column or a request body.
+ */
+export function validateDietaryPreferences(raw: unknown): DietaryPreference[] {
+  if (!Array.isArray(raw)) return [];
+  const wanted = new Set(raw.filter((v): v is string => typeof v === 'string'));
+  return ALL_OPTIONS.filter(o => wanted.has(o.id)).map(o => o.id);
+}
+
+/**
+ * Human-readable restrictions for prompts and the meal planner,
+ * e.g. ["Vegetarian", "Peanut allergy"].
+ */
+export function dietaryRestrictionLabels(prefs: DietaryPreference[]): string[] {
+  return prefs.map(id => isAllergen(id) ? `${dietaryLabel(id)} allergy` : dietaryLabel(id));
+}
+
+/**
+ * Foods whose names suggest they conflict with a declared diet or allergen.
+ * Allergens are listed first; each food/preference pair is reported once.
+ */
+export function findDietaryConflicts(foods: string[], prefs: DietaryPreference[]): DietaryConflict[] {
+  const ordered = [...prefs.filter(isAllergen), ...prefs.filter(p => !isAllergen(p))];
+  const conflicts: DietaryConflict[] = [];
+  for (const preference of ordered) {
+    for (const food of foods) {
+      if (EXCLUDED_GROUPS[preference].some(group => containsGroup(food, group))) {
+        conflicts.push({
+          food,
+          preference,
+          label: dietaryLabel(preference),
+          kind: isAllergen(preference) ? 'allergen' : 'diet',
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * One line of prompt context, or '' when the user declared nothing (so
+ * prompts for everyone else are unchanged).
+ */
+export function formatDietaryContext(prefs: DietaryPreference[]): string {
+  const diets = prefs.filter(p => !isAllergen(p)).map(dietaryLabel);
+  const allergens = prefs.filter(isAllergen).map(dietaryLabel);
+  if (diets.length === 0 && allergens.length === 0) return '';
+
+  const parts: string[] = [];
+  if (diets.length > 0) parts.push(`Diet: ${diets.join(', ')}.`);
+  if (allergens.length > 0) parts.push(`Allergies: ${allergens.join(', ')}.`);
+  return `${parts.join(' ')} Point out any food that may conflict with these.`;
+}
+
+/**
+ * Markdown warning section for a meal analysis, or '' when nothing conflicts.
+ */
+export function formatDietaryAlert(conflicts: DietaryConflict[]): string {
+  if (conflicts.length === 0) return '';
+
+  const hasAllergen = conflicts.some(c => c.kind === 'allergen');
+  const lines = [hasAllergen ? '### ⚠️ Allergen Warning\n' : '### ⚠️ Diet Warning\n'];
+  for (const c of conflicts) {
+    lines.push(c.kind === 'allergen'
+      ? `- **${c.food}** may contain ${c.label.toLowerCase()} (on your allergy list)`
+      : `- **${c.food}** may not be ${c.label.toLowerCase()}`);
+  }
+  lines.push('\n*Matched on food names — check labels and ask how it was prepared.*\n');
+  return lines.join('\n');
+}
+
+/**
+ * Append the warning to AI-written markdown. Skips it if the markdown already
+ * has one (the two-phase photo analysis builds its own).
+ */
+export function appendDietaryAlert(markdown: string, foods: string[], prefs: DietaryPreference[]): string {
+  if (prefs.length === 0 || /### ⚠️ (Allergen|Diet) Warning/.test(markdown)) return markdown;
+  const alert = formatDietaryAlert(findDietaryConflicts(foods, prefs));
+  return alert ? `${markdown.trimEnd()}\n\n${alert}` : markdown;
+}
@@ -0,0 +1,179 @@
+/**
+ * Intermittent fasting — a daily eating window (e.g. 16:8 = eat 12:00–20:00)
+ * in the user's local time. Pure functions: no React, no API calls.
+ *
+ * Windows may cross midnight (e.g. 20:00–04:00 for night shifts). A meal at
+ * exactly the closing time still counts as inside the window.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FastingWindow {
+  start: string;  // HH:MM, eating window opens
+  end: string;    // HH:MM, eating window closes
+}
+
+export interface FastingPreset {
+  id: string;
+  label: string;
+  window: FastingWindow;
+}
+
+export interface FastingStatus {
+  state: 'eating' | 'fasting';
+  changesAt: Date;            // When the window next closes (eating) or opens (fasting)
+  fastingSince: Date | null;  // Last meal, or the window close if nothing was logged since it opened
+  progress: number;           // 0–1 through the current phase
+}
+
+export interface FastingAdherence {
+  window: FastingWindow;
+  daysLogged: number;          // Days with at least one meal
+  daysInWindow: number;        // Logged days where every meal was inside the window
+  mealsOutsideWindow: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const FASTING_PRESETS: FastingPreset[] = [
+  { id: '14:10', label: '14:10', window: { start: '09:00', end: '19:00' } },
+  { id: '16:8', label: '16:8', window: { start: '12:00', end: '20:00' } },
+  { id: '18:6', label: '18:6', window: { start: '12:00', end: '18:00' } },
+  { id: '20:4', label: '20:4', window: { start: '16:00', end: '20:00' } },
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60_000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+/** Next local time at `minutes` past midnight that is strictly after `from`. */
+function nextAt(from: Date, minutes: number): Date {
+  const d = new Date(from);
+  d.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  if (d <= from) d.setDate(d.getDate() + 1);
+  return d;
+}
+
+/** Latest local time at `minutes` past midnight at or before `from`. */
+function previousAt(from: Date, minutes: number): Date {
+  const d = new Date(from);
+  d.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  if (d > from) d.setDate(d.getDate() - 1);
+  return d;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * A window with two valid HH:MM times that differ, or null. Accepts anything
+ * so it can clean a profile column or a request body.
+ */
+export function validateFastingWindow(raw: unknown): FastingWindow | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { start, end } = raw as Record<string, unknown>;
+  if (typeof start !== 'string' || typeof end !== 'string') return null;
+  if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) || start === end) return null;
+  return { start, end };
+}
+
+export function eatingWindowHours(window: FastingWindow): number {
+  const minutes = (toMinutes(window.end) - toMinutes(window.start) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return Math.round((minutes / 60) * 10) / 10;
+}
+
+/** "16:8 (12:00–20:00)" */
+export function formatFastingWindow(window: FastingWindow): string {
+  const eating = eatingWindowHours(window);
+  return `${Math.round((24 - eating) * 10) / 10}:${eating} (${window.start}–${window.end})`;
+}
+
+export function isInEatingWindow(date: Date, window: FastingWindow): boolean {
+  const m = minutesOfDay(date);
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  return start < end ? m >= start && m <= end : m >= start || m <= end;
+}
+
+/**
+ * Where the user is right now. While fasting, the fast is timed from their
+ * last meal if they ate during the most recent window, otherwise from when
+ * that window closed (so an unlogged day doesn't show a 40-hour fast).
+ */
+export function getFastingStatus(now: Date, window: FastingWindow, lastMealAt: Date | null): FastingStatus {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  if (isInEatingWindow(now, window)) {
+    const opened = previousAt(now, start);
+    const closes = nextAt(now, end);
+    return {
+      state: 'eating',
+      changesAt: closes,
+      fastingSince: null,
+      progress: (now.getTime() - opened.getTime()) / (closes.getTime() - opened.getTime()),
+    };
+  }
+
+  const closed = previousAt(now, end);
+  const opened = new Date(closed.getTime() - eatingWindowHours(window) * 60 * MINUTE_MS);
+  const fastingSince = lastMealAt && lastMealAt >= opened && lastMealAt <= now ? lastMealAt : closed;
+  const opens = nextAt(now, start);
+  return {
+    state: 'fasting',
+    changesAt: opens,
+    fastingSince,
+    progress: (now.getTime() - fastingSince.getTime()) / (opens.getTime() - fastingSince.getTime()),
+  };
+}
+
+/**
+ * Fasting adherence over the given days (YYYY-MM-DD). Meals are grouped by
+ * their logged date and checked by their logged time.
+ */
+export function summarizeFastingAdherence(
+  meals: { date: string; created_at: string }[],
+  window: FastingWindow,
+  dates: string[]
+): FastingAdherence {
+  let daysLogged = 0;
+  let daysInWindow = 0;
+  let mealsOutsideWindow = 0;
+
+  for (const date of dates) {
+    const dayMeals = meals.filter(m => m.date === date);
+    if (dayMeals.length === 0) continue;
+    daysLogged++;
+    const outside = dayMeals.filter(m => !isInEatingWindow(new Date(m.created_at), window)).length;
+    mealsOutsideWindow += outside;
+    if (outside === 0) daysInWindow++;
+  }
+
+  return { window, daysLogged, daysInWindow, mealsOutsideWindow };
+}
+
+/** Prompt section for the weekly nutrition analysis. */
+export function describeFastingAdherence(adherence: FastingAdherence): string {
+  return [
+    `FASTING WINDOW: ${formatFastingWindow(adherence.window)}`,
+    `- ${adherence.daysInWindow}/${adherence.daysLogged} logged days ate only inside the window`,
+    `- ${adherence.mealsOutsideWindow} meals logged outside the window`,
+    'Comment on how well they kept to the eating window.',
+  ].join('\n');
+}
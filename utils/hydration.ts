@@ -0,0 +1,74 @@
+/**
+ * Hydration — daily water target and intake totals.
+ * Pure functions: no React, no API calls.
+ *
+ * Amounts are stored in ml and shown in US fl oz, matching the app's lbs/inches.
+ * The target follows the common half-an-ounce-per-pound guideline, plus extra
+ * on training days to cover sweat losses.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HydrationEntry {
+  id: string;
+  user_id: string;
+  date: string;        // YYYY-MM-DD, local day the water was logged for
+  amount_ml: number;
+  created_at: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ML_PER_FL_OZ = 29.5735;
+
+/** Quick-add buttons, in fl oz (glass, can, bottle, large bottle) */
+export const HYDRATION_QUICK_ADD_OZ = [8, 12, 16, 24];
+
+const OZ_PER_LB = 0.5;
+const DEFAULT_TARGET_ML = 2500;      // No weight on the profile
+const TRAINING_DAY_EXTRA_ML = 500;
+const MIN_TARGET_ML = 1500;
+const MAX_TARGET_ML = 5000;
+
+// Without a log in this long, the user isn't tracking water and intake is unknown (not zero)
+const TRACKING_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+export const ozToMl = (oz: number): number => Math.round(oz * ML_PER_FL_OZ);
+
+export const mlToOz = (ml: number): number => Math.round(ml / ML_PER_FL_OZ);
+
+/** "64 oz" */
+export const formatWater = (ml: number): string => `${mlToOz(ml)} oz`;
+
+/** Daily water target in ml, rounded to 50 ml. */
+export function calculateHydrationTarget(weightLbs: number | null, isTrainingDay: boolean): number {
+  const base = weightLbs && weightLbs > 0 ? weightLbs * OZ_PER_LB * ML_PER_FL_OZ : DEFAULT_TARGET_ML;
+  const target = base + (isTrainingDay ? TRAINING_DAY_EXTRA_ML : 0);
+  return Math.round(Math.min(MAX_TARGET_ML, Math.max(MIN_TARGET_ML, target)) / 50) * 50;
+}
+
+export function totalForDate(entries: HydrationEntry[], date: string): number {
+  return entries.reduce((sum, e) => (e.date === date ? sum + e.amount_ml : sum), 0);
+}
+
+/**
+ * Water over the last 24 hours as a percent of the daily target, or null when
+ * nothing was logged in the past week (so non-trackers don't read as dehydrated).
+ * Rolling rather than "today" so a morning check-in isn't judged on an empty day.
+ */
+export function recentHydrationPercent(entries: HydrationEntry[], targetMl: number, now: number = Date.now()): number | null {
+  if (targetMl <= 0) return null;
+  const times = entries.map(e => ({ at: Date.parse(e.created_at), ml: e.amount_ml }));
+  if (!times.some(t => t.at > now - TRACKING_LOOKBACK_MS && t.at <= now)) return null;
+  const lastDay = times.reduce((sum, t) => (t.at > now - DAY_MS && t.at <= now ? sum + t.ml : sum), 0);
+  return Math.round((lastDay / targetMl) * 100);
+}
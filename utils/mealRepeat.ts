@@ -0,0 +1,66 @@
+/**
+ * Copy / move / repeat meals across days — target date helpers.
+ * Pure functions: no React, no API calls. Dates are local YYYY-MM-DD strings.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RepeatPattern =
+  | 'weekly'     // Same day of the week, e.g. every Monday
+  | 'weekdays';  // Every Monday–Friday
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_REPEAT_WEEKS = 12;
+
+/** Upper bound on meal entries created by one copy/repeat */
+export const MAX_MEAL_COPIES = 200;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const parseDate = (date: string): Date => new Date(`${date}T00:00:00`);
+
+const formatDate = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+export function addDays(date: string, days: number): string {
+  const d = parseDate(date);
+  d.setDate(d.getDate() + days);
+  return formatDate(d);
+}
+
+/** The same local time of day as `iso`, on `date`. Keeps copied meals' timing (e.g. for fasting windows). */
+export function withDate(iso: string, date: string): string {
+  const source = new Date(iso);
+  const d = parseDate(date);
+  if (isNaN(source.getTime())) return d.toISOString();
+  d.setHours(source.getHours(), source.getMinutes(), source.getSeconds(), source.getMilliseconds());
+  return d.toISOString();
+}
+
+/**
+ * Dates to repeat a day onto, starting the day after `from` and covering
+ * `weeks` weeks. `from` itself is never included.
+ */
+export function repeatDates(from: string, pattern: RepeatPattern, weeks: number): string[] {
+  const span = Math.max(1, Math.min(MAX_REPEAT_WEEKS, Math.floor(weeks))) * 7;
+  const dates: string[] = [];
+  for (let i = 1; i <= span; i++) {
+    if (pattern === 'weekly' && i % 7 !== 0) continue;
+    const date = addDays(from, i);
+    const weekday = parseDate(date).getDay();
+    if (pattern === 'weekdays' && (weekday === 0 || weekday === 6)) continue;
+    dates.push(date);
+  }
+  return dates;
+}
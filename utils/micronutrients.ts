@@ -0,0 +1,186 @@
+/**
+ * Micronutrients — pure functions for fiber, sugar, minerals and vitamins.
+ * No React, no API calls. Deterministic and testable.
+ *
+ * Amounts come from USDA matches in photo scans (lib/ai/usdaIntegration.ts);
+ * text and barcode meals don't carry them yet, so a day's totals are a floor.
+ * Weekly averages only count days where every meal had data.
+ */
+
+import type { Micronutrients } from '../lib/ai/types';
+
+export type MicronutrientKey = keyof Micronutrients;
+
+export const MICRONUTRIENT_KEYS: MicronutrientKey[] = [
+  'fiber', 'sugar', 'sodium', 'potassium', 'iron', 'calcium', 'vitaminC', 'vitaminD',
+];
+
+interface MicronutrientInfo {
+  label: string;
+  unit: 'g' | 'mg' | 'µg';
+  column: string;   // meal_entries column
+  limit: boolean;   // Target is a ceiling, not a minimum
+}
+
+export const MICRONUTRIENT_INFO: Record<MicronutrientKey, MicronutrientInfo> = {
+  fiber: { label: 'Fiber', unit: 'g', column: 'fiber', limit: false },
+  sugar: { label: 'Sugar', unit: 'g', column: 'sugar', limit: true },
+  sodium: { label: 'Sodium', unit: 'mg', column: 'sodium', limit: true },
+  potassium: { label: 'Potassium', unit: 'mg', column: 'potassium', limit: false },
+  iron: { label: 'Iron', unit: 'mg', column: 'iron', limit: false },
+  calcium: { label: 'Calcium', unit: 'mg', column: 'calcium', limit: false },
+  vitaminC: { label: 'Vitamin C', unit: 'mg', column: 'vitamin_c', limit: false },
+  vitaminD: { label: 'Vitamin D', unit: 'µg', column: 'vitamin_d', limit: false },
+};
+
+// Flag a minimum when the weekly average is under 70% of target
+const SHORTFALL_RATIO = 0.7;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function mapMicros(fn: (key: MicronutrientKey) => number): Micronutrients {
+  const result = {} as Micronutrients;
+  for (const key of MICRONUTRIENT_KEYS) result[key] = fn(key);
+  return result;
+}
+
+// ============================================================================
+// Arithmetic
+// ============================================================================
+
+/** Scale per-100 g (or per-portion) amounts, e.g. by portionGrams / 100 */
+export function scaleMicronutrients(micros: Micronutrients, scale: number): Micronutrients {
+  return mapMicros(key => round1(micros[key] * scale));
+}
+
+/** Sum the foods/meals that have data. Undefined when none do. */
+export function sumMicronutrients(items: (Micronutrients | null | undefined)[]): Micronutrients | undefined {
+  const known = items.filter((m): m is Micronutrients => !!m);
+  if (known.length === 0) return undefined;
+  return mapMicros(key => round1(known.reduce((sum, m) => sum + (m[key] || 0), 0)));
+}
+
+/**
+ * Average over the days where every meal had data. A day with unscanned meals
+ * only has a floor for its intake, so averaging it in would show shortfalls
+ * that aren't there; those days are counted as partial instead.
+ */
+export function averageCompleteDays(
+  days: { micros?: Micronutrients; microsComplete?: boolean }[],
+): { average: Micronutrients | undefined; completeDays: number; partialDays: number } {
+  const complete = days.filter(d => d.micros && d.microsComplete).map(d => d.micros);
+  const partialDays = days.filter(d => d.micros && !d.microsComplete).length;
+  const total = sumMicronutrients(complete);
+  return {
+    average: total && scaleMicronutrients(total, 1 / complete.length),
+    completeDays: complete.length,
+    partialDays,
+  };
+}
+
+// ============================================================================
+// Database Rows
+// ============================================================================
+
+/** Read micronutrient columns from a meal_entries row. Null when never measured. */
+export function microsFromRow(row: Record<string, unknown>): Micronutrients | null {
+  if (MICRONUTRIENT_KEYS.every(key => row[MICRONUTRIENT_INFO[key].column] == null)) return null;
+  return mapMicros(key => Number(row[MICRONUTRIENT_INFO[key].column]) || 0);
+}
+
+/** Micronutrient columns for a meal_entries insert; all null when unknown. */
+export function microsToRow(micros: Micronutrients | null | undefined): Record<string, number | null> {
+  const row: Record<string, number | null> = {};
+  for (const key of MICRONUTRIENT_KEYS) {
+    row[MICRONUTRIENT_INFO[key].column] = micros ? round1(micros[key]) : null;
+  }
+  return row;
+}
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+/**
+ * Daily micronutrient targets from the profile, based on the US Dietary
+ * Reference Intakes. Fiber scales with calories (14 g / 1000 kcal) and sugar
+ * is capped at 10% of calories; sodium is a 2300 mg ceiling. Without gender
+ * the FDA label Daily Values are used, mirroring the generic macro defaults.
+ */
+export function calculateMicronutrientTargets(
+  profile: { age: number | null; gender: 'male' | 'female' | null },
+  calories: number,
+): Micronutrients {
+  const age = profile.age ?? 30;
+  const teen = age < 19;
+  const base = {
+    fiber: Math.round((calories / 1000) * 14),
+    sugar: Math.round((calories * 0.1) / 4),
+    sodium: 2300,
+  };
+
+  if (profile.gender === 'male') {
+    return {
+      ...base,
+      potassium: teen ? 3000 : 3400,
+      iron: teen ? 11 : 8,
+      calcium: teen ? 1300 : age > 70 ? 1200 : 1000,
+      vitaminC: teen ? 75 : 90,
+      vitaminD: age > 70 ? 20 : 15,
+    };
+  }
+  if (profile.gender === 'female') {
+    return {
+      ...base,
+      potassium: teen ? 2300 : 2600,
+      iron: teen ? 15 : age > 50 ? 8 : 18,
+      calcium: teen ? 1300 : age > 50 ? 1200 : 1000,
+      vitaminC: teen ? 65 : 75,
+      vitaminD: age > 70 ? 20 : 15,
+    };
+  }
+  return { ...base, potassium: 4700, iron: 18, calcium: 1300, vitaminC: 90, vitaminD: 20 };
+}
+
+// ============================================================================
+// Shortfalls
+// ============================================================================
+
+export interface MicronutrientFlag {
+  key: MicronutrientKey;
+  label: string;
+  unit: string;
+  intake: number;
+  target: number;
+  percent: number;              // intake as % of target
+  kind: 'shortfall' | 'excess';
+}
+
+/**
+ * Nutrients to call out: minimums under 70% of target and ceilings over 100%.
+ * Worst first.
+ */
+export function findMicronutrientFlags(intake: Micronutrients, targets: Micronutrients): MicronutrientFlag[] {
+  const flags: MicronutrientFlag[] = [];
+  for (const key of MICRONUTRIENT_KEYS) {
+    const target = targets[key];
+    if (!target) continue;
+    const info = MICRONUTRIENT_INFO[key];
+    const ratio = intake[key] / target;
+    const kind = info.limit
+      ? (ratio > 1 ? 'excess' : null)
+      : (ratio < SHORTFALL_RATIO ? 'shortfall' : null);
+    if (!kind) continue;
+    flags.push({
+      key,
+      label: info.label,
+      unit: info.unit,
+      intake: intake[key],
+      target,
+      percent: Math.round(ratio * 100),
+      kind,
+    });
+  }
+  // Distance from 100%, largest first
+  return flags.sort((a, b) => Math.abs(b.percent - 100) - Math.abs(a.percent - 100));
+}
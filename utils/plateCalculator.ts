@@ -0,0 +1,144 @@
+/**
+ * Plate calculator — which plates to load on each side of a barbell for a
+ * target weight, from the user's plate inventory. Pure functions: no React,
+ * no API calls.
+ *
+ * Works in the inventory's own unit (a kg gym has kg plates), so the target
+ * is passed in that unit too. Plates are counted in pairs, one per side.
+ */
+
+import type { WeightUnit } from './units';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PlateStock {
+  weight: number;   // One plate
+  pairs: number;    // Plates available per side
+}
+
+export interface PlateInventory {
+  unit: WeightUnit;
+  bar: number;
+  plates: PlateStock[];
+}
+
+export interface PlateLoad {
+  perSide: number[];    // Heaviest first
+  loaded: number;       // Bar + both sides
+  remainder: number;    // Target minus loaded; > 0 when the inventory can't make it exactly
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_PLATE_INVENTORIES: Record<WeightUnit, PlateInventory> = {
+  lbs: {
+    unit: 'lbs',
+    bar: 45,
+    plates: [
+      { weight: 45, pairs: 4 },
+      { weight: 35, pairs: 1 },
+      { weight: 25, pairs: 1 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 1 },
+      { weight: 2.5, pairs: 1 },
+    ],
+  },
+  kg: {
+    unit: 'kg',
+    bar: 20,
+    plates: [
+      { weight: 25, pairs: 4 },
+      { weight: 20, pairs: 1 },
+      { weight: 15, pairs: 1 },
+      { weight: 10, pairs: 1 },
+      { weight: 5, pairs: 1 },
+      { weight: 2.5, pairs: 1 },
+      { weight: 1.25, pairs: 1 },
+    ],
+  },
+};
+
+const MAX_PAIRS = 20;
+const MAX_PLATE_SIZES = 12;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Floating-point noise from 1.25 / 2.5 plates */
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const isPositive = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n > 0;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Greedy heaviest-first load for `target`. Null when the target is lighter
+ * than the empty bar. If the inventory can't reach the target exactly, loads
+ * the closest weight under it and reports the rest as `remainder`.
+ */
+export function calculatePlates(target: number, inventory: PlateInventory): PlateLoad | null {
+  if (!isPositive(target) || target < inventory.bar) return null;
+
+  let perSideLeft = round2((target - inventory.bar) / 2);
+  const perSide: number[] = [];
+  const plates = [...inventory.plates].sort((a, b) => b.weight - a.weight);
+
+  for (const { weight, pairs } of plates) {
+    let available = pairs;
+    while (available > 0 && weight <= perSideLeft + 1e-9) {
+      perSide.push(weight);
+      perSideLeft = round2(perSideLeft - weight);
+      available--;
+    }
+  }
+
+  const loaded = round2(inventory.bar + 2 * perSide.reduce((sum, w) => sum + w, 0));
+  return { perSide, loaded, remainder: round2(target - loaded) };
+}
+
+/** "45 + 25 + 2.5" per side, or "Empty bar" */
+export function formatPlates(perSide: number[]): string {
+  return perSide.length > 0 ? perSide.join(' + ') : 'Empty bar';
+}
+
+/** Typed bar or plate weight; null unless it's a positive number (2 decimals kept) */
+export function parsePlateWeight(raw: string): number | null {
+  const value = parseFloat(raw.replace(',', '.'));
+  return isPositive(value) ? round2(value) : null;
+}
+
+/** Add a plate size (one pair to start). No-op if it's already there or the list is full. */
+export function addPlate(inventory: PlateInventory, weight: number): PlateInventory {
+  if (!isPositive(weight) || inventory.plates.length >= MAX_PLATE_SIZES) return inventory;
+  if (inventory.plates.some(p => p.weight === weight)) return inventory;
+  const plates = [...inventory.plates, { weight, pairs: 1 }].sort((a, b) => b.weight - a.weight);
+  return { ...inventory, plates };
+}
+
+export function removePlate(inventory: PlateInventory, weight: number): PlateInventory {
+  return { ...inventory, plates: inventory.plates.filter(p => p.weight !== weight) };
+}
+
+/**
+ * Untrusted inventory (localStorage) for `unit`. Falls back to the default
+ * inventory for the unit when it's malformed or was set up in the other unit.
+ */
+export function validatePlateInventory(raw: unknown, unit: WeightUnit): PlateInventory {
+  const fallback = DEFAULT_PLATE_INVENTORIES[unit];
+  if (!raw || typeof raw !== 'object') return fallback;
+  const { unit: rawUnit, bar, plates } = raw as Record<string, unknown>;
+  if (rawUnit !== unit || !isPositive(bar) || !Array.isArray(plates)) return fallback;
+
+  const valid = plates
+    .filter((p): p is PlateStock => !!p && isPositive(p.weight) && Number.isInteger(p.pairs) && p.pairs >= 0)
+    .map(p => ({ weight: p.weight, pairs: Math.min(p.pairs, MAX_PAIRS) }))
+    .sort((a, b) => b.weight - a.weight);
+  return { unit, bar, plates: valid };
+}
@@ -0,0 +1,177 @@
+/**
+ * Per-set logging — set types, effort (RPE / RIR) and tempo.
+ * Pure functions: no React, no API calls.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SetType = 'warmup' | 'working' | 'drop' | 'failure' | 'amrap';
+
+/** One completed set as persisted in the `workouts.exercises` JSON */
+export interface LoggedSet {
+  reps: number;
+  weight: number;     // lbs; 0 for bodyweight
+  type: SetType;
+  rpe?: number;       // 1–10 in 0.5 steps
+  rir?: number;       // Reps in reserve, 0–10
+  tempo?: string;     // e.g. "3-1-1-0" or "31X0"
+}
+
+/** Recent effort on one exercise, fed to AI workout generation */
+export interface ExerciseEffort {
+  name: string;
+  sessions: number;   // Sessions with at least one rated working set
+  avgRpe: number;     // Across those sessions' working sets, 1 decimal
+  lastRpe: number;    // Most recent session's average, 1 decimal
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SET_TYPES: { value: SetType; label: string; short: string }[] = [
+  { value: 'warmup', label: 'Warm-up', short: 'W' },
+  { value: 'working', label: 'Working', short: '' },
+  { value: 'drop', label: 'Drop set', short: 'D' },
+  { value: 'failure', label: 'Failure', short: 'F' },
+  { value: 'amrap', label: 'AMRAP', short: 'A' },
+];
+
+/** Sessions per exercise considered for effort history */
+const EFFORT_SESSIONS = 3;
+/** Exercises listed in the AI prompt */
+const MAX_EFFORT_EXERCISES = 8;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const SET_TYPE_VALUES = new Set<string>(SET_TYPES.map(t => t.value));
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+export function isSetType(value: unknown): value is SetType {
+  return typeof value === 'string' && SET_TYPE_VALUES.has(value);
+}
+
+export function setTypeLabel(type: SetType): string {
+  return SET_TYPES.find(t => t.value === type)?.label ?? 'Working';
+}
+
+/** RPE 1–10 rounded to the nearest half point, or undefined */
+export function parseRpe(value: unknown): number | undefined {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(n) || n < 1 || n > 10) return undefined;
+  return Math.round(n * 2) / 2;
+}
+
+/** Whole reps in reserve 0–10, or undefined */
+export function parseRir(value: unknown): number | undefined {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(n) || n < 0 || n > 10) return undefined;
+  return Math.round(n);
+}
+
+/**
+ * Four-phase tempo (eccentric, bottom pause, concentric, top pause), with or
+ * without dashes. "X" means explosive. Returns the normalized "3-1-X-0" form.
+ */
+export function parseTempo(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const compact = value.trim().toUpperCase().replace(/[\s-]/g, '');
+  if (!/^[0-9X]{4}$/.test(compact)) return undefined;
+  return compact.split('').join('-');
+}
+
+/** Logged RPE, else derived from RIR (RPE ≈ 10 − RIR) */
+export function effectiveRpe(set: Pick<LoggedSet, 'rpe' | 'rir'>): number | undefined {
+  if (set.rpe !== undefined) return set.rpe;
+  if (set.rir !== undefined) return Math.max(1, 10 - set.rir);
+  return undefined;
+}
+
+/** Warm-ups prime the lift; they don't count toward training volume */
+export function countsTowardVolume(set: Pick<LoggedSet, 'type'>): boolean {
+  return set.type !== 'warmup';
+}
+
+/** Clean up an untrusted set (e.g. from stored JSON). Null if reps are missing. */
+export function validateLoggedSet(raw: unknown): LoggedSet | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const reps = Math.round(Number(r.reps));
+  if (!Number.isFinite(reps) || reps <= 0) return null;
+  const weight = Number(r.weight);
+
+  const set: LoggedSet = {
+    reps,
+    weight: Number.isFinite(weight) && weight > 0 ? weight : 0,
+    type: isSetType(r.type) ? r.type : 'working',
+  };
+  const rpe = parseRpe(r.rpe);
+  const rir = parseRir(r.rir);
+  const tempo = parseTempo(r.tempo);
+  if (rpe !== undefined) set.rpe = rpe;
+  if (rir !== undefined) set.rir = rir;
+  if (tempo !== undefined) set.tempo = tempo;
+  return set;
+}
+
+/** "135 × 8 @ RPE 8" / "135 × 8 · 2 RIR" */
+export function formatLoggedSet(set: LoggedSet): string {
+  const load = set.weight > 0 ? `${set.weight} × ${set.reps}` : `${set.reps} reps`;
+  if (set.rpe !== undefined) return `${load} @ RPE ${set.rpe}`;
+  if (set.rir !== undefined) return `${load} · ${set.rir} RIR`;
+  return load;
+}
+
+/**
+ * Average working-set RPE per exercise over its last few sessions.
+ * `workouts` is newest first; sets without RPE or RIR are ignored.
+ */
+export function summarizeEffort(
+  workouts: { log: { name: string; loggedSets?: LoggedSet[] }[] }[]
+): ExerciseEffort[] {
+  const sessionsByName = new Map<string, { name: string; averages: number[] }>();
+
+  for (const workout of workouts) {
+    for (const ex of workout.log) {
+      const rated = (ex.loggedSets ?? [])
+        .filter(countsTowardVolume)
+        .map(effectiveRpe)
+        .filter((rpe): rpe is number => rpe !== undefined);
+      if (rated.length === 0) continue;
+
+      const key = ex.name.trim().toLowerCase();
+      const entry = sessionsByName.get(key) ?? { name: ex.name.trim(), averages: [] };
+      if (entry.averages.length >= EFFORT_SESSIONS) continue;
+      entry.averages.push(rated.reduce((a, b) => a + b, 0) / rated.length);
+      sessionsByName.set(key, entry);
+    }
+  }
+
+  return [...sessionsByName.values()]
+    .slice(0, MAX_EFFORT_EXERCISES)
+    .map(({ name, averages }) => ({
+      name,
+      sessions: averages.length,
+      avgRpe: round1(averages.reduce((a, b) => a + b, 0) / averages.length),
+      lastRpe: round1(averages[0]),
+    }));
+}
+
+/** Prompt block for AI workout generation */
+export function describeEffort(efforts: ExerciseEffort[]): string {
+  const lines = efforts.map(e =>
+    `- ${e.name}: last session RPE ${e.lastRpe}, average RPE ${e.avgRpe} over ${e.sessions} session${e.sessions !== 1 ? 's' : ''}`
+  );
+  return `RECENT EFFORT (working sets, RPE 10 = failure):
+${lines.join('\n')}
+Use this to set loads and intensity: push harder where RPE has been low (≤7), hold or back off where it has been high (≥9).`;
+}
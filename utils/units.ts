@@ -0,0 +1,78 @@
+/**
+ * Unit system — lbs / ft-in (imperial) or kg / cm (metric) for display and input.
+ * Pure functions: no React, no API calls.
+ *
+ * Storage is always canonical (lbs, inches). Convert at the edges: `toDisplay*`
+ * when rendering a stored value, `fromDisplay*` when saving what the user typed.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export type WeightUnit = 'lbs' | 'kg';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string; detail: string }[] = [
+  { value: 'imperial', label: 'Imperial', detail: 'lbs, ft/in' },
+  { value: 'metric', label: 'Metric', detail: 'kg, cm' },
+];
+
+export const LBS_PER_KG = 2.20462;
+export const CM_PER_INCH = 2.54;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/** Untrusted value (profile row) to a unit system; anything unknown is imperial */
+export function validateUnitSystem(raw: unknown): UnitSystem {
+  return raw === 'metric' ? 'metric' : 'imperial';
+}
+
+export function weightUnit(system: UnitSystem): WeightUnit {
+  return system === 'metric' ? 'kg' : 'lbs';
+}
+
+/** Stored lbs to the user's unit, 1 decimal */
+export function toDisplayWeight(lbs: number, system: UnitSystem): number {
+  return round1(system === 'metric' ? lbs / LBS_PER_KG : lbs);
+}
+
+/**
+ * Typed weight in the user's unit to lbs for storage (1 decimal). kg values
+ * are rounded so a stored weight shown back in kg reads as what was typed.
+ */
+export function fromDisplayWeight(value: number, system: UnitSystem): number {
+  return round1(system === 'metric' ? value * LBS_PER_KG : value);
+}
+
+/** "185 lbs" / "83.9 kg" */
+export function formatWeight(lbs: number, system: UnitSystem): string {
+  return `${toDisplayWeight(lbs, system).toLocaleString()} ${weightUnit(system)}`;
+}
+
+export function inchesToCm(inches: number): number {
+  return Math.round(inches * CM_PER_INCH);
+}
+
+export function cmToInches(cm: number): number {
+  return Math.round(cm / CM_PER_INCH);
+}
+
+/** `5'10"` / "178 cm" */
+export function formatHeight(inches: number, system: UnitSystem): string {
+  if (system === 'metric') return `${inchesToCm(inches)} cm`;
+  return `${Math.floor(inches / 12)}'${Math.round(inches % 12)}"`;
+}
@@ -2,6 +2,8 @@
  * Workout utility functions for consistent calculations across the app.
  */
 
+import { countsTowardVolume, type LoggedSet } from './setTypes';
+
 /**
  * Parse reps string into estimated total reps per set.
  * Handles various formats:
@@ -89,13 +91,22 @@ export function parseSets(sets: string | number | undefined | null): number {
  * Calculate total volume for a set of exercise logs.
  * Volume = Sets × Reps × Weight
  *
+ * Exercises with per-set data (`loggedSets`) use the actual sets, excluding
+ * warm-ups; older logs fall back to the sets/reps/weight strings.
+ *
  * @param exercises - Array of exercise objects with sets, reps, weight
  * @returns Total volume in lbs
  */
 export function calculateTotalVolume(
-  exercises: Array<{ sets: string | number; reps: string; weight?: string | number }>
+  exercises: Array<{ sets: string | number; reps: string; weight?: string | number; loggedSets?: LoggedSet[] }>
 ): number {
   return exercises.reduce((total, ex) => {
+    if (ex.loggedSets && ex.loggedSets.length > 0) {
+      return total + ex.loggedSets
+        .filter(countsTowardVolume)
+        .reduce((sum, set) => sum + set.reps * set.weight, 0);
+    }
+
     const sets = parseSets(ex.sets);
     const reps = parseReps(ex.reps);
     const weight = typeof ex.weight === 'number'
@@ -106,6 +117,37 @@ export function calculateTotalVolume(
   }, 0);
 }
 
+/**
+ * Count sets performed, from per-set data when present (warm-ups included).
+ *
+ * @param exercises - Array of exercise objects with sets and optional loggedSets
+ * @returns Total number of sets
+ */
+export function calculateTotalSets(
+  exercises: Array<{ sets: string | number; loggedSets?: LoggedSet[] }>
+): number {
+  return exercises.reduce((total, ex) =>
+    total + (ex.loggedSets && ex.loggedSets.length > 0 ? ex.loggedSets.length : parseSets(ex.sets)), 0);
+}
+
+/**
+ * Count reps performed, from per-set data when present (warm-ups excluded,
+ * matching volume). Older logs fall back to the "8, 8, 6" reps string.
+ *
+ * @param exercises - Array of exercise objects with reps and optional loggedSets
+ * @returns Total reps
+ */
+export function calculateTotalReps(
+  exercises: Array<{ reps: string; loggedSets?: LoggedSet[] }>
+): number {
+  return exercises.reduce((total, ex) => {
+    if (ex.loggedSets && ex.loggedSets.length > 0) {
+      return total + ex.loggedSets.filter(countsTowardVolume).reduce((sum, set) => sum + set.reps, 0);
+    }
+    return total + ex.reps.split(',').reduce((sum, r) => sum + (parseInt(r.trim()) || 0), 0);
+  }, 0);
+}
+
 /**
  * Calculate rep volume (sets × reps, no weight).
  * Useful for bodyweight exercises or plan comparison.